@@ -1,20 +1,50 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { BookOpen, Pencil, Upload, Split, Plus, MessageSquare, Download, Menu, FileSpreadsheet, SaveAll, Palette, X, Trash2, Copy, Edit, ZoomIn, ZoomOut, Share2, Lock, Unlock, Link as LinkIcon, Check, Moon, Sun, ShieldCheck, Calculator, Clock, Calendar, ListChecks, Eye } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { BookOpen, Pencil, Upload, Split, Plus, MessageSquare, Download, Menu, FileSpreadsheet, SaveAll, Palette, X, Trash2, Copy, Edit, ZoomIn, ZoomOut, Share2, Lock, Unlock, Link as LinkIcon, Check, Moon, Sun, ShieldCheck, Calculator, Clock, Calendar, ListChecks, Eye, SlidersHorizontal, Undo2, Redo2, Cloud, CloudOff, Loader2, ArrowUpDown, Filter, Merge, ArrowUpFromLine, FileText, Printer, ChartColumn, Radio, History, ScrollText, ShieldAlert } from 'lucide-react';
 import Spreadsheet from './components/Spreadsheet';
 import AIAssistant from './components/AIAssistant';
-import { Sheet, SheetData, ConditionalRule, ConditionType, ConditionalStyle, ValidationRule, ValidationType } from './types';
-import { parseExcelFile, splitSheetByColumn, generateUUID } from './utils/excelUtils';
+import StatisticsPanel from './components/StatisticsPanel';
+import GradingSchemeModal from './components/GradingSchemeModal';
+import SortModal from './components/SortModal';
+import MergeSheetsModal from './components/MergeSheetsModal';
+import SplitSheetModal from './components/SplitSheetModal';
+import ReportCardModal, { ReportCardOutput } from './components/ReportCardModal';
+import PrintModal, { PrintOutput } from './components/PrintModal';
+import ImportWizard from './components/ImportWizard';
+import ExportModal, { ExportScope } from './components/ExportModal';
+import VersionHistoryModal from './components/VersionHistoryModal';
+import AuditLogModal from './components/AuditLogModal';
+import ConditionalFormatModal from './components/ConditionalFormatModal';
+import DataValidationModal from './components/DataValidationModal';
+import DataCheckPanel from './components/DataCheckPanel';
+import { ImportSource, readCsvSource, readWorkbookFile } from './utils/importUtils';
+import { buildWorkbook, buildZip, CsvOptions, DEFAULT_CSV_OPTIONS, detectCsvOptions, downloadFile, encodeText, ExportFormat, isCsvFileName, isJsonFileName, parseWorkbookJSON, printPdf, saveXlsxFile, serializeWorkbook, sheetToCSV } from './utils/fileFormats';
+import FindReplacePanel, { SearchScope } from './components/FindReplacePanel';
+import { useWorkbookHistory } from './hooks/useWorkbookHistory';
+import { createWorkbookSaver, deleteSnapshot, listSnapshots, loadWorkbook, readLegacySheets, saveSnapshots, SaveStatus } from './services/storageService';
+import { createLiveSync, LiveStatus } from './services/liveService';
+import { displayName, LocalProfile, loadProfile, saveProfile } from './services/profileService';
+import { createShareSync, fetchSharedSheet, fetchSharedSheetInfo, isSyncEnabled, SharedSheet, SyncError } from './services/syncService';
+import { generateAccessCode, hashAccessCode, hasAccessCodes, migrateAccessCodes, normalizeAccessCode, recordFailedUnlock, UnlockAttempts, unlockWaitSeconds, verifyAccessCode } from './utils/accessCodes';
+import { Sheet, SheetData, PageSetup, ReportCardTemplate, ConditionalRule, ValidationRule, GradingScheme, CellChange, CellPosition, CellRange, StructureAction, ColumnFilter, SortKey, Collaborator, SheetSnapshot, AuditEntry } from './types';
+import { generateUUID } from './utils/excelUtils';
+import { FormulaEngine, isFormula, cellAddress } from './utils/formulaEngine';
+import { applyGradeToRow, applyGradingScheme, buildGradingRules, detectGradingScheme, findHeaderIndex, GRADING_PRESETS, isSchemeComplete } from './utils/grading';
+import { applyStructureAction, createEmptyData, describeStructureAction, getColumnCount, reorderRows } from './utils/sheetStructure';
+import { getFilteredOutRows, sortRowOrder } from './utils/sortFilter';
+import { aggregateRange, RangeAggregates } from './utils/rangeUtils';
+import { applySheetOps } from './utils/sheetCrdt';
+import { auditLogToData, mergeAuditLogs, recordAudit } from './utils/auditTrail';
+import { PRESET_STYLES, ruleType } from './utils/conditionalFormat';
+import { findViolations, validateEntry, ValidationIssue } from './utils/dataValidation';
+import { AUTO_SNAPSHOT_INTERVAL_MS, createSnapshot, restoreCells, restoreSheet } from './utils/versionHistory';
+import { displayText, findInSheet, replaceInText, SearchMatch, SearchOptions, toCellValue } from './utils/searchUtils';
+import { sourceLabels, SheetMergeResult } from './utils/sheetMerge';
+import { pushSplitToParent, splitSheet, SplitOptions } from './utils/sheetSplit';
+import { buildReportCards, detectReportCardTemplate, reportCardFileName, reportCardsToPdf } from './utils/reportCards';
+import { DEFAULT_PAGE_SETUP, sheetToPdf } from './utils/printLayout';
 import { suggestClassColumn } from './services/geminiService';
 import * as XLSX from 'xlsx';
 
-// Preset Styles
-const PRESET_STYLES: ConditionalStyle[] = [
-  { name: 'Vermelho (Reprovado)', backgroundColor: '#FECACA', color: '#991B1B' },
-  { name: 'Verde (Aprovado)', backgroundColor: '#BBF7D0', color: '#166534' },
-  { name: 'Amarelo (Atenção)', backgroundColor: '#FEF08A', color: '#854D0E' },
-  { name: 'Azul (Destaque)', backgroundColor: '#BFDBFE', color: '#1E40AF' },
-];
-
 const App: React.FC = () => {
   // Theme State
   const [theme, setTheme] = useState<'light' | 'dark'>(() => {
@@ -31,46 +61,43 @@ const App: React.FC = () => {
     return 'light';
   });
 
-  // Initialize sheets from localStorage safely
-  const [sheets, setSheets] = useState<Sheet[]>(() => {
-    // 1. Environment check
-    if (typeof window === 'undefined') return [];
-
-    try {
-      // 2. Storage Access check (handles SecurityError/Origin issues)
-      const storage = window.localStorage;
-      if (!storage) return [];
-
-      const saved = storage.getItem('educa-lukunde-sheets');
-      if (!saved) return [];
-      
-      // 3. Parsing check
-      const parsed = JSON.parse(saved);
-      
-      // 4. Structure check
-      if (!Array.isArray(parsed)) return [];
-      
-      // 5. Deep content validation & MIGRATION of old accessCode
-      return parsed.map((s: any) => {
-          if (!s || typeof s !== 'object' || typeof s.id !== 'string') return null;
-          
-          // Legacy migration: If has accessCode but no editCode, map it
-          if (s.accessCode && !s.editCode) {
-              s.editCode = s.accessCode;
-              // We keep accessCode temporarily or delete it. Let's keep s structure valid.
-          }
-          
-          return s;
-      }).filter((s: any) => s !== null);
-
-    } catch (e) {
-      console.warn("Educa-Lukunde: Could not load data from localStorage (security or corruption issue). Starting fresh.", e);
-      return [];
-    }
-  });
+  // Workbook state with undo/redo; filled asynchronously from IndexedDB below
+  // Every change made here goes into the audit log of its sheet, with who made it
+  const { sheets, setSheets, replaceSheets, rebaseSheet, undo, redo, canUndo, canRedo, undoLabel, redoLabel, undoMoves, redoMoves } = useWorkbookHistory(
+    () => [],
+    (prev, next, label, moved) => recordAudit(prev, next, sheet => ({ editor: displayName(profileRef.current), access: auditAccess(sheet) }), label, moved)
+  );
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const saver = useRef<ReturnType<typeof createWorkbookSaver> | null>(null);
+  // Each sheet as it was when last snapshotted (or loaded), to snapshot only the ones that changed
+  const lastSnapshot = useRef(new Map<string, Sheet>());
+  const latestSheets = useRef(sheets);
+  latestSheets.current = sheets;
+  if (!saver.current) saver.current = createWorkbookSaver(status => setSaveStatus(status));
+
+  // Shared sheets opened in this session are kept in step with the sync server
+  const [shareStatus, setShareStatus] = useState<SaveStatus>('idle');
+  const remoteChangeHandler = useRef<(shared: SharedSheet, reason: 'conflict' | 'refresh') => void>(() => {});
+  const shareSync = useRef<ReturnType<typeof createShareSync> | null>(null);
+  if (!shareSync.current) shareSync.current = createShareSync(status => setShareStatus(status), (shared, reason) => remoteChangeHandler.current(shared, reason));
+
+  // Colleagues with the same shared sheet open edit it live; their changes are kept out of the undo history
+  const [profile, setProfile] = useState<LocalProfile>(loadProfile);
+  const profileRef = useRef(profile);
+  profileRef.current = profile;
+  const [collaborators, setCollaborators] = useState<Record<string, Collaborator[]>>({});
+  const [liveStatus, setLiveStatus] = useState<Record<string, { status: LiveStatus; error?: string }>>({});
+  const liveSync = useRef<ReturnType<typeof createLiveSync> | null>(null);
+  if (!liveSync.current) liveSync.current = createLiveSync({
+    onOps: (sheetId, ops) => rebaseSheet(sheetId, sheet => applySheetOps(sheet, ops)),
+    onPeers: (sheetId, peers) => setCollaborators(prev => ({ ...prev, [sheetId]: peers })),
+    onStatus: (sheetId, status, error) => setLiveStatus(prev => ({ ...prev, [sheetId]: { status, error } }))
+  }, () => profileRef.current);
   
   const [activeSheetId, setActiveSheetId] = useState<string | null>(null);
   const [showAI, setShowAI] = useState(false);
+  const [showStats, setShowStats] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   
   // Drag and Drop State using Ref to avoid closure staleness
@@ -79,35 +106,36 @@ const App: React.FC = () => {
   
   // Conditional Formatting State
   const [showFormatModal, setShowFormatModal] = useState(false);
-  const [newRule, setNewRule] = useState<{
-    colHeader: string;
-    condition: ConditionType;
-    value: string;
-    styleIndex: number;
-  }>({
-    colHeader: 'A',
-    condition: 'lt',
-    value: '10',
-    styleIndex: 0
-  });
+
+  // Grading Scheme State
+  const [showGradingModal, setShowGradingModal] = useState(false);
+  const [showSortModal, setShowSortModal] = useState(false);
+  const [showMergeModal, setShowMergeModal] = useState(false);
+  const [showReportCards, setShowReportCards] = useState(false);
+  const [showPrintModal, setShowPrintModal] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const [historySnapshots, setHistorySnapshots] = useState<SheetSnapshot[] | null>(null);
+  const [deletedSnapshots, setDeletedSnapshots] = useState<SheetSnapshot[]>([]);
+  const [splitSuggestion, setSplitSuggestion] = useState<number | null>(null); // Open split dialog with this column ticked
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; sources: ImportSource[]; csv?: { bytes: Uint8Array; options: CsvOptions } } | null>(null);
+  const [exportScope, setExportScope] = useState<ExportScope | null>(null);
+  const [csvOptions, setCsvOptions] = useState<CsvOptions>(DEFAULT_CSV_OPTIONS);
+
+  // Find & Replace
+  const [findMode, setFindMode] = useState<'find' | 'replace' | null>(null);
+  const [findQuery, setFindQuery] = useState("");
+  const [replaceText, setReplaceText] = useState("");
+  const [findOptions, setFindOptions] = useState<SearchOptions>({ matchCase: false, matchAccents: false, wholeCell: false });
+  const [findScope, setFindScope] = useState<SearchScope>('sheet');
+  const [matchIndex, setMatchIndex] = useState(-1);
+  const [focusCell, setFocusCell] = useState<CellPosition | null>(null);
+  const focusAfterReplace = useRef(false);
 
   // Data Validation State
   const [showValidationModal, setShowValidationModal] = useState(false);
-  const [newValidation, setNewValidation] = useState<{
-    colHeader: string;
-    type: ValidationType;
-    min: string;
-    max: string;
-    options: string;
-    errorMessage: string;
-  }>({
-    colHeader: 'A',
-    type: 'number',
-    min: '',
-    max: '',
-    options: '',
-    errorMessage: ''
-  });
+  const [showValidationPanel, setShowValidationPanel] = useState(false);
+  const [validationScope, setValidationScope] = useState<SearchScope>('sheet');
 
   // Sharing & Security State
   const [showShareModal, setShowShareModal] = useState(false);
@@ -115,6 +143,11 @@ const App: React.FC = () => {
   const [unlockedSheets, setUnlockedSheets] = useState<Record<string, 'edit' | 'view'>>({}); 
   const [accessCodeInput, setAccessCodeInput] = useState("");
   const [accessError, setAccessError] = useState<string | null>(null);
+  // Only hashes are stored: the plaintext codes are shown once, right after they are generated
+  const [revealedCodes, setRevealedCodes] = useState<Record<string, { editCode: string; viewCode: string }>>({});
+  // Code that unlocked (or generated) each sheet in this session, sent to the sync server
+  const sessionCodes = useRef<Record<string, string>>({});
+  const unlockAttempts = useRef<Record<string, UnlockAttempts>>({});
   
   const [copyEditSuccess, setCopyEditSuccess] = useState(false);
   const [copyViewSuccess, setCopyViewSuccess] = useState(false);
@@ -130,16 +163,48 @@ const App: React.FC = () => {
   // Zoom State
   const [zoomLevel, setZoomLevel] = useState(1);
 
+  // Grid selection, for the status bar
+  const [selection, setSelection] = useState<CellRange | null>(null);
+  const [copiedAggregate, setCopiedAggregate] = useState<string | null>(null);
+
   const activeSheet = sheets.find(s => s.id === activeSheetId);
+
+  // One formula engine per sheet keeps the dependency graph between renders,
+  // so editing a grade only recalculates the cells downstream of it
+  const formulaEngines = useRef(new Map<string, FormulaEngine>());
+  const computeValues = (sheetId: string, data: SheetData) => {
+    let engine = formulaEngines.current.get(sheetId);
+    if (!engine) {
+      engine = new FormulaEngine();
+      formulaEngines.current.set(sheetId, engine);
+    }
+    return engine.compute(data);
+  };
+  const activeValues = useMemo(() => {
+    if (!activeSheet) return [];
+    return computeValues(activeSheet.id, activeSheet.data || []);
+  }, [activeSheet?.id, activeSheet?.data]);
+
+  // Drop engines of deleted sheets
+  useEffect(() => {
+    const ids = new Set(sheets.map(s => s.id));
+    formulaEngines.current.forEach((_, id) => {
+      if (!ids.has(id)) formulaEngines.current.delete(id);
+    });
+  }, [sheets.length]);
   const currentAccess = activeSheetId ? unlockedSheets[activeSheetId] : undefined;
+
+  // Copies received from the sync server have no codes: the server checks them
+  const isProtected = (sheet: Sheet) => hasAccessCodes(sheet) || !!sheet.isShared;
+  const auditAccess = (sheet: Sheet): AuditEntry['access'] => isProtected(sheet) ? unlockedSheets[sheet.id] || 'edit' : 'owner';
   
   // A sheet is "Locked" (showing the lock screen) if:
-  // 1. It has security codes (edit or view)
+  // 1. It has security codes (edit or view), here or on the sync server
   // 2. AND the user hasn't unlocked it yet (no entry in unlockedSheets)
-  const isSheetLocked = activeSheet && (activeSheet.editCode || activeSheet.viewCode) && !currentAccess;
+  const isSheetLocked = activeSheet && isProtected(activeSheet) && !currentAccess;
   
   // Access Levels
-  const canEdit = activeSheet && (!activeSheet.editCode && !activeSheet.viewCode) ? true : currentAccess === 'edit';
+  const canEdit = activeSheet && !isProtected(activeSheet) ? true : currentAccess === 'edit';
   const isReadOnly = currentAccess === 'view';
 
   // Apply Theme
@@ -158,18 +223,122 @@ const App: React.FC = () => {
 
   const toggleTheme = () => setTheme(prev => prev === 'light' ? 'dark' : 'light');
 
-  // Persistence: Save sheets to localStorage whenever they change
+  // Load sheets from IndexedDB (migrating the old localStorage blob on first run)
   useEffect(() => {
-    if (sheets.length > 0) {
-      try {
-        const dataToSave = JSON.stringify(sheets);
-        localStorage.setItem('educa-lukunde-sheets', dataToSave);
-      } catch (e) {
-        console.error("Erro ao salvar no localStorage (provavelmente cota excedida ou acesso negado):", e);
-      }
-    }
+    let cancelled = false;
+
+    // Deep content validation & MIGRATION of plaintext codes (including the old accessCode) to hashes.
+    // Migrated sheets are new objects, so the saver rewrites them without the plaintext.
+    const migrate = (loaded: any[]): Promise<Sheet[]> => Promise.all(loaded
+        .filter((s: any) => s && typeof s === 'object' && typeof s.id === 'string')
+        .map((s: Sheet) => migrateAccessCodes(s)));
+
+    loadWorkbook()
+      .then(async loaded => {
+        if (cancelled) return;
+        saver.current!.markSaved(loaded);
+        const migrated = await migrate(loaded);
+        if (cancelled) return;
+        lastSnapshot.current = new Map(migrated.map(s => [s.id, s]));
+        replaceSheets(migrated);
+      })
+      .catch(async e => {
+        if (cancelled) return;
+        console.warn("Educa-Lukunde: Could not open IndexedDB (security or corruption issue).", e);
+        // Still show what the old storage had; saving will report the failure
+        const migrated = await migrate(readLegacySheets() || []);
+        if (cancelled) return;
+        replaceSheets(migrated);
+        setSaveStatus('error');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+
+    return () => { cancelled = true; };
+  }, []);
+
+  // Persistence: debounced, per-sheet writes whenever sheets change
+  useEffect(() => {
+    if (isLoaded) saver.current!.schedule(sheets);
+  }, [sheets, isLoaded]);
+
+  // Send edits of shared sheets to the sync server
+  useEffect(() => {
+    if (isLoaded) shareSync.current!.schedule(sheets);
+  }, [sheets, isLoaded]);
+
+  // Automatic snapshots of the sheets changed since the last one
+  useEffect(() => {
+    if (!isLoaded) return;
+    const timer = setInterval(() => {
+      const changed = latestSheets.current.filter(s => lastSnapshot.current.get(s.id) !== s);
+      snapshotSheets(changed, "Automática", 'auto');
+    }, AUTO_SNAPSHOT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isLoaded]);
+
+  // Send this tab's edits of live sheets to the colleagues
+  useEffect(() => {
+    if (isLoaded) liveSync.current!.update(sheets);
+  }, [sheets, isLoaded]);
+
+  // Show the colleagues where this tab is in the sheet
+  useEffect(() => {
+    liveSync.current!.setSelection(activeSheetId, selection ? { r: selection.r1, c: selection.c1 } : null);
+  }, [activeSheetId, selection]);
+
+  // Coming back to the tab: load what colleagues saved meanwhile
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') shareSync.current!.refresh(sheets);
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
   }, [sheets]);
 
+  // A shared link opened on another computer: show the lock screen of the sheet kept on the server
+  useEffect(() => {
+    if (!isLoaded || !isSyncEnabled()) return;
+    let sharedId: string | null = null;
+    try {
+      sharedId = new URLSearchParams(window.location.search).get('pauta');
+    } catch (e) {
+      // Ignore errors parsing URL
+    }
+    if (!sharedId || sheets.some(s => s.id === sharedId)) return;
+
+    const id = sharedId;
+    fetchSharedSheetInfo(id)
+      .then(info => {
+        if (!info) return;
+        const placeholder: Sheet = {
+          id,
+          name: info.name,
+          data: createEmptyData(20, 10),
+          conditionalFormats: [],
+          validationRules: [],
+          accessCodeExpiration: info.expiresAt ?? undefined,
+          isShared: true
+        };
+        replaceSheets(prev => prev.some(s => s.id === id) ? prev : [...prev, placeholder]);
+        setActiveSheetId(id);
+      })
+      .catch(e => console.warn("Educa-Lukunde: Could not reach the sync server.", e));
+  }, [isLoaded]);
+
+  // Write pending changes before the tab is hidden or closed
+  useEffect(() => {
+    const flush = () => { saver.current!.flush(); shareSync.current!.flush(); };
+    const handleVisibility = () => { if (document.visibilityState === 'hidden') flush(); };
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, []);
+
   // Sync URL with active sheet ID
   useEffect(() => {
     if (activeSheetId) {
@@ -190,15 +359,16 @@ const App: React.FC = () => {
 
   // Initial Empty Sheet if nothing loaded
   useEffect(() => {
+    if (!isLoaded) return;
     if (sheets.length === 0) {
       const initialSheet: Sheet = {
         id: 'init',
         name: 'Pauta 1',
-        data: Array(20).fill(Array(10).fill("")),
+        data: createEmptyData(20, 10),
         conditionalFormats: [],
         validationRules: []
       };
-      setSheets([initialSheet]);
+      replaceSheets([initialSheet]);
       setActiveSheetId('init');
       // Auto unlock 'init' sheet as 'edit'
       setUnlockedSheets(prev => ({ ...prev, 'init': 'edit' }));
@@ -219,13 +389,33 @@ const App: React.FC = () => {
          if (firstSheet) {
             setActiveSheetId(firstSheet.id);
             // Auto unlock if it's the default/init sheet and not shared
-            if (!firstSheet.editCode && !firstSheet.viewCode) {
+            if (!isProtected(firstSheet)) {
                 setUnlockedSheets(prev => ({ ...prev, [firstSheet.id]: 'edit' }));
             }
          }
        }
     }
-  }, [sheets.length]); 
+  }, [sheets.length, isLoaded]); 
+
+  // Keep a valid active sheet after undo/redo removes the current one
+  useEffect(() => {
+    if (activeSheetId && sheets.length > 0 && !sheets.some(s => s.id === activeSheetId)) {
+      setActiveSheetId(sheets[0].id);
+    }
+  }, [sheets, activeSheetId]);
+
+  // Undo/Redo: bring the affected sheet into view
+  const handleUndo = () => {
+    if (undoMoves && !canMoveCells(undoMoves)) return;
+    const sheetId = undo();
+    if (sheetId) setActiveSheetId(sheetId);
+  };
+
+  const handleRedo = () => {
+    if (redoMoves && !canMoveCells(redoMoves)) return;
+    const sheetId = redo();
+    if (sheetId) setActiveSheetId(sheetId);
+  };
 
   // Drag and Drop Handlers
   const handleDragStart = (e: React.DragEvent, index: number) => {
@@ -259,7 +449,7 @@ const App: React.FC = () => {
     dragItem.current = index;
     
     // Update state
-    setSheets(newSheets);
+    setSheets(newSheets, 'Reordenar planilhas', true);
     setDraggedSheetIndex(index);
   };
 
@@ -269,40 +459,53 @@ const App: React.FC = () => {
   };
 
   const handleExport = () => {
-    if (!activeSheet) return;
-    const ws = XLSX.utils.aoa_to_sheet(activeSheet.data);
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, activeSheet.name);
-    XLSX.writeFile(wb, `${activeSheet.name}.xlsx`);
+    // Locked sheets are never exported
+    if (!activeSheet || !canAccessSheet(activeSheet)) return;
+    saveXlsxFile([activeSheet], `${activeSheet.name}.xlsx`);
   };
 
-  const handleExportAll = () => {
-    if (sheets.length === 0) return;
-    const wb = XLSX.utils.book_new();
-    
-    sheets.forEach(sheet => {
-      if (!sheet) return;
-      const ws = XLSX.utils.aoa_to_sheet(sheet.data);
-      let sheetName = (sheet.name || "Sheet").replace(/[\\/?*[\]]/g, " ").trim();
-      if (sheetName.length > 31) sheetName = sheetName.substring(0, 31);
-      if (!sheetName) sheetName = "Sheet";
-
-      let uniqueName = sheetName;
-      let counter = 1;
-      while (wb.SheetNames.includes(uniqueName)) {
-        uniqueName = `${sheetName.substring(0, 27)}(${counter})`;
-        counter++;
-      }
+  const handleExportFile = (format: ExportFormat, scope: ExportScope, options: CsvOptions) => {
+    // Locked sheets are never exported
+    const targets = (scope === 'sheet' ? (activeSheet ? [activeSheet] : []) : sheets).filter(canAccessSheet);
+    if (targets.length === 0) return;
+    const fileName = scope === 'sheet' ? targets[0].name : "Educa-Lukunde_Completo";
 
-      XLSX.utils.book_append_sheet(wb, ws, uniqueName);
-    });
-    
-    XLSX.writeFile(wb, "Educa-Lukunde_Completo.xlsx");
+    setExportScope(null);
+    setCsvOptions(options);
+    try {
+      if (format === 'csv') {
+        targets.forEach(sheet => {
+          downloadFile(encodeText(sheetToCSV(sheet, options), options.encoding, options.bom), `${sheet.name}.csv`, 'text/csv');
+        });
+      } else if (format === 'json') {
+        downloadFile(serializeWorkbook(targets), `${fileName}.json`, 'application/json');
+      } else if (format === 'xlsx') {
+        saveXlsxFile(targets, `${fileName}.xlsx`);
+      } else {
+        XLSX.writeFile(buildWorkbook(targets), `${fileName}.ods`, { bookType: 'ods' });
+      }
+    } catch (error) {
+      alert("Erro ao exportar o arquivo.");
+      console.error(error);
+    }
   };
 
   // Keyboard Shortcuts
   useEffect(() => {
     const handleGlobalShortcuts = (e: KeyboardEvent) => {
+        // Ctrl + F / Ctrl + H: Find / Replace
+        if ((e.ctrlKey || e.metaKey) && !e.shiftKey && (e.key === 'f' || e.key === 'h')) {
+            e.preventDefault();
+            setFindMode(e.key === 'h' ? 'replace' : 'find');
+            setShowValidationPanel(false);
+        }
+
+        // Ctrl + P: Print layout instead of printing the whole app
+        if ((e.ctrlKey || e.metaKey) && !e.shiftKey && e.key === 'p') {
+            e.preventDefault();
+            if (activeSheetId) setShowPrintModal(true);
+        }
+
         // Ctrl + S: Save/Export
         if ((e.ctrlKey || e.metaKey) && e.key === 's') {
             e.preventDefault();
@@ -321,7 +524,7 @@ const App: React.FC = () => {
 
     window.addEventListener('keydown', handleGlobalShortcuts);
     return () => window.removeEventListener('keydown', handleGlobalShortcuts);
-  }, [activeSheetId, sheets]); // Dependencies to ensure current state is used
+  }, [activeSheetId, sheets, unlockedSheets]); // Dependencies to ensure current state is used
 
   // Close context menu on global click
   useEffect(() => {
@@ -336,25 +539,69 @@ const App: React.FC = () => {
 
     setIsProcessing(true);
     try {
-      const parsedSheets = await parseExcelFile(file);
-      // Mark uploaded sheets as unlocked ('edit') for the uploader
-      const newIds = parsedSheets.map(s => s.id);
-      setUnlockedSheets(prev => {
-        const next = { ...prev };
-        newIds.forEach(id => { next[id] = 'edit'; });
-        return next;
-      });
-      
-      setSheets(prev => [...prev, ...parsedSheets]);
-      setActiveSheetId(parsedSheets[0].id);
+      if (isJsonFileName(file.name)) {
+        handleImportWorkbook(parseWorkbookJSON(await file.text()));
+        return;
+      }
+
+      if (isCsvFileName(file.name)) {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const options = detectCsvOptions(bytes);
+        setPendingImport({ fileName: file.name, sources: [readCsvSource(file.name, bytes, options)], csv: { bytes, options } });
+        return;
+      }
+
+      const sources = await readWorkbookFile(file);
+      if (sources.length === 0) {
+        alert("O arquivo não contém planilhas.");
+        return;
+      }
+      // The wizard lets the user confirm header rows and column types first
+      setPendingImport({ fileName: file.name, sources });
     } catch (error) {
-      alert("Erro ao ler arquivo Excel. Verifique se o formato é válido.");
+      alert(error instanceof Error && isJsonFileName(file.name) ? error.message : "Erro ao ler arquivo Excel. Verifique se o formato é válido.");
       console.error(error);
     } finally {
       setIsProcessing(false);
+      e.target.value = "";
     }
   };
 
+  const handleCsvOptionsChange = (options: CsvOptions) => {
+    if (!pendingImport?.csv) return;
+    const { bytes } = pendingImport.csv;
+    setPendingImport({ ...pendingImport, sources: [readCsvSource(pendingImport.fileName, bytes, options)], csv: { bytes, options } });
+  };
+
+  // JSON workbooks are restored as they were saved, except for sharing codes: those
+  // stay in the browser that made them, so imported sheets arrive unprotected
+  const handleImportWorkbook = (importedSheets: Sheet[]) => {
+    if (importedSheets.length === 0) {
+      alert("O arquivo não contém planilhas.");
+      return;
+    }
+    const existingIds = new Set(sheets.map(s => s.id));
+    const restored = importedSheets.map(sheet => existingIds.has(sheet.id) ? { ...sheet, id: generateUUID() } : sheet);
+    setSheets(prev => [...prev, ...restored], 'Importar arquivo');
+    setActiveSheetId(restored[0].id);
+  };
+
+  const handleImportSheets = (importedSheets: Sheet[]) => {
+    setPendingImport(null);
+    if (importedSheets.length === 0) return;
+
+    // Mark uploaded sheets as unlocked ('edit') for the uploader
+    const newIds = importedSheets.map(s => s.id);
+    setUnlockedSheets(prev => {
+      const next = { ...prev };
+      newIds.forEach(id => { next[id] = 'edit'; });
+      return next;
+    });
+
+    setSheets(prev => [...prev, ...importedSheets], 'Importar arquivo');
+    setActiveSheetId(importedSheets[0].id);
+  };
+
   const handleSplitClasses = async () => {
     if (!activeSheet || !activeSheet.data || activeSheet.data.length === 0) return;
 
@@ -379,37 +626,9 @@ const App: React.FC = () => {
            ) || null;
       }
 
-      // 3. Ask user to confirm with the suggestion as default
-      const userInput = prompt(
-          `Qual coluna deve ser usada para separar as turmas?`, 
-          candidateColumn || ""
-      );
-
-      if (!userInput) {
-        setIsProcessing(false);
-        return;
-      }
-      
-      const columnIndex = headers.findIndex(h => String(h || "").trim().toLowerCase() === userInput.trim().toLowerCase());
-
-      if (columnIndex === -1) {
-        alert("Coluna não encontrada.");
-        setIsProcessing(false);
-        return;
-      }
-
-      const newSheets = splitSheetByColumn(activeSheet, columnIndex);
-      
-      setUnlockedSheets(prev => {
-        const next = { ...prev };
-        newSheets.forEach(s => { next[s.id] = 'edit'; });
-        return next;
-      });
-
-      setSheets(prev => [...prev, ...newSheets]);
-      alert(`${newSheets.length} novas turmas separadas com sucesso!`);
-      if (newSheets.length > 0) setActiveSheetId(newSheets[0].id);
-
+      // 3. Let the user choose the columns with the suggestion already ticked
+      const target = (candidateColumn || "").trim().toLowerCase();
+      setSplitSuggestion(target ? headers.findIndex(h => String(h || "").trim().toLowerCase() === target) : -1);
     } catch (error) {
       console.error(error);
       alert("Erro ao separar turmas.");
@@ -418,6 +637,78 @@ const App: React.FC = () => {
     }
   };
 
+  const handleSplitSheet = (options: SplitOptions) => {
+    if (!activeSheet) return;
+    const newSheets = splitSheet(activeSheet, options, sheets.map(s => s.name));
+    setSplitSuggestion(null);
+
+    setUnlockedSheets(prev => {
+      const next = { ...prev };
+      newSheets.forEach(s => { next[s.id] = 'edit'; });
+      return next;
+    });
+
+    setSheets(prev => [...prev, ...newSheets], 'Separar turmas');
+    alert(`${newSheets.length} novas turmas separadas com sucesso!`);
+    if (newSheets.length > 0) setActiveSheetId(newSheets[0].id);
+  };
+
+  // From a class sheet: sends its grades back. From the original: collects all its class sheets.
+  const handleSyncSplit = () => {
+    if (!contextMenu) return;
+    const sheet = sheets.find(s => s.id === contextMenu.sheetId);
+    setContextMenu(null);
+    if (!sheet) return;
+
+    const parent = sheet.splitSource ? sheets.find(s => s.id === sheet.splitSource?.sheetId) : sheet;
+    if (!parent) {
+      alert("A planilha original desta turma já não existe.");
+      return;
+    }
+    if (!canEditSheet(parent)) {
+      alert(`Precisa de acesso de edição a "${parent.name}" para enviar as notas.`);
+      return;
+    }
+    const children = sheet.splitSource ? [sheet] : sheets.filter(s => s.splitSource?.sheetId === parent.id && canAccessSheet(s));
+    if (children.length === 0) return;
+
+    const result = pushSplitToParent(parent, children);
+    // Without an ID column rows are matched by position, which a sorted original no longer has
+    const skippedNote = result.skipped > 0
+      ? `${result.skipped} alunos não foram enviados: as suas linhas em "${parent.name}" foram ordenadas, apagadas ou mudaram de nome desde a separação.`
+      : "";
+    if (result.updated === 0 && result.added === 0) {
+      alert(skippedNote || `"${parent.name}" já tem as notas das turmas.`);
+      return;
+    }
+    if (!confirm(`Atualizar ${result.updated} células e acrescentar ${result.added} alunos em "${parent.name}"?${skippedNote && `\n\n${skippedNote}`}`)) return;
+
+    const changed = new Map([result.parent, ...result.children].map(s => [s.id, s]));
+    setSheets(prev => prev.map(s => changed.get(s.id) || s), 'Enviar notas para a pauta');
+  };
+
+  // Sheets split from the same pauta ("Pauta - 10A", "Pauta - 10B") are offered together
+  const mergeCandidates = () => {
+    const accessible = sheets.filter(canAccessSheet);
+    if (!activeSheet) return [];
+    const related = accessible.filter(s => sourceLabels([activeSheet, s])[0] !== activeSheet.name);
+    return (related.length > 1 ? related : [activeSheet]).map(s => s.id);
+  };
+
+  const handleMergeSheets = (result: SheetMergeResult) => {
+    const merged = result.sheet;
+    setUnlockedSheets(prev => ({ ...prev, [merged.id]: 'edit' }));
+    setSheets(prev => [...prev, merged], 'Juntar turmas');
+    setActiveSheetId(merged.id);
+    setShowMergeModal(false);
+
+    const notes = [`${merged.data.length - 1} alunos juntados em "${merged.name}".`];
+    if (result.duplicates > 0) notes.push(`${result.duplicates} linhas repetidas foram juntadas pelo mesmo aluno.`);
+    if (result.conflicts > 0) notes.push(`${result.conflicts} células tinham valores diferentes; ficou o valor da primeira planilha.`);
+    if (result.mismatches.length > 0) notes.push(`${result.mismatches.length} planilhas tinham cabeçalhos diferentes.`);
+    alert(notes.join('\n'));
+  };
+
   const handleSetupClassValidation = async () => {
     if (!activeSheet || !activeSheet.data || activeSheet.data.length === 0) return;
 
@@ -484,16 +775,16 @@ const App: React.FC = () => {
           errorMessage: "Turma inválida. Selecione uma da lista."
       };
 
-      // Remove existing rule for this column if any
+      // Replaces the list of this column, if any; other rules (required...) stay
       const existingRules = activeSheet.validationRules || [];
-      const filteredRules = existingRules.filter(r => r.columnIndex !== columnIndex);
+      const filteredRules = existingRules.filter(r => r.columnIndex !== columnIndex || r.type !== 'list');
 
       const updatedSheet = {
           ...activeSheet,
           validationRules: [...filteredRules, rule]
       };
 
-      setSheets(prev => prev.map(s => s.id === activeSheet.id ? updatedSheet : s));
+      setSheets(prev => prev.map(s => s.id === activeSheet.id ? updatedSheet : s), 'Validar turmas');
       alert(`Validação configurada para a coluna '${String(headers[columnIndex])}'.`);
 
     } catch (error) {
@@ -506,232 +797,441 @@ const App: React.FC = () => {
 
   const handleCalculateAverages = () => {
     if (!activeSheet || !activeSheet.data || activeSheet.data.length === 0) return;
+    if (!activeSheet.data[0]) return;
 
-    const newData = activeSheet.data.map(row => row ? [...row] : []);
-    if (newData.length === 0 || !newData[0]) return;
-
-    const headers = newData[0].map(h => String(h || "").toLowerCase().trim());
-    
-    // Find columns
-    const col1Idx = headers.findIndex(h => h.includes('nota 1') || h === 'p1' || h === 'n1');
-    const col2Idx = headers.findIndex(h => h.includes('nota 2') || h === 'p2' || h === 'n2');
-
-    if (col1Idx === -1 || col2Idx === -1) {
-      alert("Não encontrei as colunas 'Nota 1' e 'Nota 2'.");
+    const scheme = activeSheet.gradingScheme || detectGradingScheme(activeSheet.data[0]);
+    if (!scheme || !isSchemeComplete(scheme)) {
+      alert("Não encontrei as colunas de notas. Configure os Critérios de Avaliação para indicar as colunas.");
+      setShowGradingModal(true);
       return;
     }
 
-    // Find or Create 'Média' column
-    let mediaColIdx = headers.findIndex(h => h === 'média' || h === 'media');
-    
-    if (mediaColIdx === -1) {
-      newData[0].push("Média");
-      mediaColIdx = newData[0].length - 1;
-    }
-
-    let updatedCount = 0;
-
-    // Calculate for all rows
-    for (let i = 1; i < newData.length; i++) {
-      const row = newData[i];
-      if (!row) continue;
-      
-      // Ensure row has cell for media
-      while (row.length <= mediaColIdx) {
-        row.push("");
-      }
-
-      const val1Str = String(row[col1Idx] || "").replace(',', '.');
-      const val2Str = String(row[col2Idx] || "").replace(',', '.');
-      
-      const val1 = parseFloat(val1Str);
-      const val2 = parseFloat(val2Str);
-
-      if (!isNaN(val1) && !isNaN(val2) && row[col1Idx] !== "" && row[col2Idx] !== "" && row[col1Idx] !== null && row[col2Idx] !== null) {
-        const avg = ((val1 + val2) / 2).toFixed(1);
-        const useComma = String(row[col1Idx]).includes(',') || String(row[col2Idx]).includes(',');
-        row[mediaColIdx] = useComma ? avg.replace('.', ',') : avg;
-        updatedCount++;
-      }
-    }
+    const { data: newData, averageCol, resultCol, updatedCount } = applyGradingScheme(activeSheet.data, activeValues, scheme);
 
     // Auto-apply conditional formatting
-    const failRule: ConditionalRule = {
-        id: generateUUID(),
-        columnIndex: mediaColIdx,
-        condition: 'lt',
-        value: 5,
-        style: PRESET_STYLES[0] // Red
-    };
-
-    const passRule: ConditionalRule = {
-        id: generateUUID(),
-        columnIndex: mediaColIdx,
-        condition: 'gte',
-        value: 5,
-        style: PRESET_STYLES[1] // Green
-    };
-
+    const gradingRules = buildGradingRules(scheme, averageCol, resultCol, PRESET_STYLES[0], PRESET_STYLES[1]);
     const existingRules = activeSheet.conditionalFormats || [];
-    const otherRules = existingRules.filter(r => r.columnIndex !== mediaColIdx);
+    // Replaces the highlight rules of those columns; scales and bars stay
+    const otherRules = existingRules.filter(r =>
+      ruleType(r) !== 'highlight' || r.lastColumnIndex !== undefined || (r.columnIndex !== averageCol && r.columnIndex !== resultCol)
+    );
 
     const updatedSheet = { 
         ...activeSheet, 
         data: newData,
-        conditionalFormats: [...otherRules, failRule, passRule]
+        gradingScheme: scheme,
+        conditionalFormats: [...otherRules, ...gradingRules]
     };
     
-    setSheets(prev => prev.map(s => s.id === activeSheet.id ? updatedSheet : s));
-    alert(`Média calculada para ${updatedCount} linhas. Formatação aplicada: Verde (>=5), Vermelho (<5).`);
+    setSheets(prev => prev.map(s => s.id === activeSheet.id ? updatedSheet : s), 'Calcular médias');
+    alert(`Média calculada para ${updatedCount} linhas. Formatação aplicada: Verde (>=${scheme.passThreshold}), Vermelho (<${scheme.passThreshold}). Use Ctrl+Z para desfazer.`);
   };
 
-  // Helper: Convert column letter to index
-  const getColIndex = (header: string): number => {
-      let colIndex = 0;
-      const cleanHeader = header.toUpperCase().trim();
-      for (let i = 0; i < cleanHeader.length; i++) {
-        colIndex = colIndex * 26 + (cleanHeader.charCodeAt(i) - 64);
-      }
-      return colIndex - 1; // 0-based
+  const handleSaveGradingScheme = (scheme: GradingScheme) => {
+    if (!activeSheet || !canEdit) return;
+    setSheets(prev => prev.map(s => s.id === activeSheet.id ? { ...s, gradingScheme: scheme } : s), 'Critérios de avaliação');
+    setShowGradingModal(false);
   };
 
-  // Validation Logic
-  const validateValue = (value: any, rule: ValidationRule): { valid: boolean; msg?: string } => {
-    if (value === "" || value === null || value === undefined) return { valid: true };
-    const strVal = String(value).trim();
+  // Validates and applies edits to one sheet. Cells that fail validation are skipped
+  // and returned; rows whose grade components changed get their average updated.
+  const editSheetCells = (sheet: Sheet, changes: CellChange[]) => {
+    const rejected: { change: CellChange; msg: string }[] = [];
+    let newData = [...sheet.data];
+    const copiedRows = new Set<number>();
+    const gradingRows = new Set<number>();
 
-    if (rule.type === 'number') {
-       const num = Number(value);
-       if (isNaN(num)) return { valid: false, msg: 'O valor deve ser um número.' };
-       if (rule.min && num < Number(rule.min)) return { valid: false, msg: `O valor deve ser maior ou igual a ${rule.min}.` };
-       if (rule.max && num > Number(rule.max)) return { valid: false, msg: `O valor deve ser menor ou igual a ${rule.max}.` };
-    }
-    
-    if (rule.type === 'date') {
-       const date = new Date(strVal);
-       if (isNaN(date.getTime())) return { valid: false, msg: 'Data inválida.' };
-       // Simple string comparison for dates YYYY-MM-DD
-       if (rule.min && strVal < rule.min) return { valid: false, msg: `A data deve ser posterior a ${rule.min}.` };
-       if (rule.max && strVal > rule.max) return { valid: false, msg: `A data deve ser anterior a ${rule.max}.` };
-    }
+    const scheme = sheet.gradingScheme || (newData[0] ? detectGradingScheme(newData[0]) : null);
+
+    changes.forEach(change => {
+        const { r, c, value } = change;
+
+        // Check Validation Rules, against the cells already changed too (unique values)
+        const msg = validateEntry(newData, r, c, value, sheet.validationRules);
+        if (msg) {
+            rejected.push({ change, msg });
+            return;
+        }
+
+        if (!copiedRows.has(r)) {
+            while (newData.length <= r) newData.push([]);
+            newData[r] = [...(newData[r] || [])];
+            copiedRows.add(r);
+        }
+        newData[r][c] = value;
+
+        if (scheme && r > 0 && scheme.components.some(comp => comp.columnIndex === c)) gradingRows.add(r);
+    });
 
-    if (rule.type === 'list' && rule.options) {
-        if (!rule.options.includes(strVal)) return { valid: false, msg: 'Valor não permitido na lista.' };
+    if (copiedRows.size === 0) return { sheet: null, rejected };
+
+    // Reactive Average Calculation
+    if (scheme && gradingRows.size > 0) {
+        const averageCol = findHeaderIndex(newData[0], scheme.averageHeader);
+        const resultCol = findHeaderIndex(newData[0], scheme.resultHeader);
+        if (averageCol !== -1) {
+            // Component cells may hold formulas, so read the freshly computed values
+            const values = computeValues(sheet.id, newData);
+            // Write into fresh copies: the engine has already cached newData by reference
+            const gradedData = [...newData];
+            let graded = false;
+            gradingRows.forEach(r => {
+                const gradedRow = [...newData[r]];
+                if (applyGradeToRow(gradedRow, values[r] || newData[r], scheme, averageCol, resultCol)) {
+                    gradedData[r] = gradedRow;
+                    graded = true;
+                }
+            });
+            if (graded) newData = gradedData;
+        }
     }
 
-    if (rule.type === 'email') {
-        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-        if (!emailRegex.test(strVal)) return { valid: false, msg: 'Endereço de email inválido.' };
+    return { sheet: { ...sheet, data: newData }, rejected };
+  };
+
+  const describeRejectedCells = (rejected: { change: CellChange; msg: string }[]) => {
+    const lines = rejected.slice(0, 10).map(({ change, msg }) => `${cellAddress(change.r, change.c)} ("${change.value}"): ${msg}`);
+    const more = rejected.length > 10 ? `\n... e mais ${rejected.length - 10}.` : "";
+    return `${rejected.length} célula(s) não foram alteradas por não cumprirem as regras de validação:\n\n${lines.join('\n')}${more}`;
+  };
+
+  // Applies a batch of edits (typing, paste, fill) to the active sheet as one undo step
+  const applyCellChanges = (changes: CellChange[], label: string) => {
+    if (!activeSheet || !canEdit || changes.length === 0) return;
+
+    const { sheet: updatedSheet, rejected } = editSheetCells(activeSheet, changes);
+
+    if (rejected.length === 1 && changes.length === 1) {
+        alert(rejected[0].msg);
+        return; // Cancel update
+    }
+    if (!updatedSheet) {
+        alert("Nenhum valor foi alterado: todos os valores são inválidos para as regras de validação.");
+        return;
     }
 
-    return { valid: true };
+    setSheets(prev => prev.map(s => s.id === activeSheet.id ? updatedSheet : s), label);
+    if (rejected.length > 0) alert(describeRejectedCells(rejected));
   };
 
   const updateCell = (r: number, c: number, value: any) => {
+    applyCellChanges([{ r, c, value }], 'Editar célula');
+  };
+
+  // Live changes travel as cells by position: rows or columns moved while colleagues
+  // are typing would put their grades on other students. Queued changes of a
+  // disconnected tab are sent the same way, so that waits for the connection too.
+  const canMoveCells = (sheetId: string) => {
+    if (!liveSync.current!.isLive(sheetId)) return true;
+    if (liveStatus[sheetId]?.status !== 'live') {
+      alert("Esta pauta é editada em direto e está sem ligação. Espere que a ligação volte para inserir, apagar, mover ou ordenar linhas e colunas.");
+      return false;
+    }
+    if ((collaborators[sheetId] || []).length > 0) {
+      alert("Há colegas a editar esta pauta em direto. Para que as notas que escrevem não fiquem noutras linhas, só é possível inserir, apagar, mover ou ordenar linhas e colunas quando estiver sozinho na pauta.");
+      return false;
+    }
+    return true;
+  };
+
+  const handleStructureChange = (action: StructureAction) => {
     if (!activeSheet || !canEdit) return;
+    const moves = action.type !== 'hide' && action.type !== 'unhide';
+    if (moves && !canMoveCells(activeSheet.id)) return;
+    const updatedSheet = applyStructureAction(activeSheet, action);
+    setSheets(prev => prev.map(s => s.id === activeSheet.id ? updatedSheet : s), describeStructureAction(action), false, moves ? activeSheet.id : undefined);
+  };
 
-    // Check Validation Rules
-    const validationRule = activeSheet.validationRules?.find(rule => rule.columnIndex === c);
-    if (validationRule) {
-        const check = validateValue(value, validationRule);
-        if (!check.valid) {
-            alert(validationRule.errorMessage || check.msg || "Valor inválido.");
-            return; // Cancel update
-        }
+  // Sorting reorders the rows for real (undoable); filters only hide rows in the view
+  const handleSort = (keys: SortKey[]) => {
+    if (!activeSheet || !canEdit || keys.length === 0) return;
+    if (!canMoveCells(activeSheet.id)) return;
+    const updatedSheet = reorderRows(activeSheet, sortRowOrder(activeValues, keys));
+    setSheets(prev => prev.map(s => s.id === activeSheet.id ? updatedSheet : s), 'Ordenar', false, activeSheet.id);
+    setShowSortModal(false);
+  };
+
+  // --- Report cards ---
+
+  const handleGenerateReportCards = (template: ReportCardTemplate, output: ReportCardOutput) => {
+    if (!activeSheet) return;
+    const cards = buildReportCards(activeSheet, template);
+    const headers = activeSheet.data[0] || [];
+    const baseName = `Boletins - ${activeSheet.name}`;
+
+    try {
+      if (output === 'single') {
+        downloadFile(reportCardsToPdf(cards, template, headers), `${baseName}.pdf`, 'application/pdf');
+      } else {
+        const files = cards.map(card => ({ name: reportCardFileName(card), content: reportCardsToPdf([card], template, headers) }));
+        downloadFile(buildZip(files), `${baseName}.zip`, 'application/zip');
+      }
+    } catch (error) {
+      console.error(error);
+      alert("Erro ao gerar os boletins.");
+      return;
     }
-    
-    const newData = [...activeSheet.data];
-    if (!newData[r]) newData[r] = [];
-    const newRow = [...newData[r]];
-    newRow[c] = value;
-    newData[r] = newRow;
 
-    // Reactive Average Calculation
-    const headers = newData[0] ? newData[0].map(h => String(h || "").toLowerCase().trim()) : [];
-    const col1Idx = headers.findIndex(h => h.includes('nota 1') || h === 'p1' || h === 'n1');
-    const col2Idx = headers.findIndex(h => h.includes('nota 2') || h === 'p2' || h === 'n2');
-    const mediaIdx = headers.findIndex(h => h === 'média' || h === 'media');
-
-    if (mediaIdx !== -1 && col1Idx !== -1 && col2Idx !== -1) {
-        if (c === col1Idx || c === col2Idx) {
-            const val1Str = String(newRow[col1Idx] || "").replace(',', '.');
-            const val2Str = String(newRow[col2Idx] || "").replace(',', '.');
-            
-            const val1 = parseFloat(val1Str);
-            const val2 = parseFloat(val2Str);
-            
-            if (!isNaN(val1) && !isNaN(val2) && newRow[col1Idx] !== "" && newRow[col2Idx] !== "") {
-                const avg = ((val1 + val2) / 2).toFixed(1);
-                const useComma = String(newRow[col1Idx]).includes(',') || String(newRow[col2Idx]).includes(',');
-                
-                while (newRow.length <= mediaIdx) newRow.push("");
-                newRow[mediaIdx] = useComma ? avg.replace('.', ',') : avg;
-            }
-        }
+    // The school, period and columns are kept for the next time
+    if (canEdit && JSON.stringify(template) !== JSON.stringify(activeSheet.reportCard)) {
+      setSheets(prev => prev.map(s => s.id === activeSheet.id ? { ...s, reportCard: template } : s), 'Modelo de boletim');
+    }
+    setShowReportCards(false);
+  };
+
+  // --- Printing ---
+
+  const handlePrint = (setup: PageSetup, output: PrintOutput) => {
+    if (!activeSheet) return;
+    try {
+      const pdf = sheetToPdf(activeSheet, setup);
+      if (output === 'print') printPdf(pdf);
+      else downloadFile(pdf, `${activeSheet.name}.pdf`, 'application/pdf');
+    } catch (error) {
+      console.error(error);
+      alert("Erro ao preparar a impressão.");
+      return;
     }
 
-    const updatedSheet = { ...activeSheet, data: newData };
-    setSheets(prev => prev.map(s => s.id === activeSheet.id ? updatedSheet : s));
+    if (canEdit && JSON.stringify(setup) !== JSON.stringify(activeSheet.pageSetup)) {
+      setSheets(prev => prev.map(s => s.id === activeSheet.id ? { ...s, pageSetup: setup } : s), 'Configurar página');
+    }
+    setShowPrintModal(false);
   };
 
-  const handleAddRule = () => {
-    if (!activeSheet || !canEdit) return;
+  // --- Statistics ---
 
-    const colIndex = getColIndex(newRule.colHeader);
-    if (colIndex < 0) {
-      alert("Coluna inválida");
+  // Sister classes of a split sheet, or the classes split from this one
+  const statsClassSheets = () => {
+    if (!activeSheet) return [];
+    const parentId = activeSheet.splitSource?.sheetId || activeSheet.id;
+    return sheets.filter(s => s.splitSource?.sheetId === parentId && canAccessSheet(s));
+  };
+
+  const handleExportStatsSheet = (summary: Sheet) => {
+    if (isReadOnly) {
+      alert("Não tem permissão para criar planilhas nesta pauta.");
       return;
     }
+    let name = summary.name;
+    for (let n = 2; sheets.some(s => s.name === name); n++) name = `${summary.name} (${n})`;
+    const created = { ...summary, name };
+    setUnlockedSheets(prev => ({ ...prev, [created.id]: 'edit' }));
+    setSheets(prev => [...prev, created], 'Resumo estatístico');
+    setActiveSheetId(created.id);
+  };
 
-    const rule: ConditionalRule = {
-      id: generateUUID(),
-      columnIndex: colIndex,
-      condition: newRule.condition,
-      value: newRule.value,
-      style: PRESET_STYLES[newRule.styleIndex]
-    };
+  const handleExportStatsImage = async (svgs: SVGSVGElement[], fileName: string) => {
+    if (svgs.length === 0) return;
+    try {
+      const gap = 16;
+      const ratio = 2; // Sharper image than the panel
+      const width = Math.max(...svgs.map(svg => svg.width.baseVal.value));
+      const height = svgs.reduce((sum, svg) => sum + svg.height.baseVal.value, 0) + gap * (svgs.length + 1);
+      const canvas = document.createElement('canvas');
+      canvas.width = (width + gap * 2) * ratio;
+      canvas.height = height * ratio;
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Canvas indisponível');
+      context.scale(ratio, ratio);
+      context.fillStyle = '#FFFFFF';
+      context.fillRect(0, 0, width + gap * 2, height);
+
+      let y = gap;
+      for (const svg of svgs) {
+        const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(svg)], { type: 'image/svg+xml' }));
+        const image = new Image();
+        await new Promise((resolve, reject) => {
+          image.onload = resolve;
+          image.onerror = reject;
+          image.src = url;
+        });
+        context.drawImage(image, gap, y);
+        URL.revokeObjectURL(url);
+        y += svg.height.baseVal.value + gap;
+      }
 
-    const updatedSheet = {
-      ...activeSheet,
-      conditionalFormats: [...(activeSheet.conditionalFormats || []), rule]
-    };
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      if (!blob) throw new Error('Falha ao gerar a imagem');
+      downloadFile(new Uint8Array(await blob.arrayBuffer()), fileName.replace(/[\\/:*?"<>|]/g, '_'), 'image/png');
+    } catch (error) {
+      console.error(error);
+      alert("Erro ao exportar a imagem dos gráficos.");
+    }
+  };
 
-    setSheets(prev => prev.map(s => s.id === activeSheet.id ? updatedSheet : s));
-    setShowFormatModal(false);
+  // Filters only change what this person sees: read-only access is enough, and they
+  // stay out of the undo history (undoing an edit keeps them) and of what is shared
+  const handleFilterChange = (filters: ColumnFilter[]) => {
+    if (!activeSheet || isSheetLocked) return;
+    rebaseSheet(activeSheet.id, s => ({ ...s, autoFilter: filters }));
   };
 
-  const handleAddValidation = () => {
-    if (!activeSheet || !canEdit) return;
-    const colIndex = getColIndex(newValidation.colHeader);
-    if (colIndex < 0) {
-        alert("Coluna inválida");
-        return;
+  const handleToggleFilter = () => {
+    if (!activeSheet || isSheetLocked) return;
+    const autoFilter = activeSheet.autoFilter ? undefined : [];
+    rebaseSheet(activeSheet.id, s => ({ ...s, autoFilter }));
+  };
+
+  // --- Find & Replace ---
+
+  // Protected sheets are only searched once unlocked, and only changed with edit access
+  const canAccessSheet = (sheet: Sheet) => !isProtected(sheet) || !!unlockedSheets[sheet.id];
+  const canEditSheet = (sheet: Sheet) => !isProtected(sheet) || unlockedSheets[sheet.id] === 'edit';
+
+  const searchMatches = useMemo(() => {
+    if (!findMode || !findQuery) return [];
+    const targets = findScope === 'workbook' ? sheets : sheets.filter(s => s.id === activeSheetId);
+    return targets
+      .filter(canAccessSheet)
+      .flatMap(sheet => findInSheet(sheet.id, computeValues(sheet.id, sheet.data || []), findQuery, findOptions));
+  }, [findMode, findQuery, findOptions, findScope, sheets, activeSheetId, unlockedSheets]);
+
+  const goToMatch = (index: number, matches: SearchMatch[] = searchMatches) => {
+    const match = matches[index];
+    if (!match) return;
+    setMatchIndex(index);
+    if (match.sheetId !== activeSheetId) setActiveSheetId(match.sheetId);
+    setFocusCell({ r: match.r, c: match.c });
+  };
+
+  // Searching as you type jumps to the first result
+  useEffect(() => {
+    if (searchMatches.length > 0) goToMatch(0);
+    else setMatchIndex(-1);
+  }, [findQuery, findOptions, findScope]);
+
+  // After a replace the list shrinks: stay at the same position, which is now the next result
+  useEffect(() => {
+    if (matchIndex >= searchMatches.length) setMatchIndex(searchMatches.length - 1);
+    if (focusAfterReplace.current) {
+      focusAfterReplace.current = false;
+      goToMatch(Math.min(matchIndex, searchMatches.length - 1));
+    }
+  }, [searchMatches]);
+
+  const handleFindNext = () => {
+    if (searchMatches.length === 0) return;
+    goToMatch((matchIndex + 1) % searchMatches.length);
+  };
+
+  const handleFindPrevious = () => {
+    if (searchMatches.length === 0) return;
+    goToMatch((matchIndex - 1 + searchMatches.length) % searchMatches.length);
+  };
+
+  const handleReplace = () => {
+    const match = searchMatches[matchIndex];
+    const sheet = match && sheets.find(s => s.id === match.sheetId);
+    if (!match || !sheet) return;
+    if (!canEditSheet(sheet)) {
+      alert(`A planilha "${sheet.name}" está protegida apenas para leitura.`);
+      return;
+    }
+
+    const raw = sheet.data[match.r]?.[match.c];
+    if (isFormula(raw)) {
+      alert("Esta célula contém uma fórmula e não pode ser substituída. Edite a fórmula diretamente.");
+      handleFindNext();
+      return;
+    }
+    const text = replaceInText(displayText(raw), findQuery, replaceText, findOptions);
+    if (text === null) return;
+
+    const { sheet: updatedSheet, rejected } = editSheetCells(sheet, [{ r: match.r, c: match.c, value: toCellValue(raw, text) }]);
+    if (!updatedSheet) {
+      alert(rejected[0]?.msg || "Valor inválido.");
+      return;
+    }
+    focusAfterReplace.current = true;
+    setSheets(prev => prev.map(s => s.id === sheet.id ? updatedSheet : s), 'Substituir');
+  };
+
+  const handleReplaceAll = () => {
+    if (searchMatches.length === 0) return;
+
+    const bySheet = new Map<string, SearchMatch[]>();
+    searchMatches.forEach(m => bySheet.set(m.sheetId, [...(bySheet.get(m.sheetId) || []), m]));
+
+    const updated = new Map<string, Sheet>();
+    const rejected: { change: CellChange; msg: string }[] = [];
+    const readOnlySheets: string[] = [];
+    let formulaCells = 0;
+    let replaced = 0;
+
+    bySheet.forEach((matches, sheetId) => {
+      const sheet = sheets.find(s => s.id === sheetId);
+      if (!sheet) return;
+      if (!canEditSheet(sheet)) {
+        readOnlySheets.push(sheet.name);
+        return;
+      }
+
+      const changes: CellChange[] = [];
+      matches.forEach(({ r, c }) => {
+        const raw = sheet.data[r]?.[c];
+        if (isFormula(raw)) {
+          formulaCells++;
+          return;
+        }
+        const text = replaceInText(displayText(raw), findQuery, replaceText, findOptions);
+        if (text !== null) changes.push({ r, c, value: toCellValue(raw, text) });
+      });
+      if (changes.length === 0) return;
+
+      const result = editSheetCells(sheet, changes);
+      rejected.push(...result.rejected);
+      replaced += changes.length - result.rejected.length;
+      if (result.sheet) updated.set(sheetId, result.sheet);
+    });
+
+    if (updated.size > 0) {
+      setSheets(prev => prev.map(s => updated.get(s.id) || s), 'Substituir tudo');
     }
 
-    const optionsArray = newValidation.type === 'list' 
-        ? newValidation.options.split(',').map(s => s.trim()).filter(s => s.length > 0) 
-        : undefined;
-
-    const rule: ValidationRule = {
-        id: generateUUID(),
-        columnIndex: colIndex,
-        type: newValidation.type,
-        min: newValidation.min,
-        max: newValidation.max,
-        options: optionsArray,
-        errorMessage: newValidation.errorMessage
-    };
+    let message = `${replaced} célula(s) substituída(s).`;
+    if (formulaCells > 0) message += `\n${formulaCells} célula(s) com fórmulas foram ignoradas.`;
+    if (readOnlySheets.length > 0) message += `\nPlanilhas só de leitura ignoradas: ${readOnlySheets.join(', ')}.`;
+    if (rejected.length > 0) message += `\n\n${describeRejectedCells(rejected)}`;
+    alert(message);
+  };
 
-    // Remove existing rule for this column if any (simulate overwrite)
-    const existingRules = activeSheet.validationRules || [];
-    const filteredRules = existingRules.filter(r => r.columnIndex !== colIndex);
+  const activeSearchHits = useMemo(
+    () => searchMatches.filter(m => m.sheetId === activeSheetId),
+    [searchMatches, activeSheetId]
+  );
+  const currentMatch = searchMatches[matchIndex];
+
+  // --- Data check ---
+
+  // Worked out again on every change while the panel is open, so fixed cells drop off the list
+  const validationIssues = useMemo(() => {
+    if (!showValidationPanel) return [];
+    const targets = validationScope === 'workbook' ? sheets : sheets.filter(s => s.id === activeSheetId);
+    return targets
+      .filter(canAccessSheet)
+      .flatMap(sheet => findViolations(sheet.id, computeValues(sheet.id, sheet.data || []), sheet.validationRules));
+  }, [showValidationPanel, validationScope, sheets, activeSheetId, unlockedSheets]);
+
+  const activeValidationIssues = useMemo(() => {
+    if (!showValidationPanel) return undefined;
+    return new Map(validationIssues.filter(i => i.sheetId === activeSheetId).map(i => [`${i.r}:${i.c}`, i.message]));
+  }, [showValidationPanel, validationIssues, activeSheetId]);
+
+  const goToIssue = (issue: ValidationIssue) => {
+    if (issue.sheetId !== activeSheetId) setActiveSheetId(issue.sheetId);
+    setFocusCell({ r: issue.r, c: issue.c });
+  };
 
-    const updatedSheet = {
-        ...activeSheet,
-        validationRules: [...filteredRules, rule]
-    };
+  const handleSaveRules = (rules: ConditionalRule[]) => {
+    if (!activeSheet || !canEdit) return;
+    setSheets(prev => prev.map(s => s.id === activeSheet.id ? { ...s, conditionalFormats: rules } : s), 'Formatação condicional');
+    setShowFormatModal(false);
+  };
 
-    setSheets(prev => prev.map(s => s.id === activeSheet.id ? updatedSheet : s));
+  const handleSaveValidationRules = (rules: ValidationRule[]) => {
+    if (!activeSheet || !canEdit) return;
+    setSheets(prev => prev.map(s => s.id === activeSheet.id ? { ...s, validationRules: rules } : s), 'Validação de dados');
     setShowValidationModal(false);
   };
 
@@ -747,14 +1247,14 @@ const App: React.FC = () => {
     if (!sheet) return;
 
     // Permissions check: user must have edit access to rename
-    if (unlockedSheets[sheet.id] !== 'edit' && (sheet.editCode || sheet.viewCode)) {
+    if (unlockedSheets[sheet.id] !== 'edit' && isProtected(sheet)) {
         alert("Apenas editores podem renomear planilhas.");
         return;
     }
 
     const newName = prompt("Renomear planilha:", sheet.name);
     if (newName && newName.trim()) {
-      setSheets(prev => prev.map(s => s.id === sheet.id ? { ...s, name: newName.trim() } : s));
+      setSheets(prev => prev.map(s => s.id === sheet.id ? { ...s, name: newName.trim() } : s), 'Renomear planilha');
     }
     setContextMenu(null);
   };
@@ -771,12 +1271,15 @@ const App: React.FC = () => {
       data: JSON.parse(JSON.stringify(sheet.data)), // Deep copy data
       conditionalFormats: sheet.conditionalFormats ? [...sheet.conditionalFormats] : [],
       validationRules: sheet.validationRules ? [...sheet.validationRules] : [],
-      // Copy security settings
-      editCode: sheet.editCode,
-      viewCode: sheet.viewCode,
-      accessCode: sheet.accessCode, 
+      // Copy security settings: the same codes open the copy
+      editCodeHash: sheet.editCodeHash,
+      viewCodeHash: sheet.viewCodeHash,
       accessCodeExpiration: sheet.accessCodeExpiration,
-      isShared: sheet.isShared
+      // The copy is not on the sync server, so only local codes can protect it
+      isShared: false,
+      // The copy starts its own history and is not a class of the original's split
+      splitSource: undefined,
+      auditLog: undefined
     };
 
     setUnlockedSheets(prev => {
@@ -786,17 +1289,106 @@ const App: React.FC = () => {
         return next;
     });
 
-    setSheets(prev => [...prev, ...[newSheet]]);
+    setSheets(prev => [...prev, ...[newSheet]], 'Duplicar planilha');
     setActiveSheetId(newSheet.id);
     setContextMenu(null);
   };
 
+  // --- Version history ---
+
+  const snapshotSheets = (targets: Sheet[], name: string, kind: SheetSnapshot['kind']) => {
+    targets.forEach(sheet => lastSnapshot.current.set(sheet.id, sheet));
+    return saveSnapshots(targets.map(sheet => createSnapshot(sheet, name, kind)))
+      .catch(error => console.error("Erro ao guardar o histórico de versões:", error));
+  };
+
+  const loadHistory = async (sheetId: string) => {
+    try {
+      const all = await listSnapshots();
+      const ids = new Set(latestSheets.current.map(s => s.id));
+      // Newest snapshot of every sheet that is no longer in the workbook
+      const deleted = new Map<string, SheetSnapshot>();
+      all.forEach(s => { if (!ids.has(s.sheetId) && !deleted.has(s.sheetId)) deleted.set(s.sheetId, s); });
+      setHistorySnapshots(all.filter(s => s.sheetId === sheetId));
+      setDeletedSnapshots([...deleted.values()]);
+    } catch (error) {
+      console.error(error);
+      alert("Não foi possível abrir o histórico de versões.");
+      setShowHistory(false);
+    }
+  };
+
+  const handleOpenHistory = () => {
+    if (!activeSheet) return;
+    setHistorySnapshots(null);
+    setShowHistory(true);
+    loadHistory(activeSheet.id);
+  };
+
+  const handleCreateSnapshot = async (name: string) => {
+    if (!activeSheet) return;
+    await snapshotSheets([activeSheet], name, 'manual');
+    loadHistory(activeSheet.id);
+  };
+
+  const handleDeleteSnapshot = async (snapshot: SheetSnapshot) => {
+    if (!activeSheet || !confirm(`Apagar a versão "${snapshot.name}"?`)) return;
+    try {
+      await deleteSnapshot(snapshot.id);
+    } catch (error) {
+      console.error(error);
+      alert("Não foi possível apagar a versão.");
+    }
+    loadHistory(activeSheet.id);
+  };
+
+  const handleRestoreSnapshot = async (snapshot: SheetSnapshot) => {
+    if (!activeSheet || !canEdit) return;
+    if (!confirm(`Restaurar "${activeSheet.name}" para a versão "${snapshot.name}"? A versão atual fica guardada no histórico.`)) return;
+    await snapshotSheets([activeSheet], "Antes de restaurar", 'auto');
+    setSheets(prev => prev.map(s => s.id === snapshot.sheetId ? restoreSheet(snapshot, s) : s), 'Restaurar versão');
+    loadHistory(activeSheet.id);
+  };
+
+  const handleRestoreCells = (snapshot: SheetSnapshot, cells: CellPosition[]) => {
+    if (!canEdit || cells.length === 0) return;
+    setSheets(
+      prev => prev.map(s => s.id === snapshot.sheetId ? { ...s, data: restoreCells(s.data, snapshot, cells) } : s),
+      cells.length === 1 ? 'Restaurar célula' : `Restaurar ${cells.length} células`
+    );
+  };
+
+  const handleRecoverSheet = (snapshot: SheetSnapshot) => {
+    if (sheets.some(s => s.id === snapshot.sheetId)) return;
+    const recovered = restoreSheet(snapshot);
+    setSheets(prev => [...prev, recovered], 'Recuperar planilha');
+    setActiveSheetId(recovered.id);
+    setShowHistory(false);
+  };
+
+  // --- Audit log ---
+
+  const handleExportAuditLog = (entries: AuditEntry[], format: 'xlsx' | 'csv') => {
+    if (!activeSheet) return;
+    const log: Sheet = { id: generateUUID(), name: `Registo - ${activeSheet.name}`, data: auditLogToData(entries) };
+    try {
+      if (format === 'csv') {
+        downloadFile(encodeText(sheetToCSV(log, csvOptions), csvOptions.encoding, csvOptions.bom), `${log.name}.csv`, 'text/csv');
+      } else {
+        saveXlsxFile([log], `${log.name}.xlsx`);
+      }
+    } catch (error) {
+      alert("Erro ao exportar o registo de alterações.");
+      console.error(error);
+    }
+  };
+
   const handleDeleteSheet = () => {
     if (!contextMenu) return;
     const sheet = sheets.find(s => s.id === contextMenu.sheetId);
     
     // Permission check
-    if (sheet && unlockedSheets[sheet.id] !== 'edit' && (sheet.editCode || sheet.viewCode)) {
+    if (sheet && unlockedSheets[sheet.id] !== 'edit' && isProtected(sheet)) {
         alert("Apenas editores podem excluir planilhas.");
         setContextMenu(null);
         return;
@@ -808,9 +1400,10 @@ const App: React.FC = () => {
       return;
     }
 
-    if (confirm("Tem certeza que deseja excluir esta planilha?")) {
+    if (confirm("Tem certeza que deseja excluir esta planilha? Poderá recuperá-la no histórico de versões.")) {
+      if (sheet) snapshotSheets([sheet], "Antes de excluir", 'auto');
       const newSheets = sheets.filter(s => s.id !== contextMenu.sheetId);
-      setSheets(newSheets);
+      setSheets(newSheets, 'Excluir planilha');
       
       if (activeSheetId === contextMenu.sheetId) {
         setActiveSheetId(newSheets[0].id);
@@ -819,12 +1412,42 @@ const App: React.FC = () => {
     setContextMenu(null);
   };
 
+  // --- Status Bar ---
+
+  const selectionStats = useMemo(() => {
+    if (!activeSheet || !selection || isSheetLocked) return null;
+    const skipRows = new Set([...(activeSheet.hiddenRows || []), ...getFilteredOutRows(activeValues, activeSheet.autoFilter)]);
+    return aggregateRange(activeValues, selection, skipRows, new Set(activeSheet.hiddenColumns || []));
+  }, [activeSheet, activeValues, selection, isSheetLocked]);
+
+  const formatAggregate = (n: number) => n.toLocaleString('pt-PT', { maximumFractionDigits: 4 });
+
+  // Numeric aggregates only when the selection has numbers, as in Excel
+  const statusItems = (stats: RangeAggregates) => [
+    { label: 'Contagem', value: String(stats.count) },
+    ...(stats.numericCount > 0 ? [
+      { label: 'Numéricos', value: String(stats.numericCount) },
+      { label: 'Soma', value: formatAggregate(stats.sum) },
+      { label: 'Média', value: formatAggregate(stats.average!) },
+      { label: 'Mín', value: formatAggregate(stats.min!) },
+      { label: 'Máx', value: formatAggregate(stats.max!) }
+    ] : [])
+  ];
+
+  const handleCopyAggregate = (label: string, value: string) => {
+    if (!navigator.clipboard || !navigator.clipboard.writeText) return;
+    navigator.clipboard.writeText(value).then(() => {
+      setCopiedAggregate(label);
+      setTimeout(() => setCopiedAggregate(prev => prev === label ? null : prev), 1500);
+    }).catch(err => console.error("Clipboard error", err));
+  };
+
   // Zoom Handlers
   const handleZoomIn = () => setZoomLevel(prev => Math.min(prev + 0.1, 2.0));
   const handleZoomOut = () => setZoomLevel(prev => Math.max(prev - 0.1, 0.5));
 
   // Access Control Logic
-  const handleCreateAccessCode = () => {
+  const handleCreateAccessCode = async () => {
     if (!activeSheet) return;
     
     // Calculate expiration
@@ -840,38 +1463,148 @@ const App: React.FC = () => {
     
     const expiresAt = now + (expirationValue * multiplier);
 
-    const editCode = Math.random().toString(36).slice(-6).toUpperCase();
-    const viewCode = Math.random().toString(36).slice(-6).toUpperCase();
-
-    const updatedSheet: Sheet = { 
-        ...activeSheet, 
-        editCode: editCode, 
-        viewCode: viewCode, 
-        accessCodeExpiration: expiresAt, 
-        isShared: true 
-    };
-
-    setSheets(prev => prev.map(s => s.id === activeSheet.id ? updatedSheet : s));
+    const sheetId = activeSheet.id;
+    const editCode = generateAccessCode();
+    const viewCode = generateAccessCode();
+    const [editCodeHash, viewCodeHash] = await Promise.all([hashAccessCode(editCode), hashAccessCode(viewCode)]);
+
+    // Codes are not undoable: undo must never bring back revoked codes or drop new ones.
+    // rebaseSheet updates the current state last, so updatedSheet ends up holding it.
+    let updatedSheet: Sheet | null = null;
+    rebaseSheet(sheetId, s => {
+        updatedSheet = { ...s, editCodeHash, viewCodeHash, accessCodeExpiration: expiresAt, isShared: true };
+        return updatedSheet;
+    });
     
     // Unlock for creator as Editor
-    setUnlockedSheets(prev => ({ ...prev, [activeSheet.id]: 'edit' }));
+    setUnlockedSheets(prev => ({ ...prev, [sheetId]: 'edit' }));
+    setRevealedCodes(prev => ({ ...prev, [sheetId]: { editCode, viewCode } }));
+    const currentCode = shareSync.current!.codeFor(sheetId) || sessionCodes.current[sheetId];
+    sessionCodes.current[sheetId] = editCode;
+
+    if (isSyncEnabled() && updatedSheet) {
+      const published: Sheet = updatedSheet;
+      // The relay disconnects everyone still using the old codes, this tab included
+      liveSync.current!.leave(sheetId);
+      shareSync.current!.publish(published, { editCodeHash, viewCodeHash, expiresAt }, editCode, currentCode)
+        .then(() => {
+          setShareStatus('saved');
+          joinLive(published, editCode, 'edit');
+        })
+        .catch(error => {
+          console.error(error);
+          alert(`Não foi possível publicar a pauta no servidor de partilha: ${error.message}\nOs códigos só funcionam neste navegador.`);
+        });
+    }
   };
 
   const handleRemoveAccessCode = () => {
     if (!activeSheet) return;
-    const updatedSheet = { 
-        ...activeSheet, 
-        editCode: undefined, 
-        viewCode: undefined,
-        accessCode: undefined,
+    rebaseSheet(activeSheet.id, s => ({ 
+        ...s, 
+        editCodeHash: undefined, 
+        viewCodeHash: undefined,
         accessCodeExpiration: undefined, 
         isShared: false 
-    };
-    setSheets(prev => prev.map(s => s.id === activeSheet.id ? updatedSheet : s));
+    }));
+    setRevealedCodes(prev => {
+        const next = { ...prev };
+        delete next[activeSheet.id];
+        return next;
+    });
+
+    if (isSyncEnabled() && activeSheet.isShared) {
+      liveSync.current!.leave(activeSheet.id);
+      shareSync.current!.setLive(activeSheet.id, false);
+      shareSync.current!.unpublish(activeSheet.id, sessionCodes.current[activeSheet.id]).catch(error => {
+        console.error(error);
+        alert(`Não foi possível remover a pauta do servidor de partilha: ${error.message}`);
+      });
+    }
+  };
+
+  // A copy received from the server, keeping the code hashes this browser already had (the creator's)
+  const applySharedSheet = (shared: SharedSheet): Sheet | null => {
+    let merged: Sheet | null = null;
+    replaceSheets(prev => prev.map(s => {
+      if (s.id !== shared.sheet.id) return s;
+      merged = {
+        ...shared.sheet,
+        // Changes logged here and not yet sent stay in the log
+        auditLog: mergeAuditLogs(shared.sheet.auditLog, s.auditLog),
+        editCodeHash: s.editCodeHash,
+        viewCodeHash: s.viewCodeHash,
+        autoFilter: s.autoFilter,
+        accessCodeExpiration: shared.expiresAt ?? undefined,
+        isShared: true
+      };
+      return merged;
+    }));
+    // With entries the server lacks, it stays unsynced so the next push sends them
+    const received: Sheet | null = merged;
+    if (received && received.auditLog === shared.sheet.auditLog) shareSync.current!.markSynced(received);
+    return merged;
+  };
+
+  const joinLive = (sheet: Sheet, code: string, access: 'edit' | 'view') => {
+    shareSync.current!.setLive(sheet.id, true);
+    liveSync.current!.join(sheet, code, access);
+  };
+
+  remoteChangeHandler.current = (shared, reason) => {
+    applySharedSheet(shared);
+    if (reason === 'conflict') {
+      alert(`A pauta "${shared.sheet.name}" foi alterada noutro computador e foi carregada a versão mais recente. Verifique as suas últimas alterações.`);
+    }
   };
 
-  const handleUnlockSheet = () => {
+  const handleUnlockSheet = async () => {
      if (!activeSheet) return;
+     const sheetId = activeSheet.id;
+
+     // A few wrong codes in a row pause the attempts on this sheet
+     const wait = unlockWaitSeconds(unlockAttempts.current[sheetId]);
+     if (wait > 0) {
+        setAccessError(`Demasiadas tentativas. Tente novamente dentro de ${wait} segundos.`);
+        return;
+     }
+
+     const code = normalizeAccessCode(accessCodeInput);
+     if (!code) return;
+
+     const grant = (access: 'edit' | 'view') => {
+        delete unlockAttempts.current[sheetId];
+        sessionCodes.current[sheetId] = code;
+        setUnlockedSheets(prev => ({ ...prev, [sheetId]: access }));
+        setAccessCodeInput("");
+        setAccessError(null);
+     };
+     const deny = (message: string) => {
+        unlockAttempts.current[sheetId] = recordFailedUnlock(unlockAttempts.current[sheetId]);
+        setAccessError(message);
+     };
+
+     // Shared sheets are opened through the server, which knows the current codes
+     let notPublished = false;
+     if (isSyncEnabled() && activeSheet.isShared) {
+        try {
+           const shared = await fetchSharedSheet(sheetId, code);
+           shareSync.current!.open(shared, code);
+           const merged = applySharedSheet(shared);
+           grant(shared.access);
+           if (merged) joinLive(merged, code, shared.access);
+           return;
+        } catch (error) {
+           // Not published yet, or no connection: the codes kept in this browser still work
+           const fallBack = error instanceof SyncError && (error.status === 404 || error.status === 0) && hasAccessCodes(activeSheet);
+           if (!fallBack) {
+              if (error instanceof SyncError && error.status === 401) deny(error.message);
+              else setAccessError(error instanceof SyncError ? error.message : "Erro ao abrir a pauta partilhada.");
+              return;
+           }
+           notPublished = (error as SyncError).status === 404;
+        }
+     }
      
      // Check Expiration
      if (activeSheet.accessCodeExpiration && Date.now() > activeSheet.accessCodeExpiration) {
@@ -879,26 +1612,32 @@ const App: React.FC = () => {
          return;
      }
 
-     const input = accessCodeInput.trim().toUpperCase();
-
-     if (input === activeSheet.editCode) {
-        setUnlockedSheets(prev => ({ ...prev, [activeSheet.id]: 'edit' }));
-        setAccessCodeInput("");
-        setAccessError(null);
-     } else if (input === activeSheet.viewCode) {
-        setUnlockedSheets(prev => ({ ...prev, [activeSheet.id]: 'view' }));
-        setAccessCodeInput("");
-        setAccessError(null);
-     } else if (input === activeSheet.accessCode) { 
-        // Legacy fallback
-        setUnlockedSheets(prev => ({ ...prev, [activeSheet.id]: 'edit' }));
-        setAccessCodeInput("");
-        setAccessError(null);
+     if (await verifyAccessCode(code, activeSheet.editCodeHash)) {
+        grant('edit');
+        const { editCodeHash, viewCodeHash, accessCodeExpiration } = activeSheet;
+        if (notPublished && editCodeHash && viewCodeHash && accessCodeExpiration) {
+           const published = activeSheet;
+           shareSync.current!.publish(published, { editCodeHash, viewCodeHash, expiresAt: accessCodeExpiration }, code)
+             .then(() => joinLive(published, code, 'edit'))
+             .catch(e => console.error("Erro ao publicar a pauta partilhada:", e));
+        }
+     } else if (await verifyAccessCode(code, activeSheet.viewCodeHash)) {
+        grant('view');
      } else {
-        setAccessError("Código incorreto.");
+        deny("Código incorreto.");
      }
   };
 
+  const handleRenameProfile = () => {
+    const name = prompt("O seu nome, como os colegas o veem nas pautas partilhadas:", profile.name);
+    if (name === null) return;
+    const next = { ...profile, name: name.trim().slice(0, 60) };
+    saveProfile(next);
+    setProfile(next);
+    profileRef.current = next;
+    liveSync.current!.announce();
+  };
+
   const handleSimulateLock = () => {
       if (!activeSheet) return;
       setUnlockedSheets(prev => {
@@ -957,6 +1696,8 @@ const App: React.FC = () => {
   };
 
   const isExpired = activeSheet?.accessCodeExpiration ? Date.now() > activeSheet.accessCodeExpiration : false;
+  const revealed = activeSheet ? revealedCodes[activeSheet.id] : undefined;
+  const activeLive = activeSheet && liveSync.current!.isLive(activeSheet.id) ? liveStatus[activeSheet.id] : undefined;
 
   return (
     <div className="flex flex-col h-screen bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-gray-100 font-sans overflow-hidden transition-colors duration-200">
@@ -977,11 +1718,33 @@ const App: React.FC = () => {
 
         <div className="flex items-center gap-2">
           {isProcessing && <span className="text-sm text-emerald-600 dark:text-emerald-400 animate-pulse font-medium mr-4">Processando...</span>}
+
+          {saveStatus !== 'idle' && (
+            <span
+              className={`flex items-center gap-1.5 text-xs font-medium mr-2 ${
+                saveStatus === 'error' ? 'text-red-600 dark:text-red-400' : 'text-gray-400 dark:text-gray-500'
+              }`}
+              title={saveStatus === 'error' ? "As alterações não estão a ser guardadas neste navegador. Exporte a pauta para não perder dados." : "Guardado neste navegador"}
+            >
+              {saveStatus === 'saving' && <><Loader2 size={14} className="animate-spin" /> <span className="hidden md:inline">A guardar...</span></>}
+              {saveStatus === 'saved' && <><Cloud size={14} /> <span className="hidden md:inline">Guardado</span></>}
+              {saveStatus === 'error' && <><CloudOff size={14} /> <span className="hidden md:inline">Falha ao guardar</span></>}
+            </span>
+          )}
           
+          {shareStatus === 'error' && (
+            <span
+              className="flex items-center gap-1.5 text-xs font-medium mr-2 text-red-600 dark:text-red-400"
+              title="As alterações às pautas partilhadas não chegaram ao servidor. Serão enviadas na próxima alteração."
+            >
+              <CloudOff size={14} /> <span className="hidden md:inline">Partilha não sincronizada</span>
+            </span>
+          )}
+
           <label className={`flex items-center gap-2 px-3 py-2 bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-md cursor-pointer border border-gray-200 dark:border-gray-600 transition-colors text-sm font-medium ${isReadOnly ? 'opacity-50 pointer-events-none' : ''}`}>
             <Upload size={16} />
             <span className="hidden sm:inline">Carregar Excel</span>
-            <input type="file" accept=".xlsx, .xls, .csv" onChange={handleFileUpload} className="hidden" disabled={isReadOnly} />
+            <input type="file" accept=".xlsx, .xls, .ods, .csv, .txt, .json" onChange={handleFileUpload} className="hidden" disabled={isReadOnly} />
           </label>
 
           <button 
@@ -994,6 +1757,16 @@ const App: React.FC = () => {
             <span className="hidden sm:inline">Separar Turmas</span>
           </button>
 
+          <button 
+            onClick={() => setShowMergeModal(true)}
+            disabled={!activeSheet || isReadOnly || sheets.filter(canAccessSheet).length < 2}
+            className="flex items-center gap-2 px-3 py-2 bg-emerald-50 dark:bg-emerald-900/30 hover:bg-emerald-100 dark:hover:bg-emerald-900/50 text-emerald-700 dark:text-emerald-400 rounded-md border border-emerald-200 dark:border-emerald-800 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Juntar as pautas das turmas numa só planilha"
+          >
+            <Merge size={16} />
+            <span className="hidden sm:inline">Juntar Turmas</span>
+          </button>
+
           <button 
             onClick={handleSetupClassValidation}
             disabled={!activeSheet || isSheetLocked || isReadOnly}
@@ -1008,12 +1781,62 @@ const App: React.FC = () => {
             onClick={handleCalculateAverages}
             disabled={!activeSheet || isSheetLocked || isReadOnly}
             className="flex items-center gap-2 px-3 py-2 bg-emerald-50 dark:bg-emerald-900/30 hover:bg-emerald-100 dark:hover:bg-emerald-900/50 text-emerald-700 dark:text-emerald-400 rounded-md border border-emerald-200 dark:border-emerald-800 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
-            title="Calcular Médias (Nota 1 + Nota 2) / 2"
+            title="Calcular Médias segundo os Critérios de Avaliação"
           >
             <Calculator size={16} />
             <span className="hidden sm:inline">Calc. Média</span>
           </button>
 
+          <button 
+            onClick={() => setShowReportCards(true)}
+            disabled={!activeSheet || isSheetLocked}
+            className="flex items-center gap-2 px-3 py-2 bg-emerald-50 dark:bg-emerald-900/30 hover:bg-emerald-100 dark:hover:bg-emerald-900/50 text-emerald-700 dark:text-emerald-400 rounded-md border border-emerald-200 dark:border-emerald-800 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Gerar boletins de notas em PDF"
+          >
+            <FileText size={16} />
+            <span className="hidden sm:inline">Boletins</span>
+          </button>
+
+          <button 
+             onClick={() => setShowGradingModal(true)}
+             disabled={!activeSheet || isSheetLocked || isReadOnly}
+             className="p-2 text-gray-500 dark:text-gray-400 hover:text-emerald-600 dark:hover:text-emerald-400 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-30"
+             title="Critérios de Avaliação"
+          >
+             <SlidersHorizontal size={20} />
+          </button>
+
+          <button 
+             onClick={() => setShowPrintModal(true)}
+             disabled={!activeSheet || isSheetLocked}
+             className="p-2 text-gray-500 dark:text-gray-400 hover:text-emerald-600 dark:hover:text-emerald-400 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-30"
+             title="Imprimir / PDF (Ctrl+P)"
+          >
+             <Printer size={20} />
+          </button>
+
+          <button 
+             onClick={() => setShowSortModal(true)}
+             disabled={!activeSheet || isSheetLocked || isReadOnly}
+             className="p-2 text-gray-500 dark:text-gray-400 hover:text-emerald-600 dark:hover:text-emerald-400 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-30"
+             title="Ordenar"
+          >
+             <ArrowUpDown size={20} />
+          </button>
+
+          <button 
+             onClick={handleToggleFilter}
+             disabled={!activeSheet || isSheetLocked}
+             className={`p-2 rounded-md transition-colors disabled:opacity-30 ${
+                activeSheet?.autoFilter
+                ? 'bg-emerald-100 dark:bg-emerald-900 text-emerald-700 dark:text-emerald-400'
+                : 'text-gray-500 dark:text-gray-400 hover:text-emerald-600 dark:hover:text-emerald-400 hover:bg-gray-50 dark:hover:bg-gray-700'
+             }`}
+             title={activeSheet?.autoFilter ? "Remover Filtro" : "Filtro no cabeçalho"}
+          >
+             <Filter size={20} />
+          </button>
+
           <button 
              onClick={() => setShowValidationModal(true)}
              disabled={!activeSheet || isSheetLocked || isReadOnly}
@@ -1023,6 +1846,23 @@ const App: React.FC = () => {
              <ShieldCheck size={20} />
           </button>
 
+          <button 
+             onClick={() => {
+                // Both panels sit in the same corner
+                if (!showValidationPanel) setFindMode(null);
+                setShowValidationPanel(!showValidationPanel);
+             }}
+             disabled={!activeSheet || isSheetLocked}
+             className={`p-2 rounded-md transition-colors disabled:opacity-30 ${
+                showValidationPanel
+                ? 'bg-emerald-100 dark:bg-emerald-900 text-emerald-700 dark:text-emerald-400'
+                : 'text-gray-500 dark:text-gray-400 hover:text-emerald-600 dark:hover:text-emerald-400 hover:bg-gray-50 dark:hover:bg-gray-700'
+             }`}
+             title="Verificar dados"
+          >
+             <ShieldAlert size={20} />
+          </button>
+
           <button 
              onClick={() => setShowFormatModal(true)}
              disabled={!activeSheet || isSheetLocked || isReadOnly}
@@ -1050,7 +1890,7 @@ const App: React.FC = () => {
           )}
 
           <button 
-            onClick={handleExport}
+            onClick={() => setExportScope('sheet')}
             disabled={!activeSheet || isSheetLocked}
             className="p-2 text-gray-500 dark:text-gray-400 hover:text-emerald-600 dark:hover:text-emerald-400 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-30"
             title="Exportar atual (Ctrl+S)"
@@ -1059,13 +1899,31 @@ const App: React.FC = () => {
           </button>
 
           <button 
-            onClick={handleExportAll}
+            onClick={() => setExportScope('workbook')}
             disabled={sheets.length === 0}
             className="p-2 text-gray-500 dark:text-gray-400 hover:text-emerald-600 dark:hover:text-emerald-400 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors"
             title="Exportar todas as planilhas"
           >
             <SaveAll size={20} />
           </button>
+
+          <button 
+            onClick={handleOpenHistory}
+            disabled={!activeSheet || isSheetLocked}
+            className="p-2 text-gray-500 dark:text-gray-400 hover:text-emerald-600 dark:hover:text-emerald-400 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-30"
+            title="Histórico de versões"
+          >
+            <History size={20} />
+          </button>
+
+          <button 
+            onClick={() => setShowAuditLog(true)}
+            disabled={!activeSheet || isSheetLocked}
+            className="p-2 text-gray-500 dark:text-gray-400 hover:text-emerald-600 dark:hover:text-emerald-400 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-30"
+            title="Registo de alterações"
+          >
+            <ScrollText size={20} />
+          </button>
           
           <div className="h-6 w-px bg-gray-200 dark:bg-gray-700 mx-1"></div>
 
@@ -1077,6 +1935,19 @@ const App: React.FC = () => {
             {theme === 'light' ? <Moon size={20} /> : <Sun size={20} />}
           </button>
 
+          <button 
+            onClick={() => setShowStats(!showStats)}
+            disabled={!activeSheet}
+            className={`p-2 rounded-md transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                showStats 
+                ? 'bg-emerald-100 dark:bg-emerald-900 text-emerald-700 dark:text-emerald-400 shadow-inner' 
+                : 'text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+            title="Estatísticas"
+          >
+            <ChartColumn size={20} />
+          </button>
+
           <button 
             onClick={() => setShowAI(!showAI)}
             className={`p-2 rounded-md transition-all ${
@@ -1101,6 +1972,25 @@ const App: React.FC = () => {
             {/* Toolbar / Formula Bar Placeholder */}
             <div className="h-10 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 flex items-center px-4 gap-4 text-sm text-gray-500 dark:text-gray-400 justify-between transition-colors duration-200">
                <div className="flex items-center gap-4 flex-1">
+                  <div className="flex items-center gap-1">
+                    <button
+                       onClick={handleUndo}
+                       disabled={!canUndo || isReadOnly}
+                       className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30 disabled:hover:bg-transparent"
+                       title={canUndo ? `Desfazer: ${undoLabel} (Ctrl+Z)` : "Desfazer (Ctrl+Z)"}
+                    >
+                       <Undo2 size={16} />
+                    </button>
+                    <button
+                       onClick={handleRedo}
+                       disabled={!canRedo || isReadOnly}
+                       className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30 disabled:hover:bg-transparent"
+                       title={canRedo ? `Refazer: ${redoLabel} (Ctrl+Y)` : "Refazer (Ctrl+Y)"}
+                    >
+                       <Redo2 size={16} />
+                    </button>
+                  </div>
+                  <div className="h-4 w-px bg-gray-300 dark:bg-gray-600"></div>
                   <span className="font-mono bg-gray-100 dark:bg-gray-700 px-2 py-0.5 rounded text-xs text-gray-600 dark:text-gray-300">fx</span>
                   <div className="h-4 w-px bg-gray-300 dark:bg-gray-600"></div>
                   <span className="italic text-gray-400 dark:text-gray-500 text-xs flex items-center gap-2">
@@ -1110,25 +2000,6 @@ const App: React.FC = () => {
                         'Use as setas para navegar, Enter para editar.'}
                   </span>
                </div>
-               
-               {/* Zoom Controls */}
-               <div className="flex items-center gap-2 border-l border-gray-200 dark:border-gray-700 pl-3 ml-2">
-                 <button 
-                    onClick={handleZoomOut} 
-                    className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
-                    title="Diminuir Zoom"
-                 >
-                    <ZoomOut size={16} />
-                 </button>
-                 <span className="text-xs font-mono w-10 text-center select-none text-gray-600 dark:text-gray-300">{Math.round(zoomLevel * 100)}%</span>
-                 <button 
-                    onClick={handleZoomIn} 
-                    className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
-                    title="Aumentar Zoom"
-                 >
-                    <ZoomIn size={16} />
-                 </button>
-               </div>
             </div>
 
             {/* Grid or Lock Screen */}
@@ -1146,6 +2017,21 @@ const App: React.FC = () => {
                             }
                         </p>
                         
+                        {!isExpired && isSyncEnabled() && activeSheet?.isShared && (
+                            <div className="mb-3 text-left">
+                                <label className="text-xs font-semibold uppercase text-gray-400 dark:text-gray-500 mb-1 block">O seu nome (visível aos colegas)</label>
+                                <input
+                                    type="text"
+                                    value={profile.name}
+                                    maxLength={60}
+                                    onChange={(e) => setProfile(prev => ({ ...prev, name: e.target.value }))}
+                                    onBlur={() => saveProfile(profile)}
+                                    className="w-full border-2 border-gray-200 dark:border-gray-600 rounded-lg p-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-200 dark:focus:ring-emerald-800 bg-white dark:bg-gray-700 dark:text-white"
+                                    placeholder="Professor"
+                                />
+                            </div>
+                        )}
+
                         {!isExpired && (
                             <div className="mb-4 text-left">
                                 <label className="text-xs font-semibold uppercase text-gray-400 dark:text-gray-500 mb-1 block">Código de Acesso</label>
@@ -1158,7 +2044,7 @@ const App: React.FC = () => {
                                     }}
                                     onKeyDown={(e) => e.key === 'Enter' && handleUnlockSheet()}
                                     className={`w-full border-2 rounded-lg p-3 text-center text-lg tracking-widest font-mono uppercase focus:outline-none focus:ring-2 focus:ring-emerald-200 dark:focus:ring-emerald-800 bg-white dark:bg-gray-700 dark:text-white ${accessError ? 'border-red-300 dark:border-red-700 bg-red-50 dark:bg-red-900/20' : 'border-gray-200 dark:border-gray-600'}`}
-                                    placeholder="XXXXXX"
+                                    placeholder="XXXXXXXX"
                                 />
                                 {accessError && <p className="text-xs text-red-500 dark:text-red-400 mt-1 text-center font-medium">{accessError}</p>}
                             </div>
@@ -1181,14 +2067,108 @@ const App: React.FC = () => {
             ) : (
                 <Spreadsheet 
                   data={activeSheet?.data || []} 
+                  values={activeValues}
                   onCellChange={updateCell}
+                  onCellsChange={applyCellChanges}
+                  onStructureChange={handleStructureChange}
+                  hiddenRows={activeSheet?.hiddenRows}
+                  hiddenColumns={activeSheet?.hiddenColumns}
+                  autoFilter={activeSheet?.autoFilter}
+                  cellStyles={activeSheet?.cellStyles}
+                  merges={activeSheet?.merges}
+                  columnWidths={activeSheet?.columnWidths}
+                  frozenRows={activeSheet?.frozenRows}
+                  frozenColumns={activeSheet?.frozenColumns}
+                  onFilterChange={handleFilterChange}
+                  onSort={handleSort}
+                  searchHits={activeSearchHits}
+                  currentHit={currentMatch && currentMatch.sheetId === activeSheetId ? currentMatch : null}
+                  focusCell={focusCell}
+                  onSelectionChange={setSelection}
+                  collaborators={activeSheetId ? collaborators[activeSheetId] : undefined}
+                  onUndo={handleUndo}
+                  onRedo={handleRedo}
                   rules={activeSheet?.conditionalFormats}
                   validationRules={activeSheet?.validationRules}
+                  validationIssues={activeValidationIssues}
                   zoom={zoomLevel}
                   readOnly={isReadOnly}
                 />
             )}
 
+            {/* Status Bar */}
+            <div className="h-8 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 flex items-center justify-end px-4 gap-1 text-xs text-gray-600 dark:text-gray-300 transition-colors duration-200">
+              {activeLive && (
+                <div className="flex items-center gap-2 mr-auto min-w-0">
+                  <span
+                    className={`flex items-center gap-1 font-medium shrink-0 ${
+                      activeLive.status === 'live' ? 'text-emerald-600 dark:text-emerald-400' : activeLive.error ? 'text-red-600 dark:text-red-400' : 'text-gray-400 dark:text-gray-500'
+                    }`}
+                    title={activeLive.error || "As alterações desta pauta chegam aos colegas no momento em que são feitas."}
+                  >
+                    <Radio size={12} className={activeLive.status === 'connecting' ? 'animate-pulse' : ''} />
+                    {activeLive.status === 'live' ? 'Em direto' : activeLive.status === 'connecting' ? 'A ligar...' : activeLive.error ? 'Edição em direto interrompida' : 'Sem ligação, a tentar de novo'}
+                  </span>
+                  {(collaborators[activeSheet!.id] || []).map(peer => (
+                    <span
+                      key={peer.id}
+                      className="flex items-center gap-1 px-1.5 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 truncate max-w-[10rem]"
+                      title={peer.access === 'edit' ? `${peer.name} (editor)` : `${peer.name} (só visualiza)`}
+                    >
+                      <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: peer.color }} />
+                      <span className="truncate">{peer.name}</span>
+                      {peer.access === 'view' && <Eye size={10} className="shrink-0 text-gray-400" />}
+                    </span>
+                  ))}
+                  <button
+                    onClick={handleRenameProfile}
+                    className="px-1.5 py-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 dark:text-gray-500 truncate"
+                    title="Alterar o nome mostrado aos colegas"
+                  >
+                    Você: {displayName(profile)}
+                  </button>
+                </div>
+              )}
+              {selectionStats && selectionStats.count > 0 && (
+                <div className="flex items-center gap-1">
+                  {statusItems(selectionStats).map(item => (
+                    <button
+                      key={item.label}
+                      onClick={() => handleCopyAggregate(item.label, item.value)}
+                      className="px-2 py-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                      title="Clique para copiar"
+                    >
+                      {copiedAggregate === item.label ? (
+                        <span className="text-emerald-600 dark:text-emerald-400 flex items-center gap-1"><Check size={12} /> Copiado</span>
+                      ) : (
+                        <>
+                          <span className="text-gray-400 dark:text-gray-500">{item.label}:</span> <span className="font-medium">{item.value}</span>
+                        </>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+               {/* Zoom Controls */}
+               <div className="flex items-center gap-2 border-l border-gray-200 dark:border-gray-700 pl-3 ml-2">
+                 <button 
+                    onClick={handleZoomOut} 
+                    className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                    title="Diminuir Zoom"
+                 >
+                    <ZoomOut size={16} />
+                 </button>
+                 <span className="text-xs font-mono w-10 text-center select-none text-gray-600 dark:text-gray-300">{Math.round(zoomLevel * 100)}%</span>
+                 <button 
+                    onClick={handleZoomIn} 
+                    className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                    title="Aumentar Zoom"
+                 >
+                    <ZoomIn size={16} />
+                 </button>
+               </div>
+            </div>
+
             {/* Bottom Tab Bar */}
             <div className="h-10 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 flex items-center px-2 gap-1 overflow-x-auto relative transition-colors duration-200">
               <button 
@@ -1196,7 +2176,7 @@ const App: React.FC = () => {
                 onClick={() => {
                    if (isReadOnly) return;
                    const newId = generateUUID();
-                   setSheets([...sheets, { id: newId, name: `Nova Planilha ${sheets.length + 1}`, data: [[]], conditionalFormats: [] }]);
+                   setSheets([...sheets, { id: newId, name: `Nova Planilha ${sheets.length + 1}`, data: createEmptyData(20, 10), conditionalFormats: [] }], 'Nova planilha');
                    setActiveSheetId(newId);
                    setUnlockedSheets(prev => ({ ...prev, [newId]: 'edit' }));
                 }}
@@ -1208,7 +2188,7 @@ const App: React.FC = () => {
                 // Safety check for undefined sheets in list
                 if (!sheet) return null;
                 const sheetAccess = unlockedSheets[sheet.id];
-                const sheetLocked = (sheet.editCode || sheet.viewCode) && !sheetAccess;
+                const sheetLocked = isProtected(sheet) && !sheetAccess;
                 
                 return (
                   <button
@@ -1228,7 +2208,7 @@ const App: React.FC = () => {
                       ${draggedSheetIndex === index ? 'opacity-50' : ''}
                     `}
                   >
-                    {sheet.editCode || sheet.viewCode ? (
+                    {isProtected(sheet) ? (
                         sheetAccess === 'edit' ? <Unlock size={10} className="text-emerald-500"/> : 
                         sheetAccess === 'view' ? <Eye size={10} className="text-blue-500"/> :
                         <Lock size={10} className="text-red-400"/>
@@ -1242,6 +2222,18 @@ const App: React.FC = () => {
             </div>
         </div>
 
+        {/* Statistics Sidebar */}
+        {showStats && activeSheet && !isSheetLocked && (
+          <StatisticsPanel
+            key={activeSheet.id}
+            sheet={activeSheet}
+            classSheets={statsClassSheets()}
+            onExportSheet={handleExportStatsSheet}
+            onExportImage={handleExportStatsImage}
+            onClose={() => setShowStats(false)}
+          />
+        )}
+
         {/* AI Sidebar */}
         {showAI && (
           <AIAssistant 
@@ -1267,7 +2259,7 @@ const App: React.FC = () => {
                <div className="p-6 space-y-6 text-gray-800 dark:text-gray-200 max-h-[80vh] overflow-y-auto">
                  <div>
                     <h4 className="text-sm font-semibold text-gray-800 dark:text-gray-200 mb-2">Estado da Partilha</h4>
-                    {(activeSheet.editCode || activeSheet.viewCode) ? (
+                    {isProtected(activeSheet) ? (
                          isExpired ? (
                             <div className="flex items-center gap-2 text-red-700 dark:text-red-400 bg-red-50 dark:bg-red-900/30 p-3 rounded-lg border border-red-100 dark:border-red-800">
                                <Clock size={18} />
@@ -1287,8 +2279,9 @@ const App: React.FC = () => {
                     )}
                  </div>
 
-                 {activeSheet.editCode && !isExpired ? (
+                 {hasAccessCodes(activeSheet) && !isExpired ? (
                      <>
+                        {revealed ? (
                         <div className="grid grid-cols-2 gap-4">
                             {/* Editor Access */}
                             <div className="space-y-2 col-span-2 sm:col-span-1">
@@ -1297,10 +2290,10 @@ const App: React.FC = () => {
                                </label>
                                <div className="flex items-center gap-2">
                                   <div className="flex-1 bg-red-50 dark:bg-red-900/20 border-2 border-dashed border-red-200 dark:border-red-800 rounded-lg p-2 text-center text-xl font-mono tracking-widest text-red-700 dark:text-red-200 select-all">
-                                    {activeSheet.editCode}
+                                    {revealed.editCode}
                                   </div>
                                   <button 
-                                    onClick={() => handleCopyCode(activeSheet.editCode, 'edit')}
+                                    onClick={() => handleCopyCode(revealed.editCode, 'edit')}
                                     className={`p-2 border rounded-lg transition-colors ${
                                         copyEditSuccess 
                                         ? 'bg-emerald-100 text-emerald-700 border-emerald-300' 
@@ -1320,10 +2313,10 @@ const App: React.FC = () => {
                                </label>
                                <div className="flex items-center gap-2">
                                   <div className="flex-1 bg-blue-50 dark:bg-blue-900/20 border-2 border-dashed border-blue-200 dark:border-blue-800 rounded-lg p-2 text-center text-xl font-mono tracking-widest text-blue-700 dark:text-blue-200 select-all">
-                                    {activeSheet.viewCode}
+                                    {revealed.viewCode}
                                   </div>
                                   <button 
-                                    onClick={() => handleCopyCode(activeSheet.viewCode, 'view')}
+                                    onClick={() => handleCopyCode(revealed.viewCode, 'view')}
                                     className={`p-2 border rounded-lg transition-colors ${
                                         copyViewSuccess 
                                         ? 'bg-emerald-100 text-emerald-700 border-emerald-300' 
@@ -1336,6 +2329,11 @@ const App: React.FC = () => {
                                <p className="text-[10px] text-gray-400">Apenas leitura.</p>
                             </div>
                         </div>
+                        ) : (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded p-3">
+                            Por segurança, os códigos só são mostrados quando são gerados. Se os perdeu, revogue os acessos e gere novos.
+                        </p>
+                        )}
 
                         <div className="space-y-2">
                            <label className="text-xs font-semibold uppercase text-gray-400 dark:text-gray-500">Link da Pauta</label>
@@ -1355,7 +2353,11 @@ const App: React.FC = () => {
                                 {linkCopySuccess ? "COPIADO!" : "COPIAR"}
                               </button>
                            </div>
-                           <p className="text-[10px] text-gray-400">Nota: O link exige um dos códigos acima para abrir.</p>
+                           <p className="text-[10px] text-gray-400">
+                             {isSyncEnabled()
+                               ? "Nota: O link exige um dos códigos acima para abrir."
+                               : "Nota: Sem servidor de partilha configurado, o link e os códigos só funcionam neste navegador."}
+                           </p>
                         </div>
 
                         <div className="border-t border-gray-100 dark:border-gray-700 pt-4 flex gap-3">
@@ -1417,6 +2419,169 @@ const App: React.FC = () => {
            </div>
         )}
 
+        {/* Grading Scheme Modal */}
+        {showGradingModal && activeSheet && (
+          <GradingSchemeModal
+            headers={activeSheet.data[0] || []}
+            scheme={activeSheet.gradingScheme || detectGradingScheme(activeSheet.data[0] || []) || GRADING_PRESETS[0].build(activeSheet.data[0] || [])}
+            onSave={handleSaveGradingScheme}
+            onClose={() => setShowGradingModal(false)}
+          />
+        )}
+
+        {findMode && (
+          <FindReplacePanel
+            mode={findMode}
+            query={findQuery}
+            replacement={replaceText}
+            options={findOptions}
+            scope={findScope}
+            matchCount={searchMatches.length}
+            currentIndex={matchIndex}
+            canReplace={findScope === 'workbook' ? sheets.some(canEditSheet) : !!canEdit && !isReadOnly}
+            onModeChange={setFindMode}
+            onQueryChange={setFindQuery}
+            onReplacementChange={setReplaceText}
+            onOptionsChange={setFindOptions}
+            onScopeChange={setFindScope}
+            onNext={handleFindNext}
+            onPrevious={handleFindPrevious}
+            onReplace={handleReplace}
+            onReplaceAll={handleReplaceAll}
+            onClose={() => setFindMode(null)}
+          />
+        )}
+
+        {showSortModal && activeSheet && (
+          <SortModal
+            headers={activeSheet.data[0] || []}
+            onSort={handleSort}
+            onClose={() => setShowSortModal(false)}
+          />
+        )}
+
+        {showPrintModal && activeSheet && !isSheetLocked && (
+          <PrintModal
+            sheet={activeSheet}
+            setup={activeSheet.pageSetup || DEFAULT_PAGE_SETUP}
+            onPrint={handlePrint}
+            onClose={() => setShowPrintModal(false)}
+          />
+        )}
+
+        {showHistory && activeSheet && !isSheetLocked && (
+          <VersionHistoryModal
+            key={activeSheet.id}
+            sheet={activeSheet}
+            snapshots={historySnapshots}
+            deletedSheets={deletedSnapshots}
+            readOnly={!canEdit}
+            onCreate={handleCreateSnapshot}
+            onDelete={handleDeleteSnapshot}
+            onRestoreSheet={handleRestoreSnapshot}
+            onRestoreCells={handleRestoreCells}
+            onRecover={handleRecoverSheet}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+
+        {showFormatModal && activeSheet && canEdit && (
+          <ConditionalFormatModal
+            key={activeSheet.id}
+            headers={activeSheet.data[0] || []}
+            columnCount={getColumnCount(activeSheet.data)}
+            rules={activeSheet.conditionalFormats || []}
+            initialColumns={selection ? { first: selection.c1, last: selection.c2 } : { first: 0, last: 0 }}
+            onSave={handleSaveRules}
+            onClose={() => setShowFormatModal(false)}
+          />
+        )}
+
+        {showValidationModal && activeSheet && canEdit && (
+          <DataValidationModal
+            key={activeSheet.id}
+            headers={activeSheet.data[0] || []}
+            columnCount={getColumnCount(activeSheet.data)}
+            rules={activeSheet.validationRules || []}
+            initialColumn={selection ? selection.c1 : 0}
+            onSave={handleSaveValidationRules}
+            onClose={() => setShowValidationModal(false)}
+          />
+        )}
+
+        {showValidationPanel && (
+          <DataCheckPanel
+            issues={validationIssues}
+            sheets={sheets}
+            scope={validationScope}
+            hasRules={(validationScope === 'workbook' ? sheets : sheets.filter(s => s.id === activeSheetId)).some(s => s.validationRules?.length)}
+            canEditRules={!!activeSheet && !!canEdit && !isReadOnly}
+            onScopeChange={setValidationScope}
+            onSelect={goToIssue}
+            onEditRules={() => setShowValidationModal(true)}
+            onClose={() => setShowValidationPanel(false)}
+          />
+        )}
+
+        {showAuditLog && activeSheet && !isSheetLocked && (
+          <AuditLogModal
+            key={activeSheet.id}
+            sheet={activeSheet}
+            onExport={handleExportAuditLog}
+            onClose={() => setShowAuditLog(false)}
+          />
+        )}
+
+        {showReportCards && activeSheet && (
+          <ReportCardModal
+            sheet={activeSheet}
+            template={activeSheet.reportCard || detectReportCardTemplate(activeSheet)}
+            onGenerate={handleGenerateReportCards}
+            onClose={() => setShowReportCards(false)}
+          />
+        )}
+
+        {splitSuggestion !== null && activeSheet && (
+          <SplitSheetModal
+            sheet={activeSheet}
+            suggestedColumn={splitSuggestion}
+            takenNames={sheets.map(s => s.name)}
+            onSplit={handleSplitSheet}
+            onClose={() => setSplitSuggestion(null)}
+          />
+        )}
+
+        {showMergeModal && (
+          <MergeSheetsModal
+            sheets={sheets.filter(canAccessSheet)}
+            initialSelection={mergeCandidates()}
+            onMerge={handleMergeSheets}
+            onClose={() => setShowMergeModal(false)}
+          />
+        )}
+
+        {pendingImport && (
+          <ImportWizard
+            key={JSON.stringify(pendingImport.csv?.options ?? null)}
+            fileName={pendingImport.fileName}
+            sources={pendingImport.sources}
+            csvOptions={pendingImport.csv?.options}
+            onCsvOptionsChange={handleCsvOptionsChange}
+            onImport={handleImportSheets}
+            onCancel={() => setPendingImport(null)}
+          />
+        )}
+
+        {exportScope && (
+          <ExportModal
+            initialScope={exportScope}
+            canExportSheet={!!activeSheet && !isSheetLocked}
+            csvOptions={csvOptions}
+            onExport={handleExportFile}
+            onClose={() => setExportScope(null)}
+          />
+        )}
+
         {/* Tab Context Menu */}
         {contextMenu && (
           <div 
@@ -1430,6 +2595,16 @@ const App: React.FC = () => {
              <button onClick={handleDuplicateSheet} className={`w-full text-left px-4 py-2 text-sm flex items-center gap-2 ${isReadOnly ? 'text-gray-400 cursor-not-allowed' : 'hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200'}`} disabled={isReadOnly}>
                 <Copy size={14} /> Duplicar
              </button>
+             {(() => {
+                const menuSheet = sheets.find(s => s.id === contextMenu.sheetId);
+                const isClassSheet = !!menuSheet?.splitSource;
+                if (!isClassSheet && !sheets.some(s => s.splitSource?.sheetId === contextMenu.sheetId)) return null;
+                return (
+                  <button onClick={handleSyncSplit} className="w-full text-left px-4 py-2 text-sm flex items-center gap-2 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200">
+                    <ArrowUpFromLine size={14} /> {isClassSheet ? 'Enviar notas para a pauta' : 'Receber notas das turmas'}
+                  </button>
+                );
+             })()}
              <div className="border-t border-gray-100 dark:border-gray-700 my-1"></div>
              <button onClick={handleDeleteSheet} className={`w-full text-left px-4 py-2 text-sm flex items-center gap-2 ${isReadOnly ? 'text-gray-400 cursor-not-allowed' : 'hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400'}`} disabled={isReadOnly}>
                 <Trash2 size={14} /> Excluir
@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { ScrollText, X, Download } from 'lucide-react';
+import { AuditEntry, CellValue, Sheet } from '../types';
+import { cellAddress, columnLabel } from '../utils/formulaEngine';
+import { displayText } from '../utils/searchUtils';
+import { AUDIT_ACCESS_LABELS, auditLogRows, formatAuditTime } from '../utils/auditTrail';
+
+interface AuditLogModalProps {
+  sheet: Sheet;
+  onExport: (entries: AuditEntry[], format: 'xlsx' | 'csv') => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full border border-gray-300 dark:border-gray-600 rounded p-2 text-sm bg-white dark:bg-gray-700";
+const labelClass = "text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1 block";
+
+const ALL = '';
+// Entries listed at once; the export has all of them
+const MAX_LISTED_ENTRIES = 500;
+
+// Rows and columns are named as they were when the change was made
+const rowKey = (entry: AuditEntry) => entry.row || `Linha ${entry.r + 1}`;
+const columnKey = (entry: AuditEntry) => entry.column || `Coluna ${columnLabel(entry.c)}`;
+
+const showValue = (value: CellValue) => {
+  const text = displayText(value);
+  return text === "" ? <span className="italic text-gray-400">vazio</span> : text;
+};
+
+const byName = (a: string, b: string) => a.localeCompare(b, 'pt', { numeric: true });
+
+const AuditLogModal: React.FC<AuditLogModalProps> = ({ sheet, onExport, onClose }) => {
+  const [row, setRow] = useState(ALL);
+  const [column, setColumn] = useState(ALL);
+
+  const log = useMemo(() => auditLogRows(sheet.auditLog || []), [sheet.auditLog]);
+  const rows = useMemo(() => [...new Set(log.filter(e => !e.cells && e.r > 0).map(rowKey))].sort(byName), [log]);
+  const columns = useMemo(() => [...new Set(log.filter(e => !e.cells).map(columnKey))].sort(byName), [log]);
+
+  const filtered = useMemo(() => log.filter(e =>
+    (row === ALL || (!e.cells && rowKey(e) === row)) && (column === ALL || (!e.cells && columnKey(e) === column))
+  ), [log, row, column]);
+  const listed = filtered.slice(-MAX_LISTED_ENTRIES).reverse();
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl w-[960px] max-w-[95vw] p-0 border border-gray-200 dark:border-gray-700 overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-emerald-600 dark:bg-emerald-800 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold flex items-center gap-2 text-lg">
+            <ScrollText size={20} />
+            Registo de alterações — {sheet.name}
+          </h3>
+          <button onClick={onClose} className="text-emerald-100 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-col h-[70vh] text-gray-800 dark:text-gray-200">
+          <div className="p-4 grid grid-cols-2 gap-3 border-b border-gray-200 dark:border-gray-700">
+            <div>
+              <label className={labelClass}>Aluno / linha</label>
+              <select value={row} onChange={e => setRow(e.target.value)} className={inputClass}>
+                <option value={ALL}>Todos</option>
+                {rows.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Coluna</label>
+              <select value={column} onChange={e => setColumn(e.target.value)} className={inputClass}>
+                <option value={ALL}>Todas</option>
+                {columns.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-auto">
+            {filtered.length === 0 ? (
+              <p className="p-6 text-sm text-gray-500 dark:text-gray-400 text-center">
+                {log.length === 0 ? "Ainda não há alterações registadas nesta planilha." : "Nenhuma alteração corresponde aos filtros."}
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-gray-50 dark:bg-gray-700 text-xs text-gray-500 dark:text-gray-300">
+                  <tr>
+                    <th className="p-2 text-left">Data e hora</th>
+                    <th className="p-2 text-left">Editor</th>
+                    <th className="p-2 text-left">Ação</th>
+                    <th className="p-2 text-left">Célula</th>
+                    <th className="p-2 text-left">Aluno / linha</th>
+                    <th className="p-2 text-left">Coluna</th>
+                    <th className="p-2 text-left">Antes</th>
+                    <th className="p-2 text-left">Depois</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {listed.map(e => (
+                    <tr key={e.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                      <td className="p-2 whitespace-nowrap text-xs text-gray-500">{formatAuditTime(e.time)}</td>
+                      <td className="p-2">
+                        <div className="truncate max-w-[9rem]">{e.editor}</div>
+                        <div className="text-[10px] text-gray-400">{AUDIT_ACCESS_LABELS[e.access] || e.access}</div>
+                      </td>
+                      <td className="p-2 text-xs truncate max-w-[9rem]">{e.action}</td>
+                      <td className="p-2 font-mono text-xs text-gray-500">{cellAddress(e.r, e.c)}</td>
+                      {e.cells ? (
+                        <td colSpan={4} className="p-2 text-xs italic text-gray-500">{e.cells} células mudaram de lugar (linhas ou colunas ordenadas, inseridas ou movidas)</td>
+                      ) : (
+                        <>
+                          <td className="p-2 truncate max-w-[12rem]">{e.r === 0 ? <span className="italic text-gray-400">cabeçalho</span> : e.row}</td>
+                          <td className="p-2 truncate max-w-[10rem]">{e.column}</td>
+                          <td className="p-2 text-gray-500 line-through decoration-gray-300">{showValue(e.before)}</td>
+                          <td className="p-2 font-semibold">{showValue(e.after)}</td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {filtered.length > listed.length && (
+              <p className="p-3 text-xs text-gray-400 text-center">Mostradas as {listed.length} alterações mais recentes de {filtered.length}. Exporte o registo para ver todas.</p>
+            )}
+          </div>
+
+          <div className="bg-gray-50 dark:bg-gray-900 px-6 py-4 flex items-center justify-between gap-3 border-t border-gray-100 dark:border-gray-700">
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {filtered.length} {filtered.length === 1 ? 'alteração' : 'alterações'}. Exporta as alterações filtradas.
+            </span>
+            <div className="flex gap-3">
+              <button
+                onClick={() => onExport(filtered, 'csv')}
+                disabled={filtered.length === 0}
+                className="px-4 py-2 text-sm text-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Exportar CSV
+              </button>
+              <button
+                onClick={() => onExport(filtered, 'xlsx')}
+                disabled={filtered.length === 0}
+                className="px-4 py-2 text-sm bg-emerald-600 hover:bg-emerald-700 text-white rounded transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Download size={14} /> Exportar XLSX
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogModal;
@@ -0,0 +1,362 @@
+import React, { useState } from 'react';
+import { Palette, X, Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import { CellValue, ConditionalRule, ConditionalRuleType, FormatCondition } from '../types';
+import { columnLabel } from '../utils/formulaEngine';
+import { generateUUID } from '../utils/excelUtils';
+import { displayText } from '../utils/searchUtils';
+import {
+  COLOR_SCALE_PRESETS, DEFAULT_BAR_COLOR, FORMAT_CONDITIONS, PRESET_STYLES, RULE_TYPE_LABELS,
+  conditionOperands, describeRule, ruleLastColumn, ruleRangeLabel, ruleType
+} from '../utils/conditionalFormat';
+
+interface ConditionalFormatModalProps {
+  headers: CellValue[];
+  columnCount: number;
+  rules: ConditionalRule[];
+  initialColumns: { first: number; last: number }; // Used by new rules: the selected columns
+  onSave: (rules: ConditionalRule[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full border border-gray-300 dark:border-gray-600 rounded p-2 text-sm bg-white dark:bg-gray-700";
+const labelClass = "text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1 block";
+const colorClass = "w-10 h-8 p-0.5 border border-gray-300 dark:border-gray-600 rounded cursor-pointer bg-white dark:bg-gray-700";
+
+// What a rule looks like, for the list and the preview
+const RuleSwatch: React.FC<{ rule: ConditionalRule; label?: string }> = ({ rule, label = "12,5" }) => {
+  const type = ruleType(rule);
+  if (type === 'colorScale') {
+    return <div className="h-6 rounded border border-gray-200 dark:border-gray-600" style={{ background: `linear-gradient(to right, ${(rule.colors || COLOR_SCALE_PRESETS[0].colors).join(', ')})` }} />;
+  }
+  if (type === 'dataBar') {
+    const color = rule.colors?.[0] || DEFAULT_BAR_COLOR;
+    return <div className="h-6 rounded border border-gray-200 dark:border-gray-600" style={{ background: `linear-gradient(to right, ${color} 60%, transparent 60%)` }} />;
+  }
+  return (
+    <div
+      className="h-6 px-2 rounded border border-gray-200 dark:border-gray-600 text-xs flex items-center"
+      style={{ backgroundColor: rule.style.backgroundColor, color: rule.style.color, fontWeight: rule.style.bold ? 'bold' : 500 }}
+    >
+      {label}
+    </div>
+  );
+};
+
+const ConditionalFormatModal: React.FC<ConditionalFormatModalProps> = ({ headers, columnCount, rules, initialColumns, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ConditionalRule[]>(rules);
+  const [selectedId, setSelectedId] = useState<string | null>(rules[0]?.id || null);
+  const selected = draft.find(r => r.id === selectedId) || null;
+
+  const columns = Array.from({ length: Math.max(1, columnCount) }, (_, c) => c);
+  const columnName = (c: number) => {
+    const header = displayText(headers[c]);
+    return header ? `${columnLabel(c)} — ${header}` : columnLabel(c);
+  };
+
+  const update = (patch: Partial<ConditionalRule>) => {
+    if (!selected) return;
+    setDraft(prev => prev.map(r => r.id === selected.id ? { ...r, ...patch } : r));
+  };
+
+  const handleAdd = () => {
+    const rule: ConditionalRule = {
+      id: generateUUID(),
+      type: 'highlight',
+      columnIndex: initialColumns.first,
+      ...(initialColumns.last > initialColumns.first ? { lastColumnIndex: initialColumns.last } : {}),
+      condition: 'lt',
+      value: '10',
+      style: PRESET_STYLES[0]
+    };
+    setDraft(prev => [...prev, rule]);
+    setSelectedId(rule.id);
+  };
+
+  const handleMove = (id: string, delta: number) => {
+    setDraft(prev => {
+      const index = prev.findIndex(r => r.id === id);
+      const target = index + delta;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleRemove = (id: string) => {
+    const index = draft.findIndex(r => r.id === id);
+    const next = draft.filter(r => r.id !== id);
+    setDraft(next);
+    if (selectedId === id) setSelectedId(next[Math.min(index, next.length - 1)]?.id || null);
+  };
+
+  const handleRange = (first: number, last: number) => {
+    const [from, to] = first <= last ? [first, last] : [last, first];
+    update({ columnIndex: from, lastColumnIndex: to > from ? to : undefined });
+  };
+
+  const handleType = (type: ConditionalRuleType) => {
+    if (!selected) return;
+    if (type === 'colorScale') update({ type, colors: COLOR_SCALE_PRESETS[0].colors });
+    else if (type === 'dataBar') update({ type, colors: [DEFAULT_BAR_COLOR] });
+    else update({ type, colors: undefined });
+  };
+
+  const handleSave = () => {
+    const invalid = draft.find(rule => {
+      if (ruleType(rule) !== 'highlight') return false;
+      const operands = conditionOperands(rule.condition);
+      if (operands >= 1 && String(rule.value).trim() === "") return true;
+      if (operands === 2 && String(rule.value2 ?? "").trim() === "") return true;
+      return (rule.condition === 'top' || rule.condition === 'bottom') && !(Number(rule.value) >= 1);
+    });
+    if (invalid) {
+      setSelectedId(invalid.id);
+      alert(invalid.condition === 'top' || invalid.condition === 'bottom'
+        ? "Indique quantos valores destacar (um número inteiro, 1 ou mais)."
+        : "Preencha o valor da condição.");
+      return;
+    }
+    onSave(draft);
+  };
+
+  const type = selected ? ruleType(selected) : 'highlight';
+  const operands = selected ? conditionOperands(selected.condition) : 0;
+  const scaleColors = selected?.colors && selected.colors.length >= 2 ? selected.colors : COLOR_SCALE_PRESETS[0].colors;
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl w-[880px] max-w-[95vw] p-0 border border-gray-200 dark:border-gray-700 overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-emerald-600 dark:bg-emerald-800 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold flex items-center gap-2 text-lg">
+            <Palette size={20} />
+            Formatação condicional
+          </h3>
+          <button onClick={onClose} className="text-emerald-100 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex h-[65vh] text-gray-800 dark:text-gray-200">
+          {/* Rules */}
+          <div className="w-80 shrink-0 border-r border-gray-200 dark:border-gray-700 flex flex-col">
+            <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+              <button
+                onClick={handleAdd}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm bg-emerald-600 hover:bg-emerald-700 text-white rounded transition-colors"
+              >
+                <Plus size={14} /> Nova regra
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+              {draft.length === 0 && (
+                <p className="p-4 text-xs text-gray-400">Ainda não há regras nesta planilha.</p>
+              )}
+              {draft.map((rule, index) => (
+                <div
+                  key={rule.id}
+                  onClick={() => setSelectedId(rule.id)}
+                  className={`group px-4 py-2 cursor-pointer flex items-center gap-2 ${rule.id === selectedId ? 'bg-emerald-50 dark:bg-emerald-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                >
+                  <div className="w-14 shrink-0"><RuleSwatch rule={rule} /></div>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm truncate">{describeRule(rule)}</div>
+                    <div className="text-[10px] text-gray-400">Colunas {ruleRangeLabel(rule)}{rule.wholeRow && ruleType(rule) === 'highlight' ? ' · linha inteira' : ''}</div>
+                  </div>
+                  <div className="flex flex-col opacity-0 group-hover:opacity-100">
+                    <button onClick={e => { e.stopPropagation(); handleMove(rule.id, -1); }} disabled={index === 0} className="text-gray-400 hover:text-emerald-600 disabled:opacity-30" title="Subir prioridade">
+                      <ArrowUp size={12} />
+                    </button>
+                    <button onClick={e => { e.stopPropagation(); handleMove(rule.id, 1); }} disabled={index === draft.length - 1} className="text-gray-400 hover:text-emerald-600 disabled:opacity-30" title="Descer prioridade">
+                      <ArrowDown size={12} />
+                    </button>
+                  </div>
+                  <button
+                    onClick={e => { e.stopPropagation(); handleRemove(rule.id); }}
+                    className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500"
+                    title="Apagar regra"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 min-w-0 overflow-y-auto">
+            {selected ? (
+              <div className="p-4 space-y-4">
+                <div>
+                  <label className={labelClass}>Tipo</label>
+                  <div className="flex rounded border border-gray-300 dark:border-gray-600 overflow-hidden">
+                    {(Object.keys(RULE_TYPE_LABELS) as ConditionalRuleType[]).map(t => (
+                      <button
+                        key={t}
+                        onClick={() => handleType(t)}
+                        className={`flex-1 px-3 py-2 text-sm ${type === t ? 'bg-emerald-600 text-white' : 'hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                      >
+                        {RULE_TYPE_LABELS[t]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className={labelClass}>Da coluna</label>
+                    <select value={selected.columnIndex} onChange={e => handleRange(Number(e.target.value), ruleLastColumn(selected))} className={inputClass}>
+                      {columns.map(c => <option key={c} value={c}>{columnName(c)}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Até à coluna</label>
+                    <select value={ruleLastColumn(selected)} onChange={e => handleRange(selected.columnIndex, Number(e.target.value))} className={inputClass}>
+                      {columns.map(c => <option key={c} value={c}>{columnName(c)}</option>)}
+                    </select>
+                  </div>
+                </div>
+
+                {type === 'highlight' && (
+                  <>
+                    <div className="flex gap-2 items-end">
+                      <div className="flex-1">
+                        <label className={labelClass}>Condição</label>
+                        <select value={selected.condition} onChange={e => update({ condition: e.target.value as FormatCondition })} className={inputClass}>
+                          {FORMAT_CONDITIONS.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                        </select>
+                      </div>
+                      {operands >= 1 && (
+                        <div className="w-28">
+                          <label className={labelClass}>{selected.condition === 'top' || selected.condition === 'bottom' ? 'Quantos (N)' : 'Valor'}</label>
+                          <input type="text" value={selected.value} onChange={e => update({ value: e.target.value })} className={inputClass} />
+                        </div>
+                      )}
+                      {operands === 2 && (
+                        <div className="w-28">
+                          <label className={labelClass}>e</label>
+                          <input type="text" value={selected.value2 ?? ""} onChange={e => update({ value2: e.target.value })} className={inputClass} />
+                        </div>
+                      )}
+                    </div>
+
+                    <div>
+                      <label className={labelClass}>Estilo</label>
+                      <div className="grid grid-cols-2 gap-2 mb-3">
+                        {PRESET_STYLES.map(style => (
+                          <button
+                            key={style.name}
+                            onClick={() => update({ style: { ...style, bold: selected.style.bold } })}
+                            className={`px-2 py-1.5 text-xs rounded border ${selected.style.backgroundColor === style.backgroundColor && selected.style.color === style.color ? 'ring-2 ring-emerald-500' : ''}`}
+                            style={{ backgroundColor: style.backgroundColor, color: style.color, borderColor: style.color }}
+                          >
+                            {style.name}
+                          </button>
+                        ))}
+                      </div>
+                      <div className="flex items-center gap-4 text-sm">
+                        <label className="flex items-center gap-2">
+                          Fundo
+                          <input type="color" value={selected.style.backgroundColor} onChange={e => update({ style: { ...selected.style, backgroundColor: e.target.value, name: 'Personalizado' } })} className={colorClass} />
+                        </label>
+                        <label className="flex items-center gap-2">
+                          Texto
+                          <input type="color" value={selected.style.color} onChange={e => update({ style: { ...selected.style, color: e.target.value, name: 'Personalizado' } })} className={colorClass} />
+                        </label>
+                        <label className="flex items-center gap-2">
+                          <input type="checkbox" checked={!!selected.style.bold} onChange={e => update({ style: { ...selected.style, bold: e.target.checked || undefined } })} className="accent-emerald-600" />
+                          Negrito
+                        </label>
+                      </div>
+                    </div>
+
+                    <label className="flex items-center gap-2 text-sm">
+                      <input type="checkbox" checked={!!selected.wholeRow} onChange={e => update({ wholeRow: e.target.checked || undefined })} className="accent-emerald-600" />
+                      Colorir a linha inteira (por exemplo, a do aluno com resultado "Reprovado")
+                    </label>
+                  </>
+                )}
+
+                {type === 'colorScale' && (
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-3 gap-2">
+                      {COLOR_SCALE_PRESETS.map(preset => (
+                        <button
+                          key={preset.name}
+                          onClick={() => update({ colors: preset.colors })}
+                          className="p-1 text-[10px] rounded border border-gray-200 dark:border-gray-600 hover:border-emerald-500"
+                          title={preset.name}
+                        >
+                          <div className="h-4 rounded mb-1" style={{ background: `linear-gradient(to right, ${preset.colors.join(', ')})` }} />
+                          {preset.name}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-4 text-sm">
+                      <label className="flex items-center gap-2">
+                        <input type="radio" checked={scaleColors.length < 3} onChange={() => update({ colors: [scaleColors[0], scaleColors[scaleColors.length - 1]] })} className="accent-emerald-600" />
+                        2 cores
+                      </label>
+                      <label className="flex items-center gap-2">
+                        <input type="radio" checked={scaleColors.length >= 3} onChange={() => update({ colors: [scaleColors[0], '#FDE047', scaleColors[scaleColors.length - 1]] })} className="accent-emerald-600" />
+                        3 cores
+                      </label>
+                    </div>
+                    <div className="flex items-center gap-4 text-sm">
+                      {scaleColors.map((color, i) => (
+                        <label key={i} className="flex items-center gap-2">
+                          {i === 0 ? 'Mínimo' : i === scaleColors.length - 1 ? 'Máximo' : 'Mediana'}
+                          <input
+                            type="color"
+                            value={color}
+                            onChange={e => update({ colors: scaleColors.map((c, j) => j === i ? e.target.value : c) })}
+                            className={colorClass}
+                          />
+                        </label>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Cada valor numérico recebe uma cor entre a do menor e a do maior valor das colunas escolhidas.</p>
+                  </div>
+                )}
+
+                {type === 'dataBar' && (
+                  <div className="space-y-2">
+                    <label className="flex items-center gap-2 text-sm">
+                      Cor das barras
+                      <input type="color" value={selected.colors?.[0] || DEFAULT_BAR_COLOR} onChange={e => update({ colors: [e.target.value] })} className={colorClass} />
+                    </label>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">O comprimento de cada barra é proporcional ao valor, de zero até ao maior valor das colunas escolhidas.</p>
+                  </div>
+                )}
+
+                <div>
+                  <label className={labelClass}>Pré-visualização</label>
+                  <div className="w-40"><RuleSwatch rule={selected} /></div>
+                </div>
+              </div>
+            ) : (
+              <div className="h-full flex items-center justify-center p-6 text-sm text-gray-400 text-center">
+                Crie uma regra para colorir notas, resultados ou linhas inteiras.
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-gray-50 dark:bg-gray-900 px-6 py-4 flex items-center justify-between gap-3 border-t border-gray-100 dark:border-gray-700">
+          <span className="text-xs text-gray-500 dark:text-gray-400">As regras do topo da lista têm prioridade quando várias se aplicam à mesma célula.</span>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors">
+              Cancelar
+            </button>
+            <button onClick={handleSave} className="px-4 py-2 text-sm bg-emerald-600 hover:bg-emerald-700 text-white rounded transition-colors">
+              Guardar regras
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConditionalFormatModal;
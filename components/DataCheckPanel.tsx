@@ -0,0 +1,96 @@
+import React from 'react';
+import { ShieldAlert, ShieldCheck, X, Settings2 } from 'lucide-react';
+import { Sheet } from '../types';
+import { SearchScope } from './FindReplacePanel';
+import { cellAddress } from '../utils/formulaEngine';
+import { ValidationIssue } from '../utils/dataValidation';
+
+interface DataCheckPanelProps {
+  issues: ValidationIssue[];
+  sheets: Sheet[];
+  scope: SearchScope;
+  hasRules: boolean; // Whether any checked sheet has validation rules
+  canEditRules: boolean;
+  onScopeChange: (scope: SearchScope) => void;
+  onSelect: (issue: ValidationIssue) => void;
+  onEditRules: () => void;
+  onClose: () => void;
+}
+
+const buttonClass = "p-1.5 rounded text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent";
+
+// Issues listed at once; the cells are marked in the grid either way
+const MAX_LISTED_ISSUES = 300;
+
+const DataCheckPanel: React.FC<DataCheckPanelProps> = ({
+  issues, sheets, scope, hasRules, canEditRules, onScopeChange, onSelect, onEditRules, onClose
+}) => {
+  const sheetName = (id: string) => sheets.find(s => s.id === id)?.name || "";
+  const listed = issues.slice(0, MAX_LISTED_ISSUES);
+
+  return (
+    <div
+      className="absolute top-12 right-4 z-40 w-96 bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700 text-sm text-gray-700 dark:text-gray-200 flex flex-col max-h-[70vh]"
+      onKeyDown={e => { if (e.key === 'Escape') onClose(); }}
+    >
+      <div className="flex items-center gap-2 p-3 border-b border-gray-200 dark:border-gray-700">
+        <ShieldAlert size={16} className="text-emerald-600 dark:text-emerald-400" />
+        <span className="font-semibold flex-1">Verificar dados</span>
+        <select
+          value={scope}
+          onChange={e => onScopeChange(e.target.value as SearchScope)}
+          className="border border-gray-300 dark:border-gray-600 rounded px-1 py-0.5 text-xs bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200"
+        >
+          <option value="sheet">Esta planilha</option>
+          <option value="workbook">Todas as planilhas</option>
+        </select>
+        <button onClick={onEditRules} disabled={!canEditRules} className={buttonClass} title="Regras de validação">
+          <Settings2 size={16} />
+        </button>
+        <button onClick={onClose} className={buttonClass} title="Fechar (Esc)">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {!hasRules ? (
+          <p className="p-4 text-xs text-gray-500 dark:text-gray-400">
+            Não há regras de validação para verificar. Defina-as em Validação de Dados (por exemplo, notas entre 0 e 20 ou número de estudante único).
+          </p>
+        ) : issues.length === 0 ? (
+          <p className="p-4 text-xs text-emerald-700 dark:text-emerald-400 flex items-center gap-2">
+            <ShieldCheck size={16} /> Todos os dados respeitam as regras de validação.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+            {listed.map(issue => (
+              <li key={`${issue.sheetId}:${issue.r}:${issue.c}`}>
+                <button
+                  onClick={() => onSelect(issue)}
+                  className="w-full text-left px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="w-1.5 h-1.5 rounded-full bg-red-500 shrink-0" />
+                    <span className="font-mono text-gray-500">{cellAddress(issue.r, issue.c)}</span>
+                    <span className="truncate">{issue.row}</span>
+                    {scope === 'workbook' && <span className="ml-auto text-gray-400 truncate max-w-[8rem]">{sheetName(issue.sheetId)}</span>}
+                  </div>
+                  <div className="pl-3.5 text-xs text-red-600 dark:text-red-400">{issue.message}</div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {issues.length > 0 && (
+        <div className="px-3 py-2 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400">
+          {issues.length} {issues.length === 1 ? 'célula inválida' : 'células inválidas'}
+          {issues.length > listed.length ? ` (mostradas as primeiras ${listed.length})` : ''}. Clique para ir à célula.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataCheckPanel;
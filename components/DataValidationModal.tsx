@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import { ShieldCheck, X, Plus, Trash2 } from 'lucide-react';
+import { CellValue, ValidationRule, ValidationType } from '../types';
+import { columnLabel } from '../utils/formulaEngine';
+import { generateUUID } from '../utils/excelUtils';
+import { displayText } from '../utils/searchUtils';
+import { describeValidationRule, PATTERN_PRESETS, patternRegExp, VALIDATION_TYPES } from '../utils/dataValidation';
+
+interface DataValidationModalProps {
+  headers: CellValue[];
+  columnCount: number;
+  rules: ValidationRule[];
+  initialColumn: number; // Used by new rules: the selected column
+  onSave: (rules: ValidationRule[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full border border-gray-300 dark:border-gray-600 rounded p-2 text-sm bg-white dark:bg-gray-700";
+const labelClass = "text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1 block";
+
+const RANGE_TYPES: ValidationType[] = ['number', 'decimal', 'text', 'date'];
+
+// Checks the settings of one rule; returns what is wrong, if anything
+const ruleProblem = (rule: ValidationRule): string | null => {
+  if (rule.type === 'list' && !(rule.options || []).some(o => o.trim())) return "Indique os valores permitidos, separados por vírgulas.";
+  if (rule.type === 'pattern' && !patternRegExp(rule.pattern)) return "O padrão não é uma expressão regular válida.";
+  if (rule.type === 'decimal' && !(Number.isInteger(rule.decimals) && rule.decimals! >= 0)) return "Indique o número de casas decimais (0 ou mais).";
+  if (rule.type === 'number' || rule.type === 'decimal' || rule.type === 'text') {
+    if ([rule.min, rule.max].some(v => v && isNaN(Number(v)))) return "O mínimo e o máximo devem ser números.";
+  }
+  return null;
+};
+
+const DataValidationModal: React.FC<DataValidationModalProps> = ({ headers, columnCount, rules, initialColumn, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ValidationRule[]>(rules);
+  const [selectedId, setSelectedId] = useState<string | null>(rules[0]?.id || null);
+  const selected = draft.find(r => r.id === selectedId) || null;
+
+  const columns = Array.from({ length: Math.max(1, columnCount) }, (_, c) => c);
+  const columnName = (c: number) => {
+    const header = displayText(headers[c]);
+    return header ? `${columnLabel(c)} — ${header}` : columnLabel(c);
+  };
+
+  const update = (patch: Partial<ValidationRule>) => {
+    if (!selected) return;
+    setDraft(prev => prev.map(r => r.id === selected.id ? { ...r, ...patch } : r));
+  };
+
+  const handleAdd = () => {
+    const rule: ValidationRule = { id: generateUUID(), columnIndex: initialColumn, type: 'number', min: '0', max: '20' };
+    setDraft(prev => [...prev, rule]);
+    setSelectedId(rule.id);
+  };
+
+  const handleRemove = (id: string) => {
+    const index = draft.findIndex(r => r.id === id);
+    const next = draft.filter(r => r.id !== id);
+    setDraft(next);
+    if (selectedId === id) setSelectedId(next[Math.min(index, next.length - 1)]?.id || null);
+  };
+
+  // Settings of the previous type do not carry over
+  const handleType = (type: ValidationType) => {
+    if (!selected) return;
+    const { id, columnIndex, errorMessage } = selected;
+    const rule: ValidationRule = { id, columnIndex, type, errorMessage };
+    if (type === 'decimal') rule.decimals = 1;
+    if (type === 'list') rule.options = [];
+    if (type === 'pattern') rule.pattern = PATTERN_PRESETS[0].pattern;
+    setDraft(prev => prev.map(r => r.id === id ? rule : r));
+  };
+
+  const handleSave = () => {
+    const cleaned = draft.map(rule => rule.type === 'list'
+      ? { ...rule, options: (rule.options || []).map(o => o.trim()).filter(o => o.length > 0) }
+      : rule);
+    const invalid = cleaned.find(ruleProblem);
+    if (invalid) {
+      setSelectedId(invalid.id);
+      alert(ruleProblem(invalid));
+      return;
+    }
+    onSave(cleaned);
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl w-[820px] max-w-[95vw] p-0 border border-gray-200 dark:border-gray-700 overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-emerald-600 dark:bg-emerald-800 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold flex items-center gap-2 text-lg">
+            <ShieldCheck size={20} />
+            Validação de dados
+          </h3>
+          <button onClick={onClose} className="text-emerald-100 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex h-[60vh] text-gray-800 dark:text-gray-200">
+          {/* Rules */}
+          <div className="w-80 shrink-0 border-r border-gray-200 dark:border-gray-700 flex flex-col">
+            <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+              <button
+                onClick={handleAdd}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm bg-emerald-600 hover:bg-emerald-700 text-white rounded transition-colors"
+              >
+                <Plus size={14} /> Nova regra
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+              {draft.length === 0 && (
+                <p className="p-4 text-xs text-gray-400">Ainda não há regras nesta planilha.</p>
+              )}
+              {draft.map(rule => (
+                <div
+                  key={rule.id}
+                  onClick={() => setSelectedId(rule.id)}
+                  className={`group px-4 py-2 cursor-pointer flex items-center gap-2 ${rule.id === selectedId ? 'bg-emerald-50 dark:bg-emerald-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm truncate">{describeValidationRule(rule)}</div>
+                    <div className="text-[10px] text-gray-400 truncate">{columnName(rule.columnIndex)}</div>
+                  </div>
+                  <button
+                    onClick={e => { e.stopPropagation(); handleRemove(rule.id); }}
+                    className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500"
+                    title="Apagar regra"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 min-w-0 overflow-y-auto">
+            {selected ? (
+              <div className="p-4 space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className={labelClass}>Coluna</label>
+                    <select value={selected.columnIndex} onChange={e => update({ columnIndex: Number(e.target.value) })} className={inputClass}>
+                      {columns.map(c => <option key={c} value={c}>{columnName(c)}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Tipo</label>
+                    <select value={selected.type} onChange={e => handleType(e.target.value as ValidationType)} className={inputClass}>
+                      {VALIDATION_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                    </select>
+                  </div>
+                </div>
+
+                {RANGE_TYPES.includes(selected.type) && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className={labelClass}>{selected.type === 'text' ? 'Mínimo de caracteres' : 'Mínimo'}</label>
+                      <input
+                        type={selected.type === 'date' ? 'date' : 'text'}
+                        value={selected.min || ''}
+                        onChange={e => update({ min: e.target.value })}
+                        className={inputClass}
+                        placeholder="Sem mínimo"
+                      />
+                    </div>
+                    <div>
+                      <label className={labelClass}>{selected.type === 'text' ? 'Máximo de caracteres' : 'Máximo'}</label>
+                      <input
+                        type={selected.type === 'date' ? 'date' : 'text'}
+                        value={selected.max || ''}
+                        onChange={e => update({ max: e.target.value })}
+                        className={inputClass}
+                        placeholder="Sem máximo"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {selected.type === 'decimal' && (
+                  <div className="w-48">
+                    <label className={labelClass}>Casas decimais (no máximo)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={10}
+                      value={selected.decimals ?? ''}
+                      onChange={e => update({ decimals: e.target.value === '' ? undefined : Number(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+
+                {selected.type === 'list' && (
+                  <div>
+                    <label className={labelClass}>Valores permitidos (separados por vírgulas)</label>
+                    <input
+                      type="text"
+                      value={(selected.options || []).join(',')}
+                      onChange={e => update({ options: e.target.value.split(',') })}
+                      className={inputClass}
+                      placeholder="Aprovado, Reprovado, Desistente"
+                    />
+                  </div>
+                )}
+
+                {selected.type === 'pattern' && (
+                  <div className="space-y-2">
+                    <div>
+                      <label className={labelClass}>Padrão (o valor inteiro deve segui-lo)</label>
+                      <input
+                        type="text"
+                        value={selected.pattern || ''}
+                        onChange={e => update({ pattern: e.target.value })}
+                        className={`${inputClass} font-mono`}
+                      />
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {PATTERN_PRESETS.map(preset => (
+                        <button
+                          key={preset.name}
+                          onClick={() => update({ pattern: preset.pattern })}
+                          className={`px-2 py-1 text-xs rounded border ${selected.pattern === preset.pattern ? 'border-emerald-500 text-emerald-700 dark:text-emerald-400' : 'border-gray-300 dark:border-gray-600 hover:border-emerald-500'}`}
+                        >
+                          {preset.name}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {selected.type === 'required' && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">As células desta coluna não podem ficar vazias nas linhas preenchidas.</p>
+                )}
+                {selected.type === 'unique' && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Cada valor só pode aparecer uma vez na coluna, como o número de estudante. "12" e "12,0" contam como o mesmo valor.</p>
+                )}
+
+                <div>
+                  <label className={labelClass}>Mensagem de erro (opcional)</label>
+                  <input
+                    type="text"
+                    value={selected.errorMessage || ''}
+                    onChange={e => update({ errorMessage: e.target.value || undefined })}
+                    className={inputClass}
+                    placeholder="Mensagem mostrada quando o valor não é aceite"
+                  />
+                </div>
+              </div>
+            ) : (
+              <div className="h-full flex items-center justify-center p-6 text-sm text-gray-400 text-center">
+                Crie uma regra para controlar o que pode ser escrito numa coluna.
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-gray-50 dark:bg-gray-900 px-6 py-4 flex items-center justify-between gap-3 border-t border-gray-100 dark:border-gray-700">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Uma coluna pode ter várias regras. Use "Verificar dados" para encontrar valores já existentes que não as cumprem.</span>
+          <div className="flex gap-3 shrink-0">
+            <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors">
+              Cancelar
+            </button>
+            <button onClick={handleSave} className="px-4 py-2 text-sm bg-emerald-600 hover:bg-emerald-700 text-white rounded transition-colors">
+              Guardar regras
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataValidationModal;
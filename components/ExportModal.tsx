@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { CsvDelimiter, CsvOptions, ExportFormat, TextEncoding } from '../utils/fileFormats';
+
+export type ExportScope = 'sheet' | 'workbook';
+
+interface ExportModalProps {
+  initialScope: ExportScope;
+  canExportSheet: boolean;
+  csvOptions: CsvOptions;
+  onExport: (format: ExportFormat, scope: ExportScope, csvOptions: CsvOptions) => void;
+  onClose: () => void;
+}
+
+const FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'xlsx', label: 'Excel (.xlsx)', description: 'Com fórmulas, para Microsoft Excel.' },
+  { value: 'ods', label: 'OpenDocument (.ods)', description: 'Para LibreOffice e OpenOffice.' },
+  { value: 'csv', label: 'CSV (.csv)', description: 'Só valores, para o portal do ministério. Um arquivo por planilha.' },
+  { value: 'json', label: 'Educa-Lukunde (.json)', description: 'Cópia completa com formatação, validação e códigos de partilha.' }
+];
+
+const inputClass = "w-full border border-gray-300 dark:border-gray-600 rounded p-2 text-sm bg-white dark:bg-gray-700";
+const labelClass = "text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1 block";
+
+/** Separator, decimal mark and encoding of CSV files; shared with the import wizard. */
+export const CsvOptionsFields: React.FC<{ options: CsvOptions; onChange: (options: CsvOptions) => void; showBom?: boolean }> = ({ options, onChange, showBom }) => (
+  <div className="grid grid-cols-2 gap-3">
+    <div>
+      <label className={labelClass}>Separador</label>
+      <select value={options.delimiter} onChange={e => onChange({ ...options, delimiter: e.target.value as CsvDelimiter })} className={inputClass}>
+        <option value=";">Ponto e vírgula (;)</option>
+        <option value=",">Vírgula (,)</option>
+        <option value={'\t'}>Tabulação</option>
+      </select>
+    </div>
+    <div>
+      <label className={labelClass}>Codificação</label>
+      <select value={options.encoding} onChange={e => onChange({ ...options, encoding: e.target.value as TextEncoding })} className={inputClass}>
+        <option value="utf-8">UTF-8</option>
+        <option value="windows-1252">Windows (ANSI)</option>
+      </select>
+    </div>
+    <label className="flex items-center gap-2 text-sm cursor-pointer">
+      <input type="checkbox" checked={options.decimalComma} onChange={() => onChange({ ...options, decimalComma: !options.decimalComma })} className="accent-emerald-600" />
+      Vírgula decimal (12,5)
+    </label>
+    {showBom && (
+      <label className="flex items-center gap-2 text-sm cursor-pointer">
+        <input
+          type="checkbox"
+          checked={options.bom && options.encoding === 'utf-8'}
+          disabled={options.encoding !== 'utf-8'}
+          onChange={() => onChange({ ...options, bom: !options.bom })}
+          className="accent-emerald-600"
+        />
+        Marca BOM
+      </label>
+    )}
+  </div>
+);
+
+const ExportModal: React.FC<ExportModalProps> = ({ initialScope, canExportSheet, csvOptions, onExport, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [scope, setScope] = useState<ExportScope>(canExportSheet ? initialScope : 'workbook');
+  const [options, setOptions] = useState<CsvOptions>(csvOptions);
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl w-[480px] p-0 border border-gray-200 dark:border-gray-700 overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-emerald-600 dark:bg-emerald-800 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold flex items-center gap-2 text-lg">
+            <Download size={20} />
+            Exportar
+          </h3>
+          <button onClick={onClose} className="text-emerald-100 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 text-gray-800 dark:text-gray-200">
+          <div>
+            <label className={labelClass}>O que exportar</label>
+            <select value={scope} onChange={e => setScope(e.target.value as ExportScope)} className={inputClass}>
+              <option value="sheet" disabled={!canExportSheet}>Planilha atual</option>
+              <option value="workbook">Todas as planilhas</option>
+            </select>
+          </div>
+
+          <div>
+            <label className={labelClass}>Formato</label>
+            <div className="space-y-1">
+              {FORMATS.map(f => (
+                <label
+                  key={f.value}
+                  className={`flex items-start gap-2 p-2 rounded border cursor-pointer ${format === f.value ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20' : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                >
+                  <input type="radio" name="export-format" checked={format === f.value} onChange={() => setFormat(f.value)} className="mt-1 accent-emerald-600" />
+                  <div>
+                    <div className="text-sm font-medium">{f.label}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{f.description}</div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {format === 'csv' && <CsvOptionsFields options={options} onChange={setOptions} showBom />}
+        </div>
+
+        <div className="border-t border-gray-100 dark:border-gray-700 p-4 flex gap-3 justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded">
+            Cancelar
+          </button>
+          <button
+            onClick={() => onExport(format, scope, options)}
+            className="px-4 py-2 text-sm bg-emerald-600 hover:bg-emerald-700 text-white rounded font-medium"
+          >
+            Exportar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportModal;
@@ -0,0 +1,181 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDownAZ, ArrowUpZA, Search, FilterX } from 'lucide-react';
+import { ColumnFilter, ConditionType, SortDirection } from '../types';
+
+interface FilterMenuProps {
+  title: string;
+  options: { value: string; count: number }[];
+  filter?: ColumnFilter;
+  columnIndex: number;
+  x: number;
+  y: number;
+  canSort?: boolean; // Sorting changes the data; filtering only what this person sees
+  canFilter?: boolean;
+  onApply: (filter: ColumnFilter | null) => void;
+  onSort: (direction: SortDirection) => void;
+  onClose: () => void;
+}
+
+// Long value lists (e.g. student names) are only rendered up to this many rows
+const MAX_LISTED = 300;
+
+const inputClass = "w-full border border-gray-300 dark:border-gray-600 rounded p-1.5 text-xs bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200";
+
+const FilterMenu: React.FC<FilterMenuProps> = ({ title, options, filter, columnIndex, x, y, canSort = true, canFilter = true, onApply, onSort, onClose }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(filter?.values ?? options.map(o => o.value)));
+  const [search, setSearch] = useState("");
+  const [condition, setCondition] = useState<ConditionType | ''>(filter?.condition || '');
+  const [conditionValue, setConditionValue] = useState(filter?.conditionValue || "");
+
+  const visibleOptions = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return term ? options.filter(o => o.value.toLowerCase().includes(term)) : options;
+  }, [options, search]);
+
+  const allVisibleSelected = visibleOptions.every(o => selected.has(o.value));
+
+  const toggle = (value: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(value)) next.delete(value); else next.add(value);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      visibleOptions.forEach(o => allVisibleSelected ? next.delete(o.value) : next.add(o.value));
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    const everything = options.every(o => selected.has(o.value));
+    const next: ColumnFilter = {
+      columnIndex,
+      values: everything ? undefined : options.map(o => o.value).filter(v => selected.has(v)),
+      condition: condition || undefined,
+      conditionValue: condition ? conditionValue : undefined
+    };
+    onApply(next.values === undefined && !next.condition ? null : next);
+  };
+
+  // Close when clicking outside or pressing Escape
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) onClose();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  // Keep the menu inside the window
+  const left = Math.min(x, window.innerWidth - 272);
+  const top = Math.min(y, window.innerHeight - 460);
+
+  return (
+    <div
+      ref={menuRef}
+      className="fixed z-50 w-64 bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700 text-sm text-gray-700 dark:text-gray-200"
+      style={{ top: Math.max(8, top), left: Math.max(8, left) }}
+    >
+      <div className="px-3 py-2 border-b border-gray-100 dark:border-gray-700 font-semibold text-xs truncate" title={title}>
+        {title}
+      </div>
+
+      <div className="py-1 border-b border-gray-100 dark:border-gray-700">
+        <button
+          onClick={() => onSort('asc')}
+          disabled={!canSort}
+          className="w-full text-left px-3 py-1.5 flex items-center gap-2 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent"
+        >
+          <ArrowDownAZ size={14} /> Ordenar de A a Z
+        </button>
+        <button
+          onClick={() => onSort('desc')}
+          disabled={!canSort}
+          className="w-full text-left px-3 py-1.5 flex items-center gap-2 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent"
+        >
+          <ArrowUpZA size={14} /> Ordenar de Z a A
+        </button>
+      </div>
+
+      <div className="p-3 space-y-2 border-b border-gray-100 dark:border-gray-700">
+        <div className="flex gap-2">
+          <select value={condition} onChange={e => setCondition(e.target.value as ConditionType | '')} className={`${inputClass} w-1/2`}>
+            <option value="">Sem condição</option>
+            <option value="lt">Menor que</option>
+            <option value="lte">Menor ou igual</option>
+            <option value="gt">Maior que</option>
+            <option value="gte">Maior ou igual</option>
+            <option value="eq">Igual a</option>
+            <option value="contains">Contém</option>
+          </select>
+          <input
+            type="text"
+            value={conditionValue}
+            disabled={!condition}
+            onChange={e => setConditionValue(e.target.value)}
+            className={`${inputClass} w-1/2 disabled:opacity-50`}
+            placeholder="Valor"
+          />
+        </div>
+
+        <div className="relative">
+          <Search size={12} className="absolute left-2 top-2.5 text-gray-400" />
+          <input type="text" value={search} onChange={e => setSearch(e.target.value)} className={`${inputClass} pl-6`} placeholder="Pesquisar..." />
+        </div>
+
+        <div className="max-h-48 overflow-y-auto border border-gray-100 dark:border-gray-700 rounded">
+          <label className="flex items-center gap-2 px-2 py-1 text-xs font-medium hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer">
+            <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} className="accent-emerald-600" />
+            (Selecionar tudo)
+          </label>
+          {visibleOptions.slice(0, MAX_LISTED).map(option => (
+            <label key={option.value} className="flex items-center gap-2 px-2 py-1 text-xs hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer">
+              <input type="checkbox" checked={selected.has(option.value)} onChange={() => toggle(option.value)} className="accent-emerald-600" />
+              <span className="truncate flex-1">{option.value === "" ? "(Vazias)" : option.value}</span>
+              <span className="text-gray-400">{option.count}</span>
+            </label>
+          ))}
+          {visibleOptions.length > MAX_LISTED && (
+            <p className="px-2 py-1 text-[10px] text-gray-400">
+              Mais {visibleOptions.length - MAX_LISTED} valores. Use a pesquisa para os encontrar.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="p-2 flex items-center gap-2 justify-end">
+        <button
+          onClick={() => onApply(null)}
+          disabled={!canFilter || !filter}
+          className="mr-auto px-2 py-1 text-xs text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded flex items-center gap-1 disabled:opacity-40 disabled:hover:bg-transparent"
+        >
+          <FilterX size={12} /> Limpar
+        </button>
+        <button onClick={onClose} className="px-3 py-1 text-xs text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded">
+          Cancelar
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={!canFilter}
+          className="px-3 py-1 text-xs bg-emerald-600 hover:bg-emerald-700 text-white rounded font-medium disabled:opacity-50"
+        >
+          OK
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FilterMenu;
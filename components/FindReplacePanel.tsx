@@ -0,0 +1,148 @@
+import React, { useEffect, useRef } from 'react';
+import { Search, X, ChevronUp, ChevronDown, Replace } from 'lucide-react';
+import { SearchOptions } from '../utils/searchUtils';
+
+export type SearchScope = 'sheet' | 'workbook';
+
+interface FindReplacePanelProps {
+  mode: 'find' | 'replace';
+  query: string;
+  replacement: string;
+  options: SearchOptions;
+  scope: SearchScope;
+  matchCount: number;
+  currentIndex: number; // -1 when no match is selected
+  canReplace: boolean;
+  onModeChange: (mode: 'find' | 'replace') => void;
+  onQueryChange: (query: string) => void;
+  onReplacementChange: (replacement: string) => void;
+  onOptionsChange: (options: SearchOptions) => void;
+  onScopeChange: (scope: SearchScope) => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onReplace: () => void;
+  onReplaceAll: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "flex-1 min-w-0 border border-gray-300 dark:border-gray-600 rounded px-2 py-1.5 text-sm bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200 outline-none focus:border-emerald-500";
+const buttonClass = "p-1.5 rounded text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent";
+
+const FindReplacePanel: React.FC<FindReplacePanelProps> = ({
+  mode, query, replacement, options, scope, matchCount, currentIndex, canReplace,
+  onModeChange, onQueryChange, onReplacementChange, onOptionsChange, onScopeChange,
+  onNext, onPrevious, onReplace, onReplaceAll, onClose
+}) => {
+  const queryRef = useRef<HTMLInputElement>(null);
+
+  // Ctrl+F while the panel is open selects the search text again
+  useEffect(() => {
+    queryRef.current?.focus();
+    queryRef.current?.select();
+  }, [mode]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) onPrevious(); else onNext();
+    }
+  };
+
+  const toggle = (key: keyof SearchOptions) => onOptionsChange({ ...options, [key]: !options[key] });
+
+  return (
+    <div
+      className="absolute top-12 right-4 z-40 w-96 bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700 p-3 space-y-2 text-sm text-gray-700 dark:text-gray-200"
+      onKeyDown={handleKeyDown}
+    >
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => onModeChange(mode === 'find' ? 'replace' : 'find')}
+          className={buttonClass}
+          title={mode === 'find' ? "Mostrar substituir (Ctrl+H)" : "Ocultar substituir"}
+        >
+          {mode === 'find' ? <ChevronDown size={14} /> : <ChevronUp size={14} />}
+        </button>
+        <div className="relative flex-1 flex">
+          <Search size={14} className="absolute left-2 top-2.5 text-gray-400" />
+          <input
+            ref={queryRef}
+            type="text"
+            value={query}
+            onChange={e => onQueryChange(e.target.value)}
+            className={`${inputClass} pl-7`}
+            placeholder="Localizar..."
+          />
+        </div>
+        <span className="text-xs text-gray-400 w-16 text-center whitespace-nowrap">
+          {query ? (matchCount > 0 ? `${currentIndex + 1} de ${matchCount}` : 'Sem resultados') : ''}
+        </span>
+        <button onClick={onPrevious} disabled={matchCount === 0} className={buttonClass} title="Anterior (Shift+Enter)">
+          <ChevronUp size={16} />
+        </button>
+        <button onClick={onNext} disabled={matchCount === 0} className={buttonClass} title="Seguinte (Enter)">
+          <ChevronDown size={16} />
+        </button>
+        <button onClick={onClose} className={buttonClass} title="Fechar (Esc)">
+          <X size={16} />
+        </button>
+      </div>
+
+      {mode === 'replace' && (
+        <div className="flex items-center gap-1 pl-8">
+          <input
+            type="text"
+            value={replacement}
+            onChange={e => onReplacementChange(e.target.value)}
+            className={inputClass}
+            placeholder="Substituir por..."
+            disabled={!canReplace}
+          />
+          <button
+            onClick={onReplace}
+            disabled={!canReplace || currentIndex < 0}
+            className={buttonClass}
+            title="Substituir"
+          >
+            <Replace size={16} />
+          </button>
+          <button
+            onClick={onReplaceAll}
+            disabled={!canReplace || matchCount === 0}
+            className="px-2 py-1 text-xs rounded border border-emerald-200 dark:border-emerald-800 bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400 hover:bg-emerald-100 dark:hover:bg-emerald-900/50 disabled:opacity-40"
+          >
+            Substituir tudo
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 pl-8 text-xs text-gray-500 dark:text-gray-400">
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={options.matchCase} onChange={() => toggle('matchCase')} className="accent-emerald-600" />
+          Maiúsculas
+        </label>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={options.matchAccents} onChange={() => toggle('matchAccents')} className="accent-emerald-600" />
+          Acentos
+        </label>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={options.wholeCell} onChange={() => toggle('wholeCell')} className="accent-emerald-600" />
+          Célula inteira
+        </label>
+        <select
+          value={scope}
+          onChange={e => onScopeChange(e.target.value as SearchScope)}
+          className="ml-auto border border-gray-300 dark:border-gray-600 rounded px-1 py-0.5 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200"
+        >
+          <option value="sheet">Esta planilha</option>
+          <option value="workbook">Todas as planilhas</option>
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default FindReplacePanel;
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, X, Plus, Trash2 } from 'lucide-react';
+import { CellValue, GradingScheme, RoundingMode } from '../types';
+import { GRADING_PRESETS, isSchemeComplete } from '../utils/grading';
+import { generateUUID } from '../utils/excelUtils';
+import { columnLabel } from '../utils/formulaEngine';
+
+interface GradingSchemeModalProps {
+  headers: CellValue[];
+  scheme: GradingScheme;
+  onSave: (scheme: GradingScheme) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full border border-gray-300 dark:border-gray-600 rounded p-2 text-sm bg-white dark:bg-gray-700";
+const labelClass = "text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1 block";
+
+const GradingSchemeModal: React.FC<GradingSchemeModalProps> = ({ headers, scheme, onSave, onClose }) => {
+  const [draft, setDraft] = useState<GradingScheme>(scheme);
+
+  const update = (changes: Partial<GradingScheme>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const updateComponent = (id: string, changes: Partial<GradingScheme['components'][number]>) => {
+    setDraft(prev => ({
+      ...prev,
+      components: prev.components.map(c => c.id === id ? { ...c, ...changes } : c)
+    }));
+  };
+
+  const addComponent = () => {
+    setDraft(prev => ({
+      ...prev,
+      components: [...prev.components, { id: generateUUID(), label: `Nota ${prev.components.length + 1}`, columnIndex: -1, weight: 1 }]
+    }));
+  };
+
+  const removeComponent = (id: string) => {
+    setDraft(prev => ({ ...prev, components: prev.components.filter(c => c.id !== id) }));
+  };
+
+  const totalWeight = draft.components.reduce((sum, c) => sum + (c.weight || 0), 0);
+  const canSave = isSchemeComplete(draft) && draft.scaleMax > draft.scaleMin && draft.averageHeader.trim().length > 0;
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl w-[600px] p-0 border border-gray-200 dark:border-gray-700 overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-emerald-600 dark:bg-emerald-800 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold flex items-center gap-2 text-lg">
+            <SlidersHorizontal size={20} />
+            Critérios de Avaliação
+          </h3>
+          <button onClick={onClose} className="text-emerald-100 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 text-gray-800 dark:text-gray-200 max-h-[75vh] overflow-y-auto">
+          <div>
+            <label className={labelClass}>Modelos</label>
+            <div className="flex flex-wrap gap-2">
+              {GRADING_PRESETS.map(preset => (
+                <button
+                  key={preset.name}
+                  onClick={() => setDraft(preset.build(headers))}
+                  className="px-3 py-1.5 text-xs rounded-md border border-emerald-200 dark:border-emerald-800 bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400 hover:bg-emerald-100 dark:hover:bg-emerald-900/50"
+                >
+                  {preset.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className={labelClass}>Nota mínima</label>
+              <input type="number" value={draft.scaleMin} onChange={e => update({ scaleMin: Number(e.target.value) })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Nota máxima</label>
+              <input type="number" value={draft.scaleMax} onChange={e => update({ scaleMax: Number(e.target.value) })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Aprovado a partir de</label>
+              <input type="number" step="0.1" value={draft.passThreshold} onChange={e => update({ passThreshold: Number(e.target.value) })} className={inputClass} />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className={labelClass}>Componentes da média (pesos)</label>
+              <button onClick={addComponent} className="text-xs text-emerald-600 dark:text-emerald-400 hover:underline flex items-center gap-1">
+                <Plus size={12} /> Adicionar
+              </button>
+            </div>
+            <div className="space-y-2">
+              {draft.components.map(component => (
+                <div key={component.id} className="flex gap-2 items-center">
+                  <input
+                    type="text"
+                    value={component.label}
+                    onChange={e => updateComponent(component.id, { label: e.target.value })}
+                    className={`${inputClass} w-28`}
+                    placeholder="MAC"
+                  />
+                  <select
+                    value={component.columnIndex}
+                    onChange={e => updateComponent(component.id, { columnIndex: Number(e.target.value) })}
+                    className={`${inputClass} flex-1 ${component.columnIndex < 0 ? 'border-red-300 dark:border-red-700' : ''}`}
+                  >
+                    <option value={-1} disabled>Selecione a coluna...</option>
+                    {headers.map((h, idx) => (
+                      <option key={idx} value={idx}>{columnLabel(idx)} · {String(h ?? "")}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={component.weight}
+                    onChange={e => updateComponent(component.id, { weight: Math.max(0, Number(e.target.value)) })}
+                    className={`${inputClass} w-20 text-center`}
+                    title="Peso"
+                  />
+                  <span className="text-[10px] text-gray-400 w-10 text-right">
+                    {totalWeight > 0 ? `${Math.round((component.weight / totalWeight) * 100)}%` : '-'}
+                  </span>
+                  <button onClick={() => removeComponent(component.id)} className="p-1.5 text-gray-400 hover:text-red-500">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+              {draft.components.length === 0 && (
+                <p className="text-xs text-amber-500">Adicione pelo menos um componente.</p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Arredondamento</label>
+              <select value={draft.roundingMode} onChange={e => update({ roundingMode: e.target.value as RoundingMode })} className={inputClass}>
+                <option value="round">Arredondar</option>
+                <option value="floor">Truncar (para baixo)</option>
+                <option value="ceil">Arredondar para cima</option>
+                <option value="none">Sem arredondamento</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Casas decimais</label>
+              <input
+                type="number"
+                min="0"
+                max="4"
+                value={draft.decimals}
+                disabled={draft.roundingMode === 'none'}
+                onChange={e => update({ decimals: Math.min(4, Math.max(0, parseInt(e.target.value) || 0)) })}
+                className={`${inputClass} disabled:opacity-50`}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Coluna da média</label>
+              <input type="text" value={draft.averageHeader} onChange={e => update({ averageHeader: e.target.value })} className={inputClass} placeholder="Média" />
+            </div>
+            <div>
+              <label className={labelClass}>Coluna do resultado (opcional)</label>
+              <input type="text" value={draft.resultHeader || ""} onChange={e => update({ resultHeader: e.target.value })} className={inputClass} placeholder="Resultado" />
+            </div>
+            <div>
+              <label className={labelClass}>Texto para aprovados</label>
+              <input type="text" value={draft.passLabel} onChange={e => update({ passLabel: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Texto para reprovados</label>
+              <input type="text" value={draft.failLabel} onChange={e => update({ failLabel: e.target.value })} className={inputClass} />
+            </div>
+          </div>
+        </div>
+
+        <div className="border-t border-gray-100 dark:border-gray-700 p-4 flex gap-3 justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded">
+            Cancelar
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={!canSave}
+            className="px-4 py-2 text-sm bg-emerald-600 hover:bg-emerald-700 text-white rounded font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Guardar Critérios
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GradingSchemeModal;
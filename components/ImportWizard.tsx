@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { FileSpreadsheet, X, Check } from 'lucide-react';
+import { CellValue, ColumnType, Sheet, ValidationRule } from '../types';
+import { columnLabel } from '../utils/formulaEngine';
+import { CsvOptions } from '../utils/fileFormats';
+import { CsvOptionsFields } from './ExportModal';
+import { ImportSource, buildHeaders, buildImportedSheet, detectHeaderRow, fillMergedCells, profileColumns, proposeValidationRules } from '../utils/importUtils';
+
+interface ImportWizardProps {
+  fileName: string;
+  sources: ImportSource[];
+  csvOptions?: CsvOptions; // Set for CSV files, which are read again when the options change
+  onCsvOptionsChange?: (options: CsvOptions) => void;
+  onImport: (sheets: Sheet[]) => void;
+  onCancel: () => void;
+}
+
+interface SourceSettings {
+  include: boolean;
+  headerRow: number;
+  headers: CellValue[];
+  types: ColumnType[];
+  rules: ValidationRule[];
+  skippedRules: number[]; // Columns whose proposed rule was unchecked
+}
+
+const PREVIEW_ROWS_ABOVE = 3;
+const PREVIEW_ROWS_BELOW = 8;
+const PREVIEW_COLS = 12;
+
+const TYPE_LABELS: Record<ColumnType, string> = {
+  number: 'Número',
+  date: 'Data',
+  text: 'Texto',
+  empty: 'Vazia'
+};
+
+const analyze = (source: ImportSource, headerRow: number, types?: ColumnType[]): Omit<SourceSettings, 'include' | 'skippedRules'> => {
+  const headers = buildHeaders(fillMergedCells(source.data, source.merges, headerRow + 1), headerRow);
+  const profiles = profileColumns(source.data, headerRow, headers);
+  const columnTypes = types || profiles.map(p => p.type);
+  return { headerRow, headers, types: columnTypes, rules: proposeValidationRules(headers, profiles, columnTypes) };
+};
+
+const describeRule = (rule: ValidationRule) => {
+  if (rule.type === 'number') return rule.max ? `número de ${rule.min} a ${rule.max}` : `número ≥ ${rule.min}`;
+  if (rule.type === 'date') return 'data válida';
+  if (rule.type === 'email') return 'email';
+  if (rule.type === 'list') return `lista: ${(rule.options || []).join(', ')}`;
+  return rule.type;
+};
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ fileName, sources, csvOptions, onCsvOptionsChange, onImport, onCancel }) => {
+  const [settings, setSettings] = useState<SourceSettings[]>(() => sources.map(source => ({
+    include: source.data.length > 0,
+    skippedRules: [],
+    ...analyze(source, detectHeaderRow(fillMergedCells(source.data, source.merges)))
+  })));
+  const [current, setCurrent] = useState(0);
+
+  const source = sources[current];
+  const setting = settings[current];
+
+  const update = (index: number, changes: Partial<SourceSettings>) => {
+    setSettings(prev => prev.map((s, i) => i === index ? { ...s, ...changes } : s));
+  };
+
+  const setHeaderRow = (row: number) => update(current, { ...analyze(source, row), skippedRules: [] });
+
+  const setColumnType = (columnIndex: number, type: ColumnType) => {
+    const types = setting.types.map((t, i) => i === columnIndex ? type : t);
+    update(current, analyze(source, setting.headerRow, types));
+  };
+
+  const toggleRule = (columnIndex: number) => {
+    const skipped = setting.skippedRules.includes(columnIndex)
+      ? setting.skippedRules.filter(c => c !== columnIndex)
+      : [...setting.skippedRules, columnIndex];
+    update(current, { skippedRules: skipped });
+  };
+
+  const handleImport = () => {
+    const sheets = sources.flatMap((src, i) => {
+      const s = settings[i];
+      if (!s.include) return [];
+      const rules = s.rules.filter(rule => !s.skippedRules.includes(rule.columnIndex));
+      return [buildImportedSheet(src, s.headerRow, s.types, rules)];
+    });
+    onImport(sheets);
+  };
+
+  const includedCount = settings.filter(s => s.include).length;
+  const width = Math.min(PREVIEW_COLS, setting?.types.length || 0);
+  const firstPreviewRow = setting ? Math.max(0, setting.headerRow - PREVIEW_ROWS_ABOVE) : 0;
+  const previewRows = source ? source.data.slice(firstPreviewRow, (setting?.headerRow || 0) + PREVIEW_ROWS_BELOW + 1) : [];
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl w-[960px] max-w-[95vw] p-0 border border-gray-200 dark:border-gray-700 overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-emerald-600 dark:bg-emerald-800 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold flex items-center gap-2 text-lg truncate">
+            <FileSpreadsheet size={20} />
+            Importar {fileName}
+          </h3>
+          <button onClick={onCancel} className="text-emerald-100 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex max-h-[70vh] text-gray-800 dark:text-gray-200">
+          {/* Sheets in the file */}
+          <div className="w-52 border-r border-gray-100 dark:border-gray-700 overflow-y-auto p-2 space-y-1">
+            {sources.map((src, i) => (
+              <div
+                key={i}
+                onClick={() => setCurrent(i)}
+                className={`flex items-center gap-2 px-2 py-2 rounded cursor-pointer text-sm ${i === current ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400' : 'hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={settings[i].include}
+                  onClick={e => e.stopPropagation()}
+                  onChange={() => update(i, { include: !settings[i].include })}
+                  className="accent-emerald-600"
+                />
+                <div className="min-w-0">
+                  <div className="truncate font-medium">{src.name}</div>
+                  <div className="text-[10px] text-gray-400">
+                    {Math.max(0, src.data.length - settings[i].headerRow - 1)} linhas
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Preview of the selected sheet */}
+          {source && setting && (
+            <div className="flex-1 min-w-0 overflow-y-auto p-4 space-y-4">
+              {csvOptions && onCsvOptionsChange && (
+                <div className="pb-4 border-b border-gray-100 dark:border-gray-700">
+                  <CsvOptionsFields options={csvOptions} onChange={onCsvOptionsChange} />
+                </div>
+              )}
+
+              <div className="flex items-center gap-3 text-sm">
+                <label className="text-xs font-semibold text-gray-500 dark:text-gray-400">Linha do cabeçalho</label>
+                <select
+                  value={setting.headerRow}
+                  onChange={e => setHeaderRow(Number(e.target.value))}
+                  className="border border-gray-300 dark:border-gray-600 rounded p-1 text-sm bg-white dark:bg-gray-700"
+                >
+                  {Array.from({ length: Math.min(25, source.data.length) }, (_, r) => (
+                    <option key={r} value={r}>{r + 1}</option>
+                  ))}
+                </select>
+                <span className="text-xs text-gray-400">
+                  As linhas acima do cabeçalho não são importadas. Clique no número de uma linha para a escolher.
+                </span>
+              </div>
+
+              <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded">
+                <table className="text-xs border-collapse">
+                  <tbody>
+                    {previewRows.map((row, i) => {
+                      const r = firstPreviewRow + i;
+                      const isHeader = r === setting.headerRow;
+                      const isSkipped = r < setting.headerRow;
+                      const cells = isHeader ? setting.headers : (row || []);
+                      return (
+                        <React.Fragment key={r}>
+                          <tr className={isHeader ? 'bg-emerald-50 dark:bg-emerald-900/30 font-semibold' : isSkipped ? 'opacity-40 line-through' : ''}>
+                            <td
+                              onClick={() => setHeaderRow(r)}
+                              className="px-2 py-1 border-b border-r border-gray-200 dark:border-gray-700 text-gray-400 text-center cursor-pointer hover:text-emerald-600"
+                              title="Usar como cabeçalho"
+                            >
+                              {r + 1}
+                            </td>
+                            {Array.from({ length: width }, (_, c) => (
+                              <td key={c} className="px-2 py-1 border-b border-r border-gray-200 dark:border-gray-700 max-w-[140px] truncate">
+                                {String(cells[c] ?? "")}
+                              </td>
+                            ))}
+                          </tr>
+                          {isHeader && (
+                            <tr className="bg-gray-50 dark:bg-gray-700/50">
+                              <td className="border-b border-r border-gray-200 dark:border-gray-700" />
+                              {Array.from({ length: width }, (_, c) => (
+                                <td key={c} className="px-1 py-1 border-b border-r border-gray-200 dark:border-gray-700">
+                                  <select
+                                    value={setting.types[c]}
+                                    onChange={e => setColumnType(c, e.target.value as ColumnType)}
+                                    className="w-full bg-transparent text-[11px] text-emerald-700 dark:text-emerald-400 outline-none"
+                                  >
+                                    {(Object.keys(TYPE_LABELS) as ColumnType[]).map(type => (
+                                      <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                                    ))}
+                                  </select>
+                                </td>
+                              ))}
+                            </tr>
+                          )}
+                        </React.Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              {setting.types.length > PREVIEW_COLS && (
+                <p className="text-[10px] text-gray-400">Pré-visualização das primeiras {PREVIEW_COLS} de {setting.types.length} colunas.</p>
+              )}
+
+              <div>
+                <label className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1 block">Regras de validação sugeridas</label>
+                {setting.rules.length === 0 ? (
+                  <p className="text-xs text-gray-400">Nenhuma regra sugerida para esta planilha.</p>
+                ) : (
+                  <div className="space-y-1">
+                    {setting.rules.map(rule => (
+                      <label key={rule.columnIndex} className="flex items-center gap-2 text-xs cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={!setting.skippedRules.includes(rule.columnIndex)}
+                          onChange={() => toggleRule(rule.columnIndex)}
+                          className="accent-emerald-600"
+                        />
+                        <span className="font-mono text-gray-400">{columnLabel(rule.columnIndex)}</span>
+                        <span className="font-medium">{String(setting.headers[rule.columnIndex] ?? "")}</span>
+                        <span className="text-gray-500 dark:text-gray-400">— {describeRule(rule)}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="border-t border-gray-100 dark:border-gray-700 p-4 flex gap-3 justify-end">
+          <button onClick={onCancel} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded">
+            Cancelar
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={includedCount === 0}
+            className="px-4 py-2 text-sm bg-emerald-600 hover:bg-emerald-700 text-white rounded font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            <Check size={16} />
+            Importar {includedCount} {includedCount === 1 ? 'planilha' : 'planilhas'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { Merge, X, AlertTriangle } from 'lucide-react';
+import { Sheet } from '../types';
+import { displayText } from '../utils/searchUtils';
+import { SheetMergeResult, mergeSheets, mergedHeaders, suggestMergedName } from '../utils/sheetMerge';
+import { findStudentIdColumn } from '../utils/sheetSplit';
+
+interface MergeSheetsModalProps {
+  sheets: Sheet[]; // Sheets the user can open
+  initialSelection: string[];
+  onMerge: (result: SheetMergeResult) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full border border-gray-300 dark:border-gray-600 rounded p-2 text-sm bg-white dark:bg-gray-700";
+const labelClass = "text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1 block";
+
+const MergeSheetsModal: React.FC<MergeSheetsModalProps> = ({ sheets, initialSelection, onMerge, onClose }) => {
+  const [selected, setSelected] = useState<string[]>(initialSelection);
+  const chosen = useMemo(() => sheets.filter(s => selected.includes(s.id)), [sheets, selected]);
+  const headers = useMemo(() => mergedHeaders(chosen).map(h => displayText(h)).filter(Boolean), [chosen]);
+
+  const [name, setName] = useState(() => suggestMergedName(sheets.filter(s => initialSelection.includes(s.id))));
+  const [addSource, setAddSource] = useState(true);
+  const [sourceHeader, setSourceHeader] = useState("Turma de origem");
+  const [idHeader, setIdHeader] = useState(() => {
+    const initialHeaders = mergedHeaders(sheets.filter(s => initialSelection.includes(s.id)));
+    const idColumn = findStudentIdColumn(initialHeaders);
+    return idColumn === -1 ? "" : displayText(initialHeaders[idColumn]);
+  });
+
+  const preview = useMemo(
+    () => chosen.length >= 2 ? mergeSheets(chosen, { name, sourceHeader: addSource ? sourceHeader : undefined, idHeader: idHeader || undefined }) : null,
+    [chosen, name, addSource, sourceHeader, idHeader]
+  );
+
+  const toggleSheet = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl w-[560px] max-w-[95vw] p-0 border border-gray-200 dark:border-gray-700 overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-emerald-600 dark:bg-emerald-800 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold flex items-center gap-2 text-lg">
+            <Merge size={20} />
+            Juntar Turmas
+          </h3>
+          <button onClick={onClose} className="text-emerald-100 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 text-gray-800 dark:text-gray-200 max-h-[70vh] overflow-y-auto">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            As colunas são alinhadas pelo nome do cabeçalho. As planilhas originais não são alteradas.
+          </p>
+
+          <div>
+            <label className={labelClass}>Planilhas a juntar</label>
+            <div className="border border-gray-200 dark:border-gray-700 rounded max-h-40 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+              {sheets.map(sheet => (
+                <label key={sheet.id} className="flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700">
+                  <input type="checkbox" checked={selected.includes(sheet.id)} onChange={() => toggleSheet(sheet.id)} className="accent-emerald-600" />
+                  <span className="truncate flex-1">{sheet.name}</span>
+                  <span className="text-[10px] text-gray-400">{Math.max(0, sheet.data.length - 1)} linhas</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Nome da nova planilha</label>
+            <input type="text" value={name} onChange={e => setName(e.target.value)} className={inputClass} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="flex items-center gap-2 text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1 cursor-pointer">
+                <input type="checkbox" checked={addSource} onChange={() => setAddSource(!addSource)} className="accent-emerald-600" />
+                Coluna com a turma de origem
+              </label>
+              <input type="text" value={sourceHeader} onChange={e => setSourceHeader(e.target.value)} disabled={!addSource} className={`${inputClass} disabled:opacity-50`} />
+            </div>
+            <div>
+              <label className={labelClass}>Aluno identificado por</label>
+              <select value={idHeader} onChange={e => setIdHeader(e.target.value)} className={inputClass}>
+                <option value="">Não remover repetidos</option>
+                {headers.map((h, idx) => (
+                  <option key={idx} value={h}>{h}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {preview && preview.mismatches.length > 0 && (
+            <div className="p-3 rounded border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 text-xs space-y-1">
+              <div className="font-semibold text-amber-700 dark:text-amber-400 flex items-center gap-1">
+                <AlertTriangle size={14} /> Cabeçalhos diferentes
+              </div>
+              {preview.mismatches.map(m => (
+                <div key={m.sheetName} className="text-amber-800 dark:text-amber-300">
+                  <span className="font-medium">{m.sheetName}</span> não tem: {m.missing.join(', ')}
+                </div>
+              ))}
+              <div className="text-amber-600 dark:text-amber-500">Estas células ficam vazias na nova planilha.</div>
+            </div>
+          )}
+
+          {preview && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {preview.sheet.data.length - 1} alunos em {preview.sheet.data[0].length} colunas
+              {preview.duplicates > 0 && ` · ${preview.duplicates} repetidos juntados`}
+              {preview.conflicts > 0 && ` · ${preview.conflicts} células com valores diferentes (fica o da primeira planilha)`}
+            </p>
+          )}
+        </div>
+
+        <div className="border-t border-gray-100 dark:border-gray-700 p-4 flex gap-3 justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded">
+            Cancelar
+          </button>
+          <button
+            onClick={() => preview && onMerge(preview)}
+            disabled={!preview}
+            className="px-4 py-2 text-sm bg-emerald-600 hover:bg-emerald-700 text-white rounded font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Juntar {chosen.length} planilhas
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeSheetsModal;
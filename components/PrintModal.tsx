@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import { Printer, X, Download } from 'lucide-react';
+import { PageOrientation, PageSetup, Sheet } from '../types';
+import { columnLabel, evaluateSheet } from '../utils/formulaEngine';
+import { paginate } from '../utils/printLayout';
+
+export type PrintOutput = 'print' | 'pdf';
+
+interface PrintModalProps {
+  sheet: Sheet;
+  setup: PageSetup;
+  onPrint: (setup: PageSetup, output: PrintOutput) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full border border-gray-300 dark:border-gray-600 rounded p-2 text-sm bg-white dark:bg-gray-700";
+const labelClass = "text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1 block";
+
+const MARGINS = [
+  { label: 'Estreitas', value: 6 },
+  { label: 'Normais', value: 10 },
+  { label: 'Largas', value: 20 }
+];
+
+const PrintModal: React.FC<PrintModalProps> = ({ sheet, setup: initialSetup, onPrint, onClose }) => {
+  const [setup, setSetup] = useState<PageSetup>(initialSetup);
+  const headers = sheet.data[0] || [];
+  const values = useMemo(() => evaluateSheet(sheet.data), [sheet.data]);
+  const layout = useMemo(() => paginate(sheet, values, setup), [sheet, values, setup]);
+
+  const update = (changes: Partial<PageSetup>) => setSetup(prev => ({ ...prev, ...changes }));
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl w-[560px] max-w-[95vw] p-0 border border-gray-200 dark:border-gray-700 overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-emerald-600 dark:bg-emerald-800 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold flex items-center gap-2 text-lg">
+            <Printer size={20} />
+            Imprimir Pauta
+          </h3>
+          <button onClick={onClose} className="text-emerald-100 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 text-gray-800 dark:text-gray-200 max-h-[70vh] overflow-y-auto">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Orientação</label>
+              <select value={setup.orientation} onChange={e => update({ orientation: e.target.value as PageOrientation })} className={inputClass}>
+                <option value="portrait">Vertical</option>
+                <option value="landscape">Horizontal</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Margens</label>
+              <select value={setup.marginMm} onChange={e => update({ marginMm: Number(e.target.value) })} className={inputClass}>
+                {MARGINS.map(m => <option key={m.value} value={m.value}>{m.label} ({m.value} mm)</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Escala</label>
+              <div className="flex gap-2 items-center">
+                <label className="flex items-center gap-2 text-sm cursor-pointer whitespace-nowrap">
+                  <input type="checkbox" checked={setup.fitToWidth} onChange={() => update({ fitToWidth: !setup.fitToWidth })} className="accent-emerald-600" />
+                  Ajustar à largura
+                </label>
+                {!setup.fitToWidth && (
+                  <input
+                    type="number"
+                    min={10}
+                    max={200}
+                    value={setup.scale}
+                    onChange={e => update({ scale: Number(e.target.value) || 100 })}
+                    className={`${inputClass} w-20`}
+                  />
+                )}
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>Nova página a cada</label>
+              <select value={setup.breakColumn} onChange={e => update({ breakColumn: Number(e.target.value) })} className={inputClass}>
+                <option value={-1}>Sem quebras</option>
+                {headers.map((h, idx) => (
+                  <option key={idx} value={idx}>{columnLabel(idx)} · {String(h ?? "")}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input type="checkbox" checked={setup.repeatHeader} onChange={() => update({ repeatHeader: !setup.repeatHeader })} className="accent-emerald-600" />
+            Repetir o cabeçalho em todas as páginas
+          </label>
+
+          <div className="grid grid-cols-2 gap-3 pt-2 border-t border-gray-100 dark:border-gray-700">
+            <div>
+              <label className={labelClass}>Escola</label>
+              <input type="text" value={setup.schoolName} onChange={e => update({ schoolName: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Professor(a)</label>
+              <input type="text" value={setup.teacher} onChange={e => update({ teacher: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Cabeçalho à esquerda</label>
+              <input type="text" value={setup.headerLeft} onChange={e => update({ headerLeft: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Cabeçalho à direita</label>
+              <input type="text" value={setup.headerRight} onChange={e => update({ headerRight: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Rodapé à esquerda</label>
+              <input type="text" value={setup.footerLeft} onChange={e => update({ footerLeft: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Rodapé à direita</label>
+              <input type="text" value={setup.footerRight} onChange={e => update({ footerRight: e.target.value })} className={inputClass} />
+            </div>
+          </div>
+          <p className="text-[10px] text-gray-400">
+            Pode usar {'{escola}'}, {'{professor}'}, {'{planilha}'}, {'{data}'}, {'{pagina}'} e {'{paginas}'}.
+          </p>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {layout.pages.length} {layout.pages.length === 1 ? 'página' : 'páginas'} A4 · escala {Math.round(layout.scale * 100)}%
+          </p>
+        </div>
+
+        <div className="border-t border-gray-100 dark:border-gray-700 p-4 flex gap-3 justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded">
+            Cancelar
+          </button>
+          <button
+            onClick={() => onPrint(setup, 'pdf')}
+            className="px-4 py-2 text-sm border border-emerald-600 text-emerald-700 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 rounded font-medium flex items-center gap-2"
+          >
+            <Download size={16} />
+            Descarregar PDF
+          </button>
+          <button
+            onClick={() => onPrint(setup, 'print')}
+            className="px-4 py-2 text-sm bg-emerald-600 hover:bg-emerald-700 text-white rounded font-medium flex items-center gap-2"
+          >
+            <Printer size={16} />
+            Imprimir
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrintModal;
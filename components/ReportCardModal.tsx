@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { FileText, X, Download, Archive } from 'lucide-react';
+import { CellValue, ReportCardTemplate, Sheet } from '../types';
+import { columnLabel } from '../utils/formulaEngine';
+import { buildReportCards } from '../utils/reportCards';
+
+export type ReportCardOutput = 'single' | 'perStudent';
+
+interface ReportCardModalProps {
+  sheet: Sheet;
+  template: ReportCardTemplate;
+  onGenerate: (template: ReportCardTemplate, output: ReportCardOutput) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full border border-gray-300 dark:border-gray-600 rounded p-2 text-sm bg-white dark:bg-gray-700";
+const labelClass = "text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1 block";
+
+const PERIODS = ['1º Trimestre', '2º Trimestre', '3º Trimestre', 'Final'];
+
+const ColumnSelect: React.FC<{ label: string; value: number; headers: CellValue[]; onChange: (value: number) => void; optional?: boolean }> = ({ label, value, headers, onChange, optional }) => (
+  <div>
+    <label className={labelClass}>{label}</label>
+    <select value={value} onChange={e => onChange(Number(e.target.value))} className={inputClass}>
+      {optional ? <option value={-1}>Não mostrar</option> : <option value={-1} disabled>Escolha a coluna</option>}
+      {headers.map((h, idx) => (
+        <option key={idx} value={idx}>{columnLabel(idx)} · {String(h ?? "")}</option>
+      ))}
+    </select>
+  </div>
+);
+
+const ReportCardModal: React.FC<ReportCardModalProps> = ({ sheet, template: initialTemplate, onGenerate, onClose }) => {
+  const [template, setTemplate] = useState<ReportCardTemplate>(initialTemplate);
+  const headers = sheet.data[0] || [];
+  const cards = useMemo(() => template.nameColumn >= 0 ? buildReportCards(sheet, template) : [], [sheet, template]);
+
+  const update = (changes: Partial<ReportCardTemplate>) => setTemplate(prev => ({ ...prev, ...changes }));
+
+  const toggleGrade = (c: number) => {
+    const columns = template.gradeColumns.includes(c)
+      ? template.gradeColumns.filter(g => g !== c)
+      : [...template.gradeColumns, c].sort((a, b) => a - b);
+    update({ gradeColumns: columns });
+  };
+
+  const first = cards[0];
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl w-[720px] max-w-[95vw] p-0 border border-gray-200 dark:border-gray-700 overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-emerald-600 dark:bg-emerald-800 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold flex items-center gap-2 text-lg">
+            <FileText size={20} />
+            Boletins de Notas
+          </h3>
+          <button onClick={onClose} className="text-emerald-100 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex max-h-[70vh] text-gray-800 dark:text-gray-200">
+          <div className="flex-1 p-6 space-y-4 overflow-y-auto">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="col-span-2">
+                <label className={labelClass}>Escola</label>
+                <input type="text" value={template.schoolName} onChange={e => update({ schoolName: e.target.value })} placeholder="Ex: Escola Primária nº 123 - Luanda" className={inputClass} />
+              </div>
+              <div className="col-span-2">
+                <label className={labelClass}>Título</label>
+                <input type="text" value={template.title} onChange={e => update({ title: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Período</label>
+                <input type="text" list="report-card-periods" value={template.period} onChange={e => update({ period: e.target.value })} className={inputClass} />
+                <datalist id="report-card-periods">
+                  {PERIODS.map(p => <option key={p} value={p} />)}
+                </datalist>
+              </div>
+              <div>
+                <label className={labelClass}>Ano lectivo</label>
+                <input type="text" value={template.academicYear} onChange={e => update({ academicYear: e.target.value })} placeholder="2025/2026" className={inputClass} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3 pt-2 border-t border-gray-100 dark:border-gray-700">
+              <ColumnSelect label="Nome" value={template.nameColumn} headers={headers} onChange={v => update({ nameColumn: v })} />
+              <ColumnSelect label="Número" value={template.numberColumn} headers={headers} onChange={v => update({ numberColumn: v })} optional />
+              <ColumnSelect label="Turma" value={template.classColumn} headers={headers} onChange={v => update({ classColumn: v })} optional />
+              <ColumnSelect label="Média" value={template.averageColumn} headers={headers} onChange={v => update({ averageColumn: v })} optional />
+              <ColumnSelect label="Resultado" value={template.resultColumn} headers={headers} onChange={v => update({ resultColumn: v })} optional />
+            </div>
+
+            <div>
+              <label className={labelClass}>Notas no boletim</label>
+              <div className="flex flex-wrap gap-2">
+                {headers.map((h, idx) => (
+                  <label
+                    key={idx}
+                    className={`flex items-center gap-1 px-2 py-1 rounded border text-xs cursor-pointer ${template.gradeColumns.includes(idx) ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400' : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                  >
+                    <input type="checkbox" checked={template.gradeColumns.includes(idx)} onChange={() => toggleGrade(idx)} className="accent-emerald-600" />
+                    {String(h ?? "") || columnLabel(idx)}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Assinaturas (uma por linha)</label>
+              <textarea
+                value={template.signatures.join('\n')}
+                onChange={e => update({ signatures: e.target.value.split('\n') })}
+                rows={3}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {/* First card, as a quick check of the mapping */}
+          <div className="w-60 border-l border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/30 p-4 overflow-y-auto text-xs">
+            <div className="font-semibold text-gray-500 dark:text-gray-400 mb-2">Pré-visualização</div>
+            {first ? (
+              <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded p-3 space-y-2">
+                {template.schoolName && <div className="text-center font-bold">{template.schoolName}</div>}
+                <div className="text-center font-bold text-emerald-700 dark:text-emerald-400 uppercase">{template.title}</div>
+                <div>
+                  <div className="font-bold truncate">{first.name}</div>
+                  <div className="text-gray-400">{[first.number && `Nº ${first.number}`, first.className].filter(Boolean).join(' · ')}</div>
+                </div>
+                <table className="w-full">
+                  <tbody>
+                    {first.grades.map((g, i) => (
+                      <tr key={i} className="border-t border-gray-100 dark:border-gray-700">
+                        <td className="py-0.5 truncate">{g.label}</td>
+                        <td className="py-0.5 text-right">{g.value}</td>
+                      </tr>
+                    ))}
+                    {template.averageColumn >= 0 && (
+                      <tr className="border-t border-gray-200 dark:border-gray-600 font-bold">
+                        <td className="py-0.5">{String(headers[template.averageColumn] ?? 'Média')}</td>
+                        <td className="py-0.5 text-right">{first.average}</td>
+                      </tr>
+                    )}
+                    {template.resultColumn >= 0 && (
+                      <tr className="font-bold">
+                        <td className="py-0.5">{String(headers[template.resultColumn] ?? 'Resultado')}</td>
+                        <td className="py-0.5 text-right">{first.result}</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-gray-400">Escolha a coluna com o nome dos alunos.</p>
+            )}
+            <p className="mt-2 text-gray-400">{cards.length} {cards.length === 1 ? 'boletim' : 'boletins'}</p>
+          </div>
+        </div>
+
+        <div className="border-t border-gray-100 dark:border-gray-700 p-4 flex gap-3 justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded">
+            Cancelar
+          </button>
+          <button
+            onClick={() => onGenerate(template, 'perStudent')}
+            disabled={cards.length === 0}
+            className="px-4 py-2 text-sm border border-emerald-600 text-emerald-700 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 rounded font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            <Archive size={16} />
+            Um PDF por aluno (.zip)
+          </button>
+          <button
+            onClick={() => onGenerate(template, 'single')}
+            disabled={cards.length === 0}
+            className="px-4 py-2 text-sm bg-emerald-600 hover:bg-emerald-700 text-white rounded font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            <Download size={16} />
+            PDF com todos
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportCardModal;
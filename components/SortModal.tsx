@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { ArrowUpDown, X, Plus, Trash2 } from 'lucide-react';
+import { CellValue, SortDirection, SortKey } from '../types';
+import { columnLabel } from '../utils/formulaEngine';
+
+interface SortModalProps {
+  headers: CellValue[];
+  onSort: (keys: SortKey[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full border border-gray-300 dark:border-gray-600 rounded p-2 text-sm bg-white dark:bg-gray-700";
+const labelClass = "text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1 block";
+
+const SortModal: React.FC<SortModalProps> = ({ headers, onSort, onClose }) => {
+  const [keys, setKeys] = useState<SortKey[]>([{ columnIndex: 0, direction: 'asc' }]);
+
+  const updateKey = (index: number, changes: Partial<SortKey>) => {
+    setKeys(prev => prev.map((k, i) => i === index ? { ...k, ...changes } : k));
+  };
+
+  const addKey = () => {
+    const used = new Set(keys.map(k => k.columnIndex));
+    const next = headers.findIndex((_, idx) => !used.has(idx));
+    setKeys(prev => [...prev, { columnIndex: Math.max(0, next), direction: 'asc' }]);
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl w-[480px] p-0 border border-gray-200 dark:border-gray-700 overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-emerald-600 dark:bg-emerald-800 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold flex items-center gap-2 text-lg">
+            <ArrowUpDown size={20} />
+            Ordenar Pauta
+          </h3>
+          <button onClick={onClose} className="text-emerald-100 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 text-gray-800 dark:text-gray-200">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            A primeira linha é o cabeçalho e fica no lugar. Os níveis seguintes desempatam os anteriores.
+          </p>
+
+          <div className="space-y-2">
+            {keys.map((key, index) => (
+              <div key={index} className="flex gap-2 items-end">
+                <div className="flex-1">
+                  <label className={labelClass}>{index === 0 ? 'Ordenar por' : 'Depois por'}</label>
+                  <select value={key.columnIndex} onChange={e => updateKey(index, { columnIndex: Number(e.target.value) })} className={inputClass}>
+                    {headers.map((h, idx) => (
+                      <option key={idx} value={idx}>{columnLabel(idx)} · {String(h ?? "")}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="w-36">
+                  <select value={key.direction} onChange={e => updateKey(index, { direction: e.target.value as SortDirection })} className={inputClass}>
+                    <option value="asc">Crescente (A-Z)</option>
+                    <option value="desc">Decrescente (Z-A)</option>
+                  </select>
+                </div>
+                <button
+                  onClick={() => setKeys(prev => prev.filter((_, i) => i !== index))}
+                  disabled={keys.length === 1}
+                  className="p-2 text-gray-400 hover:text-red-500 disabled:opacity-30 disabled:hover:text-gray-400"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={addKey}
+            disabled={keys.length >= headers.length}
+            className="text-xs text-emerald-600 dark:text-emerald-400 hover:underline flex items-center gap-1 disabled:opacity-40"
+          >
+            <Plus size={12} /> Adicionar nível
+          </button>
+        </div>
+
+        <div className="border-t border-gray-100 dark:border-gray-700 p-4 flex gap-3 justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded">
+            Cancelar
+          </button>
+          <button
+            onClick={() => onSort(keys)}
+            disabled={headers.length === 0}
+            className="px-4 py-2 text-sm bg-emerald-600 hover:bg-emerald-700 text-white rounded font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Ordenar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SortModal;
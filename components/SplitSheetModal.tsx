@@ -0,0 +1,153 @@
+import React, { useMemo, useState } from 'react';
+import { Split, X, Plus, Trash2 } from 'lucide-react';
+import { CellValue, Sheet, SortDirection, SortKey } from '../types';
+import { columnLabel } from '../utils/formulaEngine';
+import { SplitOptions, defaultNameTemplate, findStudentIdColumn, groupRowsByKey } from '../utils/sheetSplit';
+
+interface SplitSheetModalProps {
+  sheet: Sheet;
+  suggestedColumn: number; // -1 when no class column was recognised
+  takenNames: string[];
+  onSplit: (options: SplitOptions) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full border border-gray-300 dark:border-gray-600 rounded p-2 text-sm bg-white dark:bg-gray-700";
+const labelClass = "text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1 block";
+
+const PREVIEW_GROUPS = 8;
+
+const SplitSheetModal: React.FC<SplitSheetModalProps> = ({ sheet, suggestedColumn, takenNames, onSplit, onClose }) => {
+  const headers: CellValue[] = sheet.data[0] || [];
+  const [keyColumns, setKeyColumns] = useState<number[]>(suggestedColumn >= 0 ? [suggestedColumn] : []);
+  const [template, setTemplate] = useState<string | null>(null); // null = follows the key columns
+  const [sortKeys, setSortKeys] = useState<SortKey[]>([]);
+  const [idColumn, setIdColumn] = useState(() => findStudentIdColumn(headers));
+
+  const nameTemplate = template ?? defaultNameTemplate(headers, keyColumns);
+  const options: SplitOptions = { keyColumns, nameTemplate, sortKeys, idColumn };
+  const groups = useMemo(
+    () => keyColumns.length > 0 ? groupRowsByKey(sheet, { keyColumns, nameTemplate, sortKeys: [], idColumn }, takenNames) : [],
+    [sheet, keyColumns, nameTemplate, idColumn, takenNames]
+  );
+
+  const toggleKey = (c: number) => {
+    setKeyColumns(prev => prev.includes(c) ? prev.filter(k => k !== c) : [...prev, c]);
+  };
+
+  const updateSortKey = (index: number, changes: Partial<SortKey>) => {
+    setSortKeys(prev => prev.map((k, i) => i === index ? { ...k, ...changes } : k));
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl w-[560px] max-w-[95vw] p-0 border border-gray-200 dark:border-gray-700 overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-emerald-600 dark:bg-emerald-800 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold flex items-center gap-2 text-lg">
+            <Split size={20} />
+            Separar Turmas
+          </h3>
+          <button onClick={onClose} className="text-emerald-100 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 text-gray-800 dark:text-gray-200 max-h-[70vh] overflow-y-auto">
+          <div>
+            <label className={labelClass}>Separar por (uma planilha por combinação)</label>
+            <div className="flex flex-wrap gap-2">
+              {headers.map((h, idx) => (
+                <label
+                  key={idx}
+                  className={`flex items-center gap-1 px-2 py-1 rounded border text-xs cursor-pointer ${keyColumns.includes(idx) ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400' : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                >
+                  <input type="checkbox" checked={keyColumns.includes(idx)} onChange={() => toggleKey(idx)} className="accent-emerald-600" />
+                  {keyColumns.includes(idx) && <span className="font-bold">{keyColumns.indexOf(idx) + 1}.</span>}
+                  {String(h ?? "") || columnLabel(idx)}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Nome das planilhas</label>
+            <input type="text" value={nameTemplate} onChange={e => setTemplate(e.target.value)} className={`${inputClass} font-mono`} />
+            <p className="text-[10px] text-gray-400 mt-1">
+              Use {'{planilha}'} para o nome desta planilha e {'{Cabeçalho}'} para o valor de cada coluna escolhida.
+            </p>
+          </div>
+
+          <div>
+            <label className={labelClass}>Ordenar os alunos de cada turma</label>
+            <div className="space-y-2">
+              {sortKeys.map((key, index) => (
+                <div key={index} className="flex gap-2">
+                  <select value={key.columnIndex} onChange={e => updateSortKey(index, { columnIndex: Number(e.target.value) })} className={inputClass}>
+                    {headers.map((h, idx) => (
+                      <option key={idx} value={idx}>{columnLabel(idx)} · {String(h ?? "")}</option>
+                    ))}
+                  </select>
+                  <select value={key.direction} onChange={e => updateSortKey(index, { direction: e.target.value as SortDirection })} className={`${inputClass} w-40`}>
+                    <option value="asc">Crescente (A-Z)</option>
+                    <option value="desc">Decrescente (Z-A)</option>
+                  </select>
+                  <button onClick={() => setSortKeys(prev => prev.filter((_, i) => i !== index))} className="p-2 text-gray-400 hover:text-red-500">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => setSortKeys(prev => [...prev, { columnIndex: 0, direction: 'asc' }])}
+              className="mt-1 text-xs text-emerald-600 dark:text-emerald-400 hover:underline flex items-center gap-1"
+            >
+              <Plus size={12} /> {sortKeys.length === 0 ? 'Ordenar' : 'Depois por'}
+            </button>
+          </div>
+
+          <div>
+            <label className={labelClass}>Aluno identificado por</label>
+            <select value={idColumn} onChange={e => setIdColumn(Number(e.target.value))} className={inputClass}>
+              <option value={-1}>Posição da linha</option>
+              {headers.map((h, idx) => (
+                <option key={idx} value={idx}>{columnLabel(idx)} · {String(h ?? "")}</option>
+              ))}
+            </select>
+            <p className="text-[10px] text-gray-400 mt-1">
+              Usado para enviar as notas das turmas de volta para esta planilha, mesmo depois de ordenar.
+            </p>
+          </div>
+
+          {groups.length > 0 && (
+            <div className="border border-gray-200 dark:border-gray-700 rounded divide-y divide-gray-100 dark:divide-gray-700 text-xs">
+              {groups.slice(0, PREVIEW_GROUPS).map(group => (
+                <div key={group.name} className="flex justify-between px-3 py-1.5">
+                  <span className="truncate">{group.name}</span>
+                  <span className="text-gray-400">{group.rows.length} alunos</span>
+                </div>
+              ))}
+              {groups.length > PREVIEW_GROUPS && (
+                <div className="px-3 py-1.5 text-gray-400">e mais {groups.length - PREVIEW_GROUPS} planilhas</div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="border-t border-gray-100 dark:border-gray-700 p-4 flex gap-3 justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded">
+            Cancelar
+          </button>
+          <button
+            onClick={() => onSplit(options)}
+            disabled={groups.length === 0}
+            className="px-4 py-2 text-sm bg-emerald-600 hover:bg-emerald-700 text-white rounded font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Criar {groups.length} {groups.length === 1 ? 'planilha' : 'planilhas'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SplitSheetModal;
@@ -1,33 +1,268 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { SheetData, CellValue, ConditionalRule, ValidationRule } from '../types';
+import React, { useState, useEffect, useRef, useMemo, useLayoutEffect } from 'react';
+import { ArrowUpToLine, ArrowDownToLine, ArrowLeftToLine, ArrowRightToLine, Trash2, EyeOff, Eye, ChevronDown, Filter } from 'lucide-react';
+import { SheetData, CellValue, CellStyle, ConditionalRule, ValidationRule, CellChange, CellPosition, CellRange, SheetAxis, StructureAction, ColumnFilter, SortKey, Collaborator } from '../types';
+import { isFormula, isErrorValue, columnLabel } from '../utils/formulaEngine';
+import { getColumnValueList, getFilteredOutRows, isFilterActive } from '../utils/sortFilter';
+import FilterMenu from './FilterMenu';
+import { cellStyleToCSS, formatCellValue } from '../utils/cellStyles';
+import { computeConditionalFormats } from '../utils/conditionalFormat';
+import { normalizeRange, isInRange, getRangeValues, clearRangeChanges, toTSV, parseTSV, buildPasteChanges, buildFillChanges, FillDirection } from '../utils/rangeUtils';
 
 interface SpreadsheetProps {
   data: SheetData;
+  values?: SheetData; // Computed values (formula results); falls back to data
   rules?: ConditionalRule[];
   validationRules?: ValidationRule[];
+  validationIssues?: Map<string, string>; // Cells that break a validation rule, by "r:c", with the reason
   onCellChange: (rowIndex: number, colIndex: number, value: CellValue) => void;
+  onCellsChange?: (changes: CellChange[], label: string) => void; // Paste, fill, clear range
+  onStructureChange?: (action: StructureAction) => void; // Insert/delete/move/hide rows and columns
+  hiddenRows?: number[];
+  hiddenColumns?: number[];
+  autoFilter?: ColumnFilter[]; // Filter buttons on the header row (row 0) when set
+  cellStyles?: (CellStyle | null)[][];
+  merges?: CellRange[];
+  columnWidths?: (number | null)[];
+  frozenRows?: number;
+  frozenColumns?: number;
+  onFilterChange?: (filters: ColumnFilter[]) => void;
+  onSort?: (keys: SortKey[]) => void;
+  searchHits?: CellPosition[]; // Find results in this sheet
+  currentHit?: CellPosition | null;
+  focusCell?: CellPosition | null; // Selects this cell whenever a new object is passed
+  onSelectionChange?: (range: CellRange | null) => void; // Current selection, for the status bar
+  collaborators?: Collaborator[]; // Colleagues editing live; their selected cells are outlined
+  onUndo?: () => void;
+  onRedo?: () => void;
   zoom?: number;
   readOnly?: boolean;
 }
 
-const Spreadsheet: React.FC<SpreadsheetProps> = ({ data, rules = [], validationRules = [], onCellChange, zoom = 1, readOnly = false }) => {
+// Grid geometry (unzoomed pixels). Only the rows and columns inside the viewport
+// (plus a small overscan) are rendered; spacers keep the scrollbars accurate.
+const ROW_HEIGHT = 36;
+const HEADER_HEIGHT = 37;
+const ROW_HEADER_WIDTH = 48;
+const DEFAULT_COL_WIDTH = 120;
+const OVERSCAN_ROWS = 8;
+const OVERSCAN_COLS = 2;
+
+const Spreadsheet: React.FC<SpreadsheetProps> = ({ data, values, rules = [], validationRules = [], validationIssues, onCellChange, onCellsChange, onStructureChange, hiddenRows, hiddenColumns, autoFilter, cellStyles, merges, columnWidths, frozenRows = 0, frozenColumns = 0, onFilterChange, onSort, searchHits, currentHit, focusCell, onSelectionChange, collaborators, onUndo, onRedo, zoom = 1, readOnly = false }) => {
   const [editingCell, setEditingCell] = useState<{r: number, c: number} | null>(null);
   const [selectedCell, setSelectedCell] = useState<{r: number, c: number} | null>(null);
+  // Other corner of a range selection; null means only selectedCell is selected
+  const [anchorCell, setAnchorCell] = useState<CellPosition | null>(null);
+  const [fillTarget, setFillTarget] = useState<{ range: CellRange; direction: FillDirection } | null>(null);
+  const dragMode = useRef<'select' | 'fill' | null>(null);
+  // Last copy made inside the grid, so pasting it back keeps formulas
+  const internalClipboard = useRef<{ text: string; block: CellValue[][]; origin: CellPosition } | null>(null);
+  const [headerMenu, setHeaderMenu] = useState<{ axis: SheetAxis; start: number; count: number; x: number; y: number } | null>(null);
+  const headerDrag = useRef<{ axis: SheetAxis; start: number; count: number } | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ axis: SheetAxis; index: number } | null>(null);
+  const [filterMenu, setFilterMenu] = useState<{ columnIndex: number; x: number; y: number } | null>(null);
   const tableRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({ top: 0, left: 0, width: 0, height: 0 });
 
   // Determine max columns safely
-  const maxCols = data && data.length > 0 ? data.reduce((max, row) => Math.max(max, row && Array.isArray(row) ? row.length : 0), 0) : 0;
-  
-  // Generate headers safely
-  const headers = Array.from({ length: maxCols || 0 }, (_, i) => {
-    let label = "";
-    let n = i;
-    while (n >= 0) {
-      label = String.fromCharCode((n % 26) + 65) + label;
-      n = Math.floor(n / 26) - 1;
+  const maxCols = useMemo(
+    () => data && data.length > 0 ? data.reduce((max, row) => Math.max(max, row && Array.isArray(row) ? row.length : 0), 0) : 0,
+    [data]
+  );
+
+  // Rows and columns actually shown, in order; virtualization works on positions in these lists
+  const hiddenRowSet = useMemo(() => new Set(hiddenRows || []), [hiddenRows]);
+  const hiddenColSet = useMemo(() => new Set(hiddenColumns || []), [hiddenColumns]);
+
+  // Filters only change what is shown; the rows keep their order in the data
+  const filteredOutRows = useMemo(() => getFilteredOutRows(values || data, autoFilter), [values, data, autoFilter]);
+  const filtersByColumn = useMemo(() => new Map((autoFilter || []).map(f => [f.columnIndex, f])), [autoFilter]);
+
+  const displayRows = useMemo(() => {
+    const rows: number[] = [];
+    for (let r = 0; r < data.length; r++) if (!hiddenRowSet.has(r) && !filteredOutRows.has(r)) rows.push(r);
+    return rows;
+  }, [data.length, hiddenRowSet, filteredOutRows]);
+
+  const displayCols = useMemo(() => {
+    const cols: number[] = [];
+    for (let c = 0; c < maxCols; c++) if (!hiddenColSet.has(c)) cols.push(c);
+    return cols;
+  }, [maxCols, hiddenColSet]);
+
+  const rowPosition = useMemo(() => new Map(displayRows.map((r, i) => [r, i])), [displayRows]);
+  const colPosition = useMemo(() => new Map(displayCols.map((c, i) => [c, i])), [displayCols]);
+
+  // Column x offsets (unzoomed) by display position, so any column width layout can be virtualized
+  const colOffsets = useMemo(() => {
+    const offsets = [0];
+    for (let i = 0; i < displayCols.length; i++) offsets.push(offsets[i] + (columnWidths?.[displayCols[i]] || DEFAULT_COL_WIDTH));
+    return offsets;
+  }, [displayCols, columnWidths]);
+  const colCount = displayCols.length;
+  const totalWidth = colOffsets[colCount] || 0;
+
+  // Frozen panes: the first display positions stay in place (position: sticky) and are always rendered
+  const frozenRowCount = displayRows.findIndex(r => r >= frozenRows) === -1 ? displayRows.length : displayRows.findIndex(r => r >= frozenRows);
+  const frozenColCount = displayCols.findIndex(c => c >= frozenColumns) === -1 ? displayCols.length : displayCols.findIndex(c => c >= frozenColumns);
+  const frozenHeight = frozenRowCount * ROW_HEIGHT;
+  const frozenWidth = colOffsets[frozenColCount] || 0;
+
+  // Merged areas by every cell they cover
+  const mergeAt = useMemo(() => {
+    const map = new Map<string, CellRange>();
+    (merges || []).forEach(merge => {
+      for (let r = merge.r1; r <= merge.r2; r++) {
+        for (let c = merge.c1; c <= merge.c2; c++) map.set(`${r}:${c}`, merge);
+      }
+    });
+    return map;
+  }, [merges]);
+
+  // Worked out for the whole sheet once per change instead of for every cell
+  const conditionalFormats = useMemo(() => computeConditionalFormats(values || data, rules), [values, data, rules]);
+
+  // The rule that decides how a cell is edited (number, date or list input)
+  const validationByColumn = useMemo(() => {
+    const map = new Map<number, ValidationRule>();
+    (validationRules || []).forEach(rule => {
+      if (rule.type === 'required' || rule.type === 'unique') return;
+      if (!map.has(rule.columnIndex)) map.set(rule.columnIndex, rule);
+    });
+    return map;
+  }, [validationRules]);
+
+  // Track scroll position and viewport size
+  useLayoutEffect(() => {
+    const el = tableRef.current;
+    if (!el) return;
+    const update = () => setViewport({ top: el.scrollTop, left: el.scrollLeft, width: el.clientWidth, height: el.clientHeight });
+    update();
+    const observer = typeof ResizeObserver !== 'undefined' ? new ResizeObserver(update) : null;
+    observer?.observe(el);
+    return () => observer?.disconnect();
+  }, [data.length === 0]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget;
+    setViewport({ top: el.scrollTop, left: el.scrollLeft, width: el.clientWidth, height: el.clientHeight });
+  };
+
+  // Visible window (scroll offsets are in zoomed pixels)
+  const rowCount = displayRows.length;
+  const firstRow = Math.max(frozenRowCount, Math.floor(viewport.top / (ROW_HEIGHT * zoom)) + frozenRowCount - OVERSCAN_ROWS);
+  const lastRow = Math.min(rowCount - 1, Math.ceil((viewport.top + viewport.height) / (ROW_HEIGHT * zoom)) + OVERSCAN_ROWS);
+
+  const visibleLeft = viewport.left / zoom - ROW_HEADER_WIDTH + frozenWidth;
+  const visibleRight = (viewport.left + viewport.width) / zoom;
+  let firstCol = frozenColCount;
+  while (firstCol < colCount - 1 && colOffsets[firstCol + 1] < visibleLeft) firstCol++;
+  let lastCol = firstCol;
+  while (lastCol < colCount - 1 && colOffsets[lastCol] < visibleRight) lastCol++;
+  firstCol = Math.max(frozenColCount, firstCol - OVERSCAN_COLS);
+  lastCol = Math.min(colCount - 1, lastCol + OVERSCAN_COLS);
+
+  const frozenCols = displayCols.slice(0, frozenColCount);
+  const visibleCols = colCount > 0 ? displayCols.slice(firstCol, lastCol + 1) : [];
+  const leftSpacer = (colOffsets[firstCol] || 0) - frozenWidth;
+  const rightSpacer = colCount > 0 ? totalWidth - (colOffsets[Math.max(firstCol, lastCol + 1)] ?? totalWidth) : 0;
+  const topSpacer = (firstRow - frozenRowCount) * ROW_HEIGHT;
+  const bottomSpacer = Math.max(0, (rowCount - lastRow - 1) * ROW_HEIGHT);
+  const visibleRowCount = Math.max(1, Math.floor(viewport.height / (ROW_HEIGHT * zoom)) - 1);
+
+  const selection: CellRange | null = selectedCell ? normalizeRange(anchorCell || selectedCell, selectedCell) : null;
+  const isMultiSelection = !!selection && (selection.r1 !== selection.r2 || selection.c1 !== selection.c2);
+
+  useEffect(() => {
+    onSelectionChange?.(selection);
+  }, [selection?.r1, selection?.c1, selection?.r2, selection?.c2]);
+
+  // Next visible row/column `delta` display positions away, skipping hidden ones
+  const stepRow = (r: number, delta: number) => {
+    if (displayRows.length === 0) return r;
+    const pos = rowPosition.get(r) ?? displayRows.findIndex(idx => idx > r);
+    return displayRows[Math.min(displayRows.length - 1, Math.max(0, (pos < 0 ? displayRows.length - 1 : pos) + delta))];
+  };
+  const stepCol = (c: number, delta: number) => {
+    if (displayCols.length === 0) return c;
+    const pos = colPosition.get(c) ?? displayCols.findIndex(idx => idx > c);
+    return displayCols[Math.min(displayCols.length - 1, Math.max(0, (pos < 0 ? displayCols.length - 1 : pos) + delta))];
+  };
+
+  const moveTo = (pos: CellPosition, extend: boolean) => {
+    if (extend) {
+      setAnchorCell(prev => prev || selectedCell);
+    } else {
+      setAnchorCell(null);
+    }
+    setSelectedCell(pos);
+  };
+
+  const applyChanges = (changes: CellChange[], label: string) => {
+    if (readOnly || changes.length === 0) return;
+    if (onCellsChange) {
+      onCellsChange(changes, label);
+    } else {
+      changes.forEach(ch => onCellChange(ch.r, ch.c, ch.value));
+    }
+  };
+
+  // Ctrl+D: copy the top row of the selection down (or the row above a single row)
+  const fillDown = () => {
+    if (!selection) return;
+    if (selection.r1 === selection.r2) {
+      if (selection.r1 === 0) return;
+      const source = { ...selection, r1: selection.r1 - 1, r2: selection.r1 - 1 };
+      applyChanges(buildFillChanges(data, source, selection, 'down'), 'Preencher para baixo');
+    } else {
+      const source = { ...selection, r2: selection.r1 };
+      const target = { ...selection, r1: selection.r1 + 1 };
+      applyChanges(buildFillChanges(data, source, target, 'down'), 'Preencher para baixo');
+    }
+  };
+
+  const hitKeys = useMemo(() => new Set((searchHits || []).map(h => `${h.r}:${h.c}`)), [searchHits]);
+  const collaboratorAt = useMemo(() => new Map((collaborators || []).filter(p => p.cell).map(p => [`${p.cell!.r}:${p.cell!.c}`, p])), [collaborators]);
+
+  // Jump to a cell chosen outside the grid (e.g. the next search result)
+  useEffect(() => {
+    if (!focusCell) return;
+    setEditingCell(null);
+    setAnchorCell(null);
+    setSelectedCell({ r: focusCell.r, c: focusCell.c });
+  }, [focusCell]);
+
+  // Keep the selected cell visible when navigating with the keyboard
+  useEffect(() => {
+    const el = tableRef.current;
+    if (!el || !selectedCell) return;
+
+    const rowPos = rowPosition.get(selectedCell.r);
+    const colPos = colPosition.get(selectedCell.c);
+    if (rowPos === undefined || colPos === undefined) return;
+
+    // Frozen rows/columns never scroll; the others must clear them
+    const rowTop = (HEADER_HEIGHT + rowPos * ROW_HEIGHT) * zoom;
+    const rowBottom = rowTop + ROW_HEIGHT * zoom;
+    const stickyTop = (HEADER_HEIGHT + frozenHeight) * zoom;
+    if (rowPos < frozenRowCount) {
+      // Always visible
+    } else if (rowTop - stickyTop < el.scrollTop) {
+      el.scrollTop = rowTop - stickyTop;
+    } else if (rowBottom > el.scrollTop + el.clientHeight) {
+      el.scrollTop = rowBottom - el.clientHeight;
+    }
+
+    const colLeft = (ROW_HEADER_WIDTH + (colOffsets[colPos] || 0)) * zoom;
+    const colRight = (ROW_HEADER_WIDTH + (colOffsets[colPos + 1] || 0)) * zoom;
+    const stickyLeft = (ROW_HEADER_WIDTH + frozenWidth) * zoom;
+    if (colPos < frozenColCount) {
+      // Always visible
+    } else if (colLeft - stickyLeft < el.scrollLeft) {
+      el.scrollLeft = colLeft - stickyLeft;
+    } else if (colRight > el.scrollLeft + el.clientWidth) {
+      el.scrollLeft = colRight - el.clientWidth;
     }
-    return label;
-  });
+  }, [selectedCell, zoom, colOffsets, rowPosition, colPosition, frozenRowCount, frozenColCount, frozenHeight, frozenWidth]);
 
   // Keyboard Navigation & Shortcuts
   useEffect(() => {
@@ -35,7 +270,7 @@ const Spreadsheet: React.FC<SpreadsheetProps> = ({ data, rules = [], validationR
       // If no data, ignore
       if (!data || data.length === 0) return;
 
-      // If we are editing, let the input handle navigation/typing, 
+      // If we are editing, let the input handle navigation/typing,
       // EXCEPT for Enter (Commit) and Escape (Cancel)
       if (editingCell) {
         if (e.key === 'Escape') {
@@ -46,27 +281,76 @@ const Spreadsheet: React.FC<SpreadsheetProps> = ({ data, rules = [], validationR
         return;
       }
 
+      // Undo/Redo (inputs elsewhere on the page keep their native undo)
+      const target = e.target as HTMLElement | null;
+      const inField = target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT');
+      if ((e.ctrlKey || e.metaKey) && !inField && !readOnly) {
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+          e.preventDefault();
+          onUndo?.();
+          return;
+        }
+        if (key === 'y' || (key === 'z' && e.shiftKey)) {
+          e.preventDefault();
+          onRedo?.();
+          return;
+        }
+      }
+
       if (!selectedCell) return;
 
       const { r, c } = selectedCell;
       const maxRows = data.length;
+      const extend = e.shiftKey;
+
+      if ((e.ctrlKey || e.metaKey) && !inField) {
+        const key = e.key.toLowerCase();
+        if (key === 'a') {
+          e.preventDefault();
+          setAnchorCell({ r: 0, c: 0 });
+          setSelectedCell({ r: maxRows - 1, c: Math.max(0, maxCols - 1) });
+          return;
+        }
+        if (key === 'd') {
+          e.preventDefault();
+          fillDown();
+          return;
+        }
+      }
 
       switch (e.key) {
         case 'ArrowUp':
           e.preventDefault();
-          setSelectedCell({ r: Math.max(0, r - 1), c });
+          moveTo({ r: stepRow(r, -1), c }, extend);
           break;
         case 'ArrowDown':
           e.preventDefault();
-          setSelectedCell({ r: Math.min(maxRows - 1, r + 1), c });
+          moveTo({ r: stepRow(r, 1), c }, extend);
           break;
         case 'ArrowLeft':
           e.preventDefault();
-          setSelectedCell({ r, c: Math.max(0, c - 1) });
+          moveTo({ r, c: stepCol(c, -1) }, extend);
           break;
         case 'ArrowRight':
           e.preventDefault();
-          setSelectedCell({ r, c: Math.min(maxCols - 1, c + 1) });
+          moveTo({ r, c: stepCol(c, 1) }, extend);
+          break;
+        case 'PageUp':
+          e.preventDefault();
+          moveTo({ r: stepRow(r, -visibleRowCount), c }, extend);
+          break;
+        case 'PageDown':
+          e.preventDefault();
+          moveTo({ r: stepRow(r, visibleRowCount), c }, extend);
+          break;
+        case 'Home':
+          e.preventDefault();
+          moveTo({ r: e.ctrlKey || e.metaKey ? stepRow(r, -maxRows) : r, c: stepCol(c, -maxCols) }, extend);
+          break;
+        case 'End':
+          e.preventDefault();
+          moveTo({ r: e.ctrlKey || e.metaKey ? stepRow(r, maxRows) : r, c: stepCol(c, maxCols) }, extend);
           break;
         case 'Enter':
         case 'F2':
@@ -78,15 +362,19 @@ const Spreadsheet: React.FC<SpreadsheetProps> = ({ data, rules = [], validationR
         case 'Delete':
         case 'Backspace':
           if (!readOnly) {
-            onCellChange(r, c, "");
+            if (isMultiSelection && selection) {
+              applyChanges(clearRangeChanges(selection), 'Limpar células');
+            } else {
+              onCellChange(r, c, "");
+            }
           }
           break;
         case 'Tab':
           e.preventDefault();
           if (e.shiftKey) {
-             setSelectedCell({ r, c: Math.max(0, c - 1) });
+             moveTo({ r, c: stepCol(c, -1) }, false);
           } else {
-             setSelectedCell({ r, c: Math.min(maxCols - 1, c + 1) });
+             moveTo({ r, c: stepCol(c, 1) }, false);
           }
           break;
       }
@@ -94,61 +382,359 @@ const Spreadsheet: React.FC<SpreadsheetProps> = ({ data, rules = [], validationR
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedCell, editingCell, data, maxCols, onCellChange, readOnly]); 
-
-  const getCellStyle = (rowIndex: number, colIndex: number, value: CellValue) => {
-    if (!rules || rowIndex === 0) return {}; 
-
-    const columnRules = rules.filter(r => r.columnIndex === colIndex);
-    if (columnRules.length === 0) return {};
-
-    // Normalize value for comparison (handle comma as decimal separator)
-    const normalizedValue = typeof value === 'string' ? value.replace(',', '.') : value;
-    const numValue = Number(normalizedValue);
-    const isNumber = !isNaN(numValue) && value !== "" && value !== null;
-
-    for (const rule of columnRules) {
-      const ruleValue = Number(rule.value);
-      let match = false;
-
-      if (isNumber) {
-        switch (rule.condition) {
-          case 'gt': match = numValue > ruleValue; break;
-          case 'lt': match = numValue < ruleValue; break;
-          case 'gte': match = numValue >= ruleValue; break;
-          case 'lte': match = numValue <= ruleValue; break;
-          case 'eq': match = numValue === ruleValue; break;
-        }
-      } else {
-        const strVal = String(value).toLowerCase();
-        const strRule = String(rule.value).toLowerCase();
-        if (rule.condition === 'contains') {
-          match = strVal.includes(strRule);
-        } else if (rule.condition === 'eq') {
-          match = strVal === strRule;
-        }
-      }
+  }, [selectedCell, anchorCell, editingCell, data, maxCols, displayRows, displayCols, visibleRowCount, onCellChange, onCellsChange, onUndo, onRedo, readOnly]);
+
+  // Clipboard: TSV text is what Excel, LibreOffice and Google Sheets exchange
+  useEffect(() => {
+    const shouldHandle = (e: ClipboardEvent) => {
+      if (editingCell || !selection || !data || data.length === 0) return false;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return false;
+      // Text selected or focused elsewhere on the page (a panel, a dialog) is copied as usual;
+      // a toolbar button clicked last keeps the focus without having text of its own
+      const inGrid = (node: Node | null) => !!node && !!tableRef.current?.contains(node);
+      const active = document.activeElement;
+      if (active && active !== document.body && active.tagName !== 'BUTTON' && !inGrid(active)) return false;
+      const textSelection = window.getSelection();
+      return !textSelection || textSelection.isCollapsed || inGrid(textSelection.anchorNode);
+    };
 
-      if (match) {
-        return {
-          backgroundColor: rule.style.backgroundColor,
-          color: rule.style.color,
-          fontWeight: '500'
+    const copySelection = (e: ClipboardEvent) => {
+      if (!selection) return;
+      // Other applications get the displayed values; the grid itself keeps the formulas
+      const text = toTSV(getRangeValues(values || data, selection));
+      internalClipboard.current = { text, block: getRangeValues(data, selection), origin: { r: selection.r1, c: selection.c1 } };
+      e.clipboardData?.setData('text/plain', text);
+      e.preventDefault();
+    };
+
+    const handleCopy = (e: ClipboardEvent) => {
+      if (shouldHandle(e)) copySelection(e);
+    };
+
+    const handleCut = (e: ClipboardEvent) => {
+      if (!shouldHandle(e) || !selection) return;
+      copySelection(e);
+      applyChanges(clearRangeChanges(selection), 'Recortar');
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (!shouldHandle(e) || readOnly || !selection) return;
+      const text = e.clipboardData?.getData('text/plain');
+      if (!text) return;
+      e.preventDefault();
+
+      const internal = internalClipboard.current;
+      const fromGrid = internal && internal.text.replace(/\r\n/g, '\n') === text.replace(/\r\n/g, '\n');
+      const block: CellValue[][] = fromGrid ? internal!.block : parseTSV(text);
+      if (block.length === 0) return;
+
+      const changes = buildPasteChanges(block, selection, fromGrid ? internal!.origin : undefined);
+      applyChanges(changes, 'Colar');
+
+      // Select what was pasted
+      const last = changes[changes.length - 1];
+      setAnchorCell({ r: selection.r1, c: selection.c1 });
+      setSelectedCell({ r: last.r, c: last.c });
+    };
+
+    window.addEventListener('copy', handleCopy);
+    window.addEventListener('cut', handleCut);
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('copy', handleCopy);
+      window.removeEventListener('cut', handleCut);
+      window.removeEventListener('paste', handlePaste);
+    };
+  }, [selectedCell, anchorCell, editingCell, data, values, readOnly, onCellChange, onCellsChange]);
+
+  // Mouse drag: extend the selection, or apply the fill handle on release
+  useEffect(() => {
+    const handleMouseUp = () => {
+      if (dragMode.current === 'fill' && fillTarget && selection) {
+        applyChanges(buildFillChanges(data, selection, fillTarget.range, fillTarget.direction), 'Preencher');
+        const union = {
+          r1: Math.min(selection.r1, fillTarget.range.r1),
+          c1: Math.min(selection.c1, fillTarget.range.c1),
+          r2: Math.max(selection.r2, fillTarget.range.r2),
+          c2: Math.max(selection.c2, fillTarget.range.c2)
         };
+        setAnchorCell({ r: union.r1, c: union.c1 });
+        setSelectedCell({ r: union.r2, c: union.c2 });
       }
+      dragMode.current = null;
+      setFillTarget(null);
+    };
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => window.removeEventListener('mouseup', handleMouseUp);
+  }, [fillTarget, selectedCell, anchorCell, data, onCellChange, onCellsChange]);
+
+  const getCellStyle = (rowIndex: number, colIndex: number): React.CSSProperties => {
+    const format = conditionalFormats.get(`${rowIndex}:${colIndex}`);
+    if (!format) return {};
+    const style: React.CSSProperties = {};
+    if (format.backgroundColor) style.backgroundColor = format.backgroundColor;
+    if (format.color) style.color = format.color;
+    if (format.backgroundColor || format.color) style.fontWeight = format.bold ? 'bold' : '500';
+    if (format.bar) {
+      style.backgroundImage = `linear-gradient(to right, ${format.bar.color} ${format.bar.percent}%, transparent ${format.bar.percent}%)`;
+      style.backgroundSize = '100% 70%';
+      style.backgroundPosition = 'left center';
+      style.backgroundRepeat = 'no-repeat';
     }
-    return {};
+    return style;
   };
 
-  const handleCellClick = (rowIndex: number, colIndex: number) => {
-    setSelectedCell({ r: rowIndex, c: colIndex });
+  const handleCellMouseDown = (e: React.MouseEvent, rowIndex: number, colIndex: number) => {
+    if (e.button !== 0) return;
+    if (editingCell?.r === rowIndex && editingCell?.c === colIndex) return;
+
+    if (e.shiftKey && selectedCell) {
+      e.preventDefault();
+      moveTo({ r: rowIndex, c: colIndex }, true);
+    } else {
+      setAnchorCell({ r: rowIndex, c: colIndex });
+      setSelectedCell({ r: rowIndex, c: colIndex });
+      dragMode.current = 'select';
+    }
     // If we click a different cell while editing, stop editing the previous one
     if (editingCell) {
         setEditingCell(null);
     }
   };
 
+  const handleCellMouseEnter = (rowIndex: number, colIndex: number) => {
+    if (dragMode.current === 'select') {
+      setSelectedCell({ r: rowIndex, c: colIndex });
+    } else if (dragMode.current === 'fill' && selection) {
+      // Extend in the direction the pointer moved furthest from the selection
+      const down = rowIndex - selection.r2;
+      const up = selection.r1 - rowIndex;
+      const right = colIndex - selection.c2;
+      const left = selection.c1 - colIndex;
+      const best = Math.max(down, up, right, left);
+      if (best <= 0) {
+        setFillTarget(null);
+      } else if (best === down) {
+        setFillTarget({ direction: 'down', range: { ...selection, r1: selection.r2 + 1, r2: rowIndex } });
+      } else if (best === up) {
+        setFillTarget({ direction: 'up', range: { ...selection, r1: rowIndex, r2: selection.r1 - 1 } });
+      } else if (best === right) {
+        setFillTarget({ direction: 'right', range: { ...selection, c1: selection.c2 + 1, c2: colIndex } });
+      } else {
+        setFillTarget({ direction: 'left', range: { ...selection, c1: colIndex, c2: selection.c1 - 1 } });
+      }
+    }
+  };
+
+  const handleFillHandleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    dragMode.current = 'fill';
+  };
+
+  // Clicking a column letter or row number selects the whole column/row
+  const isWholeColumnSelection = !!selection && selection.r1 === 0 && selection.r2 === data.length - 1;
+  const isWholeRowSelection = !!selection && selection.c1 === 0 && selection.c2 === maxCols - 1;
+
+  const handleColumnHeaderMouseDown = (e: React.MouseEvent, colIndex: number) => {
+    if (e.button !== 0 || data.length === 0) return;
+    // Keep a multi-column selection so it can be dragged as a block
+    if (!e.shiftKey && isWholeColumnSelection && colIndex >= selection!.c1 && colIndex <= selection!.c2) return;
+    const start = e.shiftKey && anchorCell ? anchorCell.c : colIndex;
+    setAnchorCell({ r: 0, c: start });
+    setSelectedCell({ r: data.length - 1, c: colIndex });
+    setEditingCell(null);
+  };
+
+  const handleRowHeaderMouseDown = (e: React.MouseEvent, rowIndex: number) => {
+    if (e.button !== 0 || maxCols === 0) return;
+    if (!e.shiftKey && isWholeRowSelection && rowIndex >= selection!.r1 && rowIndex <= selection!.r2) return;
+    const start = e.shiftKey && anchorCell ? anchorCell.r : rowIndex;
+    setAnchorCell({ r: start, c: 0 });
+    setSelectedCell({ r: rowIndex, c: maxCols - 1 });
+    setEditingCell(null);
+  };
+
+  // --- Structure: insert, delete, move and hide whole rows/columns ---
+
+  const canRestructure = !readOnly && !!onStructureChange;
+
+  // Rows/columns a header action applies to: the selected block when the header is part of it
+  const headerBlock = (axis: SheetAxis, index: number) => {
+    if (selection) {
+      const lo = axis === 'row' ? selection.r1 : selection.c1;
+      const hi = axis === 'row' ? selection.r2 : selection.c2;
+      if (index >= lo && index <= hi) return { start: lo, count: hi - lo + 1 };
+    }
+    return { start: index, count: 1 };
+  };
+
+  const selectBlock = (axis: SheetAxis, start: number, count: number) => {
+    if (axis === 'row') {
+      setAnchorCell({ r: start, c: 0 });
+      setSelectedCell({ r: start + count - 1, c: Math.max(0, maxCols - 1) });
+    } else {
+      setAnchorCell({ r: 0, c: start });
+      setSelectedCell({ r: Math.max(0, data.length - 1), c: start + count - 1 });
+    }
+  };
+
+  const handleHeaderContextMenu = (e: React.MouseEvent, axis: SheetAxis, index: number) => {
+    if (!canRestructure) return;
+    e.preventDefault();
+    const block = headerBlock(axis, index);
+    selectBlock(axis, block.start, block.count);
+    setEditingCell(null);
+    setHeaderMenu({ axis, ...block, x: e.clientX, y: e.clientY });
+  };
+
+  const runStructureAction = (action: StructureAction) => {
+    setHeaderMenu(null);
+    if (!onStructureChange) return;
+    onStructureChange(action);
+    if (action.type === 'insert') {
+      selectBlock(action.axis, action.index, action.count);
+    } else if (action.type === 'move') {
+      selectBlock(action.axis, action.to, action.count);
+    } else {
+      setAnchorCell(null);
+    }
+  };
+
+  const menuRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    if (!headerMenu) return;
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setHeaderMenu(null);
+    };
+    const closeOnEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setHeaderMenu(null);
+    };
+    window.addEventListener('mousedown', close);
+    window.addEventListener('keydown', closeOnEscape);
+    return () => {
+      window.removeEventListener('mousedown', close);
+      window.removeEventListener('keydown', closeOnEscape);
+    };
+  }, [headerMenu]);
+
+  const handleHeaderDragStart = (e: React.DragEvent, axis: SheetAxis, index: number) => {
+    if (!canRestructure) return;
+    headerDrag.current = { axis, ...headerBlock(axis, index) };
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', ''); // Firefox only starts a drag with data
+  };
+
+  const handleHeaderDragOver = (e: React.DragEvent, axis: SheetAxis, index: number) => {
+    if (headerDrag.current?.axis !== axis) return;
+    e.preventDefault();
+    if (dropTarget?.axis !== axis || dropTarget.index !== index) setDropTarget({ axis, index });
+  };
+
+  const handleHeaderDrop = (e: React.DragEvent, axis: SheetAxis, index: number) => {
+    const drag = headerDrag.current;
+    headerDrag.current = null;
+    setDropTarget(null);
+    if (!drag || drag.axis !== axis) return;
+    e.preventDefault();
+    if (index >= drag.start && index < drag.start + drag.count) return;
+    // The block lands on the header it was dropped on
+    const to = index > drag.start ? index - drag.count + 1 : index;
+    runStructureAction({ type: 'move', axis, start: drag.start, count: drag.count, to });
+  };
+
+  const handleHeaderDragEnd = () => {
+    headerDrag.current = null;
+    setDropTarget(null);
+  };
+
+  const renderHeaderMenu = () => {
+    if (!headerMenu) return null;
+    const { axis, start, count } = headerMenu;
+    const end = start + count - 1;
+    const isRow = axis === 'row';
+    const total = isRow ? data.length : maxCols;
+    const hidden = isRow ? hiddenRowSet : hiddenColSet;
+    const shown = isRow ? displayRows.length : displayCols.length;
+    const noun = isRow ? (count > 1 ? `${count} linhas` : 'linha') : (count > 1 ? `${count} colunas` : 'coluna');
+
+    // Hidden rows/columns next to (or inside) the block
+    let lo = start;
+    while (lo > 0 && hidden.has(lo - 1)) lo--;
+    let hi = end;
+    while (hidden.has(hi + 1)) hi++;
+    let hasHidden = lo < start || hi > end;
+    for (let i = start; i <= end && !hasHidden; i++) hasHidden = hidden.has(i);
+    const hiddenInBlock = Array.from({ length: count }, (_, i) => start + i).filter(i => hidden.has(i)).length;
+
+    const itemClass = "w-full text-left px-4 py-2 text-sm flex items-center gap-2 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed disabled:hover:bg-transparent";
+
+    return (
+      <div
+        ref={menuRef}
+        className="fixed z-50 bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700 w-56 py-1"
+        style={{ top: headerMenu.y, left: headerMenu.x }}
+      >
+        <button className={itemClass} onClick={() => runStructureAction({ type: 'insert', axis, index: start, count })}>
+          {isRow ? <ArrowUpToLine size={14} /> : <ArrowLeftToLine size={14} />}
+          Inserir {noun} {isRow ? 'acima' : 'à esquerda'}
+        </button>
+        <button className={itemClass} onClick={() => runStructureAction({ type: 'insert', axis, index: end + 1, count })}>
+          {isRow ? <ArrowDownToLine size={14} /> : <ArrowRightToLine size={14} />}
+          Inserir {noun} {isRow ? 'abaixo' : 'à direita'}
+        </button>
+        <div className="border-t border-gray-100 dark:border-gray-700 my-1"></div>
+        <button className={itemClass} disabled={count - hiddenInBlock >= shown} onClick={() => runStructureAction({ type: 'hide', axis, start, count })}>
+          <EyeOff size={14} /> Ocultar {noun}
+        </button>
+        <button className={itemClass} disabled={!hasHidden} onClick={() => runStructureAction({ type: 'unhide', axis, start: lo, count: hi - lo + 1 })}>
+          <Eye size={14} /> Mostrar {isRow ? 'linhas' : 'colunas'} ocultas
+        </button>
+        <div className="border-t border-gray-100 dark:border-gray-700 my-1"></div>
+        <button
+          className={`${itemClass} text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20`}
+          disabled={count >= total}
+          onClick={() => runStructureAction({ type: 'delete', axis, start, count })}
+        >
+          <Trash2 size={14} /> Excluir {noun}
+        </button>
+      </div>
+    );
+  };
+
+  // --- AutoFilter on the header row ---
+
+  const filterOptions = useMemo(
+    () => filterMenu ? getColumnValueList(values || data, filterMenu.columnIndex) : [],
+    [filterMenu, values, data]
+  );
+
+  const handleFilterButton = (e: React.MouseEvent, colIndex: number) => {
+    e.stopPropagation();
+    if (filterMenu?.columnIndex === colIndex) {
+      setFilterMenu(null);
+      return;
+    }
+    const rect = e.currentTarget.getBoundingClientRect();
+    setFilterMenu({ columnIndex: colIndex, x: rect.left, y: rect.bottom + 4 });
+  };
+
+  const handleFilterApply = (filter: ColumnFilter | null) => {
+    if (!filterMenu || !onFilterChange) return;
+    const others = (autoFilter || []).filter(f => f.columnIndex !== filterMenu.columnIndex);
+    onFilterChange(filter ? [...others, filter] : others);
+    setFilterMenu(null);
+  };
+
+  const handleFilterSort = (direction: 'asc' | 'desc') => {
+    if (!filterMenu) return;
+    onSort?.([{ columnIndex: filterMenu.columnIndex, direction }]);
+    setFilterMenu(null);
+  };
+
   const handleDoubleClick = (rowIndex: number, colIndex: number) => {
+    setAnchorCell(null);
     setSelectedCell({ r: rowIndex, c: colIndex });
     if (!readOnly) {
       setEditingCell({ r: rowIndex, c: colIndex });
@@ -161,10 +747,12 @@ const Spreadsheet: React.FC<SpreadsheetProps> = ({ data, rules = [], validationR
       // Focus goes back to selection automatically via state
   };
 
-  const getInputType = (cIdx: number) => {
-      const rule = validationRules?.find(r => r.columnIndex === cIdx);
+  const getInputType = (cIdx: number, rawValue: CellValue) => {
+      // Formulas are plain text even in number/date columns
+      if (isFormula(rawValue)) return 'text';
+      const rule = validationByColumn.get(cIdx);
       if (!rule) return 'text';
-      if (rule.type === 'number') return 'number';
+      if (rule.type === 'number' || rule.type === 'decimal') return 'number';
       if (rule.type === 'date') return 'date';
       return 'text';
   };
@@ -178,119 +766,296 @@ const Spreadsheet: React.FC<SpreadsheetProps> = ({ data, rules = [], validationR
     );
   }
 
+  // Frozen cells stick below the column headers and right of the row headers
+  const getFrozenStyle = (rIdx: number, cIdx: number): React.CSSProperties | null => {
+    const rowPos = rowPosition.get(rIdx) ?? Infinity;
+    const colPos = colPosition.get(cIdx) ?? Infinity;
+    const inRows = rowPos < frozenRowCount;
+    const inCols = colPos < frozenColCount;
+    if (!inRows && !inCols) return null;
+    return {
+      position: 'sticky',
+      top: inRows ? HEADER_HEIGHT + rowPos * ROW_HEIGHT : undefined,
+      left: inCols ? ROW_HEADER_WIDTH + colOffsets[colPos] : undefined,
+      zIndex: inRows && inCols ? 13 : 12
+    };
+  };
+
+  const renderCell = (row: CellValue[], rIdx: number, cIdx: number, span?: { key: number; rowSpan: number; colSpan: number; merge: CellRange }) => {
+    const rawValue = row[cIdx];
+    const cellValue = values?.[rIdx] ? values[rIdx][cIdx] : rawValue;
+    const safeValue = rawValue === null || rawValue === undefined ? "" : String(rawValue);
+    const cellStyle = cellStyles?.[rIdx]?.[cIdx];
+    const frozenStyle = getFrozenStyle(rIdx, cIdx);
+
+    const isEditing = editingCell?.r === rIdx && editingCell?.c === cIdx;
+    const isSelected = span ? isInRange(span.merge, selectedCell?.r ?? -1, selectedCell?.c ?? -1) : selectedCell?.r === rIdx && selectedCell?.c === cIdx;
+    const inSelection = isMultiSelection && isInRange(selection, rIdx, cIdx);
+    const inFillTarget = isInRange(fillTarget?.range || null, rIdx, cIdx);
+    const showFillHandle = !readOnly && !editingCell && !fillTarget && selection?.r2 === rIdx && selection?.c2 === cIdx;
+    const style: React.CSSProperties = !isEditing ? { ...cellStyleToCSS(cellStyle), ...getCellStyle(rIdx, cIdx) } : {};
+
+    const validationRule = validationByColumn.get(cIdx);
+    const validationIssue = validationIssues?.get(`${rIdx}:${cIdx}`);
+    const collaborator = collaboratorAt.get(`${rIdx}:${cIdx}`);
+
+    return (
+      <td
+        key={span?.key ?? cIdx}
+        rowSpan={span && span.rowSpan > 1 ? span.rowSpan : undefined}
+        colSpan={span && span.colSpan > 1 ? span.colSpan : undefined}
+        className={`
+          border-b border-r border-gray-200 dark:border-gray-700 p-0 relative transition-colors duration-75
+          ${frozenStyle ? 'bg-white dark:bg-gray-800' : ''}
+          ${isSelected && !isEditing ? 'ring-2 ring-emerald-500 z-10' : ''}
+          ${!isEditing ? 'select-none' : ''}
+          ${readOnly ? 'cursor-default' : 'cursor-cell'}
+        `}
+        style={frozenStyle ? { ...style, ...frozenStyle } : style}
+        onMouseDown={(e) => handleCellMouseDown(e, rIdx, cIdx)}
+        onMouseEnter={() => handleCellMouseEnter(rIdx, cIdx)}
+        onDoubleClick={() => handleDoubleClick(rIdx, cIdx)}
+      >
+        {inSelection && !isEditing && (
+          <div className="absolute inset-0 bg-emerald-500/15 pointer-events-none" />
+        )}
+        {hitKeys.has(`${rIdx}:${cIdx}`) && !isEditing && (
+          <div className={`absolute inset-0 pointer-events-none bg-amber-300/40 ${currentHit?.r === rIdx && currentHit?.c === cIdx ? 'ring-2 ring-inset ring-amber-500' : ''}`} />
+        )}
+        {collaborator && !isEditing && (
+          <div className="absolute inset-0 pointer-events-none z-10" style={{ boxShadow: `inset 0 0 0 2px ${collaborator.color}` }}>
+            <span
+              className="absolute top-0 right-0 max-w-full truncate px-1 rounded-bl text-[10px] leading-4 font-medium text-white"
+              style={{ backgroundColor: collaborator.color }}
+            >
+              {collaborator.name}
+            </span>
+          </div>
+        )}
+        {inFillTarget && (
+          <div className="absolute inset-0 border border-dashed border-emerald-600 bg-emerald-500/5 pointer-events-none" />
+        )}
+        {validationIssue && !isEditing && (
+          <span className="absolute top-0 left-0 w-0 h-0 border-t-[8px] border-r-[8px] border-t-red-500 border-r-transparent pointer-events-none z-10" />
+        )}
+        {rIdx === 0 && autoFilter && !isEditing && (
+          <button
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={(e) => handleFilterButton(e, cIdx)}
+            className={`absolute right-1 top-1/2 -translate-y-1/2 z-10 p-0.5 rounded border ${
+              filtersByColumn.has(cIdx) && isFilterActive(filtersByColumn.get(cIdx)!)
+                ? 'bg-emerald-600 border-emerald-600 text-white'
+                : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-300 hover:border-emerald-500'
+            }`}
+            title="Filtrar e ordenar"
+          >
+            {filtersByColumn.has(cIdx) && isFilterActive(filtersByColumn.get(cIdx)!) ? <Filter size={10} /> : <ChevronDown size={10} />}
+          </button>
+        )}
+        {showFillHandle && (
+          <div
+            className="absolute -bottom-1 -right-1 w-2 h-2 bg-emerald-600 border border-white dark:border-gray-800 cursor-crosshair z-20"
+            onMouseDown={handleFillHandleMouseDown}
+            title="Arraste para preencher"
+          />
+        )}
+        {isEditing ? (
+          validationRule?.type === 'list' && validationRule.options ? (
+               <select
+                  autoFocus
+                  defaultValue={safeValue}
+                  onBlur={(e) => handleSave(rIdx, cIdx, e.target.value)}
+                  onChange={(e) => handleSave(rIdx, cIdx, e.target.value)}
+                  onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                          e.preventDefault();
+                          handleSave(rIdx, cIdx, e.currentTarget.value);
+                          setSelectedCell(prev => prev ? ({ ...prev, r: stepRow(prev.r, 1) }) : null);
+                      }
+                  }}
+                  className="w-full h-full px-2 outline-none border-2 border-emerald-500 z-20 absolute top-0 left-0 text-sm shadow-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+               >
+                  <option value="" disabled>Selecione...</option>
+                  {validationRule.options.map(opt => (
+                      <option key={opt} value={opt}>{opt}</option>
+                  ))}
+               </select>
+          ) : (
+              <input
+                autoFocus
+                type={getInputType(cIdx, rawValue)}
+                defaultValue={safeValue}
+                onBlur={(e) => handleSave(rIdx, cIdx, e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    handleSave(rIdx, cIdx, e.currentTarget.value);
+                    setSelectedCell(prev => prev ? ({ ...prev, r: stepRow(prev.r, 1) }) : null);
+                  }
+                }}
+                className="w-full h-full px-2 outline-none border-2 border-emerald-500 z-20 absolute top-0 left-0 text-sm shadow-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              />
+          )
+        ) : (
+          <div
+            className={`px-2 py-1.5 w-full h-full select-none ${cellStyle?.wrap ? 'whitespace-normal break-words overflow-hidden' : 'truncate'} ${rIdx === 0 && autoFilter ? 'pr-6' : ''} ${isErrorValue(cellValue) && isFormula(rawValue) ? 'text-red-600 dark:text-red-400 font-medium' : 'text-gray-700 dark:text-gray-300'}`}
+            style={style.color ? { color: style.color } : undefined}
+            title={[validationIssue, isFormula(rawValue) ? rawValue : null].filter(Boolean).join('\n') || undefined}
+          >
+            {formatCellValue(cellValue, cellStyle)}
+          </div>
+        )}
+      </td>
+    );
+  };
+
+  const renderColumnHeader = (idx: number) => {
+    const isColSelected = selection ? idx >= selection.c1 && idx <= selection.c2 : false;
+    const isDropTarget = dropTarget?.axis === 'column' && dropTarget.index === idx;
+    const colPos = colPosition.get(idx) ?? Infinity;
+    return (
+      <th
+        key={idx}
+        draggable={canRestructure}
+        onMouseDown={(e) => handleColumnHeaderMouseDown(e, idx)}
+        onContextMenu={(e) => handleHeaderContextMenu(e, 'column', idx)}
+        onDragStart={(e) => handleHeaderDragStart(e, 'column', idx)}
+        onDragOver={(e) => handleHeaderDragOver(e, 'column', idx)}
+        onDrop={(e) => handleHeaderDrop(e, 'column', idx)}
+        onDragEnd={handleHeaderDragEnd}
+        style={colPos < frozenColCount ? { left: ROW_HEADER_WIDTH + colOffsets[colPos], zIndex: 25 } : undefined}
+        className={`cursor-pointer select-none border-b border-r border-gray-200 dark:border-gray-700 px-4 py-2 text-left sticky top-0 z-20 transition-colors truncate ${
+          isDropTarget
+          ? 'bg-emerald-100 dark:bg-emerald-900/60 text-emerald-800 dark:text-emerald-200'
+          : isColSelected
+          ? 'bg-blue-50 dark:bg-blue-900 text-blue-800 dark:text-blue-300'
+          : 'bg-gray-50 dark:bg-gray-700 text-gray-700 dark:text-gray-200'
+      }`}>
+        {hiddenColSet.has(idx - 1) && (
+          <span className="absolute left-0 top-1 bottom-1 w-1 rounded bg-emerald-400" title="Colunas ocultas" />
+        )}
+        {columnLabel(idx)}
+        {hiddenColSet.has(idx + 1) && idx === displayCols[displayCols.length - 1] && (
+          <span className="absolute right-0 top-1 bottom-1 w-1 rounded bg-emerald-400" title="Colunas ocultas" />
+        )}
+      </th>
+    );
+  };
+
+  // A merged area is drawn by its first rendered cell; frozen and scrolling parts are drawn separately
+  const renderGridCell = (rIdx: number, cIdx: number, sectionRows: number[], sectionCols: number[]) => {
+    const merge = mergeAt.get(`${rIdx}:${cIdx}`);
+    if (!merge) return renderCell(data[rIdx], rIdx, cIdx);
+    const rowsIn = sectionRows.filter(r => r >= merge.r1 && r <= merge.r2);
+    const colsIn = sectionCols.filter(c => c >= merge.c1 && c <= merge.c2);
+    if (rowsIn[0] !== rIdx || colsIn[0] !== cIdx) return null;
+    return renderCell(data[merge.r1] || [], merge.r1, merge.c1, { key: cIdx, rowSpan: rowsIn.length, colSpan: colsIn.length, merge });
+  };
+
+  const frozenRowList = displayRows.slice(0, frozenRowCount);
+  const scrollRowList = displayRows.slice(firstRow, lastRow + 1);
+  const spanCols = frozenCols.length + visibleCols.length + 3;
+
+  const renderRow = (rIdx: number, sectionRows: number[], frozen: boolean) => {
+    const row = data[rIdx];
+    if (!row || !Array.isArray(row)) {
+      // Keep the row slot so virtual offsets stay correct
+      return <tr key={rIdx} style={{ height: ROW_HEIGHT }}><td colSpan={spanCols} className="p-0" /></tr>;
+    }
+    return (
+      <tr key={rIdx} style={{ height: ROW_HEIGHT }} className="hover:bg-blue-50/10 dark:hover:bg-blue-900/10">
+        <td
+          draggable={canRestructure}
+          onMouseDown={(e) => handleRowHeaderMouseDown(e, rIdx)}
+          onContextMenu={(e) => handleHeaderContextMenu(e, 'row', rIdx)}
+          onDragStart={(e) => handleHeaderDragStart(e, 'row', rIdx)}
+          onDragOver={(e) => handleHeaderDragOver(e, 'row', rIdx)}
+          onDrop={(e) => handleHeaderDrop(e, 'row', rIdx)}
+          onDragEnd={handleHeaderDragEnd}
+          style={frozen ? { top: HEADER_HEIGHT + rowPosition.get(rIdx)! * ROW_HEIGHT, zIndex: 15 } : undefined}
+          className={`border-b border-r border-gray-200 dark:border-gray-700 text-center text-xs font-medium sticky left-0 z-[14] transition-colors cursor-pointer select-none
+            ${dropTarget?.axis === 'row' && dropTarget.index === rIdx
+                ? 'bg-emerald-100 dark:bg-emerald-900/60 text-emerald-800 dark:text-emerald-200'
+                : selection && rIdx >= selection.r1 && rIdx <= selection.r2
+                ? 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200'
+                : 'bg-gray-50 dark:bg-gray-700 text-gray-400 dark:text-gray-400'
+            }
+        `}>
+          {hiddenRowSet.has(rIdx - 1) && (
+            <span className="absolute top-0 left-1 right-1 h-1 rounded bg-emerald-400" title="Linhas ocultas" />
+          )}
+          {rIdx + 1}
+          {hiddenRowSet.has(rIdx + 1) && rIdx === displayRows[displayRows.length - 1] && (
+            <span className="absolute bottom-0 left-1 right-1 h-1 rounded bg-emerald-400" title="Linhas ocultas" />
+          )}
+        </td>
+        {frozenCols.map(cIdx => renderGridCell(rIdx, cIdx, sectionRows, frozenCols))}
+        <td className="p-0" />
+        {visibleCols.map(cIdx => renderGridCell(rIdx, cIdx, sectionRows, visibleCols))}
+        <td className="p-0" />
+      </tr>
+    );
+  };
+
   return (
-    <div className="flex-1 overflow-auto bg-gray-100 dark:bg-gray-900 relative transition-colors duration-200" ref={tableRef}>
-      <div 
-        className="inline-block min-w-full shadow-sm bg-white dark:bg-gray-800 m-4 rounded-lg border border-gray-200 dark:border-gray-700 transition-colors"
+    <div className="flex-1 overflow-auto bg-gray-100 dark:bg-gray-900 relative transition-colors duration-200" ref={tableRef} onScroll={handleScroll}>
+      <div
+        className="inline-block m-4 shadow-sm bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 transition-colors"
         style={{ zoom: zoom } as any}
       >
-        <table className="w-full border-collapse text-sm table-fixed">
+        <table className="border-collapse text-sm table-fixed" style={{ width: ROW_HEADER_WIDTH + totalWidth }}>
+          <colgroup>
+            <col style={{ width: ROW_HEADER_WIDTH }} />
+            {frozenCols.map(cIdx => (
+              <col key={cIdx} style={{ width: columnWidths?.[cIdx] || DEFAULT_COL_WIDTH }} />
+            ))}
+            <col style={{ width: leftSpacer }} />
+            {visibleCols.map(cIdx => (
+              <col key={cIdx} style={{ width: columnWidths?.[cIdx] || DEFAULT_COL_WIDTH }} />
+            ))}
+            <col style={{ width: rightSpacer }} />
+          </colgroup>
           <thead>
-            <tr>
-              <th className="w-10 border-b border-r border-gray-200 dark:border-gray-700 p-2 text-center bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 sticky top-0 left-0 z-30">
+            <tr style={{ height: HEADER_HEIGHT }}>
+              <th className="border-b border-r border-gray-200 dark:border-gray-700 p-2 text-center bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 sticky top-0 left-0 z-30">
                 #
               </th>
-              {headers.map((col, idx) => {
-                const isColSelected = selectedCell?.c === idx;
-                return (
-                    <th key={idx} className={`border-b border-r border-gray-200 dark:border-gray-700 px-4 py-2 min-w-[100px] text-left sticky top-0 z-20 transition-colors ${
-                        isColSelected 
-                        ? 'bg-blue-50/80 dark:bg-blue-900/50 text-blue-800 dark:text-blue-300' 
-                        : 'bg-gray-50 dark:bg-gray-700 text-gray-700 dark:text-gray-200'
-                    }`}>
-                    {col}
-                    </th>
-                )
-              })}
+              {frozenCols.map(renderColumnHeader)}
+              <th className="p-0 sticky top-0 z-20 bg-gray-50 dark:bg-gray-700" />
+              {visibleCols.map(renderColumnHeader)}
+              <th className="p-0 sticky top-0 z-20 bg-gray-50 dark:bg-gray-700" />
             </tr>
           </thead>
           <tbody>
-            {data.map((row, rIdx) => {
-              if (!row || !Array.isArray(row)) return null; // Skip undefined or invalid rows
-              return (
-              <tr key={rIdx} className="hover:bg-blue-50/10 dark:hover:bg-blue-900/10">
-                <td className={`border-b border-r border-gray-200 dark:border-gray-700 text-center text-xs font-medium sticky left-0 z-10 transition-colors
-                    ${selectedCell?.r === rIdx 
-                        ? 'bg-blue-100 dark:bg-blue-900/70 text-blue-800 dark:text-blue-200' 
-                        : 'bg-gray-50 dark:bg-gray-700 text-gray-400 dark:text-gray-400'
-                    }
-                `}>
-                  {rIdx + 1}
-                </td>
-                {headers.map((_, cIdx) => {
-                  const cellValue = row[cIdx];
-                  const safeValue = cellValue === null || cellValue === undefined ? "" : String(cellValue);
-                  
-                  const isEditing = editingCell?.r === rIdx && editingCell?.c === cIdx;
-                  const isSelected = selectedCell?.r === rIdx && selectedCell?.c === cIdx;
-                  const style = !isEditing ? getCellStyle(rIdx, cIdx, cellValue) : {};
-                  
-                  const validationRule = validationRules?.find(r => r.columnIndex === cIdx);
-
-                  return (
-                    <td 
-                      key={cIdx} 
-                      className={`
-                        border-b border-r border-gray-200 dark:border-gray-700 p-0 h-9 min-w-[100px] relative transition-colors duration-75
-                        ${isSelected && !isEditing ? 'ring-2 ring-emerald-500 z-10' : ''}
-                        ${readOnly ? 'cursor-default' : 'cursor-cell'}
-                      `}
-                      style={style}
-                      onClick={() => handleCellClick(rIdx, cIdx)}
-                      onDoubleClick={() => handleDoubleClick(rIdx, cIdx)}
-                    >
-                      {isEditing ? (
-                        validationRule?.type === 'list' && validationRule.options ? (
-                             <select
-                                autoFocus
-                                defaultValue={safeValue}
-                                onBlur={(e) => handleSave(rIdx, cIdx, e.target.value)}
-                                onChange={(e) => handleSave(rIdx, cIdx, e.target.value)}
-                                onKeyDown={(e) => {
-                                    if (e.key === 'Enter') {
-                                        e.preventDefault();
-                                        handleSave(rIdx, cIdx, e.currentTarget.value);
-                                        setSelectedCell(prev => prev ? ({ ...prev, r: Math.min(data.length - 1, prev.r + 1) }) : null);
-                                    }
-                                }}
-                                className="w-full h-full px-2 outline-none border-2 border-emerald-500 z-20 absolute top-0 left-0 text-sm shadow-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
-                             >
-                                <option value="" disabled>Selecione...</option>
-                                {validationRule.options.map(opt => (
-                                    <option key={opt} value={opt}>{opt}</option>
-                                ))}
-                             </select>
-                        ) : (
-                            <input
-                              autoFocus
-                              type={getInputType(cIdx)}
-                              defaultValue={safeValue}
-                              onBlur={(e) => handleSave(rIdx, cIdx, e.target.value)}
-                              onKeyDown={(e) => {
-                                if (e.key === 'Enter') {
-                                  handleSave(rIdx, cIdx, e.currentTarget.value);
-                                  setSelectedCell(prev => prev ? ({ ...prev, r: Math.min(data.length - 1, prev.r + 1) }) : null);
-                                }
-                              }}
-                              className="w-full h-full px-2 outline-none border-2 border-emerald-500 z-20 absolute top-0 left-0 text-sm shadow-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
-                            />
-                        )
-                      ) : (
-                        <div className="px-2 py-1.5 w-full h-full truncate select-none text-gray-700 dark:text-gray-300">
-                          {cellValue}
-                        </div>
-                      )}
-                    </td>
-                  );
-                })}
-              </tr>
-              );
-            })}
+            {frozenRowList.map(rIdx => renderRow(rIdx, frozenRowList, true))}
+            {topSpacer > 0 && (
+              <tr style={{ height: topSpacer }}><td colSpan={spanCols} className="p-0" /></tr>
+            )}
+            {scrollRowList.map(rIdx => renderRow(rIdx, scrollRowList, false))}
+            {bottomSpacer > 0 && (
+              <tr style={{ height: bottomSpacer }}><td colSpan={spanCols} className="p-0" /></tr>
+            )}
           </tbody>
         </table>
       </div>
+      {renderHeaderMenu()}
+      {filterMenu && (
+        <FilterMenu
+          key={filterMenu.columnIndex}
+          title={String(data[0]?.[filterMenu.columnIndex] ?? "") || columnLabel(filterMenu.columnIndex)}
+          options={filterOptions}
+          filter={filtersByColumn.get(filterMenu.columnIndex)}
+          columnIndex={filterMenu.columnIndex}
+          x={filterMenu.x}
+          y={filterMenu.y}
+          canSort={!readOnly && !!onSort}
+          canFilter={!!onFilterChange}
+          onApply={handleFilterApply}
+          onSort={handleFilterSort}
+          onClose={() => setFilterMenu(null)}
+        />
+      )}
     </div>
   );
 };
 
-export default Spreadsheet;
\ No newline at end of file
+export default Spreadsheet;
@@ -0,0 +1,287 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ChartColumn, X, TableProperties, ImageDown } from 'lucide-react';
+import { Sheet } from '../types';
+import { columnLabel, evaluateSheet, parseNumeric } from '../utils/formulaEngine';
+import { findHeaderIndex } from '../utils/grading';
+import { displayText } from '../utils/searchUtils';
+import { normalizeText } from '../utils/textUtils';
+import {
+  buildStatsSheet, columnCells, computeColumnStats, ColumnStats, detectGradeScale,
+  findNumericColumns, GradeScale, GroupStats, HistogramBin, statsByGroup, statsBySheet
+} from '../utils/statistics';
+
+interface StatisticsPanelProps {
+  sheet: Sheet;
+  classSheets: Sheet[]; // Sheets produced by splitting this one, or its sister classes
+  onExportSheet: (sheet: Sheet) => void;
+  onExportImage: (svgs: SVGSVGElement[], fileName: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full border border-gray-300 dark:border-gray-600 rounded p-2 text-sm bg-white dark:bg-gray-700";
+const labelClass = "text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1 block";
+
+// Plain colours: the charts are also drawn onto an image outside the page styles
+const BAR = '#10B981';
+const FAIL_BAR = '#F87171';
+const AXIS = '#9CA3AF';
+const LABEL = '#6B7280';
+const FONT = 'Helvetica, Arial, sans-serif';
+
+const CHART_WIDTH = 352;
+const BY_SHEETS = -2;
+
+const formatNumber = (n: number, decimals = 2) => n.toLocaleString('pt-PT', { maximumFractionDigits: decimals });
+const formatRate = (rate: number | null) => rate === null ? '—' : `${formatNumber(rate * 100, 0)}%`;
+
+// --- Charts ---
+
+const Histogram = React.forwardRef<SVGSVGElement, { title: string; bins: HistogramBin[]; pass: number | null }>(({ title, bins, pass }, ref) => {
+  const height = 180;
+  const top = 24;
+  const bottom = 28;
+  const left = 24;
+  const plotHeight = height - top - bottom;
+  const slot = (CHART_WIDTH - left) / Math.max(1, bins.length);
+  const peak = Math.max(1, ...bins.map(b => b.count));
+
+  return (
+    <svg ref={ref} xmlns="http://www.w3.org/2000/svg" width={CHART_WIDTH} height={height} viewBox={`0 0 ${CHART_WIDTH} ${height}`} fontFamily={FONT}>
+      <text x={0} y={12} fontSize={11} fontWeight="bold" fill={LABEL}>{title}</text>
+      <line x1={left} y1={top + plotHeight} x2={CHART_WIDTH} y2={top + plotHeight} stroke={AXIS} strokeWidth={1} />
+      <text x={left - 4} y={top + 8} fontSize={9} fill={LABEL} textAnchor="end">{peak}</text>
+      {bins.map((bin, i) => {
+        const barHeight = (bin.count / peak) * plotHeight;
+        const x = left + i * slot;
+        return (
+          <g key={i}>
+            <rect
+              x={x + 2}
+              y={top + plotHeight - barHeight}
+              width={Math.max(1, slot - 4)}
+              height={barHeight}
+              fill={pass !== null && bin.to <= pass ? FAIL_BAR : BAR}
+            />
+            {bin.count > 0 && (
+              <text x={x + slot / 2} y={top + plotHeight - barHeight - 3} fontSize={9} fill={LABEL} textAnchor="middle">{bin.count}</text>
+            )}
+            <text x={x + slot / 2} y={top + plotHeight + 12} fontSize={8} fill={LABEL} textAnchor="middle">{bin.label.split('–')[0]}</text>
+          </g>
+        );
+      })}
+      <text x={CHART_WIDTH} y={height - 2} fontSize={8} fill={LABEL} textAnchor="end">Nota (início do intervalo)</text>
+    </svg>
+  );
+});
+
+const GroupChart = React.forwardRef<SVGSVGElement, { title: string; groups: GroupStats[]; scale: GradeScale }>(({ title, groups, scale }, ref) => {
+  const rowHeight = 20;
+  const top = 24;
+  const labelWidth = 96;
+  const rateWidth = 40;
+  const plotWidth = CHART_WIDTH - labelWidth - rateWidth;
+  const height = top + groups.length * rowHeight + 8;
+  const span = Math.max(1e-9, scale.max - scale.min);
+  const toX = (n: number) => labelWidth + Math.max(0, Math.min(1, (n - scale.min) / span)) * plotWidth;
+
+  return (
+    <svg ref={ref} xmlns="http://www.w3.org/2000/svg" width={CHART_WIDTH} height={height} viewBox={`0 0 ${CHART_WIDTH} ${height}`} fontFamily={FONT}>
+      <text x={0} y={12} fontSize={11} fontWeight="bold" fill={LABEL}>{title}</text>
+      <text x={CHART_WIDTH} y={12} fontSize={9} fill={LABEL} textAnchor="end">% aprov.</text>
+      {groups.map((group, i) => {
+        const y = top + i * rowHeight;
+        const name = group.name.length > 16 ? `${group.name.slice(0, 15)}…` : group.name;
+        const mean = group.stats?.mean;
+        const failing = mean !== undefined && scale.pass !== null && mean < scale.pass;
+        return (
+          <g key={i}>
+            <text x={labelWidth - 6} y={y + 13} fontSize={9} fill={LABEL} textAnchor="end">{name}</text>
+            {mean !== undefined && (
+              <>
+                <rect x={labelWidth} y={y + 3} width={Math.max(1, toX(mean) - labelWidth)} height={rowHeight - 6} fill={failing ? FAIL_BAR : BAR} />
+                <text x={toX(mean) + 3} y={y + 13} fontSize={9} fill={LABEL}>{formatNumber(mean, 1)}</text>
+              </>
+            )}
+            <text x={CHART_WIDTH} y={y + 13} fontSize={9} fill={LABEL} textAnchor="end">{formatRate(group.stats?.passRate ?? null)}</text>
+          </g>
+        );
+      })}
+      {scale.pass !== null && (
+        <line x1={toX(scale.pass)} y1={top - 2} x2={toX(scale.pass)} y2={height - 6} stroke={LABEL} strokeWidth={1} strokeDasharray="3 2" />
+      )}
+    </svg>
+  );
+});
+
+// --- Panel ---
+
+const StatCell: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-gray-50 dark:bg-gray-900/50 rounded p-2">
+    <div className="text-[10px] uppercase text-gray-400">{label}</div>
+    <div className="font-semibold text-gray-800 dark:text-gray-100">{value}</div>
+  </div>
+);
+
+const StatisticsPanel: React.FC<StatisticsPanelProps> = ({ sheet, classSheets, onExportSheet, onExportImage, onClose }) => {
+  const headers = sheet.data[0] || [];
+  const values = useMemo(() => evaluateSheet(sheet.data), [sheet.data]);
+  const numericColumns = useMemo(() => findNumericColumns(sheet, values), [sheet, values]);
+
+  const [column, setColumn] = useState(() => {
+    const average = findHeaderIndex(headers, sheet.gradingScheme?.averageHeader);
+    return numericColumns.includes(average) ? average : numericColumns[numericColumns.length - 1] ?? -1;
+  });
+  const [groupBy, setGroupBy] = useState(() => {
+    if (classSheets.length > 1) return BY_SHEETS;
+    return headers.map(normalizeText).findIndex(h => h.includes('turma') || h.includes('classe'));
+  });
+  const histogramRef = useRef<SVGSVGElement>(null);
+  const groupsRef = useRef<SVGSVGElement>(null);
+
+  const header = (c: number) => displayText(headers[c]).trim() || columnLabel(c);
+
+  // One scale per column so that classes and the histogram are comparable
+  const summary = useMemo(() => numericColumns.map(c => {
+    const cells = columnCells(values, c);
+    const scale = detectGradeScale(cells.map(v => parseNumeric(v)).filter((n): n is number => n !== null), sheet.gradingScheme);
+    return { column: c, scale, stats: computeColumnStats(cells, scale) };
+  }), [values, numericColumns, sheet.gradingScheme]);
+  const current = summary.find(s => s.column === column);
+  const selected: ColumnStats | null = current?.stats ?? null;
+  const scale: GradeScale | null = current?.scale ?? null;
+
+  const groups = useMemo<GroupStats[]>(() => {
+    if (!scale) return [];
+    if (groupBy === BY_SHEETS) return statsBySheet(classSheets, displayText(headers[column]), scale);
+    if (groupBy >= 0 && groupBy !== column) return statsByGroup(values, column, groupBy, scale);
+    return [];
+  }, [scale, groupBy, column, values, classSheets, headers]);
+
+  const handleExportSheet = () => {
+    const exported = groups.length > 0
+      ? buildStatsSheet(`Estatísticas ${header(column)} - ${sheet.name}`, groups.map(g => ({ label: g.name, stats: g.stats })), 'Turma')
+      : buildStatsSheet(`Estatísticas - ${sheet.name}`, summary.map(s => ({ label: header(s.column), stats: s.stats })), 'Coluna');
+    onExportSheet(exported);
+  };
+
+  const handleExportImage = () => {
+    const svgs = [histogramRef.current, groupsRef.current].filter((svg): svg is SVGSVGElement => !!svg);
+    onExportImage(svgs, `Estatísticas ${header(column)} - ${sheet.name}.png`);
+  };
+
+  return (
+    <div className="w-96 border-l border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 flex flex-col shadow-xl z-30 h-full transition-colors duration-200">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center bg-emerald-50 dark:bg-emerald-900/20">
+        <div className="flex items-center gap-2 text-emerald-800 dark:text-emerald-400">
+          <ChartColumn size={18} />
+          <h3 className="font-semibold text-sm">Estatísticas</h3>
+        </div>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200">
+          <X size={18} />
+        </button>
+      </div>
+
+      {numericColumns.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500 dark:text-gray-400">Esta planilha não tem colunas com notas.</p>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 text-gray-800 dark:text-gray-200">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Coluna</label>
+              <select value={column} onChange={e => setColumn(Number(e.target.value))} className={inputClass}>
+                {numericColumns.map(c => <option key={c} value={c}>{header(c)}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Comparar turmas</label>
+              <select value={groupBy} onChange={e => setGroupBy(Number(e.target.value))} className={inputClass}>
+                <option value={-1}>Não comparar</option>
+                {classSheets.length > 1 && <option value={BY_SHEETS}>Planilhas das turmas</option>}
+                {headers.map((_, c) => c).filter(c => !numericColumns.includes(c)).map(c => (
+                  <option key={c} value={c}>Por {header(c)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {selected && scale ? (
+            <>
+              <div className="grid grid-cols-3 gap-2 text-sm">
+                <StatCell label="Média" value={formatNumber(selected.mean)} />
+                <StatCell label="Mediana" value={formatNumber(selected.median)} />
+                <StatCell label="Desvio" value={formatNumber(selected.stdDev)} />
+                <StatCell label="Mínimo" value={formatNumber(selected.min)} />
+                <StatCell label="Máximo" value={formatNumber(selected.max)} />
+                <StatCell label="Aprovação" value={formatRate(selected.passRate)} />
+              </div>
+              <p className="text-[10px] text-gray-400">
+                {selected.count} {selected.count === 1 ? 'nota' : 'notas'}
+                {selected.missing > 0 && ` · ${selected.missing} sem nota`}
+                {` · escala ${formatNumber(scale.min)}–${formatNumber(scale.max)}`}
+                {scale.pass !== null && `, aprovação a partir de ${formatNumber(scale.pass)}`}
+              </p>
+
+              <Histogram ref={histogramRef} title={`Distribuição · ${header(column)}`} bins={selected.histogram} pass={scale.pass} />
+
+              {groups.length > 0 && (
+                <GroupChart ref={groupsRef} title={`Média por turma · ${header(column)}`} groups={groups} scale={scale} />
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">A coluna escolhida não tem notas.</p>
+          )}
+
+          <div>
+            <div className={labelClass}>Resumo das colunas</div>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="py-1 font-medium">Coluna</th>
+                  <th className="py-1 font-medium text-right">Média</th>
+                  <th className="py-1 font-medium text-right">Desvio</th>
+                  <th className="py-1 font-medium text-right">Aprov.</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.map(({ column: c, stats }) => (
+                  <tr
+                    key={c}
+                    onClick={() => setColumn(c)}
+                    className={`border-t border-gray-100 dark:border-gray-700 cursor-pointer ${c === column ? 'text-emerald-700 dark:text-emerald-400 font-semibold' : 'hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                  >
+                    <td className="py-1 truncate max-w-[120px]">{header(c)}</td>
+                    <td className="py-1 text-right">{stats ? formatNumber(stats.mean) : '—'}</td>
+                    <td className="py-1 text-right">{stats ? formatNumber(stats.stdDev) : '—'}</td>
+                    <td className="py-1 text-right">{formatRate(stats?.passRate ?? null)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="border-t border-gray-200 dark:border-gray-700 p-3 flex gap-2">
+        <button
+          onClick={handleExportSheet}
+          disabled={numericColumns.length === 0}
+          className="flex-1 px-3 py-2 text-sm border border-emerald-600 text-emerald-700 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 rounded font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          title={groups.length > 0 ? "Cria uma planilha com a comparação entre turmas" : "Cria uma planilha com o resumo das colunas"}
+        >
+          <TableProperties size={16} />
+          Nova planilha
+        </button>
+        <button
+          onClick={handleExportImage}
+          disabled={!selected}
+          className="flex-1 px-3 py-2 text-sm bg-emerald-600 hover:bg-emerald-700 text-white rounded font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          <ImageDown size={16} />
+          Imagem
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StatisticsPanel;
@@ -0,0 +1,268 @@
+import React, { useMemo, useState } from 'react';
+import { History, X, Save, Trash2, RotateCcw, ArchiveRestore, Clock } from 'lucide-react';
+import { CellPosition, CellValue, Sheet, SheetSnapshot } from '../types';
+import { cellAddress, parseNumeric } from '../utils/formulaEngine';
+import { displayText } from '../utils/searchUtils';
+import { diffSheetData, rowLabel } from '../utils/versionHistory';
+
+interface VersionHistoryModalProps {
+  sheet: Sheet;
+  snapshots: SheetSnapshot[] | null; // Of this sheet, newest first; null while loading
+  deletedSheets: SheetSnapshot[]; // Latest snapshot of each sheet no longer in the workbook
+  readOnly: boolean;
+  onCreate: (name: string) => void;
+  onDelete: (snapshot: SheetSnapshot) => void;
+  onRestoreSheet: (snapshot: SheetSnapshot) => void;
+  onRestoreCells: (snapshot: SheetSnapshot, cells: CellPosition[]) => void;
+  onRecover: (snapshot: SheetSnapshot) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full border border-gray-300 dark:border-gray-600 rounded p-2 text-sm bg-white dark:bg-gray-700";
+const labelClass = "text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1 block";
+
+const CURRENT = 'current';
+// Changes listed at once; restoring a whole sheet covers the rest
+const MAX_LISTED_CHANGES = 500;
+
+const formatSnapshotDate = (time: number) =>
+  new Date(time).toLocaleString('pt-PT', { dateStyle: 'short', timeStyle: 'short' });
+
+const showValue = (value: CellValue) => {
+  const text = displayText(value);
+  return text === "" ? <span className="italic text-gray-400">vazio</span> : text;
+};
+
+// Grades that went up are green, down red
+const changeClass = (before: CellValue, after: CellValue) => {
+  const from = before === null || before === "" ? null : parseNumeric(before);
+  const to = after === null || after === "" ? null : parseNumeric(after);
+  if (from === null || to === null || from === to) return 'text-amber-700 dark:text-amber-300';
+  return to > from ? 'text-emerald-700 dark:text-emerald-400' : 'text-red-600 dark:text-red-400';
+};
+
+const VersionHistoryModal: React.FC<VersionHistoryModalProps> = ({ sheet, snapshots, deletedSheets, readOnly, onCreate, onDelete, onRestoreSheet, onRestoreCells, onRecover, onClose }) => {
+  const [name, setName] = useState("");
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string>(CURRENT);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const list = snapshots || [];
+  const from = list.find(s => s.id === fromId) || list[0] || null;
+  const to = toId === CURRENT ? null : list.find(s => s.id === toId) || null;
+  const toData = to ? to.sheet.data : sheet.data;
+
+  const changes = useMemo(() => from ? diffSheetData(from.sheet.data, toData) : [], [from, toData]);
+  const headers = toData[0] || [];
+  const listed = changes.slice(0, MAX_LISTED_CHANGES);
+  const allSelected = listed.length > 0 && listed.every(d => selected.has(`${d.r}:${d.c}`));
+
+  const compare = (nextFrom: string | null, nextTo: string) => {
+    setFromId(nextFrom);
+    setToId(nextTo);
+    setSelected(new Set());
+  };
+
+  const toggle = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleCreate = () => {
+    onCreate(name.trim() || "Versão manual");
+    setName("");
+  };
+
+  const versionLabel = (snapshot: SheetSnapshot) => `${snapshot.name} — ${formatSnapshotDate(snapshot.createdAt)}`;
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl w-[960px] max-w-[95vw] p-0 border border-gray-200 dark:border-gray-700 overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-emerald-600 dark:bg-emerald-800 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold flex items-center gap-2 text-lg">
+            <History size={20} />
+            Histórico de versões — {sheet.name}
+          </h3>
+          <button onClick={onClose} className="text-emerald-100 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex h-[70vh] text-gray-800 dark:text-gray-200">
+          {/* Versions */}
+          <div className="w-72 shrink-0 border-r border-gray-200 dark:border-gray-700 flex flex-col">
+            <div className="p-4 space-y-2 border-b border-gray-200 dark:border-gray-700">
+              <label className={labelClass}>Guardar a versão atual</label>
+              <input
+                type="text"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleCreate()}
+                className={inputClass}
+                placeholder="Ex.: Antes das notas do 2.º trimestre"
+              />
+              <button
+                onClick={handleCreate}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm bg-emerald-600 hover:bg-emerald-700 text-white rounded transition-colors"
+              >
+                <Save size={14} /> Guardar versão
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+              {snapshots === null && <p className="p-4 text-xs text-gray-400">A carregar...</p>}
+              {snapshots !== null && list.length === 0 && (
+                <p className="p-4 text-xs text-gray-400">Ainda não há versões desta planilha. São guardadas automaticamente a cada 10 minutos de trabalho.</p>
+              )}
+              {list.map(snapshot => (
+                <div
+                  key={snapshot.id}
+                  onClick={() => compare(snapshot.id, CURRENT)}
+                  className={`group px-4 py-2 cursor-pointer flex items-start gap-2 ${from?.id === snapshot.id ? 'bg-emerald-50 dark:bg-emerald-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                >
+                  {snapshot.kind === 'auto' ? <Clock size={14} className="mt-0.5 shrink-0 text-gray-400" /> : <Save size={14} className="mt-0.5 shrink-0 text-emerald-600" />}
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm truncate">{snapshot.name}</div>
+                    <div className="text-[10px] text-gray-400">{formatSnapshotDate(snapshot.createdAt)}</div>
+                  </div>
+                  <button
+                    onClick={e => { e.stopPropagation(); onDelete(snapshot); }}
+                    className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500"
+                    title="Apagar versão"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {deletedSheets.length > 0 && (
+              <div className="border-t border-gray-200 dark:border-gray-700 max-h-48 overflow-y-auto">
+                <div className="px-4 pt-3 pb-1 text-xs font-semibold uppercase text-gray-400">Planilhas excluídas</div>
+                {deletedSheets.map(snapshot => (
+                  <div key={snapshot.id} className="px-4 py-1.5 flex items-center gap-2 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className="truncate">{snapshot.sheet.name}</div>
+                      <div className="text-[10px] text-gray-400">{formatSnapshotDate(snapshot.createdAt)}</div>
+                    </div>
+                    <button
+                      onClick={() => onRecover(snapshot)}
+                      className="flex items-center gap-1 text-xs text-emerald-600 dark:text-emerald-400 hover:underline"
+                    >
+                      <ArchiveRestore size={12} /> Recuperar
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Comparison */}
+          <div className="flex-1 min-w-0 flex flex-col">
+            {from ? (
+              <>
+                <div className="p-4 grid grid-cols-2 gap-3 border-b border-gray-200 dark:border-gray-700">
+                  <div>
+                    <label className={labelClass}>Comparar</label>
+                    <select value={from.id} onChange={e => compare(e.target.value, toId)} className={inputClass}>
+                      {list.map(s => <option key={s.id} value={s.id}>{versionLabel(s)}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Com</label>
+                    <select value={to ? to.id : CURRENT} onChange={e => compare(from.id, e.target.value)} className={inputClass}>
+                      <option value={CURRENT}>Versão atual</option>
+                      {list.map(s => <option key={s.id} value={s.id}>{versionLabel(s)}</option>)}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="flex-1 overflow-auto">
+                  {changes.length === 0 ? (
+                    <p className="p-6 text-sm text-gray-500 dark:text-gray-400 text-center">Nenhuma célula diferente entre as duas versões.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead className="sticky top-0 bg-gray-50 dark:bg-gray-700 text-xs text-gray-500 dark:text-gray-300">
+                        <tr>
+                          <th className="p-2 w-8">
+                            <input
+                              type="checkbox"
+                              checked={allSelected}
+                              onChange={() => setSelected(allSelected ? new Set() : new Set(listed.map(d => `${d.r}:${d.c}`)))}
+                              className="accent-emerald-600"
+                              disabled={readOnly}
+                            />
+                          </th>
+                          <th className="p-2 text-left">Célula</th>
+                          <th className="p-2 text-left">Linha</th>
+                          <th className="p-2 text-left">Coluna</th>
+                          <th className="p-2 text-left">Antes</th>
+                          <th className="p-2 text-left">Depois</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                        {listed.map(d => {
+                          const key = `${d.r}:${d.c}`;
+                          return (
+                            <tr key={key} onClick={() => !readOnly && toggle(key)} className={`${readOnly ? '' : 'cursor-pointer'} ${selected.has(key) ? 'bg-emerald-50 dark:bg-emerald-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}>
+                              <td className="p-2 text-center">
+                                <input type="checkbox" checked={selected.has(key)} readOnly className="accent-emerald-600 pointer-events-none" disabled={readOnly} />
+                              </td>
+                              <td className="p-2 font-mono text-xs text-gray-500">{cellAddress(d.r, d.c)}</td>
+                              <td className="p-2 truncate max-w-[12rem]">{d.r === 0 ? <span className="italic text-gray-400">cabeçalho</span> : rowLabel(toData, d.r)}</td>
+                              <td className="p-2 truncate max-w-[10rem]">{displayText(headers[d.c])}</td>
+                              <td className="p-2 text-gray-500 line-through decoration-gray-300">{showValue(d.before)}</td>
+                              <td className={`p-2 font-semibold ${changeClass(d.before, d.after)}`}>{showValue(d.after)}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  )}
+                  {changes.length > listed.length && (
+                    <p className="p-3 text-xs text-gray-400 text-center">Mostradas {listed.length} de {changes.length} diferenças.</p>
+                  )}
+                </div>
+
+                <div className="bg-gray-50 dark:bg-gray-900 px-6 py-4 flex items-center justify-between gap-3 border-t border-gray-100 dark:border-gray-700">
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {readOnly ? "Só editores podem restaurar versões." : `Restaurar repõe os valores de "${from.name}".`}
+                  </span>
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => {
+                        onRestoreCells(from, listed.filter(d => selected.has(`${d.r}:${d.c}`)).map(({ r, c }) => ({ r, c })));
+                        setSelected(new Set());
+                      }}
+                      disabled={readOnly || selected.size === 0}
+                      className="px-4 py-2 text-sm text-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Restaurar {selected.size} {selected.size === 1 ? 'célula' : 'células'}
+                    </button>
+                    <button
+                      onClick={() => onRestoreSheet(from)}
+                      disabled={readOnly}
+                      className="px-4 py-2 text-sm bg-emerald-600 hover:bg-emerald-700 text-white rounded transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <RotateCcw size={14} /> Restaurar planilha inteira
+                    </button>
+                  </div>
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center p-6 text-sm text-gray-400 text-center">
+                Guarde uma versão para poder comparar e restaurar mais tarde.
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistoryModal;
@@ -0,0 +1,163 @@
+import { useRef, useState, SetStateAction } from 'react';
+import { Sheet } from '../types';
+
+interface HistoryEntry {
+  label: string;
+  sheets: Sheet[]; // Workbook state before the change
+  cost: number; // Approximate number of cells only this snapshot keeps alive
+  time: number;
+  moved?: string; // Sheet whose rows or columns the step inserted, deleted or reordered
+}
+
+// Snapshots share every unchanged sheet and row with the current state, so the
+// real memory cost of an entry is the rows it replaced. Both limits apply.
+const MAX_STEPS = 100;
+const MAX_CELLS = 1_000_000;
+const COALESCE_WINDOW_MS = 1000;
+
+const estimateCost = (before: Sheet[], after: Sheet[]) => {
+  const afterById = new Map(after.map(s => [s.id, s]));
+  let cells = 1;
+  before.forEach(sheet => {
+    const other = afterById.get(sheet.id);
+    if (other === sheet) return;
+    const sharedRows = new Set(other?.data || []);
+    (sheet.data || []).forEach(row => {
+      if (row && !sharedRows.has(row)) cells += row.length;
+    });
+  });
+  return cells;
+};
+
+// First sheet that differs between two workbook states, to bring it into view
+const findChangedSheetId = (from: Sheet[], to: Sheet[]): string | null => {
+  const fromById = new Map(from.map(s => [s.id, s]));
+  const changed = to.find(s => fromById.get(s.id) !== s);
+  return changed ? changed.id : null;
+};
+
+const trim = (stack: HistoryEntry[]) => {
+  let total = stack.reduce((sum, e) => sum + e.cost, 0);
+  while (stack.length > MAX_STEPS || (total > MAX_CELLS && stack.length > 1)) {
+    total -= stack.shift()!.cost;
+  }
+};
+
+/**
+ * Workbook state with undo/redo. `setSheets` has the same shape as a React state
+ * setter, plus an optional label shown in the toolbar, and records one undo step
+ * per call. Calls made inside `transaction` collapse into a single step.
+ * `moved` names the sheet whose rows or columns the change shifts, so undoing
+ * and redoing it can be held back while that sheet is edited live.
+ * `annotate` sees every change made here, undo and redo included, and may add to
+ * the new state (the audit trail), told which sheet moved; loads and remote
+ * changes do not go through it.
+ */
+export const useWorkbookHistory = (
+  initial: () => Sheet[],
+  annotate?: (prev: Sheet[], next: Sheet[], label: string, moved?: string) => Sheet[]
+) => {
+  const [sheets, setState] = useState<Sheet[]>(initial);
+  const annotateRef = useRef(annotate);
+  annotateRef.current = annotate;
+  const current = useRef<Sheet[]>(sheets);
+  const undoStack = useRef<HistoryEntry[]>([]);
+  const redoStack = useRef<HistoryEntry[]>([]);
+  const batch = useRef<{ label: string; recorded: boolean } | null>(null);
+
+  const apply = (next: Sheet[]) => {
+    current.current = next;
+    setState(next);
+  };
+
+  const annotated = (prev: Sheet[], next: Sheet[], label: string, moved?: string) =>
+    annotateRef.current ? annotateRef.current(prev, next, label, moved) : next;
+
+  const setSheets = (action: SetStateAction<Sheet[]>, label = 'Alteração', coalesce = false, moved?: string) => {
+    const prev = current.current;
+    const changed = typeof action === 'function' ? action(prev) : action;
+    if (changed === prev) return;
+    const next = annotated(prev, changed, batch.current?.label || label, moved);
+
+    const top = undoStack.current[undoStack.current.length - 1];
+    const now = Date.now();
+    const skip =
+      (batch.current !== null && batch.current.recorded) ||
+      (coalesce && top && top.label === label && now - top.time < COALESCE_WINDOW_MS);
+
+    if (skip) {
+      if (top) {
+        top.time = now;
+        top.moved = top.moved || moved;
+      }
+    } else {
+      undoStack.current.push({ label: batch.current?.label || label, sheets: prev, cost: estimateCost(prev, next), time: now, moved });
+      trim(undoStack.current);
+      if (batch.current) batch.current.recorded = true;
+    }
+    redoStack.current = [];
+    apply(next);
+  };
+
+  /** Replaces the workbook without recording a step (loading, remote updates). */
+  const replaceSheets = (action: SetStateAction<Sheet[]>) => {
+    const next = typeof action === 'function' ? action(current.current) : action;
+    if (next !== current.current) apply(next);
+  };
+
+  /**
+   * Applies a change made elsewhere (a colleague editing live) to one sheet, in the
+   * current state and in every undo/redo snapshot, so undoing never reverts it.
+   */
+  const rebaseSheet = (id: string, update: (sheet: Sheet) => Sheet) => {
+    const rebase = (state: Sheet[]) => state.map(s => s.id === id ? update(s) : s);
+    [...undoStack.current, ...redoStack.current].forEach(entry => { entry.sheets = rebase(entry.sheets); });
+    apply(rebase(current.current));
+  };
+
+  const transaction = async <T,>(label: string, fn: () => T | Promise<T>): Promise<T> => {
+    const outer = batch.current === null;
+    if (outer) batch.current = { label, recorded: false };
+    try {
+      return await fn();
+    } finally {
+      if (outer) batch.current = null;
+    }
+  };
+
+  const step = (from: typeof undoStack, to: typeof undoStack, verb: string): string | null => {
+    const entry = from.current.pop();
+    if (!entry) return null;
+    const present = current.current;
+    to.current.push({ label: entry.label, sheets: present, cost: estimateCost(present, entry.sheets), time: Date.now(), moved: entry.moved });
+    trim(to.current);
+    apply(annotated(present, entry.sheets, `${verb}: ${entry.label}`, entry.moved));
+    return findChangedSheetId(present, entry.sheets);
+  };
+
+  /** Returns the id of the sheet affected by the undone step, if it still exists. */
+  const undo = () => step(undoStack, redoStack, 'Desfazer');
+  const redo = () => step(redoStack, undoStack, 'Refazer');
+
+  const clearHistory = () => {
+    undoStack.current = [];
+    redoStack.current = [];
+  };
+
+  return {
+    sheets,
+    setSheets,
+    replaceSheets,
+    rebaseSheet,
+    transaction,
+    undo,
+    redo,
+    clearHistory,
+    canUndo: undoStack.current.length > 0,
+    canRedo: redoStack.current.length > 0,
+    undoLabel: undoStack.current[undoStack.current.length - 1]?.label,
+    redoLabel: redoStack.current[redoStack.current.length - 1]?.label,
+    undoMoves: undoStack.current[undoStack.current.length - 1]?.moved,
+    redoMoves: redoStack.current[redoStack.current.length - 1]?.moved
+  };
+};
@@ -2,6 +2,7 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { AlertTriangle, RefreshCw, Trash2 } from 'lucide-react';
+import { clearWorkbook } from './services/storageService';
 
 interface ErrorBoundaryProps {
   children?: React.ReactNode;
@@ -33,11 +34,12 @@ class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundarySta
     window.location.reload();
   };
 
-  handleHardReset = () => {
-    if (confirm("Isso apagará todas as planilhas salvas para recuperar o sistema. Deseja continuar?")) {
+  handleHardReset = async () => {
+    if (confirm("Isso apagará todas as planilhas salvas para recuperar o sistema. O histórico de versões é mantido: as planilhas podem ser recuperadas depois em \"Histórico de versões\". Deseja continuar?")) {
       try {
         localStorage.clear();
         sessionStorage.clear();
+        await clearWorkbook();
       } catch(e) {
         // Ignore errors clearing storage
       }
@@ -0,0 +1,837 @@
+// Sync server for shared pautas: stores each shared sheet as a JSON file and
+// checks the edit/view codes on every request, so a link opened on another
+// computer only shows the sheet to someone holding one of the codes. Only
+// PBKDF2 hashes of the codes are stored, computed the same way as in the app.
+// Teachers with a sheet open at the same time edit it live through a WebSocket
+// relay on the same port (see services/liveService.ts).
+//
+// No dependencies: `npm run sync-server` (or `node server/syncServer.js`).
+// Environment: SYNC_PORT (8787), SYNC_DATA_DIR (./sync-data), SYNC_ALLOWED_ORIGIN (*).
+
+import { createServer } from 'node:http';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { createHash, pbkdf2, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import path from 'node:path';
+
+const PORT = Number(process.env.SYNC_PORT) || 8787;
+const DATA_DIR = path.resolve(process.env.SYNC_DATA_DIR || 'sync-data');
+const ALLOWED_ORIGIN = process.env.SYNC_ALLOWED_ORIGIN || '*';
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+// Never stored with the sheet nor sent back to clients
+const SECRET_FIELDS = ['editCode', 'viewCode', 'accessCode', 'editCodeHash', 'viewCodeHash'];
+
+// Wrong codes allowed per client and sheet before a pause
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 60 * 1000;
+
+// Live editing
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const JOIN_TIMEOUT_MS = 10 * 1000;
+const HEARTBEAT_MS = 30 * 1000;
+const LIVE_SAVE_DELAY_MS = 1000;
+const MAX_CELL_INDEX = 1_000_000;
+// Live changes may only add this many rows/columns past the sheet as it is, up
+// to the totals below (as in utils/sheetCrdt.ts): a far-away cell would make
+// the server and every tab pad the sheet up to it
+const MAX_ROW_GROWTH = 1_000;
+const MAX_COLUMN_GROWTH = 100;
+const MAX_ROWS = 20_000;
+const MAX_COLUMNS = 1_000;
+const MAX_MESSAGE_BYTES = MAX_BODY_BYTES; // Whole message, fragments included
+const MAX_CELL_TEXT = 32 * 1024;
+const MAX_AUDIT_ENTRY_TEXT = 2 * MAX_CELL_TEXT + 2048; // Two cell values and the rest, per cell of the entry
+const MAX_AUDIT_ENTRIES = 10_000; // As in utils/auditTrail.ts
+
+const derive = promisify(pbkdf2);
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// --- Store ---
+
+const recordPath = (id) => {
+  if (!/^[\w-]{1,100}$/.test(id)) throw new HttpError(400, 'Identificador de pauta inválido.');
+  return path.join(DATA_DIR, `${id}.json`);
+};
+
+/** The sheet id of a request path; malformed escapes (%E0%A4%A) are a bad request. */
+const decodeId = (segment) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, 'Identificador de pauta inválido.');
+  }
+};
+
+const readFileRecord = async (id) => {
+  try {
+    return JSON.parse(await readFile(recordPath(id), 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+};
+
+// Write to a temporary file first so a crash never leaves half a pauta behind;
+// each write has its own, so two writes never rename each other's
+const writeRecord = async (record) => {
+  const target = recordPath(record.id);
+  const temp = `${target}.${randomUUID()}.tmp`;
+  await writeFile(temp, JSON.stringify(record));
+  await rename(temp, target);
+};
+
+// Requests for the same sheet run one after another
+const queues = new Map();
+const withLock = (id, fn) => {
+  const previous = queues.get(id) || Promise.resolve();
+  const next = previous.catch(() => {}).then(fn);
+  queues.set(id, next);
+  next.finally(() => { if (queues.get(id) === next) queues.delete(id); }).catch(() => {});
+  return next;
+};
+
+// --- Access ---
+
+const normalizeCode = (code) => String(code || '').trim().toUpperCase();
+
+/** Same parameters as hashAccessCode in utils/accessCodes.ts. */
+const hashCode = async (code) => {
+  const salt = randomBytes(16);
+  const hash = await derive(normalizeCode(code), salt, 100_000, 32, 'sha256');
+  return { salt: salt.toString('base64'), iterations: 100_000, hash: hash.toString('base64') };
+};
+
+const matchesHash = async (code, stored) => {
+  if (!stored || !normalizeCode(code)) return false;
+  const expected = Buffer.from(stored.hash, 'base64');
+  const actual = await derive(normalizeCode(code), Buffer.from(stored.salt, 'base64'), stored.iterations, expected.length || 32, 'sha256');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+// Hashes come from the app; bound the work a forged one could ask for
+const isValidHash = (value) =>
+  !!value && typeof value.salt === 'string' && typeof value.hash === 'string' &&
+  Number.isInteger(value.iterations) && value.iterations >= 10_000 && value.iterations <= 1_000_000;
+
+const isLegacyRecord = (record) => !!record && (typeof record.editCode === 'string' || typeof record.viewCode === 'string');
+
+/** The record, for callers that already hold the lock of the sheet (see readRecord). */
+const readLockedRecord = async (id) => {
+  const record = await readFileRecord(id);
+  if (!isLegacyRecord(record)) return record;
+  const { editCode, viewCode, ...rest } = record;
+  const migrated = {
+    ...rest,
+    editCodeHash: editCode ? await hashCode(editCode) : rest.editCodeHash,
+    viewCodeHash: viewCode ? await hashCode(viewCode) : rest.viewCodeHash
+  };
+  await writeRecord(migrated);
+  return migrated;
+};
+
+/**
+ * Records written before the codes were hashed are converted the first time they
+ * are read, under the lock so the conversion never races a write of the sheet.
+ */
+const readRecord = async (id) => {
+  const record = await readFileRecord(id);
+  return isLegacyRecord(record) ? withLock(id, () => readLockedRecord(id)) : record;
+};
+
+const isExpired = (record) => !!record.expiresAt && Date.now() > record.expiresAt;
+
+/** 'edit', 'view' or null, mirroring the levels of `unlockedSheets` in the app. */
+const accessFor = async (record, code) => {
+  if (await matchesHash(code, record.editCodeHash)) return 'edit';
+  if (await matchesHash(code, record.viewCodeHash)) return 'view';
+  return null;
+};
+
+// Failed attempts per client address and sheet
+const attempts = new Map();
+
+const checkAttempts = (key) => {
+  const entry = attempts.get(key);
+  if (entry && entry.blockedUntil > Date.now()) {
+    const seconds = Math.ceil((entry.blockedUntil - Date.now()) / 1000);
+    throw new HttpError(429, `Demasiadas tentativas. Tente novamente dentro de ${seconds} segundos.`);
+  }
+};
+
+const recordFailure = (key) => {
+  const entry = attempts.get(key) || { failures: 0, blockedUntil: 0, lastFailure: 0 };
+  entry.failures++;
+  entry.lastFailure = Date.now();
+  if (entry.failures >= MAX_FAILED_ATTEMPTS) {
+    entry.failures = 0;
+    entry.blockedUntil = Date.now() + LOCKOUT_MS;
+  }
+  attempts.set(key, entry);
+};
+
+// Forgets addresses once their pause is over and they stopped failing for as long
+setInterval(() => {
+  const now = Date.now();
+  attempts.forEach((entry, key) => {
+    if (entry.blockedUntil <= now && entry.lastFailure + LOCKOUT_MS <= now) attempts.delete(key);
+  });
+}, LOCKOUT_MS).unref();
+
+const requireAccess = async (record, request, level, { allowExpired = false } = {}) => {
+  const key = `${request.client}|${record.id}`;
+  checkAttempts(key);
+  const access = await accessFor(record, request.code);
+  if (!access) {
+    recordFailure(key);
+    throw new HttpError(401, 'Código incorreto.');
+  }
+  attempts.delete(key);
+  if (!allowExpired && isExpired(record)) throw new HttpError(410, 'Os códigos expiraram. O administrador deve gerar novos.');
+  if (level === 'edit' && access !== 'edit') throw new HttpError(403, 'Este código só permite visualizar a pauta.');
+  return access;
+};
+
+const stripSecrets = (sheet) => {
+  const clean = { ...sheet };
+  SECRET_FIELDS.forEach(field => delete clean[field]);
+  return clean;
+};
+
+// --- Handlers ---
+
+const getInfo = async (id) => {
+  const record = await readRecord(id);
+  if (!record) throw new HttpError(404, 'Pauta não encontrada.');
+  return { id, name: record.sheet.name, expiresAt: record.expiresAt ?? null };
+};
+
+const getSheet = async (id, request) => {
+  const record = await readRecord(id);
+  if (!record) throw new HttpError(404, 'Pauta não encontrada.');
+  const access = await requireAccess(record, request, 'view');
+  return { sheet: record.sheet, access, version: record.version, expiresAt: record.expiresAt ?? null };
+};
+
+/**
+ * Creates or updates a shared sheet. Creating needs both code hashes in the body;
+ * updating needs the edit code, and `baseVersion` protects against
+ * overwriting changes made meanwhile on another computer. An expired edit
+ * code may still set new codes, as the app does with "Gerar Novos Códigos".
+ */
+const putSheet = (id, request, body) => withLock(id, async () => {
+  if (!body || typeof body.sheet !== 'object' || body.sheet === null) throw new HttpError(400, 'Pedido sem pauta.');
+  const newCodes = body.editCodeHash !== undefined || body.viewCodeHash !== undefined;
+  if (newCodes && (!isValidHash(body.editCodeHash) || !isValidHash(body.viewCodeHash))) {
+    throw new HttpError(400, 'Códigos de acesso inválidos.');
+  }
+  const record = await readLockedRecord(id);
+
+  if (!record) {
+    if (!newCodes) throw new HttpError(404, 'Pauta não encontrada.');
+  } else {
+    await requireAccess(record, request, 'edit', { allowExpired: newCodes });
+    // Live edits not saved yet make a newer version than the one the upload started from
+    const room = rooms.get(id);
+    if (room && room.unsaved.length > 0) {
+      applyOps(record.sheet, room.unsaved);
+      room.unsaved = [];
+      record.version++;
+      await writeRecord({ ...record, updatedAt: Date.now() });
+    }
+    if (typeof body.baseVersion === 'number' && body.baseVersion < record.version) {
+      throw new HttpError(409, 'A pauta foi alterada noutro computador.');
+    }
+  }
+
+  const next = {
+    id,
+    sheet: { ...stripSecrets(body.sheet), id },
+    editCodeHash: newCodes ? body.editCodeHash : record.editCodeHash,
+    viewCodeHash: newCodes ? body.viewCodeHash : record.viewCodeHash,
+    expiresAt: newCodes ? (body.expiresAt ?? null) : record.expiresAt,
+    version: (record?.version || 0) + 1,
+    updatedAt: Date.now()
+  };
+  await writeRecord(next);
+  // Whoever is connected must join again: with new codes the old ones no longer
+  // work, and the operations kept by the room are positions in the sheet replaced
+  if (record) {
+    closeRoom(id, newCodes ? 'Os códigos de acesso desta pauta foram alterados.' : 'A pauta foi substituída noutro computador. Abra-a de novo para continuar a editar.');
+  }
+  return { version: next.version };
+});
+
+const deleteSheet = (id, request) => withLock(id, async () => {
+  const record = await readLockedRecord(id);
+  if (!record) return { deleted: false };
+  await requireAccess(record, request, 'edit', { allowExpired: true });
+  await rm(recordPath(id), { force: true });
+  closeRoom(id, 'A partilha desta pauta foi revogada.');
+  return { deleted: true };
+});
+
+// --- Live editing ---
+
+// Mirrors utils/sheetCrdt.ts: last writer wins per cell and per property, and
+// audit log entries are only ever added
+
+const isIndex = (n) => Number.isInteger(n) && n >= 0 && n < MAX_CELL_INDEX;
+
+// Properties a live edit may replace, with the shape of their values (as in
+// utils/sheetCrdt.ts); a value of another shape would break every tab that loads it
+const isInteger = (value) => Number.isInteger(value);
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+const isString = (value) => typeof value === 'string';
+const isBoolean = (value) => typeof value === 'boolean';
+const oneOf = (...options) => (value) => typeof value === 'string' && options.includes(value);
+const either = (...checks) => (value) => checks.some(check => check(value));
+const optional = (check) => (value) => value === undefined || check(value);
+const orNull = (check) => (value) => value === null || value === undefined || check(value);
+const arrayOf = (check) => (value) => Array.isArray(value) && value.every(check);
+const shape = (fields) => (value) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) &&
+  Object.entries(fields).every(([field, check]) => check(value[field]));
+
+const isCellStyle = shape({
+  bold: optional(isBoolean),
+  italic: optional(isBoolean),
+  underline: optional(isBoolean),
+  fontSize: optional(isNumber),
+  fontName: optional(isString),
+  color: optional(isString),
+  backgroundColor: optional(isString),
+  align: optional(oneOf('left', 'center', 'right')),
+  verticalAlign: optional(oneOf('top', 'middle', 'bottom')),
+  wrap: optional(isBoolean),
+  borders: optional(shape(Object.fromEntries(['top', 'right', 'bottom', 'left'].map(side => [side, optional(oneOf('thin', 'medium', 'thick'))])))),
+  numberFormat: optional(isString)
+});
+
+const PROPERTY_CHECKS = {
+  name: (value) => typeof value === 'string' && value.trim().length > 0,
+  conditionalFormats: arrayOf(shape({
+    id: isString,
+    type: optional(oneOf('highlight', 'colorScale', 'dataBar')),
+    columnIndex: isIndex,
+    lastColumnIndex: optional(isIndex),
+    condition: isString,
+    value: either(isString, isNumber),
+    value2: optional(either(isString, isNumber)),
+    style: shape({ backgroundColor: isString, color: isString, name: isString, bold: optional(isBoolean) }),
+    wholeRow: optional(isBoolean),
+    colors: optional(arrayOf(isString))
+  })),
+  validationRules: arrayOf(shape({
+    id: isString,
+    columnIndex: isIndex,
+    type: oneOf('number', 'decimal', 'text', 'date', 'list', 'email', 'pattern', 'required', 'unique'),
+    min: optional(isString),
+    max: optional(isString),
+    options: optional(arrayOf(isString)),
+    pattern: optional(isString),
+    decimals: optional(isIndex),
+    errorMessage: optional(isString)
+  })),
+  gradingScheme: shape({
+    scaleMin: isNumber,
+    scaleMax: isNumber,
+    passThreshold: isNumber,
+    components: arrayOf(shape({ id: isString, label: isString, columnIndex: isInteger, weight: isNumber })), // -1 = no column yet
+    roundingMode: oneOf('none', 'round', 'floor', 'ceil'),
+    decimals: isIndex,
+    averageHeader: isString,
+    resultHeader: optional(isString),
+    passLabel: isString,
+    failLabel: isString
+  }),
+  hiddenRows: arrayOf(isIndex),
+  hiddenColumns: arrayOf(isIndex),
+  cellStyles: arrayOf(orNull(arrayOf(orNull(isCellStyle)))),
+  merges: arrayOf(shape({ r1: isIndex, c1: isIndex, r2: isIndex, c2: isIndex })),
+  columnWidths: arrayOf(orNull(isNumber)),
+  frozenRows: isIndex,
+  frozenColumns: isIndex,
+  splitSource: shape({
+    sheetId: isString,
+    keyHeaders: arrayOf(isString),
+    key: arrayOf(isString),
+    idHeader: optional(isString),
+    rows: arrayOf(orNull(isInteger)),
+    rowKeys: optional(arrayOf(orNull(isString)))
+  }),
+  reportCard: shape({
+    schoolName: isString,
+    title: isString,
+    period: isString,
+    academicYear: isString,
+    nameColumn: isInteger,
+    numberColumn: isInteger,
+    classColumn: isInteger,
+    gradeColumns: arrayOf(isInteger),
+    averageColumn: isInteger,
+    resultColumn: isInteger,
+    signatures: arrayOf(isString)
+  }),
+  pageSetup: shape({
+    orientation: oneOf('portrait', 'landscape'),
+    marginMm: isNumber,
+    fitToWidth: isBoolean,
+    scale: isNumber,
+    repeatHeader: isBoolean,
+    breakColumn: isInteger,
+    schoolName: isString,
+    teacher: isString,
+    headerLeft: isString,
+    headerRight: isString,
+    footerLeft: isString,
+    footerRight: isString
+  })
+};
+
+// null removes a property, except the name every sheet has
+const isValidProperty = (prop, value) =>
+  typeof prop === 'string' && Object.hasOwn(PROPERTY_CHECKS, prop) &&
+  (value === null ? prop !== 'name' : PROPERTY_CHECKS[prop](value));
+
+const opKey = (op) => op.prop !== undefined ? `prop:${op.prop}` : op.entry !== undefined ? `audit:${op.entry.id}` : `${op.r}:${op.c}`;
+
+const isNewerStamp = (stamp, than) =>
+  !than || stamp.clock > than.clock || (stamp.clock === than.clock && stamp.client > than.client);
+
+const isValidOp = (op) => {
+  if (!op || typeof op !== 'object' || !Number.isInteger(op.clock) || op.clock < 0) return false;
+  if (typeof op.client !== 'string' || op.client.length === 0 || op.client.length > 100) return false;
+  if (op.prop !== undefined) return isValidProperty(op.prop, op.value);
+  if (op.entry !== undefined) {
+    const entry = op.entry;
+    return !!entry && typeof entry === 'object' && typeof entry.id === 'string' && entry.id.length > 0 && entry.id.length <= 100 &&
+      Number.isFinite(entry.time) && (entry.changes === undefined || Array.isArray(entry.changes)) &&
+      JSON.stringify(entry).length <= MAX_AUDIT_ENTRY_TEXT * (1 + (entry.changes?.length || 0));
+  }
+  const value = op.value;
+  return isIndex(op.r) && isIndex(op.c) && (value === null || typeof value === 'number' || typeof value === 'boolean' ||
+    (typeof value === 'string' && value.length <= MAX_CELL_TEXT));
+};
+
+const sheetSize = (sheet) => {
+  const data = Array.isArray(sheet?.data) ? sheet.data : [];
+  return { rows: data.length, columns: data.reduce((max, row) => Math.max(max, Array.isArray(row) ? row.length : 0), 0) };
+};
+
+/** Whether a cell op stays close to the sheet; the size grows with the ops accepted. */
+const withinReach = (op, size) => {
+  const rows = Math.max(size.rows, Math.min(MAX_ROWS, size.rows + MAX_ROW_GROWTH));
+  const columns = Math.max(size.columns, Math.min(MAX_COLUMNS, size.columns + MAX_COLUMN_GROWTH));
+  if (op.r >= rows || op.c >= columns) return false;
+  size.rows = Math.max(size.rows, op.r + 1);
+  size.columns = Math.max(size.columns, op.c + 1);
+  return true;
+};
+
+const applyOps = (sheet, ops) => {
+  const data = Array.isArray(sheet.data) ? sheet.data : [];
+  const width = data[0]?.length || 0;
+  const log = Array.isArray(sheet.auditLog) ? sheet.auditLog : [];
+  const logged = new Set(log.map(entry => entry?.id));
+  ops.forEach(op => {
+    if (op.prop !== undefined) {
+      if (op.value === null) delete sheet[op.prop];
+      else sheet[op.prop] = op.value;
+      return;
+    }
+    if (op.entry !== undefined) {
+      if (!logged.has(op.entry.id)) log.push(op.entry);
+      logged.add(op.entry.id);
+      return;
+    }
+    while (data.length <= op.r) data.push(Array(width).fill(''));
+    if (!Array.isArray(data[op.r])) data[op.r] = [];
+    while (data[op.r].length < op.c) data[op.r].push('');
+    data[op.r][op.c] = op.value;
+  });
+  sheet.data = data;
+  if (log.length > 0) sheet.auditLog = log.sort((a, b) => a.time - b.time).slice(-MAX_AUDIT_ENTRIES);
+};
+
+// Rooms of the sheets someone has open: the connections and the latest
+// operation per cell, replayed to whoever joins after them
+const rooms = new Map();
+
+const peerInfo = (conn) => ({ id: conn.client, name: conn.name, color: conn.color, access: conn.access, cell: conn.cell });
+
+const broadcast = (room, from, message) => {
+  room.clients.forEach(conn => { if (conn !== from) conn.send(message); });
+};
+
+// Accepted operations are written into the stored sheet a moment later, in one go
+const saveRoom = (room) => withLock(room.id, async () => {
+  if (room.unsaved.length === 0) return;
+  const ops = room.unsaved;
+  room.unsaved = [];
+  const record = await readLockedRecord(room.id);
+  if (!record) return;
+  applyOps(record.sheet, ops);
+  await writeRecord({ ...record, version: record.version + 1, updatedAt: Date.now() });
+}).catch(error => console.error(error));
+
+const scheduleSave = (room) => {
+  if (room.saveTimer) return;
+  room.saveTimer = setTimeout(() => {
+    room.saveTimer = null;
+    saveRoom(room);
+  }, LIVE_SAVE_DELAY_MS);
+};
+
+const leaveRoom = (conn) => {
+  const room = conn.room;
+  if (!room || !room.clients.delete(conn)) return;
+  broadcast(room, conn, { type: 'leave', id: conn.client });
+  if (room.clients.size === 0) {
+    if (room.saveTimer) clearTimeout(room.saveTimer);
+    room.saveTimer = null;
+    saveRoom(room);
+    if (rooms.get(room.id) === room) rooms.delete(room.id);
+  }
+};
+
+// Codes changed, sheet replaced or sharing revoked: everyone connected must join again
+const closeRoom = (id, reason) => {
+  const room = rooms.get(id);
+  if (!room) return;
+  rooms.delete(id);
+  // Changes not saved yet belong to the sheet as it was
+  if (room.saveTimer) clearTimeout(room.saveTimer);
+  room.saveTimer = null;
+  room.unsaved = [];
+  room.clients.forEach(conn => conn.fail(401, reason));
+};
+
+const handleLiveMessage = async (conn, message) => {
+  if (!conn.room) {
+    if (message?.type !== 'join') throw new HttpError(400, 'Pedido inválido.');
+    const record = await readRecord(conn.id);
+    if (!record) throw new HttpError(404, 'Pauta não encontrada.');
+    conn.access = await requireAccess(record, { code: message.code, client: conn.address }, 'view');
+    conn.client = typeof message.client === 'string' && message.client ? message.client.slice(0, 100) : randomBytes(8).toString('hex');
+    conn.name = String(message.name || '').slice(0, 60) || 'Professor';
+    conn.color = /^#[0-9a-f]{6}$/i.test(message.color) ? message.color : '#10B981';
+    clearTimeout(conn.joinTimer);
+
+    let room = rooms.get(conn.id);
+    if (!room) {
+      room = { id: conn.id, clients: new Set(), latest: new Map(), unsaved: [], saveTimer: null, size: sheetSize(record.sheet) };
+      rooms.set(conn.id, room);
+    }
+    conn.room = room;
+    conn.send({ type: 'welcome', access: conn.access, ops: [...room.latest.values()], peers: [...room.clients].map(peerInfo) });
+    room.clients.add(conn);
+    broadcast(room, conn, { type: 'peer', peer: peerInfo(conn) });
+    return;
+  }
+
+  const room = conn.room;
+  if (message?.type === 'ops') {
+    // View codes receive the changes but never send any
+    if (conn.access !== 'edit' || !Array.isArray(message.ops) || rooms.get(room.id) !== room) return;
+    const accepted = message.ops.filter(op => {
+      if (!isValidOp(op)) return false;
+      const key = opKey(op);
+      if (!isNewerStamp(op, room.latest.get(key))) return false;
+      if (op.prop === undefined && op.entry === undefined && !withinReach(op, room.size)) return false;
+      room.latest.set(key, op);
+      return true;
+    });
+    if (accepted.length === 0) return;
+    room.unsaved.push(...accepted);
+    scheduleSave(room);
+    broadcast(room, conn, { type: 'ops', ops: accepted });
+  } else if (message?.type === 'presence') {
+    const cell = message.cell;
+    conn.cell = cell && isIndex(cell.r) && isIndex(cell.c) ? { r: cell.r, c: cell.c } : null;
+    if (typeof message.name === 'string' && message.name) conn.name = message.name.slice(0, 60);
+    if (/^#[0-9a-f]{6}$/i.test(message.color)) conn.color = message.color;
+    broadcast(room, conn, { type: 'peer', peer: peerInfo(conn) });
+  }
+};
+
+// --- WebSocket framing (RFC 6455, text messages only) ---
+
+const encodeFrame = (opcode, payload = Buffer.alloc(0)) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+};
+
+const CLOSE_PROTOCOL_ERROR = 1002;
+const CLOSE_TOO_BIG = 1009;
+
+const closeFrame = (status) => {
+  const payload = Buffer.alloc(2);
+  payload.writeUInt16BE(status);
+  return encodeFrame(0x8, payload);
+};
+
+/**
+ * Splits the incoming bytes into frames; returns the close status when the client
+ * broke the protocol or sent too much, null otherwise.
+ */
+const createFrameReader = (onFrame) => {
+  let buffer = Buffer.alloc(0);
+  return (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return null;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return null;
+        const big = buffer.readBigUInt64BE(2);
+        if (big > BigInt(MAX_MESSAGE_BYTES)) return CLOSE_TOO_BIG;
+        length = Number(big);
+        offset = 10;
+      }
+      // Clients must mask what they send
+      if (!masked) return CLOSE_PROTOCOL_ERROR;
+      if (length > MAX_MESSAGE_BYTES) return CLOSE_TOO_BIG;
+      if (buffer.length < offset + 4 + length) return null;
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      buffer = buffer.subarray(offset + 4 + length);
+      const status = onFrame(fin, opcode, payload);
+      if (status) return status;
+    }
+    return null;
+  };
+};
+
+const openLiveConnection = (id, socket, address) => {
+  const conn = { id, address, socket, room: null, access: null, client: '', name: '', color: '', cell: null, alive: true };
+  let fragments = null;
+  let fragmentBytes = 0;
+  let queue = Promise.resolve();
+
+  conn.send = (message) => {
+    if (!socket.destroyed) socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+  };
+  conn.close = () => {
+    if (!socket.destroyed) socket.end(encodeFrame(0x8));
+    leaveRoom(conn);
+  };
+  conn.fail = (status, error) => {
+    conn.send({ type: 'error', status, error });
+    conn.close();
+  };
+  conn.joinTimer = setTimeout(() => conn.fail(408, 'Tempo de ligação esgotado.'), JOIN_TIMEOUT_MS);
+
+  // Messages are handled one at a time, in the order they arrived
+  const handleText = (text) => {
+    queue = queue.then(async () => {
+      if (socket.destroyed) return;
+      try {
+        await handleLiveMessage(conn, JSON.parse(text));
+      } catch (error) {
+        if (error instanceof HttpError) {
+          conn.fail(error.status, error.message);
+        } else if (error instanceof SyntaxError) {
+          conn.fail(400, 'JSON inválido.');
+        } else {
+          console.error(error);
+          conn.fail(500, 'Erro interno do servidor.');
+        }
+      }
+    });
+  };
+
+  const read = createFrameReader((fin, opcode, payload) => {
+    switch (opcode) {
+      case 0x0: // Continuation
+        if (!fragments) return CLOSE_PROTOCOL_ERROR;
+        fragmentBytes += payload.length;
+        if (fragmentBytes > MAX_MESSAGE_BYTES) return CLOSE_TOO_BIG;
+        fragments.push(payload);
+        if (fin) {
+          handleText(Buffer.concat(fragments).toString('utf8'));
+          fragments = null;
+        }
+        return null;
+      case 0x1:
+        if (fin) handleText(payload.toString('utf8'));
+        else {
+          fragments = [payload];
+          fragmentBytes = payload.length;
+        }
+        return null;
+      case 0x8:
+        conn.close();
+        return null;
+      case 0x9:
+        socket.write(encodeFrame(0xa, payload));
+        return null;
+      case 0xa:
+        conn.alive = true;
+        return null;
+      default:
+        return CLOSE_PROTOCOL_ERROR;
+    }
+  });
+
+  socket.on('data', chunk => {
+    if (socket.writableEnded) return;
+    const status = read(chunk);
+    if (status) socket.end(closeFrame(status), () => socket.destroy());
+  });
+  socket.on('close', () => {
+    clearTimeout(conn.joinTimer);
+    connections.delete(conn);
+    leaveRoom(conn);
+  });
+  connections.add(conn);
+};
+
+// Connections that stop answering pings (sleeping laptops, lost Wi-Fi) are dropped
+const connections = new Set();
+setInterval(() => {
+  connections.forEach(conn => {
+    if (!conn.alive) {
+      conn.socket.destroy();
+      return;
+    }
+    conn.alive = false;
+    if (!conn.socket.destroyed) conn.socket.write(encodeFrame(0x9));
+  });
+}, HEARTBEAT_MS).unref();
+
+const handleUpgrade = (req, socket) => {
+  socket.on('error', () => socket.destroy());
+  const reject = (status, text) => socket.end(`HTTP/1.1 ${status} ${text}\r\nConnection: close\r\n\r\n`, () => socket.destroy());
+
+  const url = new URL(req.url || '/', 'http://localhost');
+  const match = url.pathname.match(/^\/api\/sheets\/([^/]+)\/live\/?$/);
+  const key = req.headers['sec-websocket-key'];
+  if (!match || !key || String(req.headers.upgrade || '').toLowerCase() !== 'websocket') {
+    reject(400, 'Bad Request');
+    return;
+  }
+  if (ALLOWED_ORIGIN !== '*' && req.headers.origin !== ALLOWED_ORIGIN) {
+    reject(403, 'Forbidden');
+    return;
+  }
+  let id;
+  try {
+    id = decodeId(match[1]);
+    recordPath(id);
+  } catch (error) {
+    reject(400, 'Bad Request');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(['HTTP/1.1 101 Switching Protocols', 'Upgrade: websocket', 'Connection: Upgrade', `Sec-WebSocket-Accept: ${accept}`, '', ''].join('\r\n'));
+  openLiveConnection(id, socket, req.socket.remoteAddress || '');
+};
+
+// --- HTTP ---
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Pauta demasiado grande.'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : null);
+    } catch (error) {
+      reject(new HttpError(400, 'JSON inválido.'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const send = (res, status, payload) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Access-Code',
+    'Cache-Control': 'no-store'
+  });
+  res.end(payload === undefined ? '' : JSON.stringify(payload));
+};
+
+const route = async (req) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const match = url.pathname.match(/^\/api\/sheets\/([^/]+)(\/info)?\/?$/);
+  if (!match) throw new HttpError(404, 'Endereço desconhecido.');
+
+  const id = decodeId(match[1]);
+  const request = { code: req.headers['x-access-code'], client: req.socket.remoteAddress || '' };
+
+  if (match[2]) {
+    if (req.method !== 'GET') throw new HttpError(405, 'Método não suportado.');
+    return getInfo(id);
+  }
+  switch (req.method) {
+    case 'GET': return getSheet(id, request);
+    case 'PUT': return putSheet(id, request, await readBody(req));
+    case 'DELETE': return deleteSheet(id, request);
+    default: throw new HttpError(405, 'Método não suportado.');
+  }
+};
+
+await mkdir(DATA_DIR, { recursive: true });
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    send(res, 204);
+    return;
+  }
+  try {
+    send(res, 200, await route(req));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      send(res, error.status, { error: error.message });
+    } else {
+      console.error(error);
+      send(res, 500, { error: 'Erro interno do servidor.' });
+    }
+  }
+});
+
+server.on('upgrade', handleUpgrade);
+
+server.listen(PORT, () => {
+  console.log(`Educa-Lukunde sync server on port ${PORT}, data in ${DATA_DIR}`);
+});
@@ -0,0 +1,199 @@
+import { CellPosition, Collaborator, Sheet } from "../types";
+import { applySheetOps, createSheetRegister, SheetOp } from "../utils/sheetCrdt";
+import { generateUUID } from "../utils/excelUtils";
+import { displayName, LocalProfile } from "./profileService";
+import { liveSheetUrl, SheetAccess } from "./syncService";
+
+// Live co-editing of shared sheets through the relay in server/syncServer.js.
+// Every change made here is sent at once as stamped operations (utils/sheetCrdt)
+// and the colleagues' operations are merged in as they arrive. The relay checks
+// the code when a tab joins, only accepts changes from edit-code holders, and
+// saves them into the shared sheet itself.
+
+export type LiveStatus = 'connecting' | 'live' | 'offline';
+
+type ServerMessage =
+  | { type: 'welcome'; access: SheetAccess; ops: SheetOp[]; peers: Collaborator[] }
+  | { type: 'ops'; ops: SheetOp[] }
+  | { type: 'peer'; peer: Collaborator }
+  | { type: 'leave'; id: string }
+  | { type: 'error'; status: number; error: string };
+
+interface LiveRoom {
+  sheetId: string;
+  code: string; // Empty once the relay refused it: no point reconnecting
+  access: SheetAccess;
+  socket: WebSocket | null;
+  register: ReturnType<typeof createSheetRegister>;
+  known: Sheet; // The sheet as last sent or received
+  outbox: SheetOp[]; // Changes made while disconnected
+  peers: Map<string, Collaborator>;
+  cell: CellPosition | null;
+  retries: number;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const MAX_RETRY_MS = 30 * 1000;
+
+export const createLiveSync = (
+  handlers: {
+    onOps: (sheetId: string, ops: SheetOp[]) => void;
+    onPeers: (sheetId: string, peers: Collaborator[]) => void;
+    onStatus: (sheetId: string, status: LiveStatus, error?: string) => void;
+  },
+  getProfile: () => LocalProfile
+) => {
+  const client = generateUUID();
+  const rooms = new Map<string, LiveRoom>();
+
+  const send = (room: LiveRoom, message: object) => {
+    if (!room.socket || room.socket.readyState !== WebSocket.OPEN) return false;
+    room.socket.send(JSON.stringify(message));
+    return true;
+  };
+
+  const announce = (room: LiveRoom) => {
+    const profile = getProfile();
+    send(room, { type: 'presence', cell: room.cell, name: displayName(profile), color: profile.color });
+  };
+
+  const applyRemote = (room: LiveRoom, ops: SheetOp[]) => {
+    const accepted = room.register.merge(ops);
+    if (accepted.length === 0) return;
+    room.known = applySheetOps(room.known, accepted);
+    handlers.onOps(room.sheetId, accepted);
+  };
+
+  const publishPeers = (room: LiveRoom) => handlers.onPeers(room.sheetId, [...room.peers.values()]);
+
+  const receive = (room: LiveRoom, message: ServerMessage) => {
+    switch (message.type) {
+      case 'welcome':
+        room.retries = 0;
+        room.access = message.access;
+        room.peers = new Map(message.peers.map(peer => [peer.id, peer]));
+        publishPeers(room);
+        handlers.onStatus(room.sheetId, 'live');
+        // Changes made offline are newer than what the others did meanwhile, so they are
+        // stamped again before the welcome ops are merged: the cells keep this tab's values
+        const outbox = room.outbox.length > 0 && room.access === 'edit' ? room.register.restamp(room.outbox, message.ops) : [];
+        room.outbox = [];
+        applyRemote(room, message.ops);
+        if (outbox.length > 0) send(room, { type: 'ops', ops: outbox });
+        if (room.cell) announce(room);
+        break;
+      case 'ops':
+        applyRemote(room, message.ops);
+        break;
+      case 'peer':
+        room.peers.set(message.peer.id, message.peer);
+        publishPeers(room);
+        break;
+      case 'leave':
+        room.peers.delete(message.id);
+        publishPeers(room);
+        break;
+      case 'error':
+        // Sent just before the relay closes the connection
+        room.code = '';
+        handlers.onStatus(room.sheetId, 'offline', message.error);
+        break;
+    }
+  };
+
+  const connect = (room: LiveRoom) => {
+    handlers.onStatus(room.sheetId, 'connecting');
+    const socket = new WebSocket(liveSheetUrl(room.sheetId));
+    room.socket = socket;
+
+    socket.onopen = () => {
+      const profile = getProfile();
+      socket.send(JSON.stringify({ type: 'join', code: room.code, client, name: displayName(profile), color: profile.color }));
+    };
+    socket.onmessage = (event) => {
+      if (room.socket !== socket) return;
+      try {
+        receive(room, JSON.parse(String(event.data)));
+      } catch (error) {
+        console.error("Erro ao processar a mensagem do servidor de partilha:", error);
+      }
+    };
+    socket.onclose = () => {
+      if (room.socket !== socket) return;
+      room.socket = null;
+      room.peers.clear();
+      publishPeers(room);
+      if (!room.code || !rooms.has(room.sheetId)) return;
+      handlers.onStatus(room.sheetId, 'offline');
+      const delay = Math.min(MAX_RETRY_MS, 1000 * 2 ** room.retries++);
+      room.retryTimer = setTimeout(() => {
+        room.retryTimer = null;
+        if (rooms.get(room.sheetId) === room && room.code) connect(room);
+      }, delay);
+    };
+  };
+
+  const disconnect = (room: LiveRoom) => {
+    if (room.retryTimer) clearTimeout(room.retryTimer);
+    room.retryTimer = null;
+    const socket = room.socket;
+    room.socket = null;
+    socket?.close();
+  };
+
+  return {
+    isLive: (id: string) => rooms.has(id),
+    /** Joins the live room of a shared sheet, or rejoins it with another code (e.g. new codes). */
+    join: (sheet: Sheet, code: string, access: SheetAccess) => {
+      const existing = rooms.get(sheet.id);
+      if (existing && existing.code === code && (existing.socket || existing.retryTimer)) return;
+      const room: LiveRoom = existing || {
+        sheetId: sheet.id,
+        code,
+        access,
+        socket: null,
+        register: createSheetRegister(client),
+        known: sheet,
+        outbox: [],
+        peers: new Map(),
+        cell: null,
+        retries: 0,
+        retryTimer: null
+      };
+      disconnect(room);
+      room.code = code;
+      room.access = access;
+      room.retries = 0;
+      rooms.set(sheet.id, room);
+      connect(room);
+    },
+    leave: (id: string) => {
+      const room = rooms.get(id);
+      if (!room) return;
+      rooms.delete(id);
+      disconnect(room);
+      handlers.onPeers(id, []);
+    },
+    /** Sends what changed in this tab since the last call. */
+    update: (sheets: Sheet[]) => {
+      rooms.forEach(room => {
+        const sheet = sheets.find(s => s.id === room.sheetId);
+        if (!sheet || sheet === room.known) return;
+        const ops = room.access === 'edit' ? room.register.changes(room.known, sheet) : [];
+        room.known = sheet;
+        if (ops.length > 0 && !send(room, { type: 'ops', ops })) room.outbox.push(...ops);
+      });
+    },
+    /** Shows the selected cell of the active sheet to the colleagues. */
+    setSelection: (sheetId: string | null, cell: CellPosition | null) => {
+      rooms.forEach(room => {
+        const next = room.sheetId === sheetId ? cell : null;
+        if (next?.r === room.cell?.r && next?.c === room.cell?.c) return;
+        room.cell = next;
+        announce(room);
+      });
+    },
+    /** Sends the profile again after the name changed. */
+    announce: () => rooms.forEach(announce)
+  };
+};
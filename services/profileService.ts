@@ -0,0 +1,30 @@
+// How this browser appears to colleagues on shared sheets: a name and the
+// colour of its cursor in their grids. Kept in localStorage, like the theme.
+
+export interface LocalProfile {
+  name: string;
+  color: string;
+}
+
+const PROFILE_KEY = 'educa-lukunde-profile';
+const PROFILE_COLORS = ['#2563EB', '#DB2777', '#D97706', '#7C3AED', '#0891B2', '#DC2626', '#65A30D', '#EA580C'];
+
+export const loadProfile = (): LocalProfile => {
+  try {
+    const saved = JSON.parse(window.localStorage?.getItem(PROFILE_KEY) || 'null');
+    if (saved && typeof saved.name === 'string' && typeof saved.color === 'string') return saved;
+  } catch (e) {
+    // Ignore errors reading storage
+  }
+  return { name: '', color: PROFILE_COLORS[Math.floor(Math.random() * PROFILE_COLORS.length)] };
+};
+
+export const saveProfile = (profile: LocalProfile) => {
+  try {
+    window.localStorage?.setItem(PROFILE_KEY, JSON.stringify(profile));
+  } catch (e) {
+    console.warn("Educa-Lukunde: Could not save the profile.", e);
+  }
+};
+
+export const displayName = (profile: LocalProfile) => profile.name.trim() || 'Professor';
@@ -0,0 +1,246 @@
+import { Sheet, SheetSnapshot } from "../types";
+
+// Each sheet is its own IndexedDB record, so editing one cell of a big school
+// file rewrites that sheet only, and the quota is the browser's disk quota
+// instead of the ~5MB of localStorage.
+
+const DB_NAME = 'educa-lukunde';
+const DB_VERSION = 2;
+const SHEETS_STORE = 'sheets';
+const META_STORE = 'meta';
+const SNAPSHOTS_STORE = 'snapshots'; // Version history, kept apart so the sheets stay quick to load
+const ORDER_KEY = 'sheetOrder';
+
+export const LEGACY_STORAGE_KEY = 'educa-lukunde-sheets';
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB não está disponível neste navegador."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SHEETS_STORE)) db.createObjectStore(SHEETS_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+        db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' }).createIndex('sheetId', 'sheetId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("Base de dados bloqueada por outra aba."));
+  });
+
+  // Allow a later retry if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transação cancelada."));
+  });
+
+export const readLegacySheets = (): Sheet[] | null => {
+  try {
+    const saved = window.localStorage?.getItem(LEGACY_STORAGE_KEY);
+    if (!saved) return null;
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch (e) {
+    console.warn("Educa-Lukunde: Could not read legacy localStorage data.", e);
+    return null;
+  }
+};
+
+const writeSheets = async (db: IDBDatabase, puts: Sheet[], deletes: string[], order: string[] | null) => {
+  const tx = db.transaction([SHEETS_STORE, META_STORE], 'readwrite');
+  const sheetStore = tx.objectStore(SHEETS_STORE);
+  puts.forEach(sheet => sheetStore.put(sheet));
+  deletes.forEach(id => sheetStore.delete(id));
+  if (order) tx.objectStore(META_STORE).put(order, ORDER_KEY);
+  await transactionDone(tx);
+};
+
+/**
+ * Loads all sheets in tab order. On the first run after the upgrade, the old
+ * localStorage blob is copied into IndexedDB and then removed.
+ */
+export const loadWorkbook = async (): Promise<Sheet[]> => {
+  const db = await openDatabase();
+
+  const tx = db.transaction([SHEETS_STORE, META_STORE], 'readonly');
+  const [records, order] = await Promise.all([
+    requestToPromise(tx.objectStore(SHEETS_STORE).getAll() as IDBRequest<Sheet[]>),
+    requestToPromise(tx.objectStore(META_STORE).get(ORDER_KEY) as IDBRequest<string[] | undefined>)
+  ]);
+
+  if (records.length === 0) {
+    const legacy = readLegacySheets();
+    if (legacy && legacy.length > 0) {
+      const valid = legacy.filter(s => s && typeof s === 'object' && typeof s.id === 'string');
+      await writeSheets(db, valid, [], valid.map(s => s.id));
+      try {
+        window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+      } catch (e) {
+        // Data is already safe in IndexedDB
+      }
+      return valid;
+    }
+    return [];
+  }
+
+  if (!order) return records;
+  const position = new Map(order.map((id, index) => [id, index]));
+  return [...records].sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+};
+
+export const deleteWorkbookDatabase = () => {
+  try {
+    indexedDB.deleteDatabase(DB_NAME);
+  } catch (e) {
+    // Ignore: nothing to delete
+  }
+};
+
+/** Removes the sheets but keeps the version history, so they can still be recovered. */
+export const clearWorkbook = async () => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction([SHEETS_STORE, META_STORE], 'readwrite');
+    tx.objectStore(SHEETS_STORE).clear();
+    tx.objectStore(META_STORE).clear();
+    await transactionDone(tx);
+  } catch (e) {
+    // The database itself may be what is broken
+    console.warn("Educa-Lukunde: Could not clear the sheets, deleting the database.", e);
+    deleteWorkbookDatabase();
+  }
+};
+
+// --- Snapshots ---
+
+// Automatic snapshots kept per sheet; the ones named by the user are never removed
+const MAX_AUTO_SNAPSHOTS = 20;
+
+/** Snapshots of one sheet (or of all sheets), newest first. */
+export const listSnapshots = async (sheetId?: string): Promise<SheetSnapshot[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(SNAPSHOTS_STORE, 'readonly').objectStore(SNAPSHOTS_STORE);
+  const request = sheetId ? store.index('sheetId').getAll(sheetId) : store.getAll();
+  const snapshots = await requestToPromise(request as IDBRequest<SheetSnapshot[]>);
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveSnapshots = async (snapshots: SheetSnapshot[]) => {
+  if (snapshots.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+  const store = tx.objectStore(SNAPSHOTS_STORE);
+  snapshots.forEach(snapshot => store.put(snapshot));
+
+  // Drop the oldest automatic snapshots of the sheets involved
+  const sheetIds = new Set(snapshots.map(s => s.sheetId));
+  sheetIds.forEach(sheetId => {
+    const request = store.index('sheetId').getAll(sheetId) as IDBRequest<SheetSnapshot[]>;
+    request.onsuccess = () => {
+      request.result
+        .filter(s => s.kind === 'auto')
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(MAX_AUTO_SNAPSHOTS)
+        .forEach(s => store.delete(s.id));
+    };
+  });
+  await transactionDone(tx);
+};
+
+export const deleteSnapshot = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+  tx.objectStore(SNAPSHOTS_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * Debounced, incremental saver. Sheets are compared by reference with what was
+ * last written, so only sheets that actually changed are put into the store.
+ */
+export const createWorkbookSaver = (onStatus: (status: SaveStatus, error?: unknown) => void, delay = 600) => {
+  let saved = new Map<string, Sheet>();
+  let savedOrder: string[] = [];
+  let pending: Sheet[] | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running: Promise<void> | null = null;
+
+  const write = async () => {
+    if (!pending) return;
+    const sheets = pending;
+    pending = null;
+
+    const puts = sheets.filter(s => saved.get(s.id) !== s);
+    const ids = new Set(sheets.map(s => s.id));
+    const deletes = [...saved.keys()].filter(id => !ids.has(id));
+    const order = sheets.map(s => s.id);
+    const orderChanged = order.length !== savedOrder.length || order.some((id, i) => id !== savedOrder[i]);
+
+    if (puts.length === 0 && deletes.length === 0 && !orderChanged) {
+      onStatus('saved');
+      return;
+    }
+
+    onStatus('saving');
+    try {
+      const db = await openDatabase();
+      await writeSheets(db, puts, deletes, orderChanged ? order : null);
+      saved = new Map(sheets.map(s => [s.id, s]));
+      savedOrder = order;
+      onStatus(pending ? 'saving' : 'saved');
+    } catch (error) {
+      console.error("Erro ao salvar no IndexedDB (provavelmente cota excedida ou acesso negado):", error);
+      onStatus('error', error);
+    }
+  };
+
+  const flush = async () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    // Writes never overlap: a change made during a write is saved right after it
+    while (running) await running;
+    if (!pending) return;
+    running = write().finally(() => { running = null; });
+    await running;
+  };
+
+  return {
+    /** Marks the loaded state as already persisted. */
+    markSaved: (sheets: Sheet[]) => {
+      saved = new Map(sheets.map(s => [s.id, s]));
+      savedOrder = sheets.map(s => s.id);
+    },
+    schedule: (sheets: Sheet[]) => {
+      pending = sheets;
+      onStatus('saving');
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => { flush(); }, delay);
+    },
+    flush
+  };
+};
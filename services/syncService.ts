@@ -0,0 +1,235 @@
+import { AccessCodeHash, Sheet } from "../types";
+import { stripAccessSecrets } from "../utils/accessCodes";
+import { SaveStatus } from "./storageService";
+
+// Client of server/syncServer.js. Shared sheets are uploaded when their codes
+// are generated, fetched by id with a code, and every later edit made with the
+// edit code is pushed back. The server keeps the code hashes and checks every
+// request; the copy of a sheet received from it carries none.
+
+export type SheetAccess = 'edit' | 'view';
+
+export interface SharedSheet {
+  sheet: Sheet;
+  access: SheetAccess;
+  version: number;
+  expiresAt: number | null;
+}
+
+export interface SharedSheetInfo {
+  id: string;
+  name: string;
+  expiresAt: number | null;
+}
+
+export interface ShareCodes {
+  editCodeHash: AccessCodeHash;
+  viewCodeHash: AccessCodeHash;
+  expiresAt: number;
+}
+
+export class SyncError extends Error {
+  // 0 when the server could not be reached
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+const getSyncUrl = () => {
+  try {
+    if (typeof process !== 'undefined' && process.env && process.env.SYNC_SERVER_URL) {
+      return process.env.SYNC_SERVER_URL.replace(/\/+$/, '');
+    }
+  } catch (e) {
+    // Ignore error
+  }
+  return '';
+};
+
+/** False when no server is configured: sharing then only works in this browser. */
+export const isSyncEnabled = () => getSyncUrl() !== '';
+
+const request = async <T>(id: string, init: RequestInit = {}, code?: string, suffix = ''): Promise<T> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (code) headers['X-Access-Code'] = code;
+
+  let response: Response;
+  try {
+    response = await fetch(`${getSyncUrl()}/api/sheets/${encodeURIComponent(id)}${suffix}`, { ...init, headers });
+  } catch (error) {
+    throw new SyncError("Sem ligação ao servidor de partilha.", 0);
+  }
+
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) throw new SyncError(payload?.error || `Erro do servidor (${response.status}).`, response.status);
+  return payload as T;
+};
+
+/** Name and expiry of a shared sheet, to show the lock screen; null if the server does not have it. */
+export const fetchSharedSheetInfo = async (id: string): Promise<SharedSheetInfo | null> => {
+  try {
+    return await request<SharedSheetInfo>(id, { method: 'GET' }, undefined, '/info');
+  } catch (error) {
+    if (error instanceof SyncError && error.status === 404) return null;
+    throw error;
+  }
+};
+
+/** WebSocket address of the live editing room of a shared sheet (see liveService). */
+export const liveSheetUrl = (id: string) => `${getSyncUrl().replace(/^http/, 'ws')}/api/sheets/${encodeURIComponent(id)}/live`;
+
+export const fetchSharedSheet = (id: string, code: string) => request<SharedSheet>(id, { method: 'GET' }, code);
+
+// Filters are each person's own view of the sheet and are not shared
+const sharedCopy = (sheet: Sheet): Sheet => {
+  const { autoFilter, ...rest } = stripAccessSecrets(sheet);
+  return rest;
+};
+
+/** Uploads a sheet; `codes` publishes it (or replaces its code hashes), otherwise `code` must be the edit code. */
+export const uploadSharedSheet = async (sheet: Sheet, code: string | undefined, options: { baseVersion?: number; codes?: ShareCodes } = {}) => {
+  const body = { sheet: sharedCopy(sheet), baseVersion: options.baseVersion, ...options.codes };
+  const result = await request<{ version: number }>(sheet.id, { method: 'PUT', body: JSON.stringify(body) }, code);
+  return result.version;
+};
+
+export const deleteSharedSheet = (id: string, code: string) => request<{ deleted: boolean }>(id, { method: 'DELETE' }, code);
+
+// --- Session sync ---
+
+interface SyncSession {
+  code: string;
+  access: SheetAccess;
+  version: number;
+  live?: boolean; // Edited through the live relay, which saves the changes itself
+}
+
+/**
+ * Keeps the shared sheets opened in this session in step with the server.
+ * Like the workbook saver, sheets are compared by reference with what was
+ * last sent or received, and only the changed ones with edit access are pushed.
+ */
+export const createShareSync = (
+  onStatus: (status: SaveStatus, error?: unknown) => void,
+  onRemoteChange: (shared: SharedSheet, reason: 'conflict' | 'refresh') => void,
+  delay = 1500
+) => {
+  const sessions = new Map<string, SyncSession>();
+  const synced = new Map<string, Sheet>();
+  let pending: Sheet[] | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running: Promise<void> | null = null;
+
+  // Whether the sheet changed since it was last sent or received, other than its filter
+  const isUnsent = (sheet: Sheet) => {
+    const last = synced.get(sheet.id);
+    if (last === sheet) return false;
+    if (!last) return true;
+    const props = new Set([...Object.keys(last), ...Object.keys(sheet)] as (keyof Sheet)[]);
+    return [...props].some(prop => prop !== 'autoFilter' && last[prop] !== sheet[prop]);
+  };
+
+  const open = (shared: SharedSheet, code: string) => {
+    sessions.set(shared.sheet.id, { code, access: shared.access, version: shared.version, live: sessions.get(shared.sheet.id)?.live });
+    synced.set(shared.sheet.id, shared.sheet);
+  };
+
+  const push = async () => {
+    if (!pending) return;
+    const sheets = pending;
+    pending = null;
+
+    const changed = sheets.filter(s => {
+      const session = sessions.get(s.id);
+      return session?.access === 'edit' && !session.live && isUnsent(s);
+    });
+    if (changed.length === 0) return;
+
+    onStatus('saving');
+    try {
+      for (const sheet of changed) {
+        const session = sessions.get(sheet.id)!;
+        try {
+          session.version = await uploadSharedSheet(sheet, session.code, { baseVersion: session.version });
+          synced.set(sheet.id, sheet);
+        } catch (error) {
+          if (!(error instanceof SyncError) || error.status !== 409) throw error;
+          // Someone else saved first: their version wins and is loaded here
+          const latest = await fetchSharedSheet(sheet.id, session.code);
+          open(latest, session.code);
+          onRemoteChange(latest, 'conflict');
+        }
+      }
+      onStatus(pending ? 'saving' : 'saved');
+    } catch (error) {
+      console.error("Erro ao sincronizar a pauta partilhada:", error);
+      onStatus('error', error);
+    }
+  };
+
+  const flush = async () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    while (running) await running;
+    if (!pending) return;
+    running = push().finally(() => { running = null; });
+    await running;
+  };
+
+  return {
+    isOpen: (id: string) => sessions.has(id),
+    codeFor: (id: string) => sessions.get(id)?.code,
+    /** Registers a sheet received from the server with the code that opened it. */
+    open,
+    /**
+     * Publishes a sheet with new code hashes. `editCode` is the new edit code,
+     * used for the pushes that follow; `currentCode` is the one the server knows, if any.
+     */
+    publish: async (sheet: Sheet, codes: ShareCodes, editCode: string, currentCode?: string) => {
+      const version = await uploadSharedSheet(sheet, currentCode, { codes });
+      sessions.set(sheet.id, { code: editCode, access: 'edit', version, live: sessions.get(sheet.id)?.live });
+      synced.set(sheet.id, sheet);
+    },
+    unpublish: async (id: string, currentCode?: string) => {
+      const code = sessions.get(id)?.code || currentCode;
+      sessions.delete(id);
+      synced.delete(id);
+      if (code) await deleteSharedSheet(id, code);
+    },
+    /** Hands a sheet over to the live relay (or back, e.g. when sharing stops). */
+    setLive: (id: string, live: boolean) => {
+      const session = sessions.get(id);
+      if (session) session.live = live;
+    },
+    /** Marks a sheet object as matching the server, e.g. a received copy merged with the local codes. */
+    markSynced: (sheet: Sheet) => {
+      if (sessions.has(sheet.id)) synced.set(sheet.id, sheet);
+    },
+    /** Loads newer versions saved on other computers, unless there are local changes not sent yet. */
+    refresh: async (sheets: Sheet[]) => {
+      for (const sheet of sheets) {
+        const session = sessions.get(sheet.id);
+        if (!session || session.live || isUnsent(sheet)) continue;
+        try {
+          const latest = await fetchSharedSheet(sheet.id, session.code);
+          if (latest.version > session.version) {
+            open(latest, session.code);
+            onRemoteChange(latest, 'refresh');
+          }
+        } catch (error) {
+          console.warn("Não foi possível atualizar a pauta partilhada.", error);
+        }
+      }
+    },
+    schedule: (sheets: Sheet[]) => {
+      if (sessions.size === 0) return;
+      pending = sheets;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => { flush(); }, delay);
+    },
+    flush
+  };
+};
@@ -3,50 +3,262 @@ export type CellValue = string | number | boolean | null;
 
 export type SheetData = CellValue[][];
 
+export interface CellPosition {
+  r: number;
+  c: number;
+}
+
+// Inclusive rectangle, always normalized so r1 <= r2 and c1 <= c2
+export interface CellRange {
+  r1: number;
+  c1: number;
+  r2: number;
+  c2: number;
+}
+
+export interface CellChange {
+  r: number;
+  c: number;
+  value: CellValue;
+}
+
 export type ConditionType = 'gt' | 'lt' | 'eq' | 'gte' | 'lte' | 'contains';
 
+// Conditions of formatting rules: the filter comparisons, plus ones that look at
+// the other cells of the rule's range (duplicate, top/bottom N)
+export type FormatCondition = ConditionType | 'between' | 'empty' | 'notEmpty' | 'duplicate' | 'top' | 'bottom';
+
 export interface ConditionalStyle {
   backgroundColor: string;
   color: string;
   name: string; // e.g., "Red", "Green"
+  bold?: boolean;
 }
 
+export type ConditionalRuleType = 'highlight' | 'colorScale' | 'dataBar';
+
+// Applies below the header row, to the columns from columnIndex to lastColumnIndex.
+// Rules are listed by priority: for each cell, the first rule that sets a colour wins.
 export interface ConditionalRule {
   id: string;
+  type?: ConditionalRuleType; // Missing on older rules: highlight
   columnIndex: number;
-  condition: ConditionType;
-  value: string | number;
+  lastColumnIndex?: number; // Set when the range spans several columns
+  // Highlight rules
+  condition: FormatCondition;
+  value: string | number; // N for top/bottom; lower limit for between
+  value2?: string | number; // Upper limit for between
   style: ConditionalStyle;
+  wholeRow?: boolean; // Colour the whole row of a matching cell
+  // Colour scales: lowest, (middle,) highest value; data bars: bar colour
+  colors?: string[];
 }
 
-export type ValidationType = 'number' | 'text' | 'date' | 'list' | 'email';
+export type ValidationType = 'number' | 'decimal' | 'text' | 'date' | 'list' | 'email' | 'pattern' | 'required' | 'unique';
 
 export interface ValidationRule {
   id: string;
   columnIndex: number;
   type: ValidationType;
-  min?: string;
+  min?: string; // For 'text', the length in characters
   max?: string;
   options?: string[]; // For 'list' type
+  pattern?: string; // For 'pattern' type: a regular expression the whole value must match
+  decimals?: number; // For 'decimal' type: most digits after the decimal point
   errorMessage?: string;
 }
 
+export type RoundingMode = 'none' | 'round' | 'floor' | 'ceil';
+
+export interface GradeComponent {
+  id: string;
+  label: string; // e.g., "MAC", "NPP", "Nota 1"
+  columnIndex: number;
+  weight: number;
+}
+
+export interface GradingScheme {
+  scaleMin: number; // e.g., 0
+  scaleMax: number; // e.g., 10 or 20
+  passThreshold: number; // Average needed to pass
+  components: GradeComponent[];
+  roundingMode: RoundingMode;
+  decimals: number;
+  averageHeader: string; // Column that receives the average, e.g., "Média"
+  resultHeader?: string; // Optional column for the pass/fail label, e.g., "Resultado"
+  passLabel: string;
+  failLabel: string;
+}
+
+// Inferred when importing a file
+export type ColumnType = 'number' | 'date' | 'text' | 'empty';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortKey {
+  columnIndex: number;
+  direction: SortDirection;
+}
+
+// AutoFilter on one column. A row is shown when its value passes both parts.
+export interface ColumnFilter {
+  columnIndex: number;
+  values?: string[]; // Allowed display values ("" = empty cells); undefined = all
+  condition?: ConditionType;
+  conditionValue?: string;
+}
+
+export type SheetAxis = 'row' | 'column';
+
+// Structural edits on whole rows/columns. `start`/`count` describe a contiguous
+// block; for 'move', `to` is where the block starts after the move.
+export type StructureAction =
+  | { type: 'insert'; axis: SheetAxis; index: number; count: number }
+  | { type: 'delete'; axis: SheetAxis; start: number; count: number }
+  | { type: 'move'; axis: SheetAxis; start: number; count: number; to: number }
+  | { type: 'hide'; axis: SheetAxis; start: number; count: number }
+  | { type: 'unhide'; axis: SheetAxis; start: number; count: number };
+
+export type BorderSide = 'top' | 'right' | 'bottom' | 'left';
+export type BorderWeight = 'thin' | 'medium' | 'thick';
+
+// Cell formatting kept from Excel files (a subset of what Excel supports)
+export interface CellStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  fontSize?: number; // Points
+  fontName?: string;
+  color?: string; // '#RRGGBB'
+  backgroundColor?: string;
+  align?: 'left' | 'center' | 'right';
+  verticalAlign?: 'top' | 'middle' | 'bottom';
+  wrap?: boolean;
+  borders?: Partial<Record<BorderSide, BorderWeight>>;
+  numberFormat?: string; // Excel format code, e.g. "0.0"
+}
+
+// Link from a class sheet to the sheet it was split from, so grades can be sent back
+export interface SplitSource {
+  sheetId: string;
+  keyHeaders: string[]; // Columns the sheet was split by, e.g. ["Classe", "Turma"]
+  key: string[]; // Their values in this class sheet
+  idHeader?: string; // Column that identifies a student in both sheets
+  rows: (number | null)[]; // Row in the original sheet of each row here, used without an ID column
+  rowKeys?: (string | null)[]; // Name and class that row had, so a sorted or edited original is noticed
+}
+
+// Columns and texts of the report cards (boletins) printed from a sheet; -1 = not shown
+export interface ReportCardTemplate {
+  schoolName: string;
+  title: string; // e.g. "Boletim de Notas"
+  period: string; // e.g. "1º Trimestre"
+  academicYear: string; // e.g. "2025/2026"
+  nameColumn: number;
+  numberColumn: number;
+  classColumn: number;
+  gradeColumns: number[];
+  averageColumn: number;
+  resultColumn: number;
+  signatures: string[]; // One signature line each, e.g. "O Director de Turma"
+}
+
+export type PageOrientation = 'portrait' | 'landscape';
+
+// Print/PDF layout of a sheet. Header and footer texts accept {escola}, {professor},
+// {planilha}, {data}, {pagina} and {paginas}.
+export interface PageSetup {
+  orientation: PageOrientation;
+  marginMm: number;
+  fitToWidth: boolean; // Shrinks the columns to the page width
+  scale: number; // Percent, used when not fitting to width
+  repeatHeader: boolean; // Header row on every page
+  breakColumn: number; // New page when this column changes (e.g. Turma); -1 = none
+  schoolName: string;
+  teacher: string;
+  headerLeft: string;
+  headerRight: string;
+  footerLeft: string;
+  footerRight: string;
+}
+
+// PBKDF2 (SHA-256) of an access code; salt and hash are base64
+export interface AccessCodeHash {
+  salt: string;
+  iterations: number;
+  hash: string;
+}
+
 export interface Sheet {
   id: string;
   name: string;
   data: SheetData;
   conditionalFormats?: ConditionalRule[];
   validationRules?: ValidationRule[];
+  gradingScheme?: GradingScheme;
+  hiddenRows?: number[];
+  hiddenColumns?: number[];
+  autoFilter?: ColumnFilter[]; // Set when the header row shows filter buttons
+  cellStyles?: (CellStyle | null)[][]; // Parallel to data; may be shorter
+  merges?: CellRange[];
+  columnWidths?: (number | null)[]; // Pixels; null = default width
+  frozenRows?: number;
+  frozenColumns?: number;
+  splitSource?: SplitSource;
+  reportCard?: ReportCardTemplate;
+  pageSetup?: PageSetup;
+  auditLog?: AuditEntry[]; // Oldest first; entries are only ever added
   
-  // Access Control
-  editCode?: string; // Full read-write access
-  viewCode?: string; // Read-only access
+  // Access Control: only salted hashes of the codes are kept
+  editCodeHash?: AccessCodeHash; // Full read-write access
+  viewCodeHash?: AccessCodeHash; // Read-only access
   
-  // Legacy support (optional during migration)
+  // Legacy plaintext codes, only read to hash them on load
+  editCode?: string;
+  viewCode?: string;
   accessCode?: string; 
   
   accessCodeExpiration?: number; // Timestamp when code expires
-  isShared?: boolean; // Visual indicator
+  isShared?: boolean; // Published on the sync server; copies received from it carry no codes
+}
+
+// Someone else with a shared sheet open at the same time
+export interface Collaborator {
+  id: string;
+  name: string;
+  color: string; // Hex colour of their cursor in the grid
+  access: 'edit' | 'view';
+  cell: CellPosition | null; // Selected cell, if any
+}
+
+// One cell changed by someone editing the sheet, kept in its audit trail
+export interface AuditEntry {
+  id: string;
+  time: number;
+  editor: string; // Profile name of whoever made the change
+  access: 'owner' | 'edit' | 'view'; // owner: an unprotected sheet of this browser
+  action: string; // The undo label, e.g. 'Colar' or 'Desfazer: Ordenar'
+  r: number;
+  c: number;
+  row: string; // Student (or first cell) of the row when the change was made
+  column: string; // Header of the column then
+  before: CellValue;
+  after: CellValue;
+  cells?: number; // Set on the one entry that sums up sorting or moving rows, starting at r, c
+  changes?: AuditCellChange[]; // Every cell of a change to several cells (a paste, a fill...); the fields above are the first one's
+}
+
+// One of the cells an audit entry changed
+export type AuditCellChange = Pick<AuditEntry, 'r' | 'c' | 'row' | 'column' | 'before' | 'after'>;
+
+// Saved copy of a sheet, taken on request or automatically (periodically, before deleting or restoring)
+export interface SheetSnapshot {
+  id: string;
+  sheetId: string;
+  name: string;
+  kind: 'manual' | 'auto';
+  createdAt: number;
+  sheet: Sheet;
 }
 
 export interface AnalysisResult {
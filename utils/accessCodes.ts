@@ -0,0 +1,87 @@
+import { AccessCodeHash, Sheet } from '../types';
+
+// Codes are read aloud and typed by hand, so 0/O and 1/I are left out.
+// 32 symbols divide 256 evenly, so every symbol is equally likely.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+const PBKDF2_ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+
+export const normalizeAccessCode = (code: string) => code.trim().toUpperCase();
+
+export const generateAccessCode = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+  return Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+};
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), ch => ch.charCodeAt(0));
+
+const derive = async (code: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(normalizeAccessCode(code)), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations }, key, 256);
+  return new Uint8Array(bits);
+};
+
+export const hashAccessCode = async (code: string): Promise<AccessCodeHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(code, salt, PBKDF2_ITERATIONS);
+  return { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, hash: toBase64(hash) };
+};
+
+export const verifyAccessCode = async (code: string, stored: AccessCodeHash | undefined): Promise<boolean> => {
+  if (!stored || !normalizeAccessCode(code)) return false;
+  try {
+    const actual = await derive(code, fromBase64(stored.salt), stored.iterations);
+    const expected = fromBase64(stored.hash);
+    // Compare every byte so the time taken does not depend on where they differ
+    let diff = actual.length ^ expected.length;
+    for (let i = 0; i < actual.length; i++) diff |= actual[i] ^ (expected[i] ?? 0);
+    return diff === 0;
+  } catch (e) {
+    console.warn("Educa-Lukunde: Invalid access code hash.", e);
+    return false;
+  }
+};
+
+export const hasAccessCodes = (sheet: Sheet) => !!(sheet.editCodeHash || sheet.viewCodeHash);
+
+/** Replaces plaintext codes (including the legacy `accessCode`, an edit code) by their hashes. */
+export const migrateAccessCodes = async (sheet: Sheet): Promise<Sheet> => {
+  const { editCode, viewCode, accessCode, ...rest } = sheet;
+  if (!editCode && !viewCode && !accessCode) return sheet;
+  const edit = editCode || accessCode;
+  return {
+    ...rest,
+    editCodeHash: rest.editCodeHash || (edit ? await hashAccessCode(edit) : undefined),
+    viewCodeHash: rest.viewCodeHash || (viewCode ? await hashAccessCode(viewCode) : undefined)
+  };
+};
+
+/** The sheet without codes, hashes or sharing state, as it goes into exported files. */
+export const stripAccessSecrets = (sheet: Sheet): Sheet => {
+  const { editCode, viewCode, accessCode, editCodeHash, viewCodeHash, accessCodeExpiration, isShared, ...rest } = sheet;
+  return rest;
+};
+
+// --- Unlock attempts ---
+
+// Wrong codes allowed per sheet before a pause, as on the sync server
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 60 * 1000;
+
+export interface UnlockAttempts {
+  failures: number;
+  blockedUntil: number;
+}
+
+/** Seconds left before another code may be tried on the sheet, or 0. */
+export const unlockWaitSeconds = (attempts: UnlockAttempts | undefined, now = Date.now()) =>
+  attempts && attempts.blockedUntil > now ? Math.ceil((attempts.blockedUntil - now) / 1000) : 0;
+
+export const recordFailedUnlock = (attempts: UnlockAttempts | undefined, now = Date.now()): UnlockAttempts => {
+  const failures = (attempts?.failures || 0) + 1;
+  return failures >= MAX_FAILED_ATTEMPTS
+    ? { failures: 0, blockedUntil: now + LOCKOUT_MS }
+    : { failures, blockedUntil: attempts?.blockedUntil || 0 };
+};
@@ -0,0 +1,107 @@
+import { AuditCellChange, AuditEntry, CellValue, Sheet, SheetData } from '../types';
+import { generateUUID } from './excelUtils';
+import { cellAddress, isFormula } from './formulaEngine';
+import { diffSheetData, rowLabel } from './versionHistory';
+
+// Every change made in this browser to the cells of a sheet is appended to its
+// audit log with who made it, one entry per change however many cells it
+// touched. Entries are never edited or removed (except the oldest, past the
+// limit): undoing a change is itself logged, and logs of two versions of a
+// sheet merge by entry id.
+
+export type AuditEditor = Pick<AuditEntry, 'editor' | 'access'>;
+
+const MAX_AUDIT_ENTRIES = 10_000;
+
+export const AUDIT_ACCESS_LABELS: Record<AuditEntry['access'], string> = {
+  owner: 'Proprietário',
+  edit: 'Edição',
+  view: 'Leitura'
+};
+
+/** Both logs, without repeated entries, oldest first. */
+export const mergeAuditLogs = (a: AuditEntry[] | undefined, b: AuditEntry[] | undefined): AuditEntry[] | undefined => {
+  if (a === b || !b || b.length === 0) return a;
+  if (!a || a.length === 0) return b;
+  const byId = new Map(a.map(entry => [entry.id, entry]));
+  b.forEach(entry => { if (!byId.has(entry.id)) byId.set(entry.id, entry); });
+  if (byId.size === a.length) return a;
+  return [...byId.values()].sort((x, y) => x.time - y.time).slice(-MAX_AUDIT_ENTRIES);
+};
+
+export const appendAudit = (log: AuditEntry[] | undefined, entries: AuditEntry[]): AuditEntry[] | undefined =>
+  entries.length === 0 ? log : [...(log || []), ...entries].slice(-MAX_AUDIT_ENTRIES);
+
+/**
+ * The entry for the cells that differ between two versions of a sheet, with
+ * every changed cell in `changes` when there are several. Sorting or moving
+ * rows (`moved`) only shifts values that are already logged, and is summed up
+ * without them.
+ */
+export const auditChanges = (before: Sheet, after: Sheet, editor: AuditEditor, action: string, now = Date.now(), moved = false): AuditEntry[] => {
+  const diffs = diffSheetData(before.data, after.data);
+  if (diffs.length === 0) return [];
+  const entry = { id: generateUUID(), time: now, ...editor, action };
+
+  if (moved && diffs.length > 1) {
+    return [{ ...entry, r: diffs[0].r, c: diffs[0].c, row: "", column: "", before: null, after: null, cells: diffs.length }];
+  }
+  const headers = after.data[0] || [];
+  const changes: AuditCellChange[] = diffs.map(({ r, c, before: from, after: to }) => ({
+    r,
+    c,
+    // A cleared name cell still names the row it was in
+    row: rowLabel(after.data, r) || rowLabel(before.data, r),
+    column: headers[c] === null || headers[c] === undefined ? "" : String(headers[c]),
+    before: from === "" ? null : from,
+    after: to
+  }));
+  return [changes.length === 1 ? { ...entry, ...changes[0] } : { ...entry, ...changes[0], changes }];
+};
+
+/** The log with one row per changed cell, as listed and exported. */
+export const auditLogRows = (entries: AuditEntry[]): AuditEntry[] =>
+  entries.flatMap(({ changes, ...entry }) => changes
+    ? changes.map((change, i) => ({ ...entry, ...change, id: `${entry.id}:${i}` }))
+    : [entry]);
+
+/**
+ * The next workbook state with the changes from the previous one logged. Sheets
+ * that came back (undo) keep the entries logged since, so nothing is lost.
+ */
+export const recordAudit = (prev: Sheet[], next: Sheet[], editorFor: (sheet: Sheet) => AuditEditor, action: string, moved?: string): Sheet[] => {
+  const prevById = new Map(prev.map(s => [s.id, s]));
+  let changed = false;
+  const result = next.map(sheet => {
+    const before = prevById.get(sheet.id);
+    if (!before || before === sheet) return sheet;
+    const log = mergeAuditLogs(sheet.auditLog, before.auditLog);
+    const entries = before.data === sheet.data ? [] : auditChanges(before, sheet, editorFor(sheet), action, Date.now(), sheet.id === moved);
+    if (entries.length === 0 && log === sheet.auditLog) return sheet;
+    changed = true;
+    return { ...sheet, auditLog: appendAudit(log, entries) };
+  });
+  return changed ? result : next;
+};
+
+export const formatAuditTime = (time: number) =>
+  new Date(time).toLocaleString('pt-PT', { dateStyle: 'short', timeStyle: 'medium' });
+
+// Formulas are exported as their text, not computed in the exported file
+const exportValue = (value: CellValue) => isFormula(value) ? `'${value}` : value;
+
+/** The log as a table for XLSX/CSV, oldest first. */
+export const auditLogToData = (entries: AuditEntry[]): SheetData => [
+  ['Data e hora', 'Editor', 'Acesso', 'Ação', 'Célula', 'Aluno / linha', 'Coluna', 'Valor anterior', 'Novo valor'],
+  ...auditLogRows(entries).map(e => [
+    formatAuditTime(e.time),
+    e.editor,
+    AUDIT_ACCESS_LABELS[e.access] || e.access,
+    e.action,
+    e.cells ? `${cellAddress(e.r, e.c)} (${e.cells} células)` : cellAddress(e.r, e.c),
+    e.row,
+    e.column,
+    exportValue(e.before),
+    exportValue(e.after)
+  ])
+];
@@ -0,0 +1,41 @@
+import type { CSSProperties } from 'react';
+import * as XLSX from 'xlsx';
+import { CellStyle, CellValue } from '../types';
+
+const BORDER_WIDTHS = { thin: 1, medium: 2, thick: 3 };
+
+/** Inline CSS for the formatting kept from an Excel file. */
+export const cellStyleToCSS = (style: CellStyle | null | undefined): CSSProperties => {
+  if (!style) return {};
+  const css: CSSProperties = {};
+  if (style.bold) css.fontWeight = 'bold';
+  if (style.italic) css.fontStyle = 'italic';
+  if (style.underline) css.textDecoration = 'underline';
+  if (style.fontSize) css.fontSize = `${style.fontSize}pt`;
+  if (style.fontName) css.fontFamily = style.fontName;
+  if (style.color) css.color = style.color;
+  if (style.backgroundColor) css.backgroundColor = style.backgroundColor;
+  if (style.align) css.textAlign = style.align;
+  if (style.verticalAlign) css.verticalAlign = style.verticalAlign;
+  if (style.borders) {
+    if (style.borders.top) css.borderTop = `${BORDER_WIDTHS[style.borders.top]}px solid #000`;
+    if (style.borders.right) css.borderRight = `${BORDER_WIDTHS[style.borders.right]}px solid #000`;
+    if (style.borders.bottom) css.borderBottom = `${BORDER_WIDTHS[style.borders.bottom]}px solid #000`;
+    if (style.borders.left) css.borderLeft = `${BORDER_WIDTHS[style.borders.left]}px solid #000`;
+  }
+  return css;
+};
+
+/** Text shown for a value, applying the cell's number format (e.g. "0.0" shows 12 as 12.0). */
+export const formatCellValue = (value: CellValue | undefined, style?: CellStyle | null): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === 'boolean') return value ? 'VERDADEIRO' : 'FALSO';
+  if (typeof value === 'number' && style?.numberFormat && style.numberFormat !== 'General') {
+    try {
+      return XLSX.SSF.format(style.numberFormat, value);
+    } catch (e) {
+      return String(value);
+    }
+  }
+  return String(value);
+};
@@ -0,0 +1,224 @@
+import { CellValue, ConditionalRule, ConditionalRuleType, ConditionalStyle, FormatCondition, SheetData } from '../types';
+import { columnLabel, parseNumeric } from './formulaEngine';
+import { getColumnCount } from './sheetStructure';
+import { filterText, matchesCondition } from './sortFilter';
+
+// Conditional formats are worked out for the whole sheet at once, because
+// duplicates, top/bottom N, colour scales and data bars depend on every value
+// of the rule's range. The grid, the printout and the .xlsx export share this.
+
+export const PRESET_STYLES: ConditionalStyle[] = [
+  { name: 'Vermelho (Reprovado)', backgroundColor: '#FECACA', color: '#991B1B' },
+  { name: 'Verde (Aprovado)', backgroundColor: '#BBF7D0', color: '#166534' },
+  { name: 'Amarelo (Atenção)', backgroundColor: '#FEF08A', color: '#854D0E' },
+  { name: 'Azul (Destaque)', backgroundColor: '#BFDBFE', color: '#1E40AF' },
+];
+
+export const COLOR_SCALE_PRESETS: { name: string; colors: string[] }[] = [
+  { name: 'Vermelho → Amarelo → Verde', colors: ['#F87171', '#FDE047', '#4ADE80'] },
+  { name: 'Vermelho → Verde', colors: ['#F87171', '#4ADE80'] },
+  { name: 'Branco → Azul', colors: ['#FFFFFF', '#60A5FA'] },
+];
+
+export const DEFAULT_BAR_COLOR = '#60A5FA';
+
+export const RULE_TYPE_LABELS: Record<ConditionalRuleType, string> = {
+  highlight: 'Destacar células',
+  colorScale: 'Escala de cores',
+  dataBar: 'Barras de dados'
+};
+
+// operands: how many values the condition needs
+export const FORMAT_CONDITIONS: { value: FormatCondition; label: string; operands: 0 | 1 | 2 }[] = [
+  { value: 'lt', label: 'Menor que', operands: 1 },
+  { value: 'lte', label: 'Menor ou igual', operands: 1 },
+  { value: 'gt', label: 'Maior que', operands: 1 },
+  { value: 'gte', label: 'Maior ou igual', operands: 1 },
+  { value: 'eq', label: 'Igual a', operands: 1 },
+  { value: 'between', label: 'Entre', operands: 2 },
+  { value: 'contains', label: 'Contém', operands: 1 },
+  { value: 'empty', label: 'Vazia', operands: 0 },
+  { value: 'notEmpty', label: 'Não vazia', operands: 0 },
+  { value: 'duplicate', label: 'Valor repetido', operands: 0 },
+  { value: 'top', label: 'Entre os N maiores', operands: 1 },
+  { value: 'bottom', label: 'Entre os N menores', operands: 1 },
+];
+
+export const conditionOperands = (condition: FormatCondition) =>
+  FORMAT_CONDITIONS.find(c => c.value === condition)?.operands ?? 1;
+
+export const ruleType = (rule: ConditionalRule): ConditionalRuleType => rule.type || 'highlight';
+
+export const ruleLastColumn = (rule: ConditionalRule) => Math.max(rule.columnIndex, rule.lastColumnIndex ?? rule.columnIndex);
+
+/** "C" or "C:E". */
+export const ruleRangeLabel = (rule: ConditionalRule) => {
+  const last = ruleLastColumn(rule);
+  return last === rule.columnIndex ? columnLabel(rule.columnIndex) : `${columnLabel(rule.columnIndex)}:${columnLabel(last)}`;
+};
+
+/** Short description of a rule, e.g. "Menor que 10" or "Escala de 3 cores". */
+export const describeRule = (rule: ConditionalRule) => {
+  const type = ruleType(rule);
+  if (type === 'colorScale') return `Escala de ${rule.colors && rule.colors.length >= 3 ? 3 : 2} cores`;
+  if (type === 'dataBar') return RULE_TYPE_LABELS.dataBar;
+  const label = FORMAT_CONDITIONS.find(c => c.value === rule.condition)?.label || rule.condition;
+  switch (rule.condition) {
+    case 'between': return `Entre ${rule.value} e ${rule.value2 ?? ""}`;
+    case 'top': return `Os ${rule.value} maiores`;
+    case 'bottom': return `Os ${rule.value} menores`;
+    default: return conditionOperands(rule.condition) === 0 ? label : `${label} ${rule.value}`;
+  }
+};
+
+// --- Evaluation ---
+
+export interface CellFormat {
+  backgroundColor?: string;
+  color?: string;
+  bold?: boolean;
+  bar?: { percent: number; color: string }; // Data bar, as a share (0–100) of the cell width
+}
+
+export const isBlank = (value: CellValue | undefined) => value === null || value === undefined || filterText(value) === "";
+
+// Same number written differently ("12" and "12,0") counts as the same value
+export const duplicateKey = (value: CellValue | undefined) => {
+  const num = typeof value === 'boolean' ? null : parseNumeric(value);
+  return num !== null ? `n:${num}` : `t:${filterText(value).toLowerCase()}`;
+};
+
+const parseHex = (hex: string) => {
+  const n = parseInt(hex.replace('#', '').padEnd(6, '0').slice(0, 6), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+const mixColors = (from: string, to: string, t: number) => {
+  const a = parseHex(from);
+  const b = parseHex(to);
+  return '#' + a.map((x, i) => Math.round(x + (b[i] - x) * t).toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+/** Colour of a value on a 2- or 3-colour scale between min and max (the middle colour sits at the median). */
+export const scaleColor = (colors: string[], value: number, min: number, mid: number, max: number) => {
+  if (max === min) return colors[colors.length - 1];
+  if (colors.length < 3) return mixColors(colors[0], colors[1] ?? colors[0], (value - min) / (max - min));
+  if (value <= mid) return mid === min ? colors[1] : mixColors(colors[0], colors[1], (value - min) / (mid - min));
+  return mid === max ? colors[1] : mixColors(colors[1], colors[2], (value - mid) / (max - mid));
+};
+
+const median = (sorted: number[]) => {
+  const half = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[half] : (sorted[half - 1] + sorted[half]) / 2;
+};
+
+// Decides, for one rule, which values of its range match
+const highlightMatcher = (rule: ConditionalRule, rangeValues: CellValue[]): ((value: CellValue | undefined) => boolean) => {
+  switch (rule.condition) {
+    case 'empty':
+      return isBlank;
+    case 'notEmpty':
+      return value => !isBlank(value);
+    case 'duplicate': {
+      const counts = new Map<string, number>();
+      rangeValues.forEach(value => {
+        if (!isBlank(value)) counts.set(duplicateKey(value), (counts.get(duplicateKey(value)) || 0) + 1);
+      });
+      return value => !isBlank(value) && (counts.get(duplicateKey(value)) || 0) > 1;
+    }
+    case 'top':
+    case 'bottom': {
+      const count = Math.floor(parseNumeric(rule.value) ?? 0);
+      const numbers = rangeValues.map(v => typeof v === 'boolean' ? null : parseNumeric(v)).filter((n): n is number => n !== null);
+      if (count <= 0 || numbers.length === 0) return () => false;
+      numbers.sort((a, b) => rule.condition === 'top' ? b - a : a - b);
+      // Ties with the last one in also count, as in Excel
+      const limit = numbers[Math.min(count, numbers.length) - 1];
+      return value => {
+        const num = typeof value === 'boolean' ? null : parseNumeric(value);
+        return num !== null && (rule.condition === 'top' ? num >= limit : num <= limit);
+      };
+    }
+    case 'between': {
+      const a = parseNumeric(rule.value);
+      const b = parseNumeric(rule.value2 ?? "");
+      if (a === null || b === null) return () => false;
+      const [low, high] = a <= b ? [a, b] : [b, a];
+      return value => {
+        const num = typeof value === 'boolean' ? null : parseNumeric(value);
+        return num !== null && num >= low && num <= high;
+      };
+    }
+    default: {
+      const condition = rule.condition;
+      return value => !isBlank(value) && matchesCondition(value ?? null, condition, rule.value);
+    }
+  }
+};
+
+// A property set by an earlier (higher priority) rule is kept
+const addFormat = (formats: Map<string, CellFormat>, key: string, format: CellFormat) => {
+  const current = formats.get(key);
+  if (!current) {
+    formats.set(key, format);
+    return;
+  }
+  const kept = Object.fromEntries(Object.entries(current).filter(([, value]) => value !== undefined)) as CellFormat;
+  formats.set(key, { ...format, ...kept });
+};
+
+/** Format of every cell some rule applies to, by "r:c" (values are the computed ones). */
+export const computeConditionalFormats = (values: SheetData, rules: ConditionalRule[] | undefined): Map<string, CellFormat> => {
+  const formats = new Map<string, CellFormat>();
+  if (!rules || rules.length === 0) return formats;
+  const width = getColumnCount(values);
+
+  rules.forEach(rule => {
+    const first = rule.columnIndex;
+    const last = Math.min(ruleLastColumn(rule), width - 1);
+    if (first < 0 || first > last) return;
+    const cells: { r: number; c: number; value: CellValue | undefined }[] = [];
+    for (let r = 1; r < values.length; r++) {
+      for (let c = first; c <= last; c++) cells.push({ r, c, value: values[r]?.[c] });
+    }
+
+    const type = ruleType(rule);
+    if (type === 'highlight') {
+      const matches = highlightMatcher(rule, cells.map(cell => cell.value ?? null));
+      const { backgroundColor, color, bold } = rule.style;
+      const format: CellFormat = { backgroundColor, color, ...(bold ? { bold } : {}) };
+      const rows = new Set<number>();
+      cells.forEach(cell => {
+        if (!matches(cell.value)) return;
+        if (rule.wholeRow) rows.add(cell.r);
+        else addFormat(formats, `${cell.r}:${cell.c}`, { ...format });
+      });
+      rows.forEach(r => {
+        for (let c = 0; c < width; c++) addFormat(formats, `${r}:${c}`, { ...format });
+      });
+      return;
+    }
+
+    const numbers = cells
+      .map(cell => ({ ...cell, num: typeof cell.value === 'boolean' ? null : parseNumeric(cell.value) }))
+      .filter((cell): cell is typeof cell & { num: number } => cell.num !== null);
+    if (numbers.length === 0) return;
+    const sorted = numbers.map(cell => cell.num).sort((a, b) => a - b);
+    const min = sorted[0];
+    const max = sorted[sorted.length - 1];
+
+    if (type === 'colorScale') {
+      const colors = rule.colors && rule.colors.length >= 2 ? rule.colors : COLOR_SCALE_PRESETS[0].colors;
+      const mid = median(sorted);
+      numbers.forEach(cell => addFormat(formats, `${cell.r}:${cell.c}`, { backgroundColor: scaleColor(colors, cell.num, min, mid, max) }));
+    } else {
+      // Bars start at zero, so a 10 is half as long as a 20
+      const color = rule.colors?.[0] || DEFAULT_BAR_COLOR;
+      numbers.forEach(cell => addFormat(formats, `${cell.r}:${cell.c}`, {
+        bar: { percent: max > 0 ? Math.max(0, Math.min(100, (cell.num / max) * 100)) : 0, color }
+      }));
+    }
+  });
+
+  return formats;
+};
@@ -0,0 +1,193 @@
+import { CellValue, SheetData, ValidationRule, ValidationType } from '../types';
+import { isFormula, parseNumeric } from './formulaEngine';
+import { duplicateKey, isBlank } from './conditionalFormat';
+import { rowLabel } from './versionHistory';
+
+// Validation rules are checked when a value is entered (validateEntry) and,
+// with "Verificar dados", against everything already in the sheet
+// (findViolations), which also catches imported data and repeated values.
+
+export const VALIDATION_TYPES: { value: ValidationType; label: string }[] = [
+  { value: 'number', label: 'Número' },
+  { value: 'decimal', label: 'Número com casas decimais limitadas' },
+  { value: 'text', label: 'Texto com comprimento limitado' },
+  { value: 'date', label: 'Data' },
+  { value: 'list', label: 'Lista de valores' },
+  { value: 'email', label: 'Email' },
+  { value: 'pattern', label: 'Padrão (expressão regular)' },
+  { value: 'required', label: 'Obrigatório (não vazia)' },
+  { value: 'unique', label: 'Único na coluna' },
+];
+
+// Common patterns, so a teacher does not have to write them
+export const PATTERN_PRESETS: { name: string; pattern: string }[] = [
+  { name: 'Só algarismos (nº de estudante)', pattern: '\\d+' },
+  { name: 'Bilhete de Identidade', pattern: '\\d{9}[A-Z]{2}\\d{3}' },
+  { name: 'Telemóvel (9 algarismos)', pattern: '9\\d{8}' },
+];
+
+export interface ValidationIssue {
+  sheetId: string;
+  r: number;
+  c: number;
+  row: string; // Student name (or first column) of the row
+  message: string;
+}
+
+/** The regular expression of a 'pattern' rule, or null when it is not valid. */
+export const patternRegExp = (pattern: string | undefined): RegExp | null => {
+  if (!pattern) return null;
+  try {
+    return new RegExp(`^(?:${pattern})$`);
+  } catch {
+    return null;
+  }
+};
+
+const rangeText = (min: string | undefined, max: string | undefined, unit = "") => {
+  if (min && max) return ` de ${min} a ${max}${unit}`;
+  if (min) return ` de pelo menos ${min}${unit}`;
+  if (max) return ` até ${max}${unit}`;
+  return "";
+};
+
+/** Short description of a rule, e.g. "Número de 0 a 20" or "Único na coluna". */
+export const describeValidationRule = (rule: ValidationRule) => {
+  switch (rule.type) {
+    case 'number': return `Número${rangeText(rule.min, rule.max)}`;
+    case 'decimal': return `Número${rangeText(rule.min, rule.max)}, ${rule.decimals ?? 0} casa(s) decimal(is) no máximo`;
+    case 'text': return `Texto${rangeText(rule.min, rule.max, ' caracteres')}`;
+    case 'date': return `Data${rangeText(rule.min, rule.max)}`;
+    case 'list': return `Lista: ${(rule.options || []).join(', ')}`;
+    case 'pattern': return `Padrão: ${rule.pattern || ""}`;
+    default: return VALIDATION_TYPES.find(t => t.value === rule.type)?.label || rule.type;
+  }
+};
+
+const decimalPlaces = (num: number) => {
+  // Rounded first, so 0.1 + 0.2 counts as one decimal place
+  const text = String(Number(num.toFixed(10)));
+  const dot = text.indexOf('.');
+  return dot === -1 ? 0 : text.length - dot - 1;
+};
+
+const checkRange = (num: number, rule: ValidationRule): string | null => {
+  if (rule.min && num < Number(rule.min)) return `O valor deve ser maior ou igual a ${rule.min}.`;
+  if (rule.max && num > Number(rule.max)) return `O valor deve ser menor ou igual a ${rule.max}.`;
+  return null;
+};
+
+/** Checks one value against a rule on its own ('unique' needs the whole column, see validateEntry). */
+export const validateValue = (value: CellValue | undefined, rule: ValidationRule): { valid: boolean; msg?: string } => {
+  if (isBlank(value)) return rule.type === 'required' ? { valid: false, msg: 'Preenchimento obrigatório.' } : { valid: true };
+  const strVal = String(value).trim();
+  const invalid = (msg: string | null) => msg ? { valid: false, msg } : { valid: true };
+
+  switch (rule.type) {
+    case 'number':
+    case 'decimal': {
+      const num = typeof value === 'boolean' ? null : parseNumeric(value);
+      if (num === null) return invalid('O valor deve ser um número.');
+      if (rule.type === 'decimal' && rule.decimals !== undefined && decimalPlaces(num) > rule.decimals) {
+        return invalid(rule.decimals === 0 ? 'O valor deve ser um número inteiro.' : `O valor deve ter no máximo ${rule.decimals} casa(s) decimal(is).`);
+      }
+      return invalid(checkRange(num, rule));
+    }
+    case 'text':
+      if (rule.min && strVal.length < Number(rule.min)) return invalid(`O texto deve ter pelo menos ${rule.min} caracteres.`);
+      if (rule.max && strVal.length > Number(rule.max)) return invalid(`O texto deve ter no máximo ${rule.max} caracteres.`);
+      return { valid: true };
+    case 'date': {
+      const date = new Date(strVal);
+      if (isNaN(date.getTime())) return invalid('Data inválida.');
+      // Simple string comparison for dates YYYY-MM-DD
+      if (rule.min && strVal < rule.min) return invalid(`A data deve ser posterior a ${rule.min}.`);
+      if (rule.max && strVal > rule.max) return invalid(`A data deve ser anterior a ${rule.max}.`);
+      return { valid: true };
+    }
+    case 'list':
+      return invalid(rule.options && !rule.options.includes(strVal) ? 'Valor não permitido na lista.' : null);
+    case 'email':
+      return invalid(/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(strVal) ? null : 'Endereço de email inválido.');
+    case 'pattern': {
+      const regex = patternRegExp(rule.pattern);
+      return invalid(regex && !regex.test(strVal) ? 'O valor não segue o formato pedido.' : null);
+    }
+    default:
+      return { valid: true };
+  }
+};
+
+const rowNumbers = (rows: number[]) => rows.map(r => r + 1).join(', ');
+
+/**
+ * Error message for a value about to be entered in row r, column c, or null when
+ * every rule of the column accepts it. Formulas are validated by what they
+ * reference, not by their text.
+ */
+export const validateEntry = (data: SheetData, r: number, c: number, value: CellValue, rules: ValidationRule[] | undefined): string | null => {
+  if (isFormula(value)) return null;
+  for (const rule of rules || []) {
+    if (rule.columnIndex !== c) continue;
+    if (rule.type === 'unique') {
+      if (isBlank(value)) continue;
+      const key = duplicateKey(value);
+      const others = [];
+      for (let row = 1; row < data.length; row++) {
+        if (row !== r && !isBlank(data[row]?.[c]) && duplicateKey(data[row][c]) === key) others.push(row);
+      }
+      if (others.length > 0) return rule.errorMessage || `Valor repetido: já existe ${others.length === 1 ? 'na linha' : 'nas linhas'} ${rowNumbers(others)}.`;
+      continue;
+    }
+    const check = validateValue(value, rule);
+    if (!check.valid) return rule.errorMessage || check.msg || "Valor inválido.";
+  }
+  return null;
+};
+
+/**
+ * Every cell of the sheet that breaks one of its rules, row by row (values are
+ * the computed ones). Rows left completely empty are not checked.
+ */
+export const findViolations = (sheetId: string, values: SheetData, rules: ValidationRule[] | undefined): ValidationIssue[] => {
+  if (!rules || rules.length === 0) return [];
+  const filledRows: number[] = [];
+  for (let r = 1; r < values.length; r++) {
+    if ((values[r] || []).some(value => !isBlank(value))) filledRows.push(r);
+  }
+
+  const messages = new Map<string, string>(); // First broken rule of each cell
+  const report = (r: number, c: number, message: string) => {
+    if (!messages.has(`${r}:${c}`)) messages.set(`${r}:${c}`, message);
+  };
+
+  rules.forEach(rule => {
+    const c = rule.columnIndex;
+    if (rule.type === 'unique') {
+      const rowsByValue = new Map<string, number[]>();
+      filledRows.forEach(r => {
+        const value = values[r]?.[c];
+        if (isBlank(value)) return;
+        const key = duplicateKey(value);
+        rowsByValue.set(key, [...(rowsByValue.get(key) || []), r]);
+      });
+      rowsByValue.forEach(rows => {
+        if (rows.length < 2) return;
+        rows.forEach(r => report(r, c, rule.errorMessage || `Valor repetido nas linhas ${rowNumbers(rows)}.`));
+      });
+      return;
+    }
+    filledRows.forEach(r => {
+      const check = validateValue(values[r]?.[c], rule);
+      if (!check.valid) report(r, c, rule.errorMessage || check.msg || "Valor inválido.");
+    });
+  });
+
+  return [...messages.entries()]
+    .map(([key, message]) => {
+      const [r, c] = key.split(':').map(Number);
+      return { sheetId, r, c, row: rowLabel(values, r), message };
+    })
+    .sort((a, b) => a.r - b.r || a.c - b.c);
+};
+
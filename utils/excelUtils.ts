@@ -1,5 +1,6 @@
 import * as XLSX from 'xlsx';
 import { Sheet, SheetData } from '../types';
+import { evaluateSheet, fromExcelFormula, isFormula, toExcelFormula } from './formulaEngine';
 
 // Robust UUID generator that works in all contexts (secure/insecure)
 export const generateUUID = () => {
@@ -18,62 +19,45 @@ export const generateUUID = () => {
     });
 };
 
-export const parseExcelFile = async (file: File): Promise<Sheet[]> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        const workbook = XLSX.read(data, { type: 'binary' });
-        
-        const sheets: Sheet[] = workbook.SheetNames.map(name => {
-          const ws = workbook.Sheets[name];
-          // Convert sheet to array of arrays
-          const jsonData = XLSX.utils.sheet_to_json(ws, { header: 1 }) as SheetData;
-          return {
-            id: generateUUID(),
-            name,
-            data: jsonData
-          };
-        });
-
-        resolve(sheets);
-      } catch (error) {
-        reject(error);
-      }
-    };
-
-    reader.onerror = (error) => reject(error);
-    reader.readAsBinaryString(file);
+// Replaces the cached values read by sheet_to_json with the formulas stored in the file
+export const applyWorksheetFormulas = (ws: XLSX.WorkSheet, data: SheetData) => {
+  if (!ws['!ref']) return;
+  const range = XLSX.utils.decode_range(ws['!ref']);
+
+  Object.keys(ws).forEach(address => {
+    if (address.startsWith('!')) return;
+    const cell = ws[address] as XLSX.CellObject;
+    if (!cell.f) return;
+
+    const { r, c } = XLSX.utils.decode_cell(address);
+    const row = r - range.s.r;
+    const col = c - range.s.c;
+    while (data.length <= row) data.push([]);
+    if (!data[row]) data[row] = [];
+    data[row][col] = fromExcelFormula(cell.f);
   });
 };
 
-export const splitSheetByColumn = (sheet: Sheet, columnIndex: number): Sheet[] => {
-  const data = sheet.data;
-  if (!data || data.length < 2) return []; // No data to split
-
-  const header = data[0];
-  const rows = data.slice(1);
-  
-  const groups: Record<string, any[][]> = {};
-
-  rows.forEach(row => {
-    // Skip empty or undefined rows
-    if (!row || row.length === 0) return;
-
-    const key = String(row[columnIndex] || "Sem Turma");
-    if (!groups[key]) {
-      groups[key] = [];
-    }
-    groups[key].push(row);
+// Builds a worksheet with computed values and the formulas, so Excel shows
+// the results immediately and keeps recalculating them
+export const sheetToWorksheet = (sheet: Sheet): XLSX.WorkSheet => {
+  const values = evaluateSheet(sheet.data);
+  const ws = XLSX.utils.aoa_to_sheet(values);
+
+  sheet.data.forEach((row, r) => {
+    if (!row) return;
+    row.forEach((cell, c) => {
+      if (!isFormula(cell)) return;
+      const address = XLSX.utils.encode_cell({ r, c });
+      const value = values[r]?.[c];
+      ws[address] = {
+        ...(ws[address] || {}),
+        t: typeof value === 'number' ? 'n' : typeof value === 'boolean' ? 'b' : 's',
+        v: value ?? "",
+        f: toExcelFormula(cell)
+      };
+    });
   });
 
-  const newSheets: Sheet[] = Object.keys(groups).map(key => ({
-    id: generateUUID(),
-    name: `${sheet.name} - ${key}`,
-    data: [header, ...groups[key]]
-  }));
-
-  return newSheets;
-};
\ No newline at end of file
+  return ws;
+};
@@ -0,0 +1,330 @@
+import * as XLSX from 'xlsx';
+import { CellValue, Sheet, SheetData } from '../types';
+import { stripAccessSecrets } from './accessCodes';
+import { evaluateSheet } from './formulaEngine';
+import { sheetToWorksheet } from './excelUtils';
+import { displayText } from './searchUtils';
+import { stripAccents } from './textUtils';
+import { applyXlsxFormatting } from './xlsxStyles';
+
+export type ExportFormat = 'xlsx' | 'ods' | 'csv' | 'json';
+
+export type CsvDelimiter = ';' | ',' | '\t';
+export type TextEncoding = 'utf-8' | 'windows-1252';
+
+export interface CsvOptions {
+  delimiter: CsvDelimiter;
+  decimalComma: boolean; // 12,5 instead of 12.5
+  encoding: TextEncoding;
+  bom: boolean; // UTF-8 byte order mark, so Excel recognises the accents
+}
+
+// What the ministry portal expects
+export const DEFAULT_CSV_OPTIONS: CsvOptions = { delimiter: ';', decimalComma: true, encoding: 'utf-8', bom: true };
+
+export const WORKBOOK_FORMAT = 'educa-lukunde';
+export const WORKBOOK_VERSION = 1;
+
+/** Lossless workbook file: every sheet with its rules and grading. Sharing codes stay in the browser. */
+export interface WorkbookFile {
+  format: typeof WORKBOOK_FORMAT;
+  version: number;
+  exportedAt: string;
+  sheets: Sheet[];
+}
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const DEFAULT_COLUMN_WIDTH = 120; // Same as the grid
+
+export const isCsvFileName = (name: string) => /\.(csv|txt)$/i.test(name);
+export const isJsonFileName = (name: string) => /\.json$/i.test(name);
+
+export const fileBaseName = (name: string) => name.replace(/\.[^.]+$/, "") || name;
+
+/** Saves text or bytes through a temporary download link. */
+export const downloadFile = (content: string | Uint8Array, fileName: string, mimeType: string) => {
+  const blob = new Blob([content as BlobPart], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/** Opens the browser print dialog for a PDF; if the browser cannot, the PDF opens in a new tab. */
+export const printPdf = (content: Uint8Array) => {
+  const url = URL.createObjectURL(new Blob([content as BlobPart], { type: 'application/pdf' }));
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position:fixed;right:0;bottom:0;width:0;height:0;border:0';
+  frame.src = url;
+  frame.onload = () => {
+    try {
+      frame.contentWindow?.focus();
+      frame.contentWindow?.print();
+    } catch (e) {
+      window.open(url, '_blank');
+    }
+  };
+  document.body.appendChild(frame);
+  // Removed later, so the print dialog can still read it
+  setTimeout(() => {
+    frame.remove();
+    URL.revokeObjectURL(url);
+  }, 60000);
+};
+
+/** Zip archive of several files, for downloads that would otherwise be one file each. */
+export const buildZip = (files: { name: string; content: Uint8Array }[]): Uint8Array => {
+  const zip = XLSX.CFB.utils.cfb_new();
+  // Entry names are stored as 7-bit text, so accents are dropped
+  files.forEach(file => XLSX.CFB.utils.cfb_add(zip, `/${stripAccents(file.name).replace(/[^\x20-\x7E]/g, '_')}`, file.content));
+  return new Uint8Array(XLSX.CFB.write(zip, { fileType: 'zip', type: 'array', compression: true }));
+};
+
+// --- Text encodings ---
+
+// Windows-1252 differs from Latin-1 only in 0x80-0x9F
+const CP1252_EXTRA: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89,
+  'Š': 0x8A, '‹': 0x8B, 'Œ': 0x8C, 'Ž': 0x8E, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95,
+  '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9A, '›': 0x9B, 'œ': 0x9C, 'ž': 0x9E, 'Ÿ': 0x9F
+};
+
+export const encodeText = (text: string, encoding: TextEncoding, bom = false): Uint8Array => {
+  if (encoding === 'utf-8') {
+    const body = new TextEncoder().encode(text);
+    if (!bom) return body;
+    const bytes = new Uint8Array(body.length + 3);
+    bytes.set([0xEF, 0xBB, 0xBF]);
+    bytes.set(body, 3);
+    return bytes;
+  }
+
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    const extra = CP1252_EXTRA[text[i]];
+    bytes[i] = extra ?? (code < 256 && (code < 0x80 || code > 0x9F) ? code : 0x3F); // '?' when unsupported
+  }
+  return bytes;
+};
+
+export const decodeText = (bytes: Uint8Array, encoding: TextEncoding): string => {
+  const text = new TextDecoder(encoding).decode(bytes);
+  return text.charCodeAt(0) === 0xFEFF ? text.slice(1) : text;
+};
+
+/** UTF-8 when the bytes are valid UTF-8, otherwise the Windows encoding used by older Excel. */
+export const detectEncoding = (bytes: Uint8Array): TextEncoding => {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch (e) {
+    return 'windows-1252';
+  }
+};
+
+// --- CSV ---
+
+/** The delimiter that splits the first lines into the most consistent columns. */
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim()).slice(0, 20);
+  const candidates: CsvDelimiter[] = [';', ',', '\t'];
+  let best: CsvDelimiter = ';';
+  let bestScore = 0;
+
+  candidates.forEach(delimiter => {
+    const counts = lines.map(line => line.split(delimiter).length - 1);
+    const consistent = counts.filter(c => c > 0 && c === counts[0]).length;
+    const score = consistent * 100 + counts.reduce((a, b) => a + b, 0);
+    if (score > bestScore) {
+      bestScore = score;
+      best = delimiter;
+    }
+  });
+  return best;
+};
+
+export const detectCsvOptions = (bytes: Uint8Array): CsvOptions => {
+  const encoding = detectEncoding(bytes);
+  const delimiter = detectDelimiter(decodeText(bytes, encoding));
+  // A comma separator leaves no room for decimal commas
+  return { delimiter, decimalComma: delimiter !== ',', encoding, bom: encoding === 'utf-8' };
+};
+
+const NUMBER_DOT = /^-?\d+(\.\d+)?$/;
+const NUMBER_COMMA = /^-?(\d{1,3}(\.\d{3})+|\d+)(,\d+)?$/;
+
+// Numbers become numbers; codes with leading zeros ("0042") stay text
+const parseCsvValue = (field: string, decimalComma: boolean): CellValue => {
+  const text = field.trim();
+  if (text === "") return "";
+  if (/^-?0\d/.test(text)) return field;
+  if (decimalComma && NUMBER_COMMA.test(text)) return Number(text.replace(/\./g, "").replace(",", "."));
+  if (!decimalComma && NUMBER_DOT.test(text)) return Number(text);
+  return field;
+};
+
+/** Parses CSV text (quoted fields may contain delimiters, quotes and line breaks). */
+export const parseCSV = (text: string, options: Pick<CsvOptions, 'delimiter' | 'decimalComma'>): SheetData => {
+  const rows: CellValue[][] = [];
+  let row: CellValue[] = [];
+  let field = "";
+  let quoted = false;
+  let fieldQuoted = false; // Quoted fields are kept as text
+  let i = 0;
+
+  const endField = (wasQuoted: boolean) => {
+    row.push(wasQuoted ? field : parseCsvValue(field, options.decimalComma));
+    field = "";
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+      fieldQuoted = true;
+    } else if (ch === options.delimiter) {
+      endField(fieldQuoted);
+      fieldQuoted = false;
+    } else if (ch === '\n' || ch === '\r') {
+      endField(fieldQuoted);
+      fieldQuoted = false;
+      rows.push(row);
+      row = [];
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+
+  if (field !== "" || row.length > 0) {
+    endField(fieldQuoted);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const formatCsvValue = (value: CellValue | undefined, options: CsvOptions): string => {
+  if (typeof value === 'number' && options.decimalComma) return String(value).replace('.', ',');
+  return displayText(value);
+};
+
+const quoteCsvField = (text: string, delimiter: CsvDelimiter) =>
+  text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim()
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+
+/** The computed values of a sheet as CSV text (formulas are exported as their results). */
+export const sheetToCSV = (sheet: Sheet, options: CsvOptions): string => {
+  const values = evaluateSheet(sheet.data);
+  return values
+    .map(row => (Array.isArray(row) ? row : []).map(value => quoteCsvField(formatCsvValue(value, options), options.delimiter)).join(options.delimiter))
+    .join('\r\n');
+};
+
+// --- Workbooks ---
+
+// Merges, column widths and hidden rows/columns are written by SheetJS itself
+const applySheetLayout = (ws: XLSX.WorkSheet, sheet: Sheet) => {
+  if (sheet.merges && sheet.merges.length > 0) {
+    ws['!merges'] = sheet.merges.map(m => ({ s: { r: m.r1, c: m.c1 }, e: { r: m.r2, c: m.c2 } }));
+  }
+
+  const hiddenColumns = new Set(sheet.hiddenColumns || []);
+  const widths = sheet.columnWidths || [];
+  const colCount = Math.max(widths.length, ...[...hiddenColumns].map(c => c + 1));
+  if (widths.some(w => w) || hiddenColumns.size > 0) {
+    ws['!cols'] = Array.from({ length: colCount }, (_, c) =>
+      widths[c] || hiddenColumns.has(c) ? { wpx: widths[c] || DEFAULT_COLUMN_WIDTH, hidden: hiddenColumns.has(c) || undefined } : undefined
+    ) as XLSX.ColInfo[];
+  }
+
+  if (sheet.hiddenRows && sheet.hiddenRows.length > 0) {
+    const rows: XLSX.RowInfo[] = [];
+    sheet.hiddenRows.forEach(r => { rows[r] = { hidden: true }; });
+    ws['!rows'] = rows;
+  }
+};
+
+/** XLSX/ODS workbook with sheet names cleaned up to the 31 characters Excel allows. */
+export const buildWorkbook = (sheets: Sheet[]): XLSX.WorkBook => {
+  const wb = XLSX.utils.book_new();
+
+  sheets.forEach(sheet => {
+    if (!sheet) return;
+    const ws = sheetToWorksheet(sheet);
+    applySheetLayout(ws, sheet);
+    let sheetName = (sheet.name || "Sheet").replace(/[\\/?*[\]:]/g, " ").trim();
+    if (sheetName.length > 31) sheetName = sheetName.substring(0, 31);
+    if (!sheetName) sheetName = "Sheet";
+
+    let uniqueName = sheetName;
+    let counter = 1;
+    while (wb.SheetNames.includes(uniqueName)) {
+      uniqueName = `${sheetName.substring(0, 27)}(${counter})`;
+      counter++;
+    }
+
+    XLSX.utils.book_append_sheet(wb, ws, uniqueName);
+  });
+
+  return wb;
+};
+
+/** Downloads the sheets as .xlsx, keeping cell styles, frozen panes and conditional formats. */
+export const saveXlsxFile = (sheets: Sheet[], fileName: string) => {
+  const targets = sheets.filter(Boolean);
+  const file = XLSX.write(buildWorkbook(targets), { type: 'array', bookType: 'xlsx' });
+  downloadFile(applyXlsxFormatting(file, targets), fileName, XLSX_MIME);
+};
+
+export const serializeWorkbook = (sheets: Sheet[]): string => {
+  const file: WorkbookFile = {
+    format: WORKBOOK_FORMAT,
+    version: WORKBOOK_VERSION,
+    exportedAt: new Date().toISOString(),
+    // Access codes stay in the browser that holds them
+    sheets: sheets.map(stripAccessSecrets)
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/** Reads a file written by serializeWorkbook; throws with a message for the user. */
+export const parseWorkbookJSON = (text: string): Sheet[] => {
+  let file: Partial<WorkbookFile>;
+  try {
+    file = JSON.parse(text);
+  } catch (e) {
+    throw new Error("O arquivo JSON está corrompido.");
+  }
+
+  if (!file || file.format !== WORKBOOK_FORMAT || !Array.isArray(file.sheets)) {
+    throw new Error("Este arquivo JSON não foi exportado pelo Educa-Lukunde.");
+  }
+  if ((file.version || 0) > WORKBOOK_VERSION) {
+    throw new Error("Este arquivo foi criado por uma versão mais recente do Educa-Lukunde.");
+  }
+
+  // Files from older versions carried the codes in plaintext
+  return file.sheets.filter(sheet => sheet && typeof sheet.id === 'string' && Array.isArray(sheet.data)).map(sheet => ({
+    ...stripAccessSecrets(sheet),
+    name: String(sheet.name || "Planilha"),
+    data: sheet.data.map(row => Array.isArray(row) ? row : [])
+  }));
+};
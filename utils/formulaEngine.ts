@@ -0,0 +1,853 @@
+import { CellValue, SheetData } from '../types';
+import { stripAccents } from './textUtils';
+
+// Formula syntax follows the Portuguese spreadsheet convention:
+// functions in Portuguese (MÉDIA, SOMA, SE...), ';' as argument separator and
+// ',' or '.' as decimal separator. English names are accepted as aliases so
+// formulas imported from Excel files keep working. Excel files themselves use
+// ',' only between arguments and '.' only in numbers (the 'excel' dialect).
+
+export const ERROR_CODES = ['#DIV/0!', '#VALOR!', '#REF!', '#NOME?', '#N/D', '#CICLO!'] as const;
+export type FormulaErrorCode = typeof ERROR_CODES[number];
+
+class FormulaError extends Error {
+  code: FormulaErrorCode;
+  constructor(code: FormulaErrorCode) {
+    super(code);
+    this.code = code;
+  }
+}
+
+export const isFormula = (value: CellValue | undefined): value is string =>
+  typeof value === 'string' && value.length > 1 && value.startsWith('=');
+
+export const isErrorValue = (value: CellValue | undefined): boolean =>
+  typeof value === 'string' && (ERROR_CODES as readonly string[]).includes(value);
+
+// --- Cell addresses ---
+
+export const columnLabel = (index: number): string => {
+  let label = "";
+  let n = index;
+  while (n >= 0) {
+    label = String.fromCharCode((n % 26) + 65) + label;
+    n = Math.floor(n / 26) - 1;
+  }
+  return label;
+};
+
+export const columnIndexFromLabel = (label: string): number => {
+  let index = 0;
+  const clean = label.toUpperCase().replace(/\$/g, '').trim();
+  for (let i = 0; i < clean.length; i++) {
+    index = index * 26 + (clean.charCodeAt(i) - 64);
+  }
+  return index - 1;
+};
+
+export const cellAddress = (r: number, c: number) => `${columnLabel(c)}${r + 1}`;
+
+const cellKey = (r: number, c: number) => `${r}:${c}`;
+
+const REF_PATTERN = /^(\$?)([A-Za-z]{1,3})(\$?)(\d+)/;
+
+// --- Tokenizer ---
+
+type Token =
+  | { type: 'number'; value: number; text: string }
+  | { type: 'string'; value: string }
+  | { type: 'ref'; row: number; col: number; text: string }
+  | { type: 'name'; value: string }
+  | { type: 'op'; value: string }
+  | { type: 'lparen' }
+  | { type: 'rparen' }
+  | { type: 'sep' }
+  | { type: 'colon' };
+
+type Dialect = 'excel' | 'local';
+
+const tokenize = (source: string, dialect: Dialect = 'local'): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) { i++; continue; }
+
+    if (ch === '"') {
+      let value = "";
+      i++;
+      while (i < source.length) {
+        if (source[i] === '"') {
+          if (source[i + 1] === '"') { value += '"'; i += 2; continue; }
+          break;
+        }
+        value += source[i++];
+      }
+      if (source[i] !== '"') throw new FormulaError('#VALOR!');
+      i++;
+      tokens.push({ type: 'string', value });
+      continue;
+    }
+
+    const numberMatch = (dialect === 'excel' ? /^\d+(?:\.\d+)?/ : /^\d+(?:[.,]\d+)?/).exec(source.slice(i));
+    if (numberMatch) {
+      const text = numberMatch[0];
+      tokens.push({ type: 'number', value: parseFloat(text.replace(',', '.')), text });
+      i += text.length;
+      continue;
+    }
+
+    const rest = source.slice(i);
+    // Left behind when a referenced row or column was deleted
+    if (rest.toUpperCase().startsWith('#REF!')) throw new FormulaError('#REF!');
+
+    const refMatch = REF_PATTERN.exec(rest);
+    if (refMatch && !/^[A-Za-zÀ-ÿ0-9_.(]/.test(rest.slice(refMatch[0].length))) {
+      tokens.push({
+        type: 'ref',
+        col: columnIndexFromLabel(refMatch[2]),
+        row: parseInt(refMatch[4], 10) - 1,
+        text: refMatch[0].toUpperCase()
+      });
+      i += refMatch[0].length;
+      continue;
+    }
+
+    const nameMatch = /^[A-Za-zÀ-ÿ_][A-Za-zÀ-ÿ0-9_.]*/.exec(rest);
+    if (nameMatch) {
+      tokens.push({ type: 'name', value: nameMatch[0].toUpperCase() });
+      i += nameMatch[0].length;
+      continue;
+    }
+
+    const twoChar = source.slice(i, i + 2);
+    if (twoChar === '<=' || twoChar === '>=' || twoChar === '<>') {
+      tokens.push({ type: 'op', value: twoChar });
+      i += 2;
+      continue;
+    }
+
+    if ('+-*/^&=<>%'.includes(ch)) { tokens.push({ type: 'op', value: ch }); i++; continue; }
+    if (ch === '(') { tokens.push({ type: 'lparen' }); i++; continue; }
+    if (ch === ')') { tokens.push({ type: 'rparen' }); i++; continue; }
+    // In cells ',' is only a decimal mark: "SE(A1>=10,1,0)" would otherwise read as "10,1"
+    if (ch === ';' || (ch === ',' && dialect === 'excel')) { tokens.push({ type: 'sep' }); i++; continue; }
+    if (ch === ':') { tokens.push({ type: 'colon' }); i++; continue; }
+
+    throw new FormulaError('#VALOR!');
+  }
+
+  return tokens;
+};
+
+// --- Parser ---
+
+type Node =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'ref'; row: number; col: number }
+  | { kind: 'range'; r1: number; c1: number; r2: number; c2: number }
+  | { kind: 'unary'; op: string; operand: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+const parse = (tokens: Token[]): Node => {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isOp = (...ops: string[]) => {
+    const t = peek();
+    return t?.type === 'op' && ops.includes(t.value);
+  };
+
+  const parseComparison = (): Node => {
+    let left = parseConcat();
+    while (isOp('=', '<>', '<', '>', '<=', '>=')) {
+      const op = (tokens[pos++] as { value: string }).value;
+      left = { kind: 'binary', op, left, right: parseConcat() };
+    }
+    return left;
+  };
+
+  const parseConcat = (): Node => {
+    let left = parseAdditive();
+    while (isOp('&')) {
+      pos++;
+      left = { kind: 'binary', op: '&', left, right: parseAdditive() };
+    }
+    return left;
+  };
+
+  const parseAdditive = (): Node => {
+    let left = parseMultiplicative();
+    while (isOp('+', '-')) {
+      const op = (tokens[pos++] as { value: string }).value;
+      left = { kind: 'binary', op, left, right: parseMultiplicative() };
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): Node => {
+    let left = parsePower();
+    while (isOp('*', '/')) {
+      const op = (tokens[pos++] as { value: string }).value;
+      left = { kind: 'binary', op, left, right: parsePower() };
+    }
+    return left;
+  };
+
+  const parsePower = (): Node => {
+    let left = parseUnary();
+    while (isOp('^')) {
+      pos++;
+      left = { kind: 'binary', op: '^', left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Node => {
+    if (isOp('-', '+')) {
+      const op = (tokens[pos++] as { value: string }).value;
+      return { kind: 'unary', op, operand: parseUnary() };
+    }
+    let node = parsePrimary();
+    while (isOp('%')) {
+      pos++;
+      node = { kind: 'binary', op: '/', left: node, right: { kind: 'number', value: 100 } };
+    }
+    return node;
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[pos++];
+    if (!token) throw new FormulaError('#VALOR!');
+
+    switch (token.type) {
+      case 'number': return { kind: 'number', value: token.value };
+      case 'string': return { kind: 'string', value: token.value };
+      case 'ref': {
+        if (peek()?.type === 'colon') {
+          pos++;
+          const end = tokens[pos++];
+          if (!end || end.type !== 'ref') throw new FormulaError('#REF!');
+          return {
+            kind: 'range',
+            r1: Math.min(token.row, end.row),
+            c1: Math.min(token.col, end.col),
+            r2: Math.max(token.row, end.row),
+            c2: Math.max(token.col, end.col)
+          };
+        }
+        return { kind: 'ref', row: token.row, col: token.col };
+      }
+      case 'lparen': {
+        const inner = parseComparison();
+        if (tokens[pos++]?.type !== 'rparen') throw new FormulaError('#VALOR!');
+        return inner;
+      }
+      case 'name': {
+        if (peek()?.type === 'lparen') {
+          pos++;
+          const args: Node[] = [];
+          if (peek()?.type !== 'rparen') {
+            args.push(parseComparison());
+            while (peek()?.type === 'sep') {
+              pos++;
+              args.push(parseComparison());
+            }
+          }
+          if (tokens[pos++]?.type !== 'rparen') throw new FormulaError('#VALOR!');
+          return { kind: 'call', name: token.value, args };
+        }
+        if (token.value === 'VERDADEIRO' || token.value === 'TRUE') return { kind: 'boolean', value: true };
+        if (token.value === 'FALSO' || token.value === 'FALSE') return { kind: 'boolean', value: false };
+        throw new FormulaError('#NOME?');
+      }
+      default:
+        throw new FormulaError('#VALOR!');
+    }
+  };
+
+  const root = parseComparison();
+  if (pos < tokens.length) throw new FormulaError('#VALOR!');
+  return root;
+};
+
+// --- Evaluation ---
+
+type Scalar = number | string | boolean;
+type Value = Scalar | Scalar[];
+
+const normalizeName = (name: string) => stripAccents(name).toUpperCase();
+
+// Parses numbers typed as text, accepting the decimal comma used in Angola/Brazil
+export const parseNumeric = (value: CellValue | undefined): number | null => {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  const num = Number(trimmed.replace(',', '.'));
+  return isNaN(num) ? null : num;
+};
+
+const toNumber = (value: Scalar): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value === '') return 0;
+  const num = parseNumeric(value);
+  if (num === null) throw new FormulaError('#VALOR!');
+  return num;
+};
+
+const toText = (value: Scalar): string => {
+  if (typeof value === 'boolean') return value ? 'VERDADEIRO' : 'FALSO';
+  return String(value);
+};
+
+const toBoolean = (value: Scalar): boolean => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  const upper = value.toUpperCase();
+  if (upper === 'VERDADEIRO' || upper === 'TRUE') return true;
+  if (upper === 'FALSO' || upper === 'FALSE' || upper === '') return false;
+  return toNumber(value) !== 0;
+};
+
+const scalar = (value: Value): Scalar => {
+  if (Array.isArray(value)) {
+    if (value.length !== 1) throw new FormulaError('#VALOR!');
+    return value[0];
+  }
+  return value;
+};
+
+const compare = (left: Scalar, right: Scalar, op: string): boolean => {
+  const leftNum = typeof left === 'boolean' ? null : parseNumeric(left);
+  const rightNum = typeof right === 'boolean' ? null : parseNumeric(right);
+  let diff: number;
+  if (leftNum !== null && rightNum !== null) {
+    diff = leftNum - rightNum;
+  } else {
+    diff = toText(left).toLowerCase().localeCompare(toText(right).toLowerCase(), 'pt');
+  }
+  switch (op) {
+    case '=': return diff === 0;
+    case '<>': return diff !== 0;
+    case '<': return diff < 0;
+    case '>': return diff > 0;
+    case '<=': return diff <= 0;
+    case '>=': return diff >= 0;
+  }
+  return false;
+};
+
+// Numbers found in the arguments. Text and empty cells inside ranges are ignored,
+// as in Excel; numbers typed as text ("9,5") count as numbers.
+const collectNumbers = (args: Value[]): number[] => {
+  const numbers: number[] = [];
+  args.forEach(arg => {
+    if (Array.isArray(arg)) {
+      arg.forEach(v => {
+        const num = typeof v === 'boolean' ? null : parseNumeric(v);
+        if (num !== null) numbers.push(num);
+      });
+    } else {
+      numbers.push(toNumber(arg));
+    }
+  });
+  return numbers;
+};
+
+const matchesCriteria = (value: Scalar, criteria: Scalar): boolean => {
+  if (typeof criteria === 'string') {
+    const match = /^(<=|>=|<>|<|>|=)(.*)$/.exec(criteria);
+    if (match) return compare(value === '' ? '' : value, match[2], match[1]);
+  }
+  return compare(value, criteria, '=');
+};
+
+const roundTo = (value: number, digits: number) => {
+  const factor = Math.pow(10, digits);
+  return Math.sign(value) * Math.round(Math.abs(value) * factor + Number.EPSILON) / factor;
+};
+
+type FormulaFunction = (args: Node[], evaluate: (node: Node) => Value) => Value;
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  SOMA: (args, evaluate) => collectNumbers(args.map(evaluate)).reduce((a, b) => a + b, 0),
+  MEDIA: (args, evaluate) => {
+    const numbers = collectNumbers(args.map(evaluate));
+    if (numbers.length === 0) throw new FormulaError('#DIV/0!');
+    return numbers.reduce((a, b) => a + b, 0) / numbers.length;
+  },
+  MAXIMO: (args, evaluate) => {
+    const numbers = collectNumbers(args.map(evaluate));
+    return numbers.length === 0 ? 0 : Math.max(...numbers);
+  },
+  MINIMO: (args, evaluate) => {
+    const numbers = collectNumbers(args.map(evaluate));
+    return numbers.length === 0 ? 0 : Math.min(...numbers);
+  },
+  ARRED: (args, evaluate) => {
+    if (args.length < 1 || args.length > 2) throw new FormulaError('#VALOR!');
+    const value = toNumber(scalar(evaluate(args[0])));
+    const digits = args[1] ? Math.trunc(toNumber(scalar(evaluate(args[1])))) : 0;
+    return roundTo(value, digits);
+  },
+  SE: (args, evaluate) => {
+    if (args.length < 2 || args.length > 3) throw new FormulaError('#VALOR!');
+    const condition = toBoolean(scalar(evaluate(args[0])));
+    if (condition) return evaluate(args[1]);
+    return args[2] ? evaluate(args[2]) : false;
+  },
+  'CONT.SE': (args, evaluate) => {
+    if (args.length !== 2) throw new FormulaError('#VALOR!');
+    const range = evaluate(args[0]);
+    const criteria = scalar(evaluate(args[1]));
+    const values = Array.isArray(range) ? range : [range];
+    return values.filter(v => matchesCriteria(v, criteria)).length;
+  }
+};
+
+// English (Excel file) name -> normalized Portuguese name, and back
+const EXCEL_NAMES: Record<string, string> = {
+  SUM: 'SOMA',
+  AVERAGE: 'MEDIA',
+  MAX: 'MAXIMO',
+  MIN: 'MINIMO',
+  ROUND: 'ARRED',
+  IF: 'SE',
+  COUNTIF: 'CONT.SE'
+};
+
+const LOCAL_NAMES: Record<string, string> = {
+  SOMA: 'SOMA',
+  MEDIA: 'MÉDIA',
+  MAXIMO: 'MÁXIMO',
+  MINIMO: 'MÍNIMO',
+  ARRED: 'ARRED',
+  SE: 'SE',
+  'CONT.SE': 'CONT.SE'
+};
+
+const resolveFunction = (name: string): FormulaFunction | undefined => {
+  const normalized = normalizeName(name);
+  return FUNCTIONS[normalized] || FUNCTIONS[EXCEL_NAMES[normalized]];
+};
+
+export const FORMULA_FUNCTIONS = Object.values(LOCAL_NAMES);
+
+type CellReader = (r: number, c: number) => Scalar;
+
+const evaluateNode = (node: Node, read: CellReader): Value => {
+  const evaluate = (n: Node): Value => evaluateNode(n, read);
+
+  switch (node.kind) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value;
+    case 'ref':
+      return read(node.row, node.col);
+    case 'range': {
+      const values: Scalar[] = [];
+      for (let r = node.r1; r <= node.r2; r++) {
+        for (let c = node.c1; c <= node.c2; c++) {
+          values.push(read(r, c));
+        }
+      }
+      return values;
+    }
+    case 'unary': {
+      const value = toNumber(scalar(evaluate(node.operand)));
+      return node.op === '-' ? -value : value;
+    }
+    case 'binary': {
+      const left = scalar(evaluate(node.left));
+      const right = scalar(evaluate(node.right));
+      switch (node.op) {
+        case '+': return toNumber(left) + toNumber(right);
+        case '-': return toNumber(left) - toNumber(right);
+        case '*': return toNumber(left) * toNumber(right);
+        case '/': {
+          const divisor = toNumber(right);
+          if (divisor === 0) throw new FormulaError('#DIV/0!');
+          return toNumber(left) / divisor;
+        }
+        case '^': return Math.pow(toNumber(left), toNumber(right));
+        case '&': return toText(left) + toText(right);
+        default: return compare(left, right, node.op);
+      }
+    }
+    case 'call': {
+      const fn = resolveFunction(node.name);
+      if (!fn) throw new FormulaError('#NOME?');
+      return fn(node.args, evaluate);
+    }
+  }
+};
+
+const collectReferences = (node: Node, out: [number, number][]) => {
+  switch (node.kind) {
+    case 'ref':
+      out.push([node.row, node.col]);
+      break;
+    case 'range':
+      for (let r = node.r1; r <= node.r2; r++) {
+        for (let c = node.c1; c <= node.c2; c++) out.push([r, c]);
+      }
+      break;
+    case 'unary':
+      collectReferences(node.operand, out);
+      break;
+    case 'binary':
+      collectReferences(node.left, out);
+      collectReferences(node.right, out);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectReferences(arg, out));
+      break;
+  }
+};
+
+const finalize = (value: Value): CellValue => {
+  const result = scalar(value);
+  if (typeof result === 'number') {
+    if (!isFinite(result)) throw new FormulaError('#VALOR!');
+    // Hide binary floating point noise such as 0.1 + 0.2
+    return parseFloat(result.toPrecision(12));
+  }
+  return result;
+};
+
+interface CompiledFormula {
+  source: string;
+  ast: Node | null;
+  error?: FormulaErrorCode;
+  references: [number, number][];
+}
+
+const compile = (source: string): CompiledFormula => {
+  try {
+    const ast = parse(tokenize(source.slice(1)));
+    const references: [number, number][] = [];
+    collectReferences(ast, references);
+    return { source, ast, references };
+  } catch (e) {
+    const code = e instanceof FormulaError ? e.code : '#VALOR!';
+    return { source, ast: null, error: code, references: [] };
+  }
+};
+
+// --- Dialect translation (Excel files store formulas in English with ',' separators) ---
+
+const serialize = (tokens: Token[], dialect: Dialect): string =>
+  tokens.map(token => {
+    switch (token.type) {
+      case 'number': return dialect === 'excel' ? String(token.value) : token.text;
+      case 'string': return `"${token.value.replace(/"/g, '""')}"`;
+      case 'ref': return token.text;
+      case 'name': {
+        const normalized = normalizeName(token.value);
+        if (dialect === 'excel') {
+          const english = Object.keys(EXCEL_NAMES).find(k => EXCEL_NAMES[k] === normalized);
+          return english || token.value;
+        }
+        const local = LOCAL_NAMES[EXCEL_NAMES[normalized] || normalized];
+        return local || token.value;
+      }
+      case 'op': return token.value;
+      case 'lparen': return '(';
+      case 'rparen': return ')';
+      case 'sep': return dialect === 'excel' ? ',' : ';';
+      case 'colon': return ':';
+    }
+  }).join('');
+
+// What a token means, whatever the dialect it was written in
+const tokenMeaning = (token: Token) => {
+  switch (token.type) {
+    case 'number': return `n:${token.value}`;
+    case 'string': return `s:${token.value}`;
+    case 'ref': return `r:${token.text}`;
+    case 'name': {
+      const normalized = normalizeName(token.value);
+      return `f:${EXCEL_NAMES[normalized] || normalized}`;
+    }
+    case 'op': return `o:${token.value}`;
+    default: return token.type;
+  }
+};
+
+// Translates between dialects, checking that the result reads back as the same
+// formula: "IF(A1>=10,1,0)" must keep its three arguments, not become "10,1"
+const translate = (source: string, from: Dialect, to: Dialect): string => {
+  const tokens = tokenize(source, from);
+  const result = serialize(tokens, to);
+  const readBack = tokenize(result, to);
+  if (readBack.length !== tokens.length || readBack.some((token, i) => tokenMeaning(token) !== tokenMeaning(tokens[i]))) {
+    console.warn("Educa-Lukunde: Formula changed meaning when converted.", source, result);
+  }
+  return result;
+};
+
+/** Converts a cell formula ("=MÉDIA(A1;B1)") to the Excel file syntax ("AVERAGE(A1,B1)"). */
+export const toExcelFormula = (formula: string): string => {
+  const body = formula.startsWith('=') ? formula.slice(1) : formula;
+  try {
+    return translate(body, 'local', 'excel');
+  } catch (e) {
+    return body;
+  }
+};
+
+/** Converts an Excel file formula ("AVERAGE(A1,B1)") to the cell syntax ("=MÉDIA(A1;B1)"). */
+export const fromExcelFormula = (formula: string): string => {
+  try {
+    return '=' + translate(formula, 'excel', 'local');
+  } catch (e) {
+    return '=' + formula;
+  }
+};
+
+/**
+ * Moves the relative references of a formula by (dr, dc), as when a formula is
+ * filled down or pasted elsewhere. "$" keeps a row or column fixed.
+ */
+export const shiftFormula = (formula: string, dr: number, dc: number): string => {
+  if (!isFormula(formula) || (dr === 0 && dc === 0)) return formula;
+  let tokens: Token[];
+  try {
+    tokens = tokenize(formula.slice(1));
+  } catch (e) {
+    return formula;
+  }
+
+  const shifted = tokens.map(token => {
+    if (token.type !== 'ref') return token;
+    const match = REF_PATTERN.exec(token.text)!;
+    const col = match[1] ? token.col : token.col + dc;
+    const row = match[3] ? token.row : token.row + dr;
+    if (col < 0 || row < 0) return { ...token, text: '#REF!' };
+    return { ...token, row, col, text: `${match[1]}${columnLabel(col)}${match[3]}${row + 1}` };
+  });
+  return '=' + serialize(shifted, 'local');
+};
+
+export type IndexMap = (index: number) => number | null;
+
+// New [start, end] of a referenced span: the smallest span holding every cell that
+// survived (moves and sorts can reorder them), or null when all were deleted.
+const remapSpan = (a: number, b: number, map: IndexMap): [number, number] | null => {
+  let first = Infinity;
+  let last = -Infinity;
+  for (let i = Math.min(a, b); i <= Math.max(a, b); i++) {
+    const index = map(i);
+    if (index === null) continue;
+    if (index < first) first = index;
+    if (index > last) last = index;
+  }
+  return first === Infinity ? null : [first, last];
+};
+
+const withPosition = (token: Extract<Token, { type: 'ref' }>, row: number, col: number): Token => {
+  const match = REF_PATTERN.exec(token.text)!;
+  return { ...token, row, col, text: `${match[1]}${columnLabel(col)}${match[3]}${row + 1}` };
+};
+
+/**
+ * Rewrites the references of a formula after rows or columns were inserted, deleted
+ * or moved. `mapRow`/`mapCol` give the new index of an old one, or null if it was
+ * deleted. Unlike shiftFormula, absolute references follow their cells too.
+ */
+export const remapFormula = (formula: string, mapRow: IndexMap, mapCol: IndexMap): string => {
+  if (!isFormula(formula)) return formula;
+  let tokens: Token[];
+  try {
+    tokens = tokenize(formula.slice(1));
+  } catch (e) {
+    return formula;
+  }
+
+  const out: Token[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== 'ref') {
+      out.push(token);
+      continue;
+    }
+
+    const next = tokens[i + 2];
+    if (tokens[i + 1]?.type === 'colon' && next?.type === 'ref') {
+      const rows = remapSpan(token.row, next.row, mapRow);
+      const cols = remapSpan(token.col, next.col, mapCol);
+      if (!rows || !cols) {
+        out.push({ ...token, text: '#REF!' });
+      } else {
+        out.push(withPosition(token, rows[0], cols[0]), tokens[i + 1], withPosition(next, rows[1], cols[1]));
+      }
+      i += 2;
+      continue;
+    }
+
+    const row = mapRow(token.row);
+    const col = mapCol(token.col);
+    out.push(row === null || col === null ? { ...token, text: '#REF!' } : withPosition(token, row, col));
+  }
+  return '=' + serialize(out, 'local');
+};
+
+// --- Engine with dependency graph ---
+
+/**
+ * Keeps the computed values of one sheet. Each call to `compute` diffs the new data
+ * against the previous one (rows are compared by reference, so immutable updates
+ * are cheap) and only re-evaluates the changed cells and everything downstream.
+ */
+export class FormulaEngine {
+  private data: SheetData = [];
+  private values: SheetData = [];
+  private formulas = new Map<string, CompiledFormula>();
+  private results = new Map<string, CellValue>();
+  private dependents = new Map<string, Set<string>>();
+
+  compute(data: SheetData): SheetData {
+    if (data === this.data) return this.values;
+
+    const changed = this.diff(this.data, data);
+    const previous = this.data;
+    this.data = data;
+
+    changed.forEach(([r, c]) => {
+      const key = cellKey(r, c);
+      const oldRaw = previous[r]?.[c];
+      const newRaw = data[r]?.[c];
+      if (isFormula(oldRaw)) this.unregister(key);
+      if (isFormula(newRaw)) this.register(key, newRaw);
+    });
+
+    // Every formula downstream of a changed cell must be re-evaluated
+    const dirty = new Set<string>();
+    const queue = changed.map(([r, c]) => cellKey(r, c));
+    const seen = new Set(queue);
+    while (queue.length > 0) {
+      const key = queue.pop()!;
+      if (this.formulas.has(key)) dirty.add(key);
+      this.dependents.get(key)?.forEach(dep => {
+        if (!seen.has(dep)) {
+          seen.add(dep);
+          queue.push(dep);
+        }
+      });
+    }
+
+    const fresh = new Set<string>();
+    const stack = new Set<string>();
+
+    const evaluateCell = (key: string): CellValue => {
+      if (fresh.has(key)) return this.results.get(key) ?? null;
+      const compiled = this.formulas.get(key)!;
+      if (stack.has(key)) throw new FormulaError('#CICLO!');
+
+      stack.add(key);
+      let result: CellValue;
+      try {
+        if (!compiled.ast) throw new FormulaError(compiled.error || '#VALOR!');
+        result = finalize(evaluateNode(compiled.ast, read));
+      } catch (e) {
+        if (!(e instanceof FormulaError)) throw e;
+        result = e.code;
+      } finally {
+        stack.delete(key);
+      }
+      this.results.set(key, result);
+      fresh.add(key);
+      return result;
+    };
+
+    const read: CellReader = (r, c) => {
+      if (r < 0 || c < 0) throw new FormulaError('#REF!');
+      const key = cellKey(r, c);
+      let value: CellValue | undefined;
+      if (this.formulas.has(key)) {
+        value = dirty.has(key) ? evaluateCell(key) : this.results.get(key);
+      } else {
+        value = data[r]?.[c];
+      }
+      if (isErrorValue(value)) throw new FormulaError(value as FormulaErrorCode);
+      return value === null || value === undefined ? '' : value;
+    };
+
+    dirty.forEach(key => evaluateCell(key));
+
+    // Rebuild only the rows whose data or computed values changed
+    const values = this.values.slice(0, data.length);
+    const touchedRows = new Set<number>();
+    changed.forEach(([r]) => touchedRows.add(r));
+    dirty.forEach(key => touchedRows.add(Number(key.split(':')[0])));
+
+    touchedRows.forEach(r => {
+      if (r >= data.length) return;
+      const raw = data[r];
+      if (!raw) {
+        values[r] = raw;
+        return;
+      }
+      const row = [...raw];
+      raw.forEach((cell, c) => {
+        if (isFormula(cell)) row[c] = this.results.get(cellKey(r, c)) ?? null;
+      });
+      values[r] = row;
+    });
+
+    this.values = values;
+    return values;
+  }
+
+  private diff(oldData: SheetData, newData: SheetData): [number, number][] {
+    const changed: [number, number][] = [];
+    const rows = Math.max(oldData.length, newData.length);
+    for (let r = 0; r < rows; r++) {
+      const oldRow = oldData[r];
+      const newRow = newData[r];
+      if (oldRow === newRow) continue;
+      const cols = Math.max(oldRow?.length || 0, newRow?.length || 0);
+      for (let c = 0; c < cols; c++) {
+        if (oldRow?.[c] !== newRow?.[c]) changed.push([r, c]);
+      }
+      // Rows that became empty or appeared still need their values row rebuilt
+      if (cols === 0) changed.push([r, 0]);
+    }
+    return changed;
+  }
+
+  private register(key: string, source: string) {
+    const compiled = compile(source);
+    this.formulas.set(key, compiled);
+    compiled.references.forEach(([r, c]) => {
+      const refKey = cellKey(r, c);
+      if (!this.dependents.has(refKey)) this.dependents.set(refKey, new Set());
+      this.dependents.get(refKey)!.add(key);
+    });
+  }
+
+  private unregister(key: string) {
+    const compiled = this.formulas.get(key);
+    if (!compiled) return;
+    compiled.references.forEach(([r, c]) => {
+      const refKey = cellKey(r, c);
+      const set = this.dependents.get(refKey);
+      if (set) {
+        set.delete(key);
+        if (set.size === 0) this.dependents.delete(refKey);
+      }
+    });
+    this.formulas.delete(key);
+    this.results.delete(key);
+  }
+}
+
+/** One-off evaluation of a whole sheet (exports, analysis). */
+export const evaluateSheet = (data: SheetData): SheetData => new FormulaEngine().compute(data);
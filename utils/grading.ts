@@ -0,0 +1,204 @@
+import { CellValue, ConditionalRule, ConditionalStyle, GradingScheme, SheetData } from '../types';
+import { generateUUID } from './excelUtils';
+import { parseNumeric } from './formulaEngine';
+import { normalizeText } from './textUtils';
+
+export const findHeaderIndex = (headers: CellValue[], name: string | undefined) => {
+  if (!name || !name.trim()) return -1;
+  const target = normalizeText(name);
+  return headers.findIndex(h => normalizeText(h) === target);
+};
+
+const baseScheme = (): Omit<GradingScheme, 'components'> => ({
+  scaleMin: 0,
+  scaleMax: 10,
+  passThreshold: 5,
+  roundingMode: 'round',
+  decimals: 1,
+  averageHeader: 'Média',
+  passLabel: 'Aprovado',
+  failLabel: 'Reprovado'
+});
+
+// Classic two-test average: (Nota 1 + Nota 2) / 2 on a 0–10 scale
+const twoTestScheme = (headers: CellValue[]): GradingScheme => {
+  const names = headers.map(normalizeText);
+  const col1 = names.findIndex(h => h.includes('nota 1') || h === 'p1' || h === 'n1');
+  const col2 = names.findIndex(h => h.includes('nota 2') || h === 'p2' || h === 'n2');
+  return {
+    ...baseScheme(),
+    components: [
+      { id: generateUUID(), label: 'Nota 1', columnIndex: col1, weight: 1 },
+      { id: generateUUID(), label: 'Nota 2', columnIndex: col2, weight: 1 }
+    ]
+  };
+};
+
+// Trimester average used in Angolan schools: MT = (MAC + NPP + NPT) / 3 on a 0–20 scale
+const trimesterScheme = (headers: CellValue[]): GradingScheme => {
+  const names = headers.map(normalizeText);
+  const find = (label: string) => names.findIndex(h => h === label.toLowerCase() || h.startsWith(`${label.toLowerCase()} `));
+  return {
+    ...baseScheme(),
+    scaleMax: 20,
+    passThreshold: 10,
+    roundingMode: 'round',
+    decimals: 0,
+    averageHeader: names.includes('mt') ? 'MT' : 'Média',
+    resultHeader: 'Resultado',
+    components: ['MAC', 'NPP', 'NPT'].map(label => ({
+      id: generateUUID(),
+      label,
+      columnIndex: find(label),
+      weight: 1
+    }))
+  };
+};
+
+export const GRADING_PRESETS: { name: string; build: (headers: CellValue[]) => GradingScheme }[] = [
+  { name: '0–10 · (Nota 1 + Nota 2) / 2', build: twoTestScheme },
+  { name: '0–20 · Trimestral (MAC, NPP, NPT)', build: trimesterScheme }
+];
+
+/**
+ * Guesses a scheme from the header row when the sheet has none configured.
+ * Returns null when no component column could be found.
+ */
+export const detectGradingScheme = (headers: CellValue[]): GradingScheme | null => {
+  for (const preset of [...GRADING_PRESETS].reverse()) {
+    const scheme = preset.build(headers);
+    if (scheme.components.every(c => c.columnIndex !== -1)) return scheme;
+  }
+  return null;
+};
+
+export const isSchemeComplete = (scheme: GradingScheme) =>
+  scheme.components.length > 0 &&
+  scheme.components.every(c => c.columnIndex >= 0) &&
+  scheme.components.some(c => c.weight > 0);
+
+const applyRounding = (value: number, scheme: GradingScheme): number => {
+  const factor = Math.pow(10, Math.max(0, scheme.decimals));
+  switch (scheme.roundingMode) {
+    case 'round': return Math.round(value * factor + Number.EPSILON) / factor;
+    case 'floor': return Math.floor(value * factor + Number.EPSILON) / factor;
+    case 'ceil': return Math.ceil(value * factor - Number.EPSILON) / factor;
+    default: return value;
+  }
+};
+
+export interface GradeResult {
+  average: number;
+  display: string;
+  passed: boolean;
+}
+
+/**
+ * Weighted average of one student row. `values` are the computed values of the row
+ * (formula results), `raw` is what was typed, used to keep the decimal comma.
+ * Returns null while any component grade is missing or not a number.
+ */
+export const computeGrade = (values: CellValue[], raw: CellValue[], scheme: GradingScheme): GradeResult | null => {
+  if (!isSchemeComplete(scheme)) return null;
+
+  let weighted = 0;
+  let totalWeight = 0;
+  let useComma = false;
+
+  for (const component of scheme.components) {
+    const num = parseNumeric(values[component.columnIndex]);
+    if (num === null) return null;
+    weighted += num * component.weight;
+    totalWeight += component.weight;
+    if (String(raw[component.columnIndex] ?? "").includes(',')) useComma = true;
+  }
+
+  const average = applyRounding(weighted / totalWeight, scheme);
+  const text = scheme.roundingMode === 'none'
+    ? String(parseFloat(average.toPrecision(12)))
+    : average.toFixed(Math.max(0, scheme.decimals));
+
+  return {
+    average,
+    display: useComma ? text.replace('.', ',') : text,
+    passed: average >= scheme.passThreshold
+  };
+};
+
+const ensureLength = (row: CellValue[], index: number) => {
+  while (row.length <= index) row.push("");
+};
+
+/**
+ * Writes average (and result label) into a copied row. Returns true when the row
+ * had all component grades.
+ */
+export const applyGradeToRow = (
+  row: CellValue[],
+  values: CellValue[],
+  scheme: GradingScheme,
+  averageCol: number,
+  resultCol: number
+): boolean => {
+  const grade = computeGrade(values, row, scheme);
+  if (!grade) return false;
+
+  ensureLength(row, averageCol);
+  row[averageCol] = grade.display;
+  if (resultCol !== -1) {
+    ensureLength(row, resultCol);
+    row[resultCol] = grade.passed ? scheme.passLabel : scheme.failLabel;
+  }
+  return true;
+};
+
+/**
+ * Bulk calculation over the whole sheet. Creates the average/result columns
+ * at the end of the header row when they do not exist yet.
+ */
+export const applyGradingScheme = (data: SheetData, values: SheetData, scheme: GradingScheme) => {
+  const newData = data.map(row => row ? [...row] : []);
+  const header = newData[0];
+
+  let averageCol = findHeaderIndex(header, scheme.averageHeader);
+  if (averageCol === -1) {
+    header.push(scheme.averageHeader);
+    averageCol = header.length - 1;
+  }
+
+  let resultCol = findHeaderIndex(header, scheme.resultHeader);
+  if (resultCol === -1 && scheme.resultHeader?.trim()) {
+    header.push(scheme.resultHeader.trim());
+    resultCol = header.length - 1;
+  }
+
+  let updatedCount = 0;
+  for (let i = 1; i < newData.length; i++) {
+    if (applyGradeToRow(newData[i], values[i] || newData[i], scheme, averageCol, resultCol)) {
+      updatedCount++;
+    }
+  }
+
+  return { data: newData, averageCol, resultCol, updatedCount };
+};
+
+/** Red/green highlighting of the average and result columns at the pass threshold. */
+export const buildGradingRules = (
+  scheme: GradingScheme,
+  averageCol: number,
+  resultCol: number,
+  failStyle: ConditionalStyle,
+  passStyle: ConditionalStyle
+): ConditionalRule[] => {
+  const rules: ConditionalRule[] = [
+    { id: generateUUID(), columnIndex: averageCol, condition: 'lt', value: scheme.passThreshold, style: failStyle },
+    { id: generateUUID(), columnIndex: averageCol, condition: 'gte', value: scheme.passThreshold, style: passStyle }
+  ];
+  if (resultCol !== -1) {
+    rules.push(
+      { id: generateUUID(), columnIndex: resultCol, condition: 'eq', value: scheme.failLabel, style: failStyle },
+      { id: generateUUID(), columnIndex: resultCol, condition: 'eq', value: scheme.passLabel, style: passStyle }
+    );
+  }
+  return rules;
+};
@@ -0,0 +1,380 @@
+import * as XLSX from 'xlsx';
+import { CellStyle, CellValue, ColumnType, Sheet, SheetData, ValidationRule } from '../types';
+import { isFormula, parseNumeric } from './formulaEngine';
+import { normalizeText } from './textUtils';
+import { applyWorksheetFormulas, generateUUID } from './excelUtils';
+import { applyStructureAction } from './sheetStructure';
+import { CsvOptions, decodeText, fileBaseName, parseCSV } from './fileFormats';
+import { readXlsxFormatting, XlsxSheetFormatting } from './xlsxStyles';
+
+/** Formatting carried from the file into the imported sheet. */
+export type SheetLayout = Pick<Sheet, 'cellStyles' | 'merges' | 'columnWidths' | 'frozenRows' | 'frozenColumns' | 'hiddenRows' | 'hiddenColumns'>;
+
+/** A worksheet as read from a file, before the user picks the header row. */
+export interface ImportSource {
+  name: string;
+  data: SheetData;
+  merges: XLSX.Range[];
+  layout?: SheetLayout;
+}
+
+export interface ColumnProfile {
+  type: ColumnType;
+  filled: number;
+  min?: number;
+  max?: number;
+  distinct: string[]; // Up to MAX_DISTINCT values, for list rules
+}
+
+// Official pautas start with a few title lines; the header is looked for near the top
+const HEADER_SCAN_ROWS = 25;
+const MAX_DISTINCT = 12;
+const HEADER_KEYWORDS = [
+  'n', 'no', 'nº', 'n.º', 'numero', 'nome', 'nome completo', 'aluno', 'turma', 'classe', 'sexo', 'idade',
+  'media', 'mac', 'npp', 'npt', 'mt', 'mf', 'cf', 'resultado', 'obs', 'observacoes', 'nota', 'data', 'data de nascimento', 'processo'
+];
+
+const isBlank = (value: CellValue | undefined) =>
+  value === null || value === undefined || String(value).trim() === "";
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const LOCAL_DATE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Excel serial day number (1 = 1900-01-01) as "AAAA-MM-DD". Excel counts a
+ * 29 February 1900 that never existed (serial 60): it is not a date, and the
+ * serials before it count from one day later than the ones after it.
+ */
+export const serialToISODate = (serial: number): string | null => {
+  const day = Math.floor(serial);
+  if (!isFinite(day) || day < 1 || day === 60) return null;
+  const date = new Date(Date.UTC(1899, 11, day < 60 ? 31 : 30) + day * DAY_MS);
+  if (date.getUTCFullYear() > 9999) return null;
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+// "25/03/2010" (day first, as written in Angola) as "2010-03-25"
+const toISODate = (value: CellValue): string | null => {
+  if (typeof value === 'string') {
+    const text = value.trim();
+    if (ISO_DATE.test(text)) return text;
+    const match = LOCAL_DATE.exec(text);
+    if (match) {
+      const day = Number(match[1]);
+      const month = Number(match[2]);
+      if (day >= 1 && day <= 31 && month >= 1 && month <= 12) return `${match[3]}-${pad(month)}-${pad(day)}`;
+    }
+  }
+  return null;
+};
+
+const looksLikeDateHeader = (header: CellValue) => /\b(data|nascimento|nasc)\b/.test(normalizeText(header));
+
+// Cells with a date number format hold serial numbers; keep them as dates instead
+const applyWorksheetDates = (ws: XLSX.WorkSheet, data: SheetData) => {
+  if (!ws['!ref']) return;
+  const range = XLSX.utils.decode_range(ws['!ref']);
+
+  Object.keys(ws).forEach(address => {
+    if (address.startsWith('!')) return;
+    const cell = ws[address] as XLSX.CellObject;
+    if (cell.t !== 'n' || cell.f || typeof cell.v !== 'number' || !cell.z || !XLSX.SSF.is_date(cell.z)) return;
+
+    const { r, c } = XLSX.utils.decode_cell(address);
+    const row = data[r - range.s.r];
+    const iso = serialToISODate(cell.v);
+    if (row && iso) row[c - range.s.c] = iso;
+  });
+};
+
+// Styles, widths, hidden rows/columns and frozen panes, relative to the top-left of the used range
+const readSheetLayout = (ws: XLSX.WorkSheet, merges: XLSX.Range[], formatting?: XlsxSheetFormatting): SheetLayout => {
+  const range = ws['!ref'] ? XLSX.utils.decode_range(ws['!ref']) : null;
+  const top = range?.s.r || 0;
+  const left = range?.s.c || 0;
+
+  const cellStyles: (CellStyle | null)[][] = [];
+  const setStyle = (r: number, c: number, style: CellStyle) => {
+    if (r < 0 || c < 0) return;
+    if (!cellStyles[r]) cellStyles[r] = [];
+    cellStyles[r][c] = { ...(cellStyles[r][c] || {}), ...style };
+  };
+  formatting?.styles.forEach(({ r, c, style }) => setStyle(r - top, c - left, style));
+
+  // Number formats are read by SheetJS for every file type; dates are already text
+  Object.keys(ws).forEach(address => {
+    if (address.startsWith('!')) return;
+    const cell = ws[address] as XLSX.CellObject;
+    if (cell.t !== 'n' || !cell.z || cell.z === 'General' || XLSX.SSF.is_date(cell.z)) return;
+    const { r, c } = XLSX.utils.decode_cell(address);
+    setStyle(r - top, c - left, { numberFormat: String(cell.z) });
+  });
+
+  const cols = (ws['!cols'] || []).slice(left);
+  const rows = (ws['!rows'] || []).slice(top);
+  return {
+    cellStyles: cellStyles.length > 0 ? Array.from(cellStyles, row => row ? Array.from(row, style => style || null) : []) : undefined,
+    merges: merges.length > 0 ? merges.map(m => ({ r1: m.s.r, c1: m.s.c, r2: m.e.r, c2: m.e.c })) : undefined,
+    columnWidths: cols.some(col => col?.wpx) ? Array.from(cols, col => col?.wpx ? Math.round(col.wpx) : null) : undefined,
+    hiddenColumns: cols.flatMap((col, c) => col?.hidden ? [c] : []),
+    hiddenRows: rows.flatMap((row, r) => row?.hidden ? [r] : []),
+    frozenRows: Math.max(0, (formatting?.frozenRows || 0) - top) || undefined,
+    frozenColumns: Math.max(0, (formatting?.frozenColumns || 0) - left) || undefined
+  };
+};
+
+// Fonts, fills, borders and frozen panes are only read from .xlsx files (zip archives)
+const readFormatting = (data: string): Map<string, XlsxSheetFormatting> => {
+  if (!data.startsWith('PK')) return new Map();
+  try {
+    return readXlsxFormatting(data);
+  } catch (error) {
+    console.error("Educa-Lukunde: Could not read cell formatting.", error);
+    return new Map();
+  }
+};
+
+/** Reads every worksheet of a file with its formulas, dates and merged areas. */
+export const readWorkbookFile = async (file: File): Promise<ImportSource[]> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = (e) => {
+      try {
+        const binary = e.target?.result as string;
+        const workbook = XLSX.read(binary, { type: 'binary', cellFormula: true, cellNF: true, cellStyles: true });
+        const formatting = readFormatting(binary);
+
+        resolve(workbook.SheetNames.map(name => {
+          const ws = workbook.Sheets[name];
+          const range = ws['!ref'] ? XLSX.utils.decode_range(ws['!ref']) : null;
+          const data = XLSX.utils.sheet_to_json(ws, { header: 1, blankrows: true, defval: "" }) as SheetData;
+          applyWorksheetFormulas(ws, data);
+          applyWorksheetDates(ws, data);
+          // Merge coordinates relative to the data, which starts at the top-left of the used range
+          const merges = (ws['!merges'] || []).map(m => range ? {
+            s: { r: m.s.r - range.s.r, c: m.s.c - range.s.c },
+            e: { r: m.e.r - range.s.r, c: m.e.c - range.s.c }
+          } : m);
+          return { name, data: trimTrailingEmpty(data), merges, layout: readSheetLayout(ws, merges, formatting.get(name)) };
+        }));
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    reader.onerror = (error) => reject(error);
+    reader.readAsBinaryString(file);
+  });
+};
+
+/** A CSV file as a single source, named after the file. */
+export const readCsvSource = (fileName: string, bytes: Uint8Array, options: CsvOptions): ImportSource => ({
+  name: fileBaseName(fileName),
+  data: trimTrailingEmpty(parseCSV(decodeText(bytes, options.encoding), options)),
+  merges: []
+});
+
+/**
+ * Copies the value of each merged cell over its whole merge area in the top rows,
+ * so vertically merged titles ("Nº" over two rows) reach the header row.
+ */
+export const fillMergedCells = (data: SheetData, merges: XLSX.Range[], upToRow = HEADER_SCAN_ROWS): SheetData => {
+  const filled = data.map(row => Array.isArray(row) ? [...row] : []);
+  merges.forEach(({ s, e }) => {
+    if (s.r >= upToRow) return;
+    const value = filled[s.r]?.[s.c];
+    if (isBlank(value)) return;
+    for (let r = s.r; r <= Math.min(e.r, upToRow - 1); r++) {
+      while (filled.length <= r) filled.push([]);
+      for (let c = s.c; c <= e.c; c++) {
+        if (isBlank(filled[r][c])) filled[r][c] = value;
+      }
+    }
+  });
+  return filled;
+};
+
+/**
+ * Index of the row that most looks like the column headers: several distinct
+ * text cells, ideally known names (Nome, Nº, MAC...). Title lines have a single
+ * (possibly merged) value, and data rows are mostly numbers.
+ */
+export const detectHeaderRow = (data: SheetData): number => {
+  let best = 0;
+  let bestScore = -Infinity;
+
+  for (let r = 0; r < Math.min(HEADER_SCAN_ROWS, data.length); r++) {
+    const row = data[r];
+    if (!Array.isArray(row)) continue;
+    const values = [...new Set(row.filter(v => !isBlank(v)).map(v => String(v).trim()))];
+    if (values.length < 2) continue;
+
+    const texts = values.filter(v => parseNumeric(v) === null && !isFormula(v));
+    const keywords = texts.filter(v => HEADER_KEYWORDS.includes(normalizeText(v))).length;
+    let score = values.length + texts.length * 2 + keywords * 3;
+    if (texts.length < values.length / 2) score -= values.length * 3;
+
+    if (score > bestScore) {
+      best = r;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/** Drops empty rows at the end and columns that are empty in every row. */
+export const trimTrailingEmpty = (data: SheetData): SheetData => {
+  let lastRow = data.length - 1;
+  while (lastRow >= 0 && (!Array.isArray(data[lastRow]) || data[lastRow].every(isBlank))) lastRow--;
+
+  let width = 0;
+  for (let r = 0; r <= lastRow; r++) {
+    const row = data[r] || [];
+    for (let c = row.length - 1; c >= width; c--) {
+      if (!isBlank(row[c])) {
+        width = c + 1;
+        break;
+      }
+    }
+  }
+  return data.slice(0, lastRow + 1).map(row => {
+    const cells = (Array.isArray(row) ? row : []).slice(0, width);
+    while (cells.length < width) cells.push("");
+    return cells;
+  });
+};
+
+/** Header names for the chosen row, taking names from the row above for repeated ones ("MAC 1º Trimestre"). */
+export const buildHeaders = (data: SheetData, headerRow: number): CellValue[] => {
+  const row = data[headerRow] || [];
+  const above = headerRow > 0 ? data[headerRow - 1] || [] : [];
+  const counts = new Map<string, number>();
+  row.forEach(v => {
+    if (!isBlank(v)) counts.set(normalizeText(v), (counts.get(normalizeText(v)) || 0) + 1);
+  });
+  return row.map((value, c) => {
+    if (isBlank(value)) return isBlank(above[c]) ? "" : above[c];
+    const parent = above[c];
+    if ((counts.get(normalizeText(value)) || 0) > 1 && !isBlank(parent) && normalizeText(parent) !== normalizeText(value)) {
+      return `${String(value).trim()} ${String(parent).trim()}`;
+    }
+    return value;
+  });
+};
+
+/** Type of a column from its values below the header; 80% of the filled cells must agree. */
+export const profileColumn = (header: CellValue, values: CellValue[]): ColumnProfile => {
+  const filled = values.filter(v => !isBlank(v) && !isFormula(v));
+  const distinct = [...new Set(filled.map(v => String(v).trim()))];
+  const profile: ColumnProfile = { type: 'empty', filled: filled.length, distinct: distinct.slice(0, MAX_DISTINCT + 1) };
+  if (filled.length === 0) return profile;
+
+  const numbers = filled.map(v => parseNumeric(v)).filter((n): n is number => n !== null);
+  const dates = filled.filter(v => toISODate(v) !== null).length;
+  // Date cells without a date format arrive as serial numbers
+  const serials = looksLikeDateHeader(header)
+    ? numbers.filter(n => Number.isInteger(n) && n > 3000 && n < 80000).length
+    : 0;
+
+  if ((dates + serials) / filled.length >= 0.8) {
+    profile.type = 'date';
+  } else if (numbers.length / filled.length >= 0.8) {
+    profile.type = 'number';
+    profile.min = Math.min(...numbers);
+    profile.max = Math.max(...numbers);
+  } else {
+    profile.type = 'text';
+  }
+  return profile;
+};
+
+export const profileColumns = (data: SheetData, headerRow: number, headers: CellValue[]): ColumnProfile[] => {
+  const width = data.reduce((max, row) => Math.max(max, Array.isArray(row) ? row.length : 0), 0);
+  const body = data.slice(headerRow + 1);
+  return Array.from({ length: width }, (_, c) => profileColumn(headers[c], body.map(row => row?.[c])));
+};
+
+/** Validation rules suggested by the column types, e.g. grades between 0 and 20. */
+export const proposeValidationRules = (headers: CellValue[], profiles: ColumnProfile[], types: ColumnType[]): ValidationRule[] => {
+  const rules: ValidationRule[] = [];
+  types.forEach((type, columnIndex) => {
+    const profile = profiles[columnIndex];
+    const name = String(headers[columnIndex] ?? "").trim() || `coluna ${columnIndex + 1}`;
+
+    if (type === 'number' && profile?.min !== undefined && profile.max !== undefined && profile.min >= 0) {
+      // Grades use a 0-10 or 0-20 scale; other counts only need to be positive
+      const scale = profile.max <= 10 ? 10 : profile.max <= 20 ? 20 : undefined;
+      rules.push({
+        id: generateUUID(),
+        columnIndex,
+        type: 'number',
+        min: '0',
+        max: scale ? String(scale) : undefined,
+        errorMessage: scale ? `${name}: o valor deve estar entre 0 e ${scale}.` : `${name}: o valor não pode ser negativo.`
+      });
+    } else if (type === 'date') {
+      rules.push({ id: generateUUID(), columnIndex, type: 'date', errorMessage: `${name}: data inválida (use AAAA-MM-DD).` });
+    } else if (type === 'text' && profile) {
+      const emails = profile.distinct.filter(v => EMAIL.test(v)).length;
+      if (profile.distinct.length > 0 && emails === profile.distinct.length && profile.distinct.length <= MAX_DISTINCT) {
+        rules.push({ id: generateUUID(), columnIndex, type: 'email' });
+      } else if (profile.distinct.length >= 2 && profile.distinct.length <= 6 && profile.filled >= profile.distinct.length * 3) {
+        // Few repeated values (Sexo, Turma...) become a dropdown list
+        rules.push({ id: generateUUID(), columnIndex, type: 'list', options: [...profile.distinct].sort(), errorMessage: `${name}: escolha um valor da lista.` });
+      }
+    }
+  });
+  return rules;
+};
+
+// Numbers typed as text become numbers, and dates become "AAAA-MM-DD"
+const convertValue = (value: CellValue, type: ColumnType): CellValue => {
+  if (isBlank(value) || isFormula(value)) return value;
+  if (type === 'number') {
+    const num = parseNumeric(value);
+    return num === null ? value : num;
+  }
+  if (type === 'date') {
+    if (typeof value === 'number') return serialToISODate(value) ?? value;
+    return toISODate(value) ?? value;
+  }
+  return value;
+};
+
+/**
+ * Turns a source into a sheet whose row 0 is the chosen header. Rows above it are
+ * removed with the structure helpers, so formulas keep pointing at the same cells.
+ */
+export const buildImportedSheet = (
+  source: ImportSource,
+  headerRow: number,
+  types: ColumnType[],
+  validationRules: ValidationRule[]
+): Sheet => {
+  const filled = fillMergedCells(source.data, source.merges, headerRow + 1);
+  const headers = buildHeaders(filled, headerRow);
+
+  let sheet: Sheet = {
+    id: generateUUID(),
+    name: source.name,
+    ...source.layout,
+    data: source.data.map((row, r) => {
+      if (r === headerRow) return headers;
+      if (r < headerRow || !Array.isArray(row)) return Array.isArray(row) ? row : [];
+      return row.map((value, c) => convertValue(value, types[c] || 'text'));
+    }),
+    conditionalFormats: [],
+    validationRules
+  };
+
+  if (headerRow > 0) {
+    sheet = applyStructureAction(sheet, { type: 'delete', axis: 'row', start: 0, count: headerRow });
+  }
+  return { ...sheet, data: trimTrailingEmpty(sheet.data) };
+};
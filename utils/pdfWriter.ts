@@ -0,0 +1,161 @@
+import { encodeText } from './fileFormats';
+import { stripAccents } from './textUtils';
+
+// Minimal PDF writer for the documents the app prints (report cards, pautas).
+// Uses the standard Helvetica fonts with the Windows encoding, which covers
+// Portuguese accents, so no font has to be embedded.
+
+export const A4 = { width: 595.28, height: 841.89 }; // Points
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: TextAlign;
+  color?: string; // '#RRGGBB'
+}
+
+export interface RectOptions {
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+}
+
+// Helvetica widths (1/1000 em) for characters 32-126
+const HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+export const textWidth = (text: string, size: number, bold = false): number => {
+  const widths = bold ? HELVETICA_BOLD : HELVETICA;
+  // Accented letters are as wide as the plain letter
+  const plain = stripAccents(text);
+  let total = 0;
+  for (let i = 0; i < plain.length; i++) {
+    const code = plain.charCodeAt(i);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (total * size) / 1000;
+};
+
+/** Cuts text to fit a width, ending with "..." when something was removed. */
+export const fitText = (text: string, maxWidth: number, size: number, bold = false): string => {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && textWidth(`${text.substring(0, end)}...`, size, bold) > maxWidth) end--;
+  return end > 0 ? `${text.substring(0, end)}...` : "";
+};
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+
+const rgb = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16) || 0;
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(c => num(c / 255)).join(' ');
+};
+
+// Bytes outside printable ASCII are written as octal escapes
+const pdfString = (text: string) => {
+  const bytes = encodeText(text, 'windows-1252');
+  let out = '(';
+  bytes.forEach(b => {
+    if (b === 0x28 || b === 0x29 || b === 0x5C) out += `\\${String.fromCharCode(b)}`;
+    else if (b < 32 || b > 126) out += `\\${b.toString(8).padStart(3, '0')}`;
+    else out += String.fromCharCode(b);
+  });
+  return `${out})`;
+};
+
+/** Pages of text, lines and rectangles. Coordinates start at the top-left corner, in points. */
+export class PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  private pages: string[][] = [];
+
+  constructor(width = A4.width, height = A4.height) {
+    this.width = width;
+    this.height = height;
+  }
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  private get current() {
+    if (this.pages.length === 0) this.addPage();
+    return this.pages[this.pages.length - 1];
+  }
+
+  text(text: string, x: number, y: number, options: TextOptions = {}) {
+    if (!text) return;
+    const size = options.size || 10;
+    const width = textWidth(text, size, options.bold);
+    const left = options.align === 'center' ? x - width / 2 : options.align === 'right' ? x - width : x;
+    const color = options.color ? `${rgb(options.color)} rg ` : '0 g ';
+    // y is the baseline
+    this.current.push(`BT ${color}/${options.bold ? 'F2' : 'F1'} ${num(size)} Tf ${num(left)} ${num(this.height - y)} Td ${pdfString(text)} Tj ET`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, lineWidth = 0.5, color = '#000000') {
+    this.current.push(`${rgb(color)} RG ${num(lineWidth)} w ${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S`);
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: RectOptions = {}) {
+    const path = `${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re`;
+    if (options.fill && options.stroke) {
+      this.current.push(`${rgb(options.fill)} rg ${rgb(options.stroke)} RG ${num(options.lineWidth ?? 0.5)} w ${path} B`);
+    } else if (options.fill) {
+      this.current.push(`${rgb(options.fill)} rg ${path} f`);
+    } else {
+      this.current.push(`${rgb(options.stroke || '#000000')} RG ${num(options.lineWidth ?? 0.5)} w ${path} S`);
+    }
+  }
+
+  output(): Uint8Array {
+    if (this.pages.length === 0) this.addPage();
+    const objects: string[] = [];
+    const add = (body: string) => objects.push(body);
+
+    // 1: catalog, 2: page tree, 3-4: fonts, then a page and its content for each page
+    add('<< /Type /Catalog /Pages 2 0 R >>');
+    const kids = this.pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ');
+    add(`<< /Type /Pages /Kids [${kids}] /Count ${this.pages.length} >>`);
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    this.pages.forEach((ops, i) => {
+      add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`);
+      const stream = ops.join('\n');
+      add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    });
+
+    // Everything is ASCII, so string length equals byte length
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(pdf.length);
+      pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    offsets.forEach(offset => { pdf += `${String(offset).padStart(10, '0')} 00000 n \n`; });
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+    return new TextEncoder().encode(pdf);
+  }
+}
@@ -0,0 +1,183 @@
+import { CellValue, PageSetup, Sheet, SheetData } from '../types';
+import { formatCellValue } from './cellStyles';
+import { computeConditionalFormats } from './conditionalFormat';
+import { evaluateSheet } from './formulaEngine';
+import { A4, PdfDocument, TextAlign, fitText } from './pdfWriter';
+import { displayText } from './searchUtils';
+import { getColumnCount } from './sheetStructure';
+import { getFilteredOutRows } from './sortFilter';
+
+export const DEFAULT_PAGE_SETUP: PageSetup = {
+  orientation: 'landscape',
+  marginMm: 10,
+  fitToWidth: true,
+  scale: 100,
+  repeatHeader: true,
+  breakColumn: -1,
+  schoolName: "",
+  teacher: "",
+  headerLeft: '{escola}',
+  headerRight: '{professor}',
+  footerLeft: '{planilha} · {data}',
+  footerRight: 'Página {pagina} de {paginas}'
+};
+
+const MM = 72 / 25.4; // Points per millimetre
+const PX = 0.75; // Points per CSS pixel
+const DEFAULT_COLUMN_WIDTH = 120; // Same as the grid, in pixels
+const ROW_HEIGHT = 18;
+const FONT_SIZE = 9;
+const BAND = 22; // Space for the header and footer texts
+const GRID_COLOR = '#D1D5DB';
+const HEADER_FILL = '#F3F4F6';
+
+export interface PrintPage {
+  rows: number[]; // Sheet rows, including the repeated header row
+  columns: number[];
+}
+
+export interface PrintLayout {
+  pages: PrintPage[];
+  scale: number;
+  width: number;
+  height: number;
+}
+
+const pageSize = (setup: PageSetup) =>
+  setup.orientation === 'landscape' ? { width: A4.height, height: A4.width } : { ...A4 };
+
+const columnWidth = (sheet: Sheet, c: number) => (sheet.columnWidths?.[c] || DEFAULT_COLUMN_WIDTH) * PX;
+
+/**
+ * Splits the visible rows and columns into pages: columns that do not fit go to
+ * further pages (down, then over, as in Excel), and the break column starts a
+ * new page whenever its value changes.
+ */
+export const paginate = (sheet: Sheet, values: SheetData, setup: PageSetup): PrintLayout => {
+  const { width, height } = pageSize(setup);
+  const margin = setup.marginMm * MM;
+  const contentWidth = width - margin * 2;
+  const contentHeight = height - margin * 2 - BAND * 2;
+
+  const hiddenColumns = new Set(sheet.hiddenColumns || []);
+  const hiddenRows = new Set(sheet.hiddenRows || []);
+  const filteredOut = getFilteredOutRows(values, sheet.autoFilter);
+  const columns = Array.from({ length: getColumnCount(sheet.data) }, (_, c) => c).filter(c => !hiddenColumns.has(c));
+  const bodyRows = values.map((_, r) => r).filter(r => r > 0 && !hiddenRows.has(r) && !filteredOut.has(r));
+
+  const totalWidth = columns.reduce((sum, c) => sum + columnWidth(sheet, c), 0);
+  const scale = setup.fitToWidth
+    ? Math.min(1, totalWidth > 0 ? contentWidth / totalWidth : 1)
+    : Math.max(0.1, setup.scale / 100);
+
+  const columnChunks: number[][] = [];
+  let chunk: number[] = [];
+  let used = 0;
+  columns.forEach(c => {
+    const w = columnWidth(sheet, c) * scale;
+    if (chunk.length > 0 && used + w > contentWidth + 0.5) {
+      columnChunks.push(chunk);
+      chunk = [];
+      used = 0;
+    }
+    chunk.push(c);
+    used += w;
+  });
+  if (chunk.length > 0 || columnChunks.length === 0) columnChunks.push(chunk);
+
+  const rowHeight = ROW_HEIGHT * scale;
+  const perPage = Math.max(2, Math.floor(contentHeight / rowHeight));
+  const breakKey = (r: number) => setup.breakColumn >= 0 ? displayText(values[r]?.[setup.breakColumn]).trim() : "";
+
+  const rowChunks: number[][] = [];
+  let current: number[] = [0];
+  let body = 0;
+  bodyRows.forEach((r, i) => {
+    const classChanged = i > 0 && setup.breakColumn >= 0 && breakKey(r) !== breakKey(bodyRows[i - 1]);
+    if (body > 0 && (current.length >= perPage || classChanged)) {
+      rowChunks.push(current);
+      current = setup.repeatHeader ? [0] : [];
+      body = 0;
+    }
+    current.push(r);
+    body++;
+  });
+  rowChunks.push(current);
+
+  const pages = columnChunks.flatMap(cols => rowChunks.map(rows => ({ rows, columns: cols })));
+  return { pages, scale, width, height };
+};
+
+const fillPlaceholders = (text: string, vars: Record<string, string>) =>
+  text.replace(/\{(\w+)\}/g, (match, name: string) => vars[name.toLowerCase()] ?? match);
+
+/** The sheet as it is printed: visible rows and columns, formatting and conditional colours. */
+export const sheetToPdf = (sheet: Sheet, setup: PageSetup): Uint8Array => {
+  const values = evaluateSheet(sheet.data);
+  const layout = paginate(sheet, values, setup);
+  const { scale } = layout;
+  const pdf = new PdfDocument(layout.width, layout.height);
+  const margin = setup.marginMm * MM;
+  const top = margin + BAND;
+  const rowHeight = ROW_HEIGHT * scale;
+  const padding = 3 * scale;
+
+  const conditional = computeConditionalFormats(values, sheet.conditionalFormats);
+
+  const vars = {
+    escola: setup.schoolName,
+    professor: setup.teacher,
+    planilha: sheet.name,
+    data: new Date().toLocaleDateString('pt-PT'),
+    paginas: String(layout.pages.length)
+  };
+
+  layout.pages.forEach((page, index) => {
+    pdf.addPage();
+    const pageVars = { ...vars, pagina: String(index + 1) };
+    const bandText = (text: string, y: number, align: TextAlign) => {
+      const filled = fillPlaceholders(text, pageVars).replace(/^[\s·|-]+|[\s·|-]+$/g, '');
+      const x = align === 'left' ? margin : layout.width - margin;
+      pdf.text(fitText(filled, (layout.width - margin * 2) / 2 - 6, 8), x, y, { size: 8, align, color: '#4B5563' });
+    };
+    bandText(setup.headerLeft, margin + 8, 'left');
+    bandText(setup.headerRight, margin + 8, 'right');
+    bandText(setup.footerLeft, layout.height - margin - 2, 'left');
+    bandText(setup.footerRight, layout.height - margin - 2, 'right');
+
+    page.rows.forEach((r, i) => {
+      const y = top + i * rowHeight;
+      let x = margin;
+      page.columns.forEach(c => {
+        const w = columnWidth(sheet, c) * scale;
+        const value = values[r]?.[c];
+        const style = sheet.cellStyles?.[r]?.[c];
+        const rule = conditional.get(`${r}:${c}`);
+        const fill = rule?.backgroundColor || style?.backgroundColor || (r === 0 ? HEADER_FILL : undefined);
+
+        if (fill) pdf.rect(x, y, w, rowHeight, { fill, stroke: GRID_COLOR, lineWidth: 0.4 });
+        else pdf.rect(x, y, w, rowHeight, { stroke: GRID_COLOR, lineWidth: 0.4 });
+        if (rule?.bar && rule.bar.percent > 0) {
+          pdf.rect(x + scale, y + rowHeight * 0.15, (w - 2 * scale) * rule.bar.percent / 100, rowHeight * 0.7, { fill: rule.bar.color });
+        }
+
+        const text = formatCellValue(value, style);
+        if (text) {
+          const size = (style?.fontSize ? style.fontSize * 0.8 : FONT_SIZE) * scale;
+          const bold = r === 0 || !!style?.bold || !!rule?.bold;
+          const align: TextAlign = style?.align || (typeof value === 'number' ? 'right' : 'left');
+          const tx = align === 'left' ? x + padding : align === 'right' ? x + w - padding : x + w / 2;
+          pdf.text(fitText(text, w - padding * 2, size, bold), tx, y + rowHeight / 2 + size * 0.35, {
+            size,
+            bold,
+            align,
+            color: rule?.color || style?.color
+          });
+        }
+        x += w;
+      });
+    });
+  });
+
+  return pdf.output();
+};
@@ -0,0 +1,225 @@
+import { CellChange, CellPosition, CellRange, CellValue, SheetData } from '../types';
+import { isFormula, shiftFormula, parseNumeric, cellAddress } from './formulaEngine';
+
+export const normalizeRange = (a: CellPosition, b: CellPosition): CellRange => ({
+  r1: Math.min(a.r, b.r),
+  c1: Math.min(a.c, b.c),
+  r2: Math.max(a.r, b.r),
+  c2: Math.max(a.c, b.c)
+});
+
+export const isInRange = (range: CellRange | null, r: number, c: number) =>
+  !!range && r >= range.r1 && r <= range.r2 && c >= range.c1 && c <= range.c2;
+
+export const rangeSize = (range: CellRange) => (range.r2 - range.r1 + 1) * (range.c2 - range.c1 + 1);
+
+export const rangeAddress = (range: CellRange) => {
+  const start = cellAddress(range.r1, range.c1);
+  return range.r1 === range.r2 && range.c1 === range.c2 ? start : `${start}:${cellAddress(range.r2, range.c2)}`;
+};
+
+export const getRangeValues = (data: SheetData, range: CellRange): CellValue[][] => {
+  const rows: CellValue[][] = [];
+  for (let r = range.r1; r <= range.r2; r++) {
+    const row: CellValue[] = [];
+    for (let c = range.c1; c <= range.c2; c++) row.push(data[r]?.[c] ?? "");
+    rows.push(row);
+  }
+  return rows;
+};
+
+export const clearRangeChanges = (range: CellRange): CellChange[] => {
+  const changes: CellChange[] = [];
+  for (let r = range.r1; r <= range.r2; r++) {
+    for (let c = range.c1; c <= range.c2; c++) changes.push({ r, c, value: "" });
+  }
+  return changes;
+};
+
+// --- Tab separated values, the clipboard format of Excel, LibreOffice and Google Sheets ---
+
+const quoteField = (value: string) =>
+  /[\t\n\r"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toTSV = (rows: CellValue[][]): string =>
+  rows.map(row => row.map(v => {
+    if (v === null || v === undefined) return "";
+    if (typeof v === 'boolean') return v ? 'VERDADEIRO' : 'FALSO';
+    return quoteField(String(v));
+  }).join('\t')).join('\r\n');
+
+export const parseTSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let i = 0;
+  let quoted = false;
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') { field += '"'; i += 2; continue; }
+        quoted = false;
+        i++;
+        continue;
+      }
+      field += ch;
+      i++;
+      continue;
+    }
+    if (ch === '"' && field === "") { quoted = true; i++; continue; }
+    if (ch === '\t') { row.push(field); field = ""; i++; continue; }
+    if (ch === '\r' || ch === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+      i += ch === '\r' && text[i + 1] === '\n' ? 2 : 1;
+      continue;
+    }
+    field += ch;
+    i++;
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Changes for pasting a block at `target`. A single copied value fills the whole
+ * selection, as in Excel. `sourceOrigin` is set for copies made inside the app,
+ * so formulas keep pointing at the same relative cells.
+ */
+export const buildPasteChanges = (
+  block: CellValue[][],
+  target: CellRange,
+  sourceOrigin?: CellPosition
+): CellChange[] => {
+  const changes: CellChange[] = [];
+  const single = block.length === 1 && block[0].length === 1;
+  const height = single ? target.r2 - target.r1 + 1 : block.length;
+
+  for (let i = 0; i < height; i++) {
+    const sourceRow = single ? block[0] : block[i];
+    const width = single ? target.c2 - target.c1 + 1 : sourceRow.length;
+    for (let j = 0; j < width; j++) {
+      const r = target.r1 + i;
+      const c = target.c1 + j;
+      let value = single ? sourceRow[0] : sourceRow[j];
+      if (sourceOrigin && isFormula(value)) {
+        const srcR = sourceOrigin.r + (single ? 0 : i);
+        const srcC = sourceOrigin.c + (single ? 0 : j);
+        value = shiftFormula(value, r - srcR, c - srcC);
+      }
+      changes.push({ r, c, value });
+    }
+  }
+  return changes;
+};
+
+export type FillDirection = 'down' | 'up' | 'right' | 'left';
+
+/**
+ * Extends `source` over `target` (which must share its columns for vertical fills,
+ * or its rows for horizontal ones). Formulas are shifted; two or more numbers in
+ * the fill direction continue as an arithmetic series (1, 2 -> 3, 4...).
+ */
+export const buildFillChanges = (
+  data: SheetData,
+  source: CellRange,
+  target: CellRange,
+  direction: FillDirection
+): CellChange[] => {
+  const changes: CellChange[] = [];
+  const vertical = direction === 'down' || direction === 'up';
+  const length = vertical ? source.r2 - source.r1 + 1 : source.c2 - source.c1 + 1;
+  const raw = (r: number, c: number): CellValue => data[r]?.[c] ?? "";
+
+  // One "line" per column (vertical fill) or per row (horizontal fill)
+  const lines = vertical
+    ? Array.from({ length: source.c2 - source.c1 + 1 }, (_, i) => source.c1 + i)
+    : Array.from({ length: source.r2 - source.r1 + 1 }, (_, i) => source.r1 + i);
+
+  lines.forEach(line => {
+    const sourceValues = Array.from({ length }, (_, k) =>
+      vertical ? raw(source.r1 + k, line) : raw(line, source.c1 + k)
+    );
+    const numbers = sourceValues.map(v => isFormula(v) ? null : parseNumeric(v));
+    const isSeries = length >= 2 && numbers.every(n => n !== null);
+    const step = isSeries ? (numbers[length - 1]! - numbers[length - 2]!) : 0;
+
+    const start = vertical ? target.r1 : target.c1;
+    const end = vertical ? target.r2 : target.c2;
+
+    for (let pos = start; pos <= end; pos++) {
+      const forward = direction === 'down' || direction === 'right';
+      const sourceStart = vertical ? source.r1 : source.c1;
+      const sourceEnd = vertical ? source.r2 : source.c2;
+      const distance = forward ? pos - sourceEnd : sourceStart - pos; // 1, 2, 3...
+      const k = forward ? (distance - 1) % length : length - 1 - ((distance - 1) % length);
+
+      let value: CellValue;
+      if (isSeries) {
+        const next = forward ? numbers[length - 1]! + step * distance : numbers[0]! - step * distance;
+        value = parseFloat(next.toPrecision(12));
+        if (typeof sourceValues[0] === 'string') {
+          value = String(value);
+          if (sourceValues.some(v => String(v).includes(','))) value = value.replace('.', ',');
+        }
+      } else {
+        value = sourceValues[k];
+        if (isFormula(value)) {
+          const offset = pos - (sourceStart + k);
+          value = vertical ? shiftFormula(value, offset, 0) : shiftFormula(value, 0, offset);
+        }
+      }
+
+      changes.push(vertical ? { r: pos, c: line, value } : { r: line, c: pos, value });
+    }
+  });
+
+  return changes;
+};
+
+// --- Status bar aggregates ---
+
+export interface RangeAggregates {
+  count: number; // Non-empty cells
+  numericCount: number;
+  sum: number;
+  average: number | null;
+  min: number | null;
+  max: number | null;
+}
+
+/**
+ * Aggregates of a range as shown in the status bar. Hidden and filtered-out rows
+ * are left out, and text such as "12,5" counts as a number, like the grid does.
+ */
+export const aggregateRange = (values: SheetData, range: CellRange, skipRows: Set<number> = new Set(), skipColumns: Set<number> = new Set()): RangeAggregates => {
+  let count = 0;
+  let numericCount = 0;
+  let sum = 0;
+  let min: number | null = null;
+  let max: number | null = null;
+  for (let r = range.r1; r <= range.r2; r++) {
+    if (skipRows.has(r)) continue;
+    for (let c = range.c1; c <= range.c2; c++) {
+      if (skipColumns.has(c)) continue;
+      const value = values[r]?.[c];
+      if (value === null || value === undefined || String(value).trim() === "") continue;
+      count++;
+      const num = typeof value === 'boolean' ? null : parseNumeric(value);
+      if (num === null) continue;
+      numericCount++;
+      sum += num;
+      min = min === null ? num : Math.min(min, num);
+      max = max === null ? num : Math.max(max, num);
+    }
+  }
+  return { count, numericCount, sum, average: numericCount > 0 ? sum / numericCount : null, min, max };
+};
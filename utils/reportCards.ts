@@ -0,0 +1,170 @@
+import { CellValue, ReportCardTemplate, Sheet } from '../types';
+import { formatCellValue } from './cellStyles';
+import { evaluateSheet, parseNumeric } from './formulaEngine';
+import { findHeaderIndex } from './grading';
+import { PdfDocument, fitText } from './pdfWriter';
+import { displayText } from './searchUtils';
+import { findStudentIdColumn } from './sheetSplit';
+import { normalizeText } from './textUtils';
+
+export interface ReportCard {
+  row: number;
+  name: string;
+  number: string;
+  className: string;
+  grades: { label: string; value: string }[];
+  average: string;
+  result: string;
+}
+
+export const DEFAULT_SIGNATURES = ['O(A) Director(a) de Turma', 'O(A) Encarregado(a) de Educação'];
+
+const findHeader = (headers: CellValue[], test: (name: string) => boolean) => headers.map(normalizeText).findIndex(test);
+
+/** Column mapping guessed from the headers and the grading scheme of the sheet. */
+export const detectReportCardTemplate = (sheet: Sheet): ReportCardTemplate => {
+  const headers = sheet.data[0] || [];
+  const scheme = sheet.gradingScheme;
+  const nameColumn = findHeader(headers, h => h.includes('nome') || h === 'aluno');
+  const numberColumn = findStudentIdColumn(headers);
+  const classColumn = findHeader(headers, h => h.includes('turma') || h.includes('classe'));
+
+  let averageColumn = findHeaderIndex(headers, scheme?.averageHeader);
+  if (averageColumn === -1) averageColumn = findHeader(headers, h => h.startsWith('media') || h === 'mt' || h === 'mf' || h === 'cf');
+  let resultColumn = findHeaderIndex(headers, scheme?.resultHeader);
+  if (resultColumn === -1) resultColumn = findHeader(headers, h => h.includes('resultado') || h.includes('situacao'));
+
+  // The grading components, or otherwise every numeric column that is not mapped yet
+  const used = new Set([nameColumn, numberColumn, classColumn, averageColumn, resultColumn]);
+  const values = evaluateSheet(sheet.data);
+  const gradeColumns = scheme && scheme.components.some(c => c.columnIndex >= 0)
+    ? scheme.components.map(c => c.columnIndex).filter(c => c >= 0)
+    : headers.map((_, c) => c).filter(c => {
+      if (used.has(c)) return false;
+      const filled = values.slice(1).map(row => row?.[c]).filter(v => v !== "" && v !== null && v !== undefined);
+      return filled.length > 0 && filled.every(v => parseNumeric(v) !== null);
+    });
+
+  return {
+    schoolName: "",
+    title: "Boletim de Notas",
+    period: "",
+    academicYear: "",
+    nameColumn,
+    numberColumn,
+    classColumn,
+    gradeColumns,
+    averageColumn,
+    resultColumn,
+    signatures: DEFAULT_SIGNATURES
+  };
+};
+
+/** One card per row that has a student name, with the values as they show in the grid. */
+export const buildReportCards = (sheet: Sheet, template: ReportCardTemplate): ReportCard[] => {
+  const headers = sheet.data[0] || [];
+  const values = evaluateSheet(sheet.data);
+  const cell = (r: number, c: number) => c < 0 ? "" : formatCellValue(values[r]?.[c], sheet.cellStyles?.[r]?.[c]).trim();
+
+  const cards: ReportCard[] = [];
+  values.forEach((_, r) => {
+    if (r === 0) return;
+    const name = cell(r, template.nameColumn);
+    if (!name) return;
+    cards.push({
+      row: r,
+      name,
+      number: cell(r, template.numberColumn),
+      className: cell(r, template.classColumn),
+      grades: template.gradeColumns.map(c => ({ label: displayText(headers[c]).trim(), value: cell(r, c) })),
+      average: cell(r, template.averageColumn),
+      result: cell(r, template.resultColumn)
+    });
+  });
+  return cards;
+};
+
+export const reportCardFileName = (card: ReportCard) =>
+  `${[card.number, card.name].filter(Boolean).join(' - ')}.pdf`.replace(/[\\/:*?"<>|]/g, '_');
+
+// --- PDF layout ---
+
+const MARGIN = 56;
+const ROW_HEIGHT = 22;
+const BORDER = '#9CA3AF';
+const SHADE = '#ECFDF5';
+
+const drawCard = (pdf: PdfDocument, card: ReportCard, template: ReportCardTemplate, headers: CellValue[]) => {
+  const left = MARGIN;
+  const right = pdf.width - MARGIN;
+  const center = pdf.width / 2;
+  const width = right - left;
+  let y = MARGIN + 10;
+
+  pdf.addPage();
+
+  // School header
+  if (template.schoolName) {
+    pdf.text(fitText(template.schoolName, width, 15, true), center, y, { size: 15, bold: true, align: 'center' });
+    y += 24;
+  }
+  pdf.text(fitText((template.title || 'Boletim de Notas').toUpperCase(), width, 13, true), center, y, { size: 13, bold: true, align: 'center', color: '#047857' });
+  y += 18;
+  const period = [template.period, template.academicYear && `Ano lectivo ${template.academicYear}`].filter(Boolean).join(' · ');
+  if (period) {
+    pdf.text(period, center, y, { size: 10, align: 'center' });
+    y += 14;
+  }
+  pdf.line(left, y, right, y, 1, '#047857');
+  y += 28;
+
+  // Student
+  const field = (label: string, value: string, x: number, maxWidth: number) => {
+    pdf.text(label, x, y, { size: 8, color: '#6B7280' });
+    pdf.text(fitText(value, maxWidth, 11, true), x, y + 14, { size: 11, bold: true });
+  };
+  field('Nome do aluno', card.name, left, width * 0.6 - 10);
+  if (template.numberColumn >= 0) field(displayText(headers[template.numberColumn]) || 'Nº', card.number, left + width * 0.6, width * 0.15 - 10);
+  if (template.classColumn >= 0) field(displayText(headers[template.classColumn]) || 'Turma', card.className, left + width * 0.75, width * 0.25);
+  y += 40;
+
+  // Grades
+  const valueWidth = 110;
+  pdf.rect(left, y, width, ROW_HEIGHT, { fill: SHADE, stroke: BORDER });
+  pdf.text('Avaliação', left + 8, y + 15, { size: 10, bold: true });
+  pdf.text('Nota', right - valueWidth / 2, y + 15, { size: 10, bold: true, align: 'center' });
+  y += ROW_HEIGHT;
+
+  const row = (label: string, value: string, bold = false) => {
+    pdf.rect(left, y, width, ROW_HEIGHT, { stroke: BORDER });
+    pdf.line(right - valueWidth, y, right - valueWidth, y + ROW_HEIGHT, 0.5, BORDER);
+    pdf.text(fitText(label, width - valueWidth - 16, 10, bold), left + 8, y + 15, { size: 10, bold });
+    pdf.text(fitText(value, valueWidth - 8, 10, bold), right - valueWidth / 2, y + 15, { size: 10, bold, align: 'center' });
+    y += ROW_HEIGHT;
+  };
+  card.grades.forEach(grade => row(grade.label, grade.value));
+  if (template.averageColumn >= 0) row(displayText(headers[template.averageColumn]) || 'Média', card.average, true);
+  if (template.resultColumn >= 0) row(displayText(headers[template.resultColumn]) || 'Resultado', card.result, true);
+
+  // Signatures at the bottom of the page
+  const signatures = template.signatures.filter(s => s.trim());
+  if (signatures.length > 0) {
+    const slot = width / signatures.length;
+    const lineY = pdf.height - MARGIN - 60;
+    signatures.forEach((label, i) => {
+      const x1 = left + slot * i + 12;
+      const x2 = left + slot * (i + 1) - 12;
+      pdf.line(x1, lineY, x2, lineY, 0.5);
+      pdf.text(fitText(label, x2 - x1, 9), (x1 + x2) / 2, lineY + 14, { size: 9, align: 'center' });
+    });
+  }
+
+  pdf.text(`Emitido em ${new Date().toLocaleDateString('pt-PT')}`, left, pdf.height - MARGIN + 10, { size: 8, color: '#6B7280' });
+};
+
+/** One A4 page per student. */
+export const reportCardsToPdf = (cards: ReportCard[], template: ReportCardTemplate, headers: CellValue[]): Uint8Array => {
+  const pdf = new PdfDocument();
+  cards.forEach(card => drawCard(pdf, card, template, headers));
+  return pdf.output();
+};
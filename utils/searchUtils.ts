@@ -0,0 +1,91 @@
+import { CellValue, SheetData } from '../types';
+import { stripAccents } from './textUtils';
+
+export interface SearchOptions {
+  matchCase: boolean;
+  matchAccents: boolean;
+  wholeCell: boolean;
+}
+
+export interface SearchMatch {
+  sheetId: string;
+  r: number;
+  c: number;
+}
+
+/** Text of a cell as the user sees it. */
+export const displayText = (value: CellValue | undefined): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === 'boolean') return value ? 'VERDADEIRO' : 'FALSO';
+  return String(value);
+};
+
+const fold = (text: string, options: SearchOptions) => {
+  const base = options.matchAccents ? text : stripAccents(text);
+  return options.matchCase ? base : base.toLowerCase();
+};
+
+/**
+ * Folds `text` one character at a time, remembering where each folded character
+ * came from, so a match found in the folded text can be replaced in the original.
+ */
+const foldWithOffsets = (text: string, options: SearchOptions) => {
+  let folded = "";
+  const origin: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const piece = fold(text[i], options);
+    for (let k = 0; k < piece.length; k++) origin.push(i);
+    folded += piece;
+  }
+  origin.push(text.length);
+  return { folded, origin };
+};
+
+export const matchesText = (text: string, query: string, options: SearchOptions) => {
+  const needle = fold(query, options);
+  if (!needle) return false;
+  const haystack = fold(text, options);
+  return options.wholeCell ? haystack.trim() === needle.trim() : haystack.includes(needle);
+};
+
+/** Cells of a sheet whose displayed value matches, in reading order (row by row). */
+export const findInSheet = (sheetId: string, values: SheetData, query: string, options: SearchOptions): SearchMatch[] => {
+  const matches: SearchMatch[] = [];
+  if (!query) return matches;
+  values.forEach((row, r) => {
+    if (!Array.isArray(row)) return;
+    row.forEach((value, c) => {
+      const text = displayText(value);
+      if (text && matchesText(text, query, options)) matches.push({ sheetId, r, c });
+    });
+  });
+  return matches;
+};
+
+/** Replaces every occurrence of `query` (or the whole cell); null when nothing matched. */
+export const replaceInText = (text: string, query: string, replacement: string, options: SearchOptions): string | null => {
+  if (!matchesText(text, query, options)) return null;
+  if (options.wholeCell) return replacement;
+
+  const needle = fold(query, options);
+  const { folded, origin } = foldWithOffsets(text, options);
+  let result = "";
+  let last = 0;
+  let from = 0;
+  let index = folded.indexOf(needle, from);
+  while (index !== -1) {
+    const start = origin[index];
+    const end = origin[index + needle.length];
+    result += text.slice(last, start) + replacement;
+    last = end;
+    from = index + needle.length;
+    index = folded.indexOf(needle, from);
+  }
+  return result + text.slice(last);
+};
+
+/** Keeps numbers as numbers when the replaced text is still numeric. */
+export const toCellValue = (original: CellValue, text: string): CellValue => {
+  if (typeof original === 'number' && text.trim() !== "" && !isNaN(Number(text))) return Number(text);
+  return text;
+};
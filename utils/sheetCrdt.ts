@@ -0,0 +1,299 @@
+import { AuditEntry, CellChange, CellValue, Sheet, SheetData } from '../types';
+
+// A shared sheet edited live is a last-writer-wins map of its cells and other
+// properties: every change carries a Lamport clock and the id of the tab that
+// made it, and only replaces a value whose stamp is older. Tabs that received
+// the same changes hold the same sheet, in whatever order they arrived.
+// Structural edits (inserting or moving rows) travel as the cells they change,
+// by position, so the app only allows them while nobody else is connected
+// (canMoveCells in App.tsx): a colleague's edit would otherwise land on another row.
+// The audit log only grows, so its entries travel one by one and are all kept.
+// server/syncServer.js applies the operations the same way.
+
+export interface CellStamp {
+  clock: number;
+  client: string; // Breaks ties between changes made at the same clock
+}
+
+export interface CellOp extends CellChange, CellStamp {}
+
+// A property of the sheet (name, formats, styles...), replaced whole; null removes it.
+// Only SYNCED_PROPERTIES are applied, and only with a value of the right shape.
+export interface PropertyOp extends CellStamp {
+  prop: string;
+  value: unknown;
+}
+
+// A new entry of the audit log
+export interface AuditOp extends CellStamp {
+  entry: AuditEntry;
+}
+
+export type SheetOp = CellOp | PropertyOp | AuditOp;
+
+// --- Replicated properties ---
+
+// Everything else (identity, the cells and audit entries, sent one by one, each
+// browser's access settings and each person's filter) is never replicated as a
+// property. A colleague's tab, buggy or not, could otherwise send a value that
+// breaks every other tab, so each value is checked before it is applied; the
+// server (server/syncServer.js) checks them the same way.
+
+type Check = (value: unknown) => boolean;
+
+const isInteger: Check = value => Number.isInteger(value);
+const isIndex: Check = value => Number.isInteger(value) && (value as number) >= 0;
+const isNumber: Check = value => typeof value === 'number' && Number.isFinite(value);
+const isString: Check = value => typeof value === 'string';
+const isBoolean: Check = value => typeof value === 'boolean';
+const oneOf = (...options: string[]): Check => value => typeof value === 'string' && options.includes(value);
+const either = (...checks: Check[]): Check => value => checks.some(check => check(value));
+const optional = (check: Check): Check => value => value === undefined || check(value);
+const orNull = (check: Check): Check => value => value === null || value === undefined || check(value);
+const arrayOf = (check: Check): Check => value => Array.isArray(value) && value.every(check);
+const shape = (fields: Record<string, Check>): Check => value =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) &&
+  Object.entries(fields).every(([field, check]) => check((value as Record<string, unknown>)[field]));
+
+const isCellStyle = shape({
+  bold: optional(isBoolean),
+  italic: optional(isBoolean),
+  underline: optional(isBoolean),
+  fontSize: optional(isNumber),
+  fontName: optional(isString),
+  color: optional(isString),
+  backgroundColor: optional(isString),
+  align: optional(oneOf('left', 'center', 'right')),
+  verticalAlign: optional(oneOf('top', 'middle', 'bottom')),
+  wrap: optional(isBoolean),
+  borders: optional(shape(Object.fromEntries(['top', 'right', 'bottom', 'left'].map(side => [side, optional(oneOf('thin', 'medium', 'thick'))])))),
+  numberFormat: optional(isString)
+});
+
+const PROPERTY_CHECKS = {
+  name: (value: unknown) => typeof value === 'string' && value.trim().length > 0,
+  conditionalFormats: arrayOf(shape({
+    id: isString,
+    type: optional(oneOf('highlight', 'colorScale', 'dataBar')),
+    columnIndex: isIndex,
+    lastColumnIndex: optional(isIndex),
+    condition: isString,
+    value: either(isString, isNumber),
+    value2: optional(either(isString, isNumber)),
+    style: shape({ backgroundColor: isString, color: isString, name: isString, bold: optional(isBoolean) }),
+    wholeRow: optional(isBoolean),
+    colors: optional(arrayOf(isString))
+  })),
+  validationRules: arrayOf(shape({
+    id: isString,
+    columnIndex: isIndex,
+    type: oneOf('number', 'decimal', 'text', 'date', 'list', 'email', 'pattern', 'required', 'unique'),
+    min: optional(isString),
+    max: optional(isString),
+    options: optional(arrayOf(isString)),
+    pattern: optional(isString),
+    decimals: optional(isIndex),
+    errorMessage: optional(isString)
+  })),
+  gradingScheme: shape({
+    scaleMin: isNumber,
+    scaleMax: isNumber,
+    passThreshold: isNumber,
+    components: arrayOf(shape({ id: isString, label: isString, columnIndex: isInteger, weight: isNumber })), // -1 = no column yet
+    roundingMode: oneOf('none', 'round', 'floor', 'ceil'),
+    decimals: isIndex,
+    averageHeader: isString,
+    resultHeader: optional(isString),
+    passLabel: isString,
+    failLabel: isString
+  }),
+  hiddenRows: arrayOf(isIndex),
+  hiddenColumns: arrayOf(isIndex),
+  cellStyles: arrayOf(orNull(arrayOf(orNull(isCellStyle)))),
+  merges: arrayOf(shape({ r1: isIndex, c1: isIndex, r2: isIndex, c2: isIndex })),
+  columnWidths: arrayOf(orNull(isNumber)),
+  frozenRows: isIndex,
+  frozenColumns: isIndex,
+  splitSource: shape({
+    sheetId: isString,
+    keyHeaders: arrayOf(isString),
+    key: arrayOf(isString),
+    idHeader: optional(isString),
+    rows: arrayOf(orNull(isInteger)),
+    rowKeys: optional(arrayOf(orNull(isString)))
+  }),
+  reportCard: shape({
+    schoolName: isString,
+    title: isString,
+    period: isString,
+    academicYear: isString,
+    nameColumn: isInteger,
+    numberColumn: isInteger,
+    classColumn: isInteger,
+    gradeColumns: arrayOf(isInteger),
+    averageColumn: isInteger,
+    resultColumn: isInteger,
+    signatures: arrayOf(isString)
+  }),
+  pageSetup: shape({
+    orientation: oneOf('portrait', 'landscape'),
+    marginMm: isNumber,
+    fitToWidth: isBoolean,
+    scale: isNumber,
+    repeatHeader: isBoolean,
+    breakColumn: isInteger,
+    schoolName: isString,
+    teacher: isString,
+    headerLeft: isString,
+    headerRight: isString,
+    footerLeft: isString,
+    footerRight: isString
+  })
+} satisfies Partial<Record<keyof Sheet, Check>>;
+
+export type SyncedProperty = keyof typeof PROPERTY_CHECKS;
+
+const SYNCED_PROPERTIES = Object.keys(PROPERTY_CHECKS) as SyncedProperty[];
+
+const isSyncedProperty = (prop: string): prop is SyncedProperty => Object.prototype.hasOwnProperty.call(PROPERTY_CHECKS, prop);
+
+/** Whether a property op names a replicated property and carries a value it may have (null removes it; a sheet always has a name). */
+export const isValidPropertyOp = (op: PropertyOp): op is PropertyOp & { prop: SyncedProperty } =>
+  isSyncedProperty(op.prop) && (op.value === null ? op.prop !== 'name' : PROPERTY_CHECKS[op.prop](op.value));
+
+const setProperty = <K extends SyncedProperty>(sheet: Sheet, prop: K, value: Sheet[K]) => {
+  sheet[prop] = value;
+};
+
+// Remote changes may only add this many rows/columns past the sheet as it is, up
+// to the totals below (as in server/syncServer.js): a far-away cell would pad
+// the sheet up to it
+const MAX_ROW_GROWTH = 1_000;
+const MAX_COLUMN_GROWTH = 100;
+const MAX_ROWS = 20_000;
+const MAX_COLUMNS = 1_000;
+
+export const opKey = (op: SheetOp) =>
+  'prop' in op ? `prop:${op.prop}` : 'entry' in op ? `audit:${op.entry.id}` : `${op.r}:${op.c}`;
+
+export const isNewerStamp = (stamp: CellStamp, than: CellStamp | undefined) =>
+  !than || stamp.clock > than.clock || (stamp.clock === than.clock && stamp.client > than.client);
+
+// Blank cells are "" in new sheets and null after imports; both are empty here
+const normalize = (value: CellValue | undefined) => value === undefined || value === "" ? null : value;
+
+/** Cells whose values differ between two versions of the same sheet. */
+export const diffCells = (before: SheetData, after: SheetData): CellChange[] => {
+  const changes: CellChange[] = [];
+  const rows = Math.max(before.length, after.length);
+  for (let r = 0; r < rows; r++) {
+    const from = before[r] || [];
+    const to = after[r] || [];
+    if (from === to) continue;
+    const cols = Math.max(from.length, to.length);
+    for (let c = 0; c < cols; c++) {
+      if (normalize(from[c]) !== normalize(to[c])) changes.push({ r, c, value: normalize(to[c]) });
+    }
+  }
+  return changes;
+};
+
+/** Replicated properties replaced between two versions of the same sheet (compared by reference). */
+export const diffProperties = (before: Sheet, after: Sheet): { prop: SyncedProperty; value: unknown }[] =>
+  SYNCED_PROPERTIES
+    .filter(prop => before[prop] !== after[prop])
+    .map(prop => ({ prop, value: after[prop] ?? null }));
+
+/** Audit entries of the later version that the earlier one does not have. */
+export const diffAuditLog = (before: Sheet, after: Sheet): AuditEntry[] => {
+  if (before.auditLog === after.auditLog || !after.auditLog) return [];
+  const known = new Set((before.auditLog || []).map(entry => entry.id));
+  return after.auditLog.filter(entry => !known.has(entry.id));
+};
+
+/** Writes changes into a copy of the data, growing it as needed; untouched rows are shared. */
+export const applyCellChanges = (data: SheetData, changes: CellChange[]): SheetData => {
+  if (changes.length === 0) return data;
+  const width = data[0]?.length || 0;
+  const next = [...data];
+  const copied = new Set<number>();
+  changes.forEach(({ r, c, value }) => {
+    while (next.length <= r) next.push(Array(width).fill(""));
+    if (!copied.has(r)) {
+      next[r] = [...(next[r] || [])];
+      copied.add(r);
+    }
+    while (next[r].length < c) next[r].push("");
+    next[r][c] = value;
+  });
+  return next;
+};
+
+// Keeps the cell ops that stay close to the sheet; the size grows with the ops kept
+const withinReach = (data: SheetData, ops: CellOp[]): CellOp[] => {
+  let rows = data.length;
+  let columns = data.reduce((max, row) => Math.max(max, row?.length || 0), 0);
+  return ops.filter(({ r, c }) => {
+    if (r >= Math.max(rows, Math.min(MAX_ROWS, rows + MAX_ROW_GROWTH))) return false;
+    if (c >= Math.max(columns, Math.min(MAX_COLUMNS, columns + MAX_COLUMN_GROWTH))) return false;
+    rows = Math.max(rows, r + 1);
+    columns = Math.max(columns, c + 1);
+    return true;
+  });
+};
+
+export const applySheetOps = (sheet: Sheet, ops: SheetOp[]): Sheet => {
+  const cells = withinReach(sheet.data, ops.filter((op): op is CellOp => !('prop' in op) && !('entry' in op)));
+  const next: Sheet = { ...sheet, data: applyCellChanges(sheet.data, cells) };
+  ops.forEach(op => {
+    if (!('prop' in op) || !isValidPropertyOp(op)) return;
+    setProperty(next, op.prop, (op.value ?? undefined) as Sheet[typeof op.prop]);
+  });
+
+  const known = new Set((sheet.auditLog || []).map(entry => entry.id));
+  const entries = ops.flatMap(op => 'entry' in op && !known.has(op.entry.id) ? [op.entry] : []);
+  if (entries.length > 0) next.auditLog = [...(sheet.auditLog || []), ...entries].sort((a, b) => a.time - b.time);
+  return next;
+};
+
+/**
+ * Stamps of one sheet in this tab. Local changes get a clock past everything
+ * seen so far; remote operations are kept only when they win.
+ */
+export const createSheetRegister = (client: string) => {
+  const stamps = new Map<string, CellStamp>();
+  let clock = 0;
+
+  const stamp = <T extends object>(change: T): T & CellStamp => {
+    clock++;
+    const op = { ...change, clock, client };
+    stamps.set(opKey(op as unknown as SheetOp), { clock, client });
+    return op;
+  };
+
+  return {
+    /** Operations for the differences between two versions of the sheet made in this tab. */
+    changes: (before: Sheet, after: Sheet): SheetOp[] => [
+      ...diffCells(before.data, after.data).map(stamp),
+      ...diffProperties(before, after).map(stamp),
+      ...diffAuditLog(before, after).map(entry => stamp({ entry }))
+    ],
+    /**
+     * Stamps operations made while disconnected again, past the `seen` ones, so they
+     * win over what colleagues changed meanwhile instead of losing to their clocks.
+     */
+    restamp: (ops: SheetOp[], seen: SheetOp[]): SheetOp[] => {
+      clock = seen.reduce((max, op) => Math.max(max, op.clock), clock);
+      return ops.map(stamp);
+    },
+    /** The remote operations that change this tab's sheet, in the order they should be applied. */
+    merge: (ops: SheetOp[]): SheetOp[] => ops.filter(op => {
+      clock = Math.max(clock, op.clock);
+      if ('prop' in op && !isValidPropertyOp(op)) return false;
+      const key = opKey(op);
+      if (!isNewerStamp(op, stamps.get(key))) return false;
+      stamps.set(key, { clock: op.clock, client: op.client });
+      return true;
+    })
+  };
+};
@@ -0,0 +1,220 @@
+import { CellStyle, CellValue, ConditionalRule, GradingScheme, Sheet, SheetData, ValidationRule } from '../types';
+import { generateUUID } from './excelUtils';
+import { isFormula, remapFormula } from './formulaEngine';
+import { displayText } from './searchUtils';
+import { getColumnCount, remapRuleColumns } from './sheetStructure';
+import { normalizeText } from './textUtils';
+
+// Inverse of splitSheet: joins class sheets back into one pauta
+
+export interface SheetMergeOptions {
+  name: string;
+  sourceHeader?: string; // Adds a column with the class of each row
+  idHeader?: string; // Rows with the same value here are the same student
+}
+
+export interface HeaderMismatch {
+  sheetName: string;
+  missing: string[]; // Headers of the merged sheet this sheet does not have
+}
+
+export interface SheetMergeResult {
+  sheet: Sheet;
+  mismatches: HeaderMismatch[];
+  duplicates: number; // Rows joined into an earlier row with the same ID
+  conflicts: number; // Cells left as in the earlier row because the values differ
+}
+
+// Unnamed columns can only be matched by position
+const columnKey = (header: CellValue | undefined, index: number) => normalizeText(header) || `#${index}`;
+
+const isEmpty = (value: CellValue | undefined) => value === null || value === undefined || value === "";
+
+/** "Pauta 2024 - 10ª A" -> "10ª A" when every sheet starts with "Pauta 2024 - ". */
+export const sourceLabels = (sheets: Sheet[]): string[] => {
+  const prefixes = sheets.map(s => {
+    const index = s.name.lastIndexOf(' - ');
+    return index === -1 ? null : s.name.substring(0, index + 3);
+  });
+  const shared = sheets.length > 1 && prefixes[0] && prefixes.every(p => p === prefixes[0]) ? prefixes[0] : null;
+  return sheets.map(s => shared ? s.name.substring(shared.length) : s.name);
+};
+
+/** Name for the merged sheet: the part the class sheets have in common. */
+export const suggestMergedName = (sheets: Sheet[]): string => {
+  const labels = sourceLabels(sheets);
+  const prefix = sheets[0] && labels[0] !== sheets[0].name ? sheets[0].name.slice(0, -labels[0].length - 3) : "";
+  return prefix ? `${prefix} (consolidada)` : "Pauta consolidada";
+};
+
+/** Headers of all sheets, in the order they first appear. */
+export const mergedHeaders = (sheets: Sheet[]): CellValue[] => {
+  const keys = new Set<string>();
+  const headers: CellValue[] = [];
+  sheets.forEach(sheet => {
+    (sheet.data[0] || []).forEach((header, c) => {
+      const key = columnKey(header, c);
+      if (keys.has(key)) return;
+      keys.add(key);
+      headers.push(header ?? "");
+    });
+  });
+  return headers;
+};
+
+// Same rule on the same column, whatever sheet it came from
+const ruleSignature = ({ id, ...rule }: ValidationRule | ConditionalRule) => JSON.stringify(rule);
+
+export const mergeSheets = (sheets: Sheet[], options: SheetMergeOptions): SheetMergeResult => {
+  const headers = mergedHeaders(sheets);
+  const keys = headers.map(columnKey);
+
+  let sourceColumn = -1;
+  if (options.sourceHeader && options.sourceHeader.trim()) {
+    sourceColumn = keys.indexOf(normalizeText(options.sourceHeader));
+    if (sourceColumn === -1) {
+      sourceColumn = headers.length;
+      headers.push(options.sourceHeader.trim());
+      keys.push(normalizeText(options.sourceHeader));
+    }
+  }
+  const idColumn = options.idHeader ? keys.indexOf(normalizeText(options.idHeader)) : -1;
+  const labels = sourceLabels(sheets);
+
+  // Source column -> merged column, per sheet
+  const columnMaps = sheets.map(sheet => {
+    const width = getColumnCount(sheet.data);
+    return Array.from({ length: width }, (_, c) => keys.indexOf(columnKey(sheet.data[0]?.[c], c)));
+  });
+
+  const mismatches: HeaderMismatch[] = [];
+  sheets.forEach((sheet, i) => {
+    const present = new Set(columnMaps[i]);
+    const missing = headers.filter((h, c) => c !== sourceColumn && !present.has(c)).map(h => displayText(h) || '(sem nome)');
+    if (missing.length > 0) mismatches.push({ sheetName: sheet.name, missing });
+  });
+
+  // First pass: where every row goes, so formulas can follow it
+  const rowMaps: number[][] = [];
+  const idRows = new Map<string, number>();
+  let rowCount = 1;
+  sheets.forEach((sheet, i) => {
+    const map = [0];
+    sheet.data.forEach((row, r) => {
+      if (r === 0) return;
+      if (!Array.isArray(row) || row.every(isEmpty)) {
+        map[r] = -1;
+        return;
+      }
+      const idIndex = columnMaps[i].indexOf(idColumn);
+      const id = idColumn !== -1 && idIndex !== -1 ? normalizeText(row[idIndex]) : "";
+      const existing = id ? idRows.get(id) : undefined;
+      if (existing !== undefined) {
+        map[r] = existing;
+        return;
+      }
+      map[r] = rowCount;
+      if (id) idRows.set(id, rowCount);
+      rowCount++;
+    });
+    rowMaps.push(map);
+  });
+
+  const data: SheetData = Array.from({ length: rowCount }, (_, r) => r === 0 ? [...headers] : Array(headers.length).fill(""));
+  const cellStyles: (CellStyle | null)[][] = [];
+  const filled = new Set<number>(); // Merged rows that already received a row
+  let duplicates = 0;
+  let conflicts = 0;
+
+  sheets.forEach((sheet, i) => {
+    const columnMap = columnMaps[i];
+    const rowMap = rowMaps[i];
+    const mapRow = (index: number) => rowMap[index] === undefined || rowMap[index] < 0 ? null : rowMap[index];
+    const mapCol = (index: number) => columnMap[index] === undefined || columnMap[index] < 0 ? null : columnMap[index];
+
+    sheet.data.forEach((row, r) => {
+      const target = rowMap[r];
+      if (r === 0 || target === undefined || target < 0 || !Array.isArray(row)) return;
+      const isDuplicate = filled.has(target);
+      if (isDuplicate) duplicates++;
+      filled.add(target);
+
+      row.forEach((value, c) => {
+        const col = columnMap[c];
+        if (col === undefined || col < 0 || isEmpty(value)) return;
+        const next = isFormula(value) ? remapFormula(value, mapRow, mapCol) : value;
+        const current = data[target][col];
+        if (isEmpty(current)) {
+          data[target][col] = next;
+          const style = sheet.cellStyles?.[r]?.[c];
+          if (style) (cellStyles[target] = cellStyles[target] || [])[col] = style;
+        } else if (isDuplicate && displayText(current) !== displayText(next)) {
+          conflicts++;
+        }
+      });
+      if (sourceColumn !== -1 && isEmpty(data[target][sourceColumn])) data[target][sourceColumn] = labels[i];
+    });
+  });
+
+  // Header styles and widths come from the first sheet that has each column
+  const columnWidths: (number | null)[] = Array(headers.length).fill(null);
+  sheets.forEach((sheet, i) => {
+    columnMaps[i].forEach((col, c) => {
+      if (col < 0) return;
+      const style = sheet.cellStyles?.[0]?.[c];
+      if (style && !cellStyles[0]?.[col]) (cellStyles[0] = cellStyles[0] || [])[col] = style;
+      const width = sheet.columnWidths?.[c];
+      if (width && !columnWidths[col]) columnWidths[col] = width;
+    });
+  });
+
+  const validationRules: ValidationRule[] = [];
+  const conditionalFormats: ConditionalRule[] = [];
+  const signatures = new Set<string>();
+  const addRules = <T extends ValidationRule | ConditionalRule>(target: T[], rules: T[] | undefined, columnMap: number[]) => {
+    (rules || []).forEach(rule => {
+      const columnIndex = columnMap[rule.columnIndex];
+      // Conditional formats may cover several columns
+      const mapped = 'condition' in rule
+        ? remapRuleColumns(rule, c => columnMap[c]) as T | null
+        : columnIndex === undefined || columnIndex < 0 ? null : { ...rule, columnIndex };
+      if (!mapped) return;
+      const signature = `${target === validationRules ? 'v' : 'c'}${ruleSignature(mapped)}`;
+      if (signatures.has(signature)) return;
+      signatures.add(signature);
+      target.push({ ...mapped, id: generateUUID() });
+    });
+  };
+
+  let gradingScheme: GradingScheme | undefined;
+  sheets.forEach((sheet, i) => {
+    addRules(validationRules, sheet.validationRules, columnMaps[i]);
+    addRules(conditionalFormats, sheet.conditionalFormats, columnMaps[i]);
+    if (!gradingScheme && sheet.gradingScheme) {
+      gradingScheme = {
+        ...sheet.gradingScheme,
+        components: sheet.gradingScheme.components.map(comp => ({
+          ...comp,
+          columnIndex: comp.columnIndex < 0 ? comp.columnIndex : columnMaps[i][comp.columnIndex] ?? -1
+        }))
+      };
+    }
+  });
+
+  return {
+    sheet: {
+      id: generateUUID(),
+      name: options.name.trim() || "Pauta consolidada",
+      data,
+      cellStyles: cellStyles.length > 0 ? Array.from({ length: cellStyles.length }, (_, r) => cellStyles[r] || []) : undefined,
+      columnWidths: columnWidths.some(w => w) ? columnWidths : undefined,
+      frozenRows: sheets.some(s => s.frozenRows) ? 1 : undefined,
+      validationRules,
+      conditionalFormats,
+      gradingScheme
+    },
+    mismatches,
+    duplicates,
+    conflicts
+  };
+};
@@ -0,0 +1,250 @@
+import { CellStyle, CellValue, Sheet, SheetData, SortKey } from '../types';
+import { generateUUID } from './excelUtils';
+import { columnLabel, evaluateSheet, isFormula, remapFormula, shiftFormula } from './formulaEngine';
+import { findHeaderIndex } from './grading';
+import { displayText } from './searchUtils';
+import { getColumnCount } from './sheetStructure';
+import { sortRowOrder } from './sortFilter';
+import { normalizeText } from './textUtils';
+import { findNameColumn } from './versionHistory';
+
+export interface SplitOptions {
+  keyColumns: number[]; // e.g. Classe + Turma + Período
+  nameTemplate: string; // "{planilha} - {Turma}"; placeholders are the key headers
+  sortKeys: SortKey[]; // Order of the students inside each class sheet
+  idColumn: number; // -1 = match rows by position when sending grades back
+}
+
+export interface SplitGroup {
+  key: string[];
+  name: string;
+  rows: number[]; // Rows of the original sheet, without the header
+}
+
+const collator = new Intl.Collator('pt', { sensitivity: 'base', numeric: true });
+
+const headerName = (headers: CellValue[], c: number) => displayText(headers[c]).trim() || columnLabel(c);
+
+const isEmptyRow = (row: CellValue[] | undefined) =>
+  !Array.isArray(row) || row.every(v => v === null || v === undefined || String(v).trim() === "");
+
+// Name (or first column) and class of a row of the original sheet; a class sheet
+// only writes back by position into a row that still has them
+const rowKey = (values: SheetData, r: number, keyColumns: number[]) => {
+  const nameColumn = findNameColumn(values[0] || []);
+  return JSON.stringify([nameColumn === -1 ? 0 : nameColumn, ...keyColumns].map(c => c === -1 ? "" : normalizeText(displayText(values[r]?.[c]))));
+};
+
+// Student number columns, most specific first
+export const findStudentIdColumn = (headers: CellValue[]): number => {
+  const names = headers.map(normalizeText);
+  const index = [
+    names.findIndex(h => h.includes('processo')),
+    names.findIndex(h => h === 'id' || h === 'bi' || h.includes('matricula')),
+    names.findIndex(h => ['n', 'no', 'nº', 'n.º', 'numero'].includes(h))
+  ].find(i => i !== -1);
+  return index ?? -1;
+};
+
+export const defaultNameTemplate = (headers: CellValue[], keyColumns: number[]) =>
+  `{planilha} - ${keyColumns.map(c => `{${headerName(headers, c)}}`).join(' ')}`;
+
+/** Fills "{planilha}" and "{<key header>}"; an empty key reads "Sem <header>". */
+export const applyNameTemplate = (template: string, sheetName: string, headers: CellValue[], keyColumns: number[], key: string[]) =>
+  template.replace(/\{([^}]+)\}/g, (match, name: string) => {
+    const target = normalizeText(name);
+    if (target === 'planilha') return sheetName;
+    const i = keyColumns.findIndex(c => normalizeText(headerName(headers, c)) === target);
+    if (i === -1) return match;
+    return key[i] || `Sem ${headerName(headers, keyColumns[i])}`;
+  }).replace(/\s+/g, ' ').trim();
+
+/** Rows of each class, in key order ("10ª A" before "10ª B", "Turma 2" before "Turma 10"). */
+export const groupRowsByKey = (sheet: Sheet, options: SplitOptions, takenNames: string[] = []): SplitGroup[] => {
+  const values = evaluateSheet(sheet.data);
+  const headers = sheet.data[0] || [];
+  const groups = new Map<string, SplitGroup>();
+
+  values.forEach((row, r) => {
+    if (r === 0 || isEmptyRow(sheet.data[r])) return;
+    const key = options.keyColumns.map(c => displayText(row?.[c]).trim());
+    const id = JSON.stringify(key.map(k => normalizeText(k)));
+    const group = groups.get(id);
+    if (group) group.rows.push(r);
+    else groups.set(id, { key, name: "", rows: [r] });
+  });
+
+  const sorted = [...groups.values()].sort((a, b) => {
+    for (let i = 0; i < a.key.length; i++) {
+      if (!a.key[i] !== !b.key[i]) return a.key[i] ? -1 : 1; // Rows without a class go last
+      const result = collator.compare(a.key[i], b.key[i]);
+      if (result !== 0) return result;
+    }
+    return 0;
+  });
+
+  // Sheet names have to be unique in the workbook
+  const used = new Set(takenNames.map(normalizeText));
+  sorted.forEach(group => {
+    const base = applyNameTemplate(options.nameTemplate, sheet.name, headers, options.keyColumns, group.key) || sheet.name;
+    let name = base;
+    for (let n = 2; used.has(normalizeText(name)); n++) name = `${base} (${n})`;
+    used.add(normalizeText(name));
+    group.name = name;
+  });
+  return sorted;
+};
+
+/**
+ * One sheet per class, keeping the rules, grading scheme and formatting of the
+ * original. Each class sheet remembers where its rows came from (splitSource).
+ */
+export const splitSheet = (sheet: Sheet, options: SplitOptions, takenNames: string[] = []): Sheet[] => {
+  if (!sheet.data || sheet.data.length < 2) return [];
+  const values = evaluateSheet(sheet.data);
+  const headers = sheet.data[0] || [];
+
+  return groupRowsByKey(sheet, options, takenNames).map(group => {
+    const groupRows = [0, ...group.rows];
+    const order = options.sortKeys.length > 0
+      ? sortRowOrder(groupRows.map(r => values[r]), options.sortKeys).map(i => groupRows[i])
+      : groupRows;
+
+    // Formulas follow their rows; references to rows of other classes become #REF!
+    const positions = new Map(order.map((old, index) => [old, index]));
+    const mapRow = (index: number) => positions.get(index) ?? null;
+    const mapCol = (index: number) => index;
+
+    const styles = sheet.cellStyles;
+    const cellStyles: (CellStyle | null)[][] | undefined = styles && order.map(r => styles[r] || []);
+
+    return {
+      id: generateUUID(),
+      name: group.name,
+      data: order.map(r => {
+        const row = Array.isArray(sheet.data[r]) ? sheet.data[r] : [];
+        return row.map(value => isFormula(value) ? remapFormula(value, mapRow, mapCol) : value);
+      }),
+      conditionalFormats: (sheet.conditionalFormats || []).map(rule => ({ ...rule, id: generateUUID() })),
+      validationRules: (sheet.validationRules || []).map(rule => ({ ...rule, id: generateUUID() })),
+      gradingScheme: sheet.gradingScheme,
+      cellStyles,
+      merges: sheet.merges?.filter(m => m.r2 === 0), // Only the header row exists in every class
+      columnWidths: sheet.columnWidths,
+      frozenRows: sheet.frozenRows ? 1 : undefined,
+      frozenColumns: sheet.frozenColumns,
+      hiddenColumns: sheet.hiddenColumns,
+      splitSource: {
+        sheetId: sheet.id,
+        keyHeaders: options.keyColumns.map(c => headerName(headers, c)),
+        key: group.key,
+        idHeader: options.idColumn >= 0 ? headerName(headers, options.idColumn) : undefined,
+        rows: order,
+        rowKeys: order.map(r => rowKey(values, r, options.keyColumns))
+      }
+    };
+  });
+};
+
+export interface SplitSyncResult {
+  parent: Sheet;
+  children: Sheet[]; // With the rows added to the parent linked to them
+  updated: number; // Cells changed in the parent
+  added: number; // Students that only existed in a class sheet
+  skipped: number; // Rows without an ID whose row in the parent was sorted, removed or renamed since the split
+}
+
+/**
+ * Sends the values typed in the class sheets back to the sheet they were split
+ * from. Rows are matched by the ID column (or by position when there is none,
+ * as long as the parent row still holds the same student), columns by header
+ * name; the class, name and ID columns of existing students are not changed.
+ */
+export const pushSplitToParent = (parent: Sheet, children: Sheet[]): SplitSyncResult => {
+  const data: SheetData = parent.data.map(row => Array.isArray(row) ? [...row] : []);
+  const parentHeaders = data[0] || [];
+  const width = Math.max(getColumnCount(data), parentHeaders.length);
+  const parentValues = evaluateSheet(parent.data);
+  let updated = 0;
+  let added = 0;
+  let skipped = 0;
+
+  const updatedChildren = children.map(child => {
+    const link = child.splitSource;
+    if (!link || link.sheetId !== parent.id) return child;
+
+    const childHeaders = child.data[0] || [];
+    const childValues = evaluateSheet(child.data);
+    const protectedHeaders = new Set(link.keyHeaders.map(normalizeText));
+
+    const parentIdColumn = findHeaderIndex(parentHeaders, link.idHeader);
+    const parentKeyColumns = link.keyHeaders.map(header => findHeaderIndex(parentHeaders, header));
+    const nameColumn = findNameColumn(parentHeaders);
+    const identityColumns = new Set([nameColumn, parentIdColumn].filter(c => c !== -1));
+    const childIdColumn = findHeaderIndex(childHeaders, link.idHeader);
+    const rowsById = new Map<string, number>();
+    if (parentIdColumn !== -1) {
+      parentValues.forEach((row, r) => {
+        const id = normalizeText(row?.[parentIdColumn]);
+        if (r > 0 && id && !rowsById.has(id)) rowsById.set(id, r);
+      });
+    }
+
+    // Child column -> parent column
+    const columnMap = childHeaders.map(header =>
+      protectedHeaders.has(normalizeText(header)) ? -1 : findHeaderIndex(parentHeaders, displayText(header))
+    );
+    const rows = [...link.rows];
+    const rowKeys = link.rows.map((_, r) => link.rowKeys?.[r] ?? null);
+
+    child.data.forEach((row, r) => {
+      if (r === 0 || isEmptyRow(row)) return;
+      const id = childIdColumn !== -1 && parentIdColumn !== -1 ? normalizeText(childValues[r]?.[childIdColumn]) : "";
+      let target = id ? rowsById.get(id) : undefined;
+      if (target === undefined && !id) {
+        const linked = link.rows[r];
+        if (linked !== null && linked !== undefined && linked > 0) {
+          // Sorting or deleting rows of the parent moves its students away from the rows recorded here
+          if (linked >= parent.data.length || rowKey(parentValues, linked, parentKeyColumns) !== rowKeys[r]) {
+            skipped++;
+            return;
+          }
+          target = linked;
+        }
+      }
+
+      const isNew = target === undefined;
+      if (target === undefined) {
+        // Formula columns continue the formulas of the last row, as when filling down
+        const last = data[data.length - 1] || [];
+        const newRow: CellValue[] = Array.from({ length: width }, (_, c) => isFormula(last[c]) ? shiftFormula(last[c] as string, 1, 0) : "");
+        link.keyHeaders.forEach((header, i) => {
+          const c = findHeaderIndex(parentHeaders, header);
+          const childColumn = findHeaderIndex(childHeaders, header);
+          if (c !== -1) newRow[c] = childColumn !== -1 ? row[childColumn] ?? link.key[i] : link.key[i];
+        });
+        target = data.length;
+        data.push(newRow);
+        if (id) rowsById.set(id, target);
+        added++;
+      }
+      rows[r] = target;
+
+      columnMap.forEach((pc, c) => {
+        if (pc < 0 || (!isNew && identityColumns.has(pc))) return;
+        const raw = row[c];
+        const value = isFormula(raw) ? childValues[r]?.[c] ?? "" : raw ?? "";
+        const current = data[target]?.[pc];
+        if (isFormula(current)) return; // Recalculated from the values sent
+        if (displayText(current) === displayText(value)) return;
+        data[target][pc] = value;
+        if (!isNew) updated++;
+      });
+      rowKeys[r] = isNew ? rowKey(data, target, parentKeyColumns) : rowKey(parentValues, target, parentKeyColumns);
+    });
+
+    return { ...child, splitSource: { ...link, rows, rowKeys } };
+  });
+
+  return { parent: { ...parent, data }, children: updatedChildren, updated, added, skipped };
+};
@@ -0,0 +1,199 @@
+import { CellRange, CellStyle, ConditionalRule, Sheet, SheetAxis, SheetData, StructureAction } from '../types';
+import { IndexMap, isFormula, remapFormula } from './formulaEngine';
+
+// For each position after the change, the index it had before (null = new).
+type AxisOrder = (number | null)[];
+
+export const createEmptyData = (rows: number, cols: number): SheetData =>
+  Array.from({ length: rows }, () => Array(cols).fill(""));
+
+export const getColumnCount = (data: SheetData) =>
+  data.reduce((max, row) => Math.max(max, Array.isArray(row) ? row.length : 0), 0);
+
+const range = (start: number, end: number) => Array.from({ length: Math.max(0, end - start) }, (_, i) => start + i);
+
+const buildOrder = (action: StructureAction, length: number): AxisOrder | null => {
+  switch (action.type) {
+    case 'insert': {
+      const index = Math.min(Math.max(0, action.index), length);
+      return [...range(0, index), ...Array(action.count).fill(null), ...range(index, length)];
+    }
+    case 'delete':
+      return range(0, length).filter(i => i < action.start || i >= action.start + action.count);
+    case 'move': {
+      const block = range(action.start, Math.min(length, action.start + action.count));
+      const rest = range(0, length).filter(i => i < action.start || i >= action.start + action.count);
+      const to = Math.min(Math.max(0, action.to), rest.length);
+      return [...rest.slice(0, to), ...block, ...rest.slice(to)];
+    }
+    default:
+      return null;
+  }
+};
+
+// Indices past the end of the data (formulas may reference them) shift with the length
+const buildIndexMap = (order: AxisOrder, oldLength: number): IndexMap => {
+  const positions = new Map<number, number>();
+  order.forEach((old, index) => {
+    if (old !== null) positions.set(old, index);
+  });
+  const offset = order.length - oldLength;
+  return (index: number) => index >= oldLength ? index + offset : positions.get(index) ?? null;
+};
+
+const remapIndices = (indices: number[] | undefined, map: IndexMap) =>
+  indices?.map(map).filter((i): i is number => i !== null).sort((a, b) => a - b);
+
+// -1 stays "not set"; a deleted column becomes not set
+const remapOptional = (index: number, map: IndexMap) => index < 0 ? index : map(index) ?? -1;
+
+const remapColumnRules = <T extends { columnIndex: number }>(rules: T[] | undefined, map: IndexMap) =>
+  rules?.flatMap(rule => {
+    const columnIndex = map(rule.columnIndex);
+    return columnIndex === null ? [] : [{ ...rule, columnIndex }];
+  });
+
+/**
+ * The rule with its columns moved by `map` (null = column deleted). The range
+ * becomes the span of the columns that are left; null when none is.
+ */
+export const remapRuleColumns = (rule: ConditionalRule, map: (index: number) => number | null | undefined): ConditionalRule | null => {
+  const { lastColumnIndex, ...rest } = rule;
+  const mapped: number[] = [];
+  for (let c = rule.columnIndex; c <= Math.max(rule.columnIndex, lastColumnIndex ?? rule.columnIndex); c++) {
+    const index = map(c);
+    if (index !== null && index !== undefined && index >= 0) mapped.push(index);
+  }
+  if (mapped.length === 0) return null;
+  const first = Math.min(...mapped);
+  const last = Math.max(...mapped);
+  return last > first ? { ...rest, columnIndex: first, lastColumnIndex: last } : { ...rest, columnIndex: first };
+};
+
+// Merged areas follow their cells; an area whose cells are no longer together is unmerged
+const remapMerges = (merges: CellRange[] | undefined, axis: SheetAxis, order: AxisOrder, map: IndexMap) =>
+  merges?.flatMap(merge => {
+    const [start, end] = axis === 'row' ? [merge.r1, merge.r2] : [merge.c1, merge.c2];
+    const mapped = range(start, end + 1).map(map).filter((i): i is number => i !== null);
+    if (mapped.length === 0) return [];
+    const first = Math.min(...mapped);
+    const last = Math.max(...mapped);
+    const positions = new Set(mapped);
+    if (range(first, last + 1).some(i => !positions.has(i) && order[i] !== null)) return [];
+    const next = axis === 'row' ? { ...merge, r1: first, r2: last } : { ...merge, c1: first, c2: last };
+    return next.r1 === next.r2 && next.c1 === next.c2 ? [] : [next];
+  });
+
+// Frozen panes end after the last frozen row/column that is still there
+const remapFrozen = (frozen: number | undefined, order: AxisOrder) => {
+  if (!frozen) return frozen;
+  let count = 0;
+  order.forEach((old, index) => {
+    if (old !== null && old < frozen) count = index + 1;
+  });
+  return count;
+};
+
+const applyOrder = (sheet: Sheet, axis: SheetAxis, order: AxisOrder): Sheet => {
+  const width = getColumnCount(sheet.data);
+  const map = buildIndexMap(order, axis === 'row' ? sheet.data.length : width);
+  const identity: IndexMap = index => index;
+  const mapRow = axis === 'row' ? map : identity;
+  const mapCol = axis === 'column' ? map : identity;
+
+  const reordered: SheetData = axis === 'row'
+    ? order.map(old => old === null ? Array(width).fill("") : sheet.data[old])
+    : sheet.data.map(row => order.map(old => old === null ? "" : (Array.isArray(row) ? row[old] ?? "" : "")));
+
+  const styles = sheet.cellStyles;
+  const cellStyles: (CellStyle | null)[][] | undefined = styles && (axis === 'row'
+    ? order.map(old => old === null ? [] : styles[old] || [])
+    : styles.map(row => Array.isArray(row) && row.length > 0 ? order.map(old => old === null ? null : row[old] ?? null) : []));
+
+  // Formulas keep pointing at the same cells; rows without formulas are reused as is
+  const data = reordered.map(row =>
+    Array.isArray(row) && row.some(isFormula)
+      ? row.map(value => isFormula(value) ? remapFormula(value, mapRow, mapCol) : value)
+      : row
+  );
+
+  if (axis === 'row') {
+    return {
+      ...sheet,
+      data,
+      cellStyles,
+      merges: remapMerges(sheet.merges, axis, order, map),
+      frozenRows: remapFrozen(sheet.frozenRows, order),
+      hiddenRows: remapIndices(sheet.hiddenRows, map),
+      splitSource: sheet.splitSource && {
+        ...sheet.splitSource,
+        rows: order.map(old => old === null ? null : sheet.splitSource?.rows[old] ?? null),
+        rowKeys: sheet.splitSource.rowKeys && order.map(old => old === null ? null : sheet.splitSource?.rowKeys?.[old] ?? null)
+      }
+    };
+  }
+
+  return {
+    ...sheet,
+    data,
+    cellStyles,
+    merges: remapMerges(sheet.merges, axis, order, map),
+    columnWidths: sheet.columnWidths && order.map(old => old === null ? null : sheet.columnWidths?.[old] ?? null),
+    frozenColumns: remapFrozen(sheet.frozenColumns, order),
+    hiddenColumns: remapIndices(sheet.hiddenColumns, map),
+    autoFilter: remapColumnRules(sheet.autoFilter, map),
+    conditionalFormats: sheet.conditionalFormats?.flatMap(rule => remapRuleColumns(rule, map) || []),
+    validationRules: remapColumnRules(sheet.validationRules, map),
+    reportCard: sheet.reportCard && {
+      ...sheet.reportCard,
+      nameColumn: remapOptional(sheet.reportCard.nameColumn, map),
+      numberColumn: remapOptional(sheet.reportCard.numberColumn, map),
+      classColumn: remapOptional(sheet.reportCard.classColumn, map),
+      gradeColumns: remapIndices(sheet.reportCard.gradeColumns, map) || [],
+      averageColumn: remapOptional(sheet.reportCard.averageColumn, map),
+      resultColumn: remapOptional(sheet.reportCard.resultColumn, map)
+    },
+    pageSetup: sheet.pageSetup && { ...sheet.pageSetup, breakColumn: remapOptional(sheet.pageSetup.breakColumn, map) },
+    gradingScheme: sheet.gradingScheme && {
+      ...sheet.gradingScheme,
+      // A deleted component column has to be chosen again in the grading editor
+      components: sheet.gradingScheme.components.map(comp => ({
+        ...comp,
+        columnIndex: comp.columnIndex < 0 ? comp.columnIndex : map(comp.columnIndex) ?? -1
+      }))
+    }
+  };
+};
+
+/** Puts the rows in the given order (old indices), e.g. after sorting. */
+export const reorderRows = (sheet: Sheet, order: number[]): Sheet => applyOrder(sheet, 'row', order);
+
+const setHidden = (sheet: Sheet, axis: SheetAxis, start: number, count: number, hidden: boolean): Sheet => {
+  const key = axis === 'row' ? 'hiddenRows' : 'hiddenColumns';
+  const current = new Set(sheet[key] || []);
+  range(start, start + count).forEach(i => hidden ? current.add(i) : current.delete(i));
+  return { ...sheet, [key]: [...current].sort((a, b) => a - b) };
+};
+
+/** Applies an insert/delete/move/hide action, remapping everything that points at rows or columns. */
+export const applyStructureAction = (sheet: Sheet, action: StructureAction): Sheet => {
+  if (action.type === 'hide' || action.type === 'unhide') {
+    return setHidden(sheet, action.axis, action.start, action.count, action.type === 'hide');
+  }
+  const length = action.axis === 'row' ? sheet.data.length : getColumnCount(sheet.data);
+  const order = buildOrder(action, length);
+  return order ? applyOrder(sheet, action.axis, order) : sheet;
+};
+
+/** Undo label for an action, e.g. "Inserir linhas". */
+export const describeStructureAction = (action: StructureAction): string => {
+  const noun = action.axis === 'row' ? 'linhas' : 'colunas';
+  const verbs: Record<StructureAction['type'], string> = {
+    insert: 'Inserir',
+    delete: 'Excluir',
+    move: 'Mover',
+    hide: 'Ocultar',
+    unhide: 'Mostrar'
+  };
+  return `${verbs[action.type]} ${noun}`;
+};
@@ -0,0 +1,110 @@
+import { CellValue, ColumnFilter, ConditionType, SheetData, SortKey } from '../types';
+import { parseNumeric } from './formulaEngine';
+
+// Portuguese ordering: "Ângela" next to "Ana", "Aluno 2" before "Aluno 10"
+const collator = new Intl.Collator('pt', { sensitivity: 'base', numeric: true });
+
+const isEmpty = (value: CellValue | undefined) =>
+  value === null || value === undefined || String(value).trim() === "";
+
+/** Text a value is listed and matched by in the filter menu. */
+export const filterText = (value: CellValue | undefined): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === 'boolean') return value ? 'VERDADEIRO' : 'FALSO';
+  return String(value).trim();
+};
+
+// Numbers before text; empty cells are handled by the caller
+const compareValues = (a: CellValue, b: CellValue): number => {
+  const na = typeof a === 'boolean' ? null : parseNumeric(a);
+  const nb = typeof b === 'boolean' ? null : parseNumeric(b);
+  if (na !== null && nb !== null) return na - nb;
+  if (na !== null) return -1;
+  if (nb !== null) return 1;
+  return collator.compare(filterText(a), filterText(b));
+};
+
+/**
+ * New row order (old indices) for sorting by `keys`, compared on the computed
+ * values. Row 0 is the header and stays first; empty cells go last in both
+ * directions; equal rows keep their relative order.
+ */
+export const sortRowOrder = (values: SheetData, keys: SortKey[]): number[] => {
+  const body = Array.from({ length: Math.max(0, values.length - 1) }, (_, i) => i + 1);
+  body.sort((ra, rb) => {
+    for (const key of keys) {
+      const a = values[ra]?.[key.columnIndex];
+      const b = values[rb]?.[key.columnIndex];
+      const emptyA = isEmpty(a);
+      const emptyB = isEmpty(b);
+      if (emptyA || emptyB) {
+        if (emptyA !== emptyB) return emptyA ? 1 : -1;
+        continue;
+      }
+      const result = compareValues(a, b);
+      if (result !== 0) return key.direction === 'asc' ? result : -result;
+    }
+    return 0;
+  });
+  return values.length > 0 ? [0, ...body] : [];
+};
+
+/** Same comparisons as the conditional formatting rules. */
+export const matchesCondition = (value: CellValue, condition: ConditionType, target: string | number): boolean => {
+  const numValue = typeof value === 'boolean' ? null : parseNumeric(value);
+  const numTarget = parseNumeric(target);
+
+  if (numValue !== null && numTarget !== null) {
+    switch (condition) {
+      case 'gt': return numValue > numTarget;
+      case 'lt': return numValue < numTarget;
+      case 'gte': return numValue >= numTarget;
+      case 'lte': return numValue <= numTarget;
+      case 'eq': return numValue === numTarget;
+    }
+  }
+
+  const text = filterText(value).toLowerCase();
+  const targetText = String(target).trim().toLowerCase();
+  if (condition === 'contains') return text.includes(targetText);
+  if (condition === 'eq') return collator.compare(text, targetText) === 0;
+  return false;
+};
+
+export const isFilterActive = (filter: ColumnFilter) =>
+  filter.values !== undefined || (!!filter.condition && (filter.conditionValue ?? "") !== "");
+
+const passesFilter = (value: CellValue, filter: ColumnFilter) => {
+  if (filter.values && !filter.values.includes(filterText(value))) return false;
+  if (filter.condition && (filter.conditionValue ?? "") !== "") {
+    return matchesCondition(value, filter.condition, filter.conditionValue!);
+  }
+  return true;
+};
+
+/** Rows (never the header) hidden by the active filters. */
+export const getFilteredOutRows = (values: SheetData, filters: ColumnFilter[] | undefined): Set<number> => {
+  const out = new Set<number>();
+  const active = (filters || []).filter(isFilterActive);
+  if (active.length === 0) return out;
+  for (let r = 1; r < values.length; r++) {
+    const row = values[r] || [];
+    if (!active.every(filter => passesFilter(row[filter.columnIndex], filter))) out.add(r);
+  }
+  return out;
+};
+
+/** Distinct values of a column below the header, sorted, with how often each occurs. */
+export const getColumnValueList = (values: SheetData, columnIndex: number) => {
+  const counts = new Map<string, number>();
+  for (let r = 1; r < values.length; r++) {
+    const text = filterText(values[r]?.[columnIndex]);
+    counts.set(text, (counts.get(text) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => {
+      if (a.value === "" || b.value === "") return a.value === "" ? 1 : -1;
+      return compareValues(a.value, b.value);
+    });
+};
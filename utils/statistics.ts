@@ -0,0 +1,152 @@
+import { CellValue, GradingScheme, Sheet, SheetData } from '../types';
+import { evaluateSheet, parseNumeric } from './formulaEngine';
+import { generateUUID } from './excelUtils';
+import { displayText } from './searchUtils';
+import { findStudentIdColumn } from './sheetSplit';
+import { getColumnCount } from './sheetStructure';
+
+// Grading scale a column is judged against; pass is null when unknown
+export interface GradeScale {
+  min: number;
+  max: number;
+  pass: number | null;
+}
+
+export interface HistogramBin {
+  label: string;
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface ColumnStats {
+  count: number; // Numeric values
+  missing: number; // Empty or non-numeric cells
+  mean: number;
+  median: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  passRate: number | null; // 0-1
+  histogram: HistogramBin[];
+}
+
+export interface GroupStats {
+  name: string;
+  stats: ColumnStats | null;
+}
+
+const isEmpty = (value: CellValue | undefined) => value === null || value === undefined || String(value).trim() === "";
+
+/** Columns where most filled cells below the header are numbers (the student number is left out). */
+export const findNumericColumns = (sheet: Sheet, values: SheetData): number[] => {
+  const headers = sheet.data[0] || [];
+  const idColumn = findStudentIdColumn(headers);
+  return Array.from({ length: getColumnCount(values) }, (_, c) => c).filter(c => {
+    if (c === idColumn) return false;
+    const filled = values.slice(1).map(row => row?.[c]).filter(v => !isEmpty(v));
+    const numbers = filled.filter(v => typeof v !== 'boolean' && parseNumeric(v) !== null);
+    return filled.length > 0 && numbers.length / filled.length >= 0.7;
+  });
+};
+
+/** The scale of the grading scheme when the values fit it, or 0–10 / 0–20 guessed from the largest grade. */
+export const detectGradeScale = (numbers: number[], scheme?: GradingScheme): GradeScale => {
+  const top = numbers.length > 0 ? Math.max(...numbers) : 0;
+  const bottom = numbers.length > 0 ? Math.min(...numbers) : 0;
+  if (scheme && bottom >= scheme.scaleMin && top <= scheme.scaleMax) {
+    return { min: scheme.scaleMin, max: scheme.scaleMax, pass: scheme.passThreshold };
+  }
+  if (bottom >= 0 && top <= 10) return { min: 0, max: 10, pass: 5 };
+  if (bottom >= 0 && top <= 20) return { min: 0, max: 20, pass: 10 };
+  return { min: bottom, max: top, pass: null };
+};
+
+const formatBound = (n: number) => String(Math.round(n * 10) / 10).replace('.', ',');
+
+// Whole-number bins on 0–10 and 0–20 scales, ten equal bins otherwise
+const buildHistogram = (numbers: number[], scale: GradeScale): HistogramBin[] => {
+  const span = scale.max - scale.min;
+  if (span <= 0) return [{ label: formatBound(scale.min), from: scale.min, to: scale.max, count: numbers.length }];
+  const step = span === 10 ? 1 : span === 20 ? 2 : span / 10;
+  const bins: HistogramBin[] = [];
+  for (let from = scale.min; from < scale.max - 1e-9; from += step) {
+    const to = Math.min(scale.max, from + step);
+    bins.push({ label: `${formatBound(from)}–${formatBound(to)}`, from, to, count: 0 });
+  }
+  numbers.forEach(n => {
+    const index = Math.min(bins.length - 1, Math.max(0, Math.floor((n - scale.min) / step)));
+    bins[index].count++;
+  });
+  return bins;
+};
+
+export const computeColumnStats = (cells: CellValue[], scale?: GradeScale): ColumnStats | null => {
+  const numbers = cells
+    .map(v => isEmpty(v) || typeof v === 'boolean' ? null : parseNumeric(v))
+    .filter((n): n is number => n !== null);
+  if (numbers.length === 0) return null;
+
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const mean = numbers.reduce((a, b) => a + b, 0) / numbers.length;
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  // Population deviation: the class is the whole population
+  const variance = numbers.reduce((sum, n) => sum + (n - mean) ** 2, 0) / numbers.length;
+  const gradeScale = scale || detectGradeScale(numbers);
+
+  return {
+    count: numbers.length,
+    missing: cells.length - numbers.length,
+    mean,
+    median,
+    stdDev: Math.sqrt(variance),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    passRate: gradeScale.pass === null ? null : numbers.filter(n => n >= gradeScale.pass!).length / numbers.length,
+    histogram: buildHistogram(numbers, gradeScale)
+  };
+};
+
+// Student rows only: the header and empty rows are not counted as missing grades
+const studentRows = (values: SheetData) =>
+  values.filter((row, r) => r > 0 && Array.isArray(row) && row.some(v => !isEmpty(v)));
+
+export const columnCells = (values: SheetData, columnIndex: number) => studentRows(values).map(row => row[columnIndex]);
+
+/** Statistics of one column per value of a class column, on a shared scale. */
+export const statsByGroup = (values: SheetData, columnIndex: number, groupColumn: number, scale: GradeScale): GroupStats[] => {
+  const groups = new Map<string, CellValue[]>();
+  studentRows(values).forEach(row => {
+    const name = displayText(row[groupColumn]).trim() || '(sem turma)';
+    groups.set(name, [...(groups.get(name) || []), row[columnIndex]]);
+  });
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b, 'pt', { numeric: true }))
+    .map(([name, cells]) => ({ name, stats: computeColumnStats(cells, scale) }));
+};
+
+/** Same comparison across class sheets, matching the column by its header. */
+export const statsBySheet = (sheets: Sheet[], header: string, scale: GradeScale): GroupStats[] =>
+  sheets.map(sheet => {
+    const values = evaluateSheet(sheet.data);
+    const columnIndex = (values[0] || []).findIndex(h => displayText(h).trim().toLowerCase() === header.trim().toLowerCase());
+    return { name: sheet.name, stats: columnIndex === -1 ? null : computeColumnStats(columnCells(values, columnIndex), scale) };
+  });
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/** The summary as a sheet, one row per column (or per class when comparing). */
+export const buildStatsSheet = (name: string, rows: { label: string; stats: ColumnStats | null }[], firstHeader: string): Sheet => ({
+  id: generateUUID(),
+  name,
+  data: [
+    [firstHeader, 'Alunos', 'Sem nota', 'Média', 'Mediana', 'Desvio padrão', 'Mínimo', 'Máximo', '% Aprovação'],
+    ...rows.map(({ label, stats }) => stats
+      ? [label, stats.count, stats.missing, round(stats.mean), round(stats.median), round(stats.stdDev), stats.min, stats.max, stats.passRate === null ? "" : round(stats.passRate * 100)]
+      : [label, 0, "", "", "", "", "", "", ""])
+  ],
+  conditionalFormats: [],
+  validationRules: [],
+  frozenRows: 1
+});
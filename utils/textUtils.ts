@@ -0,0 +1,4 @@
+// Accent/case-insensitive comparisons for Portuguese text ("Média" === "media")
+export const stripAccents = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+export const normalizeText = (value: unknown) => stripAccents(String(value ?? "")).toLowerCase().trim();
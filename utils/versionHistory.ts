@@ -0,0 +1,60 @@
+import { CellPosition, CellValue, Sheet, SheetData, SheetSnapshot } from '../types';
+import { generateUUID } from './excelUtils';
+import { applyCellChanges, diffCells } from './sheetCrdt';
+import { normalizeText } from './textUtils';
+
+export interface CellDiff {
+  r: number;
+  c: number;
+  before: CellValue;
+  after: CellValue;
+}
+
+// Interval between automatic snapshots of the sheets that changed
+export const AUTO_SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+
+export const createSnapshot = (sheet: Sheet, name: string, kind: SheetSnapshot['kind']): SheetSnapshot => ({
+  id: generateUUID(),
+  sheetId: sheet.id,
+  name,
+  kind,
+  createdAt: Date.now(),
+  sheet
+});
+
+/** Cells whose values differ between two versions of a sheet, row by row. */
+export const diffSheetData = (before: SheetData, after: SheetData): CellDiff[] =>
+  diffCells(before, after).map(({ r, c, value }) => ({ r, c, before: before[r]?.[c] ?? null, after: value }));
+
+/** Column with the students' names, or -1. */
+export const findNameColumn = (headers: CellValue[]) => headers.findIndex(h => {
+  const name = normalizeText(h);
+  return name.includes('nome') || name === 'aluno';
+});
+
+/** What identifies a row for the reader: the student's name when there is a name column. */
+export const rowLabel = (data: SheetData, r: number) => {
+  const nameColumn = findNameColumn(data[0] || []);
+  const value = data[r]?.[nameColumn === -1 ? 0 : nameColumn];
+  return value === null || value === undefined ? "" : String(value);
+};
+
+/**
+ * The sheet as it was in the snapshot. An existing sheet keeps its current access
+ * codes, sharing and audit log; a deleted one comes back with the codes it had, not shared.
+ */
+export const restoreSheet = (snapshot: SheetSnapshot, current?: Sheet): Sheet => current
+  ? {
+      ...snapshot.sheet,
+      id: current.id,
+      editCodeHash: current.editCodeHash,
+      viewCodeHash: current.viewCodeHash,
+      accessCodeExpiration: current.accessCodeExpiration,
+      isShared: current.isShared,
+      auditLog: current.auditLog
+    }
+  : { ...snapshot.sheet, isShared: false };
+
+/** Puts back the snapshot's values of some cells. */
+export const restoreCells = (data: SheetData, snapshot: SheetSnapshot, cells: CellPosition[]): SheetData =>
+  applyCellChanges(data, cells.map(({ r, c }) => ({ r, c, value: snapshot.sheet.data[r]?.[c] ?? "" })));
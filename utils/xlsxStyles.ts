@@ -0,0 +1,496 @@
+import * as XLSX from 'xlsx';
+import { BorderSide, BorderWeight, CellStyle, ConditionalRule, Sheet } from '../types';
+import { COLOR_SCALE_PRESETS, DEFAULT_BAR_COLOR, ruleLastColumn, ruleType } from './conditionalFormat';
+import { columnLabel } from './formulaEngine';
+import { getColumnCount } from './sheetStructure';
+
+// SheetJS reads and writes values, merges and widths, but not fonts, fills, borders,
+// frozen panes or conditional formats. This module reads those straight from the
+// XML inside the .xlsx zip, and patches them into the files SheetJS writes.
+
+/** Formatting of one worksheet, in absolute sheet coordinates. */
+export interface XlsxSheetFormatting {
+  styles: { r: number; c: number; style: CellStyle }[];
+  frozenRows: number;
+  frozenColumns: number;
+}
+
+const BORDER_SIDES: BorderSide[] = ['top', 'right', 'bottom', 'left'];
+
+// Office theme colours by theme index (lt1, dk1, lt2, dk2, accent1-6)
+const THEME_COLORS = ['FFFFFF', '000000', 'E7E6E6', '44546A', '4472C4', 'ED7D31', 'A5A5A5', 'FFC000', '5B9BD5', '70AD47'];
+const INDEXED_COLORS: Record<number, string> = {
+  8: '000000', 9: 'FFFFFF', 10: 'FF0000', 11: '00FF00', 12: '0000FF', 13: 'FFFF00', 14: 'FF00FF', 15: '00FFFF',
+  16: '800000', 17: '008000', 18: '000080', 19: '808000', 20: '800080', 21: '008080', 22: 'C0C0C0', 23: '808080'
+};
+
+// Built-in number formats that need no <numFmt> entry
+const BUILTIN_FORMATS: Record<string, number> = {
+  'General': 0, '0': 1, '0.00': 2, '#,##0': 3, '#,##0.00': 4, '0%': 9, '0.00%': 10, '0.00E+00': 11, 'dd/mm/yyyy': 14, '@': 49
+};
+
+// --- XML helpers ---
+
+const unescapeXml = (text: string) =>
+  text.replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const readAttrs = (tag: string | undefined): Record<string, string> => {
+  const attrs: Record<string, string> = {};
+  if (!tag) return attrs;
+  const open = tag.slice(0, tag.indexOf('>') + 1);
+  for (const match of open.matchAll(/([\w:]+)="([^"]*)"/g)) attrs[match[1]] = unescapeXml(match[2]);
+  return attrs;
+};
+
+// Elements named `tag` (not `tags`), self-closing or with content
+const elements = (xml: string, tag: string): string[] =>
+  xml.match(new RegExp(`<${tag}\\b[^>]*?(?:/>|>[\\s\\S]*?</${tag}>)`, 'g')) || [];
+
+const firstElement = (xml: string, tag: string): string | undefined => elements(xml, tag)[0];
+
+// Boolean font properties are written as <b/>, <b val="1"/> or <b val="0"/>
+const hasFlag = (xml: string, tag: string) => {
+  const el = xml.match(new RegExp(`<${tag}(\\s[^>]*)?/?>`));
+  return !!el && !/val="(0|false)"/.test(el[0]);
+};
+
+// Excel tints lighten (> 0) or darken (< 0) a theme colour
+const applyTint = (hex: string, tint: number) => {
+  const channels = [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16));
+  return channels.map(v => {
+    const tinted = tint < 0 ? v * (1 + tint) : v + (255 - v) * tint;
+    return Math.round(tinted).toString(16).padStart(2, '0');
+  }).join('').toUpperCase();
+};
+
+const readColor = (tag: string | undefined): string | undefined => {
+  const attrs = readAttrs(tag);
+  let hex: string | undefined;
+  if (attrs.rgb) hex = attrs.rgb.slice(-6).toUpperCase();
+  else if (attrs.theme !== undefined) hex = THEME_COLORS[Number(attrs.theme)];
+  else if (attrs.indexed !== undefined) hex = INDEXED_COLORS[Number(attrs.indexed)];
+  if (!hex) return undefined;
+  return '#' + (attrs.tint ? applyTint(hex, Number(attrs.tint)) : hex);
+};
+
+const borderWeight = (style: string | undefined): BorderWeight | undefined => {
+  if (!style || style === 'none') return undefined;
+  if (style === 'thick') return 'thick';
+  if (style.startsWith('medium') || style === 'double') return 'medium';
+  return 'thin';
+};
+
+// The parts of the container XLSX.CFB reads and writes (CFB$Container of the cfb
+// package) used here; SheetJS declares XLSX.CFB without types
+interface ZipEntry {
+  name: string;
+  content: Uint8Array | number[];
+}
+
+interface ZipContainer {
+  FullPaths: string[];
+  FileIndex: ZipEntry[];
+}
+
+// Zip entries are looked up from the root, e.g. "/xl/styles.xml"
+const readZipText = (zip: ZipContainer, path: string): string => {
+  const entry: ZipEntry | null = XLSX.CFB.find(zip, `/${path}`);
+  return entry?.content ? new TextDecoder().decode(new Uint8Array(entry.content)) : "";
+};
+
+const writeZipText = (zip: ZipContainer, path: string, text: string) => {
+  XLSX.CFB.utils.cfb_add(zip, `/${path}`, new TextEncoder().encode(text));
+};
+
+// --- Reading ---
+
+type PartialStyle = Partial<CellStyle>;
+
+const parseFonts = (xml: string): PartialStyle[] => {
+  const fonts = elements(xml, 'font');
+  const base = fonts[0] || "";
+  const baseSize = readAttrs(firstElement(base, 'sz')).val;
+  const baseName = readAttrs(firstElement(base, 'name')).val;
+
+  return fonts.map(font => {
+    const style: PartialStyle = {};
+    if (hasFlag(font, 'b')) style.bold = true;
+    if (hasFlag(font, 'i')) style.italic = true;
+    if (hasFlag(font, 'u')) style.underline = true;
+    // Size and typeface only when they differ from the workbook default
+    const size = readAttrs(firstElement(font, 'sz')).val;
+    if (size && size !== baseSize) style.fontSize = Number(size);
+    const name = readAttrs(firstElement(font, 'name')).val;
+    if (name && name !== baseName) style.fontName = name;
+    const color = readColor(firstElement(font, 'color'));
+    if (color && color !== '#000000') style.color = color;
+    return style;
+  });
+};
+
+const parseFills = (xml: string): PartialStyle[] =>
+  elements(xml, 'fill').map(fill => {
+    const pattern = firstElement(fill, 'patternFill');
+    if (!pattern || readAttrs(pattern).patternType !== 'solid') return {};
+    const color = readColor(firstElement(pattern, 'fgColor'));
+    return color ? { backgroundColor: color } : {};
+  });
+
+const parseBorders = (xml: string): PartialStyle[] =>
+  elements(xml, 'border').map(border => {
+    const borders: CellStyle['borders'] = {};
+    BORDER_SIDES.forEach(side => {
+      const weight = borderWeight(readAttrs(firstElement(border, side)).style);
+      if (weight) borders[side] = weight;
+    });
+    return Object.keys(borders).length > 0 ? { borders } : {};
+  });
+
+const parseCellXfs = (stylesXml: string): (CellStyle | null)[] => {
+  const section = (tag: string) => firstElement(stylesXml, tag) || "";
+  const fonts = parseFonts(section('fonts'));
+  const fills = parseFills(section('fills'));
+  const borders = parseBorders(section('borders'));
+
+  return elements(section('cellXfs'), 'xf').map(xf => {
+    const attrs = readAttrs(xf);
+    const alignment = readAttrs(firstElement(xf, 'alignment'));
+    const style: CellStyle = {
+      ...fonts[Number(attrs.fontId) || 0],
+      ...fills[Number(attrs.fillId) || 0],
+      ...borders[Number(attrs.borderId) || 0]
+    };
+    if (alignment.horizontal === 'left' || alignment.horizontal === 'right') style.align = alignment.horizontal;
+    if (alignment.horizontal === 'center' || alignment.horizontal === 'centerContinuous') style.align = 'center';
+    if (alignment.vertical === 'top' || alignment.vertical === 'bottom') style.verticalAlign = alignment.vertical;
+    if (alignment.vertical === 'center') style.verticalAlign = 'middle';
+    if (alignment.wrapText === '1' || alignment.wrapText === 'true') style.wrap = true;
+    return Object.keys(style).length > 0 ? style : null;
+  });
+};
+
+// Worksheet XML path of each sheet name, from the workbook relationships
+const sheetPaths = (zip: ZipContainer): Map<string, string> => {
+  const targets = new Map<string, string>();
+  elements(readZipText(zip, 'xl/_rels/workbook.xml.rels'), 'Relationship').forEach(rel => {
+    const { Id, Target } = readAttrs(rel);
+    if (Id && Target) targets.set(Id, Target.startsWith('/') ? Target.slice(1) : `xl/${Target}`);
+  });
+
+  const paths = new Map<string, string>();
+  elements(readZipText(zip, 'xl/workbook.xml'), 'sheet').forEach(sheet => {
+    const attrs = readAttrs(sheet);
+    const target = targets.get(attrs['r:id']);
+    if (attrs.name && target) paths.set(attrs.name, target);
+  });
+  return paths;
+};
+
+/** Cell formatting and frozen panes of every worksheet in an .xlsx file, by sheet name. */
+export const readXlsxFormatting = (data: string): Map<string, XlsxSheetFormatting> => {
+  const result = new Map<string, XlsxSheetFormatting>();
+  const zip: ZipContainer = XLSX.CFB.read(data, { type: 'binary' });
+  const xfs = parseCellXfs(readZipText(zip, 'xl/styles.xml'));
+
+  sheetPaths(zip).forEach((path, name) => {
+    const xml = readZipText(zip, path);
+    const styles: XlsxSheetFormatting['styles'] = [];
+    for (const match of xml.matchAll(/<c\b[^>]*>/g)) {
+      const attrs = readAttrs(match[0]);
+      const style = attrs.s ? xfs[Number(attrs.s)] : null;
+      if (!style || !attrs.r) continue;
+      const { r, c } = XLSX.utils.decode_cell(attrs.r);
+      styles.push({ r, c, style });
+    }
+
+    const pane = readAttrs(firstElement(xml, 'pane'));
+    const frozen = pane.state === 'frozen' || pane.state === 'frozenSplit';
+    result.set(name, {
+      styles,
+      frozenRows: frozen ? Number(pane.ySplit) || 0 : 0,
+      frozenColumns: frozen ? Number(pane.xSplit) || 0 : 0
+    });
+  });
+  return result;
+};
+
+// --- Writing ---
+
+// Collects distinct entries and hands out their index
+class Registry {
+  private indices = new Map<string, number>();
+  readonly items: string[];
+
+  constructor(defaults: string[]) {
+    this.items = [...defaults];
+    defaults.forEach((item, i) => this.indices.set(item, i));
+  }
+
+  add(item: string): number {
+    let index = this.indices.get(item);
+    if (index === undefined) {
+      index = this.items.length;
+      this.items.push(item);
+      this.indices.set(item, index);
+    }
+    return index;
+  }
+}
+
+const argb = (color: string) => 'FF' + color.replace('#', '').toUpperCase();
+
+const fontXml = (style: CellStyle) =>
+  '<font>' +
+  (style.bold ? '<b/>' : '') +
+  (style.italic ? '<i/>' : '') +
+  (style.underline ? '<u/>' : '') +
+  `<sz val="${style.fontSize || 11}"/>` +
+  (style.color ? `<color rgb="${argb(style.color)}"/>` : '<color theme="1"/>') +
+  `<name val="${escapeXml(style.fontName || 'Calibri')}"/><family val="2"/></font>`;
+
+const fillXml = (color: string) =>
+  `<fill><patternFill patternType="solid"><fgColor rgb="${argb(color)}"/><bgColor indexed="64"/></patternFill></fill>`;
+
+const borderXml = (borders: NonNullable<CellStyle['borders']>) =>
+  '<border>' +
+  (['left', 'right', 'top', 'bottom'] as BorderSide[]).map(side =>
+    borders[side] ? `<${side} style="${borders[side]}"><color auto="1"/></${side}>` : `<${side}/>`
+  ).join('') +
+  '<diagonal/></border>';
+
+const DEFAULT_FONT = fontXml({});
+
+class StyleSheetBuilder {
+  private fonts = new Registry([DEFAULT_FONT]);
+  private fills = new Registry(['<fill><patternFill patternType="none"/></fill>', '<fill><patternFill patternType="gray125"/></fill>']);
+  private borders = new Registry(['<border><left/><right/><top/><bottom/><diagonal/></border>']);
+  private numFmts = new Registry([]);
+  private xfs = new Registry(['<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>']);
+  private dxfs = new Registry([]);
+
+  /** Index in cellXfs for a style (0 = default). */
+  xf(style: CellStyle): number {
+    const fontId = this.fonts.add(fontXml(style));
+    const fillId = style.backgroundColor ? this.fills.add(fillXml(style.backgroundColor)) : 0;
+    const borderId = style.borders && Object.keys(style.borders).length > 0 ? this.borders.add(borderXml(style.borders)) : 0;
+
+    let numFmtId = 0;
+    if (style.numberFormat) {
+      numFmtId = BUILTIN_FORMATS[style.numberFormat] ?? 164 + this.numFmts.add(style.numberFormat);
+    }
+
+    const alignment: string[] = [];
+    if (style.align) alignment.push(`horizontal="${style.align}"`);
+    if (style.verticalAlign) alignment.push(`vertical="${style.verticalAlign === 'middle' ? 'center' : style.verticalAlign}"`);
+    if (style.wrap) alignment.push('wrapText="1"');
+
+    const applies = [
+      fontId ? ' applyFont="1"' : '',
+      fillId ? ' applyFill="1"' : '',
+      borderId ? ' applyBorder="1"' : '',
+      numFmtId ? ' applyNumberFormat="1"' : '',
+      alignment.length ? ' applyAlignment="1"' : ''
+    ].join('');
+    const head = `<xf numFmtId="${numFmtId}" fontId="${fontId}" fillId="${fillId}" borderId="${borderId}" xfId="0"${applies}`;
+    return this.xfs.add(alignment.length ? `${head}><alignment ${alignment.join(' ')}/></xf>` : `${head}/>`);
+  }
+
+  /** Index in dxfs for the look of a conditional format. */
+  dxf(rule: ConditionalRule): number {
+    return this.dxfs.add(
+      `<dxf><font>${rule.style.bold ? '<b/>' : ''}<color rgb="${argb(rule.style.color)}"/></font>` +
+      `<fill><patternFill patternType="solid"><bgColor rgb="${argb(rule.style.backgroundColor)}"/></patternFill></fill></dxf>`
+    );
+  }
+
+  toXml(): string {
+    const list = (tag: string, items: string[]) => `<${tag} count="${items.length}">${items.join('')}</${tag}>`;
+    const numFmts = this.numFmts.items.map((code, i) => `<numFmt numFmtId="${164 + i}" formatCode="${escapeXml(code)}"/>`);
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      (numFmts.length ? list('numFmts', numFmts) : '') +
+      list('fonts', this.fonts.items) +
+      list('fills', this.fills.items) +
+      list('borders', this.borders.items) +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      list('cellXfs', this.xfs.items) +
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+      list('dxfs', this.dxfs.items) +
+      '<tableStyles count="0" defaultTableStyle="TableStyleMedium9" defaultPivotStyle="PivotStyleMedium4"/>' +
+      '</styleSheet>';
+  }
+}
+
+const CELL_IS_OPERATORS: Record<string, string> = {
+  gt: 'greaterThan', lt: 'lessThan', gte: 'greaterThanOrEqual', lte: 'lessThanOrEqual', eq: 'equal'
+};
+
+const isNumericLiteral = (value: string | number) =>
+  typeof value === 'number' || (String(value).trim() !== "" && !isNaN(Number(String(value).replace(',', '.'))));
+
+const excelLiteral = (value: string | number) =>
+  isNumericLiteral(value)
+    ? String(value).replace(',', '.')
+    : `"${String(value).replace(/"/g, '""')}"`;
+
+// A highlight condition as an Excel formula on one cell, for rules that colour the whole row
+const conditionFormula = (rule: ConditionalRule, ref: string, range: string): string => {
+  const literal = excelLiteral(rule.value);
+  const numeric = (test: string) => isNumericLiteral(rule.value) ? `AND(ISNUMBER(${ref}),${test})` : test;
+  switch (rule.condition) {
+    case 'gt': return numeric(`${ref}>${literal}`);
+    case 'gte': return numeric(`${ref}>=${literal}`);
+    case 'lt': return numeric(`${ref}<${literal}`);
+    case 'lte': return numeric(`${ref}<=${literal}`);
+    case 'eq': return numeric(`${ref}=${literal}`);
+    case 'contains': return `ISNUMBER(SEARCH("${String(rule.value).replace(/"/g, '""')}",${ref}))`;
+    case 'between': return `AND(ISNUMBER(${ref}),${ref}>=MIN(${literal},${excelLiteral(rule.value2 ?? "")}),${ref}<=MAX(${literal},${excelLiteral(rule.value2 ?? "")}))`;
+    case 'empty': return `LEN(TRIM(${ref}))=0`;
+    case 'notEmpty': return `LEN(TRIM(${ref}))>0`;
+    case 'duplicate': return `AND(LEN(TRIM(${ref}))>0,COUNTIF(${range},${ref})>1)`;
+    case 'top': return `AND(ISNUMBER(${ref}),${ref}>=LARGE(${range},MIN(${literal},COUNT(${range}))))`;
+    case 'bottom': return `AND(ISNUMBER(${ref}),${ref}<=SMALL(${range},MIN(${literal},COUNT(${range}))))`;
+  }
+};
+
+// Our rules apply to their columns below the header row, in the order listed
+const conditionalFormattingXml = (sheet: Sheet, builder: StyleSheetBuilder): string => {
+  const lastRow = Math.max(2, sheet.data.length);
+  const width = Math.max(1, getColumnCount(sheet.data));
+  let priority = 1;
+  return (sheet.conditionalFormats || []).map(rule => {
+    const column = columnLabel(rule.columnIndex);
+    const lastColumn = columnLabel(ruleLastColumn(rule));
+    const sqref = `${column}2:${lastColumn}${lastRow}`;
+    const block = (cfRule: string, ref = sqref) => `<conditionalFormatting sqref="${ref}">${cfRule}</conditionalFormatting>`;
+    const type = ruleType(rule);
+
+    if (type === 'colorScale') {
+      const colors = rule.colors && rule.colors.length >= 2 ? rule.colors : COLOR_SCALE_PRESETS[0].colors;
+      const stops = colors.length >= 3 ? '<cfvo type="min"/><cfvo type="percentile" val="50"/><cfvo type="max"/>' : '<cfvo type="min"/><cfvo type="max"/>';
+      return block(`<cfRule type="colorScale" priority="${priority++}"><colorScale>${stops}` +
+        colors.slice(0, 3).map(color => `<color rgb="${argb(color)}"/>`).join('') + '</colorScale></cfRule>');
+    }
+    if (type === 'dataBar') {
+      return block(`<cfRule type="dataBar" priority="${priority++}"><dataBar><cfvo type="num" val="0"/><cfvo type="max"/>` +
+        `<color rgb="${argb(rule.colors?.[0] || DEFAULT_BAR_COLOR)}"/></dataBar></cfRule>`);
+    }
+
+    const dxfId = builder.dxf(rule);
+    if (rule.wholeRow) {
+      const range = `$${column}$2:$${lastColumn}$${lastRow}`;
+      const tests = [];
+      for (let c = rule.columnIndex; c <= ruleLastColumn(rule); c++) tests.push(conditionFormula(rule, `$${columnLabel(c)}2`, range));
+      const formula = tests.length === 1 ? tests[0] : `OR(${tests.join(',')})`;
+      return block(`<cfRule type="expression" dxfId="${dxfId}" priority="${priority++}"><formula>${escapeXml(formula)}</formula></cfRule>`,
+        `A2:${columnLabel(width - 1)}${lastRow}`);
+    }
+
+    const head = `<cfRule dxfId="${dxfId}" priority="${priority++}"`;
+    const cell = `${column}2`;
+    switch (rule.condition) {
+      case 'contains': {
+        const text = String(rule.value);
+        return block(`${head} type="containsText" operator="containsText" text="${escapeXml(text)}">` +
+          `<formula>${escapeXml(`NOT(ISERROR(SEARCH("${text.replace(/"/g, '""')}",${cell})))`)}</formula></cfRule>`);
+      }
+      case 'between': {
+        const [low, high] = [rule.value, rule.value2 ?? ""].map(excelLiteral);
+        return block(`${head} type="cellIs" operator="between"><formula>${escapeXml(low)}</formula><formula>${escapeXml(high)}</formula></cfRule>`);
+      }
+      case 'empty':
+        return block(`${head} type="containsBlanks"><formula>${escapeXml(`LEN(TRIM(${cell}))=0`)}</formula></cfRule>`);
+      case 'notEmpty':
+        return block(`${head} type="notContainsBlanks"><formula>${escapeXml(`LEN(TRIM(${cell}))>0`)}</formula></cfRule>`);
+      case 'duplicate':
+        return block(`${head} type="duplicateValues"/>`);
+      case 'top':
+      case 'bottom':
+        return block(`${head} type="top10" rank="${Math.max(1, Math.floor(Number(String(rule.value).replace(',', '.')) || 1))}"${rule.condition === 'bottom' ? ' bottom="1"' : ''}/>`);
+      default:
+        return block(`${head} type="cellIs" operator="${CELL_IS_OPERATORS[rule.condition]}"><formula>${escapeXml(excelLiteral(rule.value))}</formula></cfRule>`);
+    }
+  }).join('');
+};
+
+const paneXml = (rows: number, cols: number) => {
+  const activePane = rows && cols ? 'bottomRight' : rows ? 'bottomLeft' : 'topRight';
+  const topLeft = XLSX.utils.encode_cell({ r: rows, c: cols });
+  return `<pane${cols ? ` xSplit="${cols}"` : ''}${rows ? ` ySplit="${rows}"` : ''} topLeftCell="${topLeft}" activePane="${activePane}" state="frozen"/>` +
+    `<selection pane="${activePane}" activeCell="${topLeft}" sqref="${topLeft}"/>`;
+};
+
+// Sets the style index on every cell, adding empty cells that only carry formatting
+const rewriteSheetData = (xml: string, sheet: Sheet, builder: StyleSheetBuilder): string => {
+  const rows = new Map<number, { attrs: string; cells: Map<number, string> }>();
+  const sheetData = xml.match(/<sheetData\/>|<sheetData>([\s\S]*?)<\/sheetData>/);
+  if (!sheetData) return xml;
+
+  for (const rowMatch of (sheetData[1] || "").matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowIndex = Number(readAttrs(`<row${rowMatch[1]}>`).r) - 1;
+    const cells = new Map<number, string>();
+    for (const cell of (rowMatch[2] || "").match(/<c\b[^>]*?(?:\/>|>[\s\S]*?<\/c>)/g) || []) {
+      const { c } = XLSX.utils.decode_cell(readAttrs(cell).r);
+      cells.set(c, cell.replace(/\s+s="\d+"/, ''));
+    }
+    rows.set(rowIndex, { attrs: rowMatch[1].replace(/\s+spans="[^"]*"/, ''), cells });
+  }
+
+  (sheet.cellStyles || []).forEach((styleRow, r) => {
+    if (!Array.isArray(styleRow)) return;
+    styleRow.forEach((style, c) => {
+      if (!style) return;
+      const xf = builder.xf(style);
+      if (xf === 0) return;
+      if (!rows.has(r)) rows.set(r, { attrs: ` r="${r + 1}"`, cells: new Map() });
+      const row = rows.get(r)!;
+      const ref = XLSX.utils.encode_cell({ r, c });
+      const cell = row.cells.get(c);
+      row.cells.set(c, cell ? cell.replace(/^<c\b/, `<c s="${xf}"`) : `<c r="${ref}" s="${xf}"/>`);
+    });
+  });
+
+  const body = [...rows.entries()].sort((a, b) => a[0] - b[0]).map(([, row]) =>
+    `<row${row.attrs}>${[...row.cells.entries()].sort((a, b) => a[0] - b[0]).map(([, cell]) => cell).join('')}</row>`
+  ).join('');
+  return xml.replace(sheetData[0], body ? `<sheetData>${body}</sheetData>` : '<sheetData/>');
+};
+
+// Elements that come after <conditionalFormatting> in a worksheet
+const AFTER_CONDITIONAL_FORMATTING = ['dataValidations', 'hyperlinks', 'printOptions', 'pageMargins', 'pageSetup', 'headerFooter', 'ignoredErrors', 'drawing', 'legacyDrawing', 'tableParts', 'extLst'];
+
+/**
+ * Adds cell styles, frozen panes and conditional formats to an .xlsx written by
+ * SheetJS. `sheets` must be in the order they were appended to the workbook.
+ */
+export const applyXlsxFormatting = (file: ArrayBuffer | Uint8Array, sheets: Sheet[]): Uint8Array => {
+  const zip: ZipContainer = XLSX.CFB.read(new Uint8Array(file), { type: 'buffer' });
+  const builder = new StyleSheetBuilder();
+
+  sheets.forEach((sheet, i) => {
+    const path = `xl/worksheets/sheet${i + 1}.xml`;
+    let xml = readZipText(zip, path);
+    if (!xml) return;
+
+    xml = rewriteSheetData(xml, sheet, builder);
+
+    if (sheet.frozenRows || sheet.frozenColumns) {
+      xml = xml.replace(/<sheetView\b([^>]*?)\/>/, (_, attrs) => `<sheetView${attrs}>${paneXml(sheet.frozenRows || 0, sheet.frozenColumns || 0)}</sheetView>`);
+    }
+
+    const formatting = conditionalFormattingXml(sheet, builder);
+    if (formatting) {
+      const next = AFTER_CONDITIONAL_FORMATTING.map(tag => xml.search(new RegExp(`<${tag}\\b`))).filter(i => i >= 0);
+      const at = next.length > 0 ? Math.min(...next) : xml.lastIndexOf('</worksheet>');
+      xml = xml.slice(0, at) + formatting + xml.slice(at);
+    }
+
+    writeZipText(zip, path, xml);
+  });
+
+  writeZipText(zip, 'xl/styles.xml', builder.toXml());
+  return new Uint8Array(XLSX.CFB.write(zip, { fileType: 'zip', type: 'array', compression: true }));
+};